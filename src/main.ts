@@ -50,7 +50,7 @@
  * @license MIT
  */
 
-import { App, FileSystemAdapter, Menu, MenuItem, Plugin, TFile, TAbstractFile, WorkspaceLeaf, WorkspaceSplit as ObsidianWorkspaceSplit, Notice, setIcon } from 'obsidian';
+import { App, FileSystemAdapter, Menu, MenuItem, Plugin, TFile, getLinkpath, TAbstractFile, WorkspaceLeaf, WorkspaceSplit as ObsidianWorkspaceSplit, Notice, setIcon, getAllTags } from 'obsidian';
 
 // Import utility modules
 import { TIMING } from './utils/constants';
@@ -72,7 +72,14 @@ import {
 	UID_FRONTMATTER_KEY,
 	DEFAULT_WORKSPACE_ID,
 	WorkspaceId,
-	TimestampedArrangement
+	TimestampedArrangement,
+	ArrangementLabel,
+	EditorRangeState,
+	FoldRangeState,
+	AlongsideTarget,
+	StorageMode,
+	AUTO_RESTORE_FRONTMATTER_KEY,
+	AUTOSAVE_FRONTMATTER_KEY
 } from './types';
 import { getWorkspacesInstance } from './types/obsidian-internal';
 import { slugifyWorkspaceName } from './storage/external-store';
@@ -90,6 +97,18 @@ import {
 	getScrollPosition,
 	getCanvasViewport,
 	hasFile,
+	isNonFileView,
+	getMarkdownViewMode,
+	markdownViewModeState,
+	getEditorSelections,
+	applyEditorSelections,
+	getFoldedRanges,
+	applyFoldedRanges,
+	getLeafGroup,
+	getSidebarWidth,
+	setSidebarWidth,
+	moveChildToIndex,
+	moveLeafToContainer,
 	hasMetadataTypeManager,
 	isCanvasView,
 	setContainerDimension,
@@ -98,7 +117,8 @@ import {
 	hasParent,
 	getLeafTabGroup,
 	asExtendedWorkspace,
-	applyScrollPosition
+	applyScrollPosition,
+	onRawVaultChange
 } from './types/obsidian-internal';
 
 // Import utilities
@@ -123,39 +143,53 @@ import {
 } from './storage/markdown';
 import {
 	getUidFromCanvas,
-	getContextFromCanvas,
-	addUidToCanvas,
-	saveContextToCanvas,
-	canvasHasContext
+	addUidToCanvas
 } from './storage/canvas';
 import {
 	getUidFromBase,
-	getContextFromBase,
-	addUidToBase,
-	saveContextToBase,
-	baseHasContext
+	addUidToBase
 } from './storage/base';
-import { ExternalContextStore } from './storage/external-store';
-import {
-	getContextFromFrontmatter,
-	saveContextToFrontmatter,
-	removeContextFromFrontmatter,
-	hasContextInFrontmatter,
-} from './storage/frontmatter-store';
-import { backupArrangements, listBackups, restoreFromBackup } from './services/backup';
+import { ExternalContextStore, QuarantinedFile } from './storage/external-store';
+import { UndoSnapshotStore } from './storage/undo-store';
+import { SessionStore } from './storage/session-store';
+import { Perspective, PerspectiveStore } from './storage/perspective-store';
+import { TemplateStore } from './storage/template-store';
+import { ArrangementHistoryStore } from './storage/history-store';
+import { ContextStore, UidResolver } from './storage/context-store';
+import { InlineContextStore } from './storage/inline-context-store';
+import { JsonFileContextStore } from './storage/json-context-store';
+import { IndexedDbContextStore } from './storage/indexeddb-store';
+import { removeContextFromFrontmatter } from './storage/frontmatter-store';
+import { backupArrangements, listBackups, restoreFromBackup, salvageFromBackups } from './services/backup';
 import {
 	cleanupOldUidProperties as cleanupOldUidPropertiesOp,
-	migrateToExternalStorage as migrateToExternalStorageOp,
-	migrateToFrontmatter as migrateToFrontmatterOp,
 	migrateInlineCanvasBaseContexts as migrateInlineCanvasBaseContextsOp,
 	normalizeToV2,
 } from './services/migrations';
 import type { InlineMigrationResult } from './services/migrations';
+import {
+	executeMigration as executeMigrationOp,
+	listRollbackManifests as listRollbackManifestsOp,
+	planMigration as planMigrationOp,
+	rollbackMigration as rollbackMigrationOp,
+} from './services/store-migration';
+import type { RollbackManifest, StoreMigrationConfig } from './services/store-migration';
+import { matchWindows, planTabGroups, sameShape, sidebarTabKey, tabKey } from './services/reconcile';
+import { selectFromArrangement } from './services/partial-restore';
+import { placeAlongsideSplit } from './services/alongside';
+import { patchArrangement, PathCorrection, saveCorrectedArrangement, savedTabGroupOf } from './services/missing-files';
+import { labelOf } from './services/labels';
+import { AutoRestoreGuard, AutoRestoreMatch, matchAutoRestoreRule } from './services/auto-restore';
+import { arrangementsToEvict, AutoSaveScheduler, writeAutosave } from './services/autosave';
+import { createTemplateSlots, fillTemplate, LayoutTemplate, TemplateContext, templateTabs, toTemplateArrangement } from './services/templates';
 
 // Import UI components
-import { showArrangementSelector, showConfirmOverwrite, RestoreMode, showWorkspacePicker, showCrossWorkspaceActionDialog } from './ui/modals';
+import { showArrangementSelector, showArrangementLabelEditor, showPartialRestoreSelector, showMissingFilesReport, showTemplateEditor, showHistoryModal, showConfirmOverwrite, RestoreMode, showWorkspacePicker, showCrossWorkspaceActionDialog, showStorageMigrationDialog, showMigrationErrorsPrompt, showAutoRestorePrompt } from './ui/modals';
 import { ProxyNoteView, PROXY_VIEW_TYPE, ProxyViewState } from './ui/proxy-view';
-import { PerspectaSettingTab } from './ui/settings-tab';
+import { NamedArrangementSuggestModal } from './ui/arrangement-palette';
+import { ContextSwitchEntry, ContextSwitcherModal } from './ui/context-switcher';
+import { CONTEXTS_VIEW_TYPE, ContextsView, ContextsViewEntry, ContextsViewHost } from './ui/contexts-view';
+import { PerspectaSettingTab, STORAGE_MODE_LABELS } from './ui/settings-tab';
 
 // ============================================================================
 // Unified file helpers (works for markdown, canvas, and base files)
@@ -217,6 +251,14 @@ function getPropertiesCollapsed(view: unknown): boolean | undefined {
 	return false;
 }
 
+// A single caret at the start of the note is what every freshly opened
+// editor has anyway — not worth storing.
+function isDefaultSelection(selections: EditorRangeState[]): boolean {
+	if (selections.length !== 1) return false;
+	const { anchor, head } = selections[0];
+	return anchor.line === 0 && anchor.ch === 0 && head.line === 0 && head.ch === 0;
+}
+
 // Minimal duck-typed shape for walking popout containers without committing
 // to the full Obsidian internal split tree. Each level may have a `view` (a
 // leaf) or further `children` (a split or tab group).
@@ -244,6 +286,33 @@ interface SplitParent {
 	constructor?: { name?: string };
 }
 
+// A popout scheduled for restore: its index in the arrangement, its state
+// and (when tiling) the pre-calculated position.
+interface PopoutRestoreItem {
+	index: number;
+	state: WindowStateV2;
+	tiledPosition?: { x: number; y: number; width: number; height: number };
+}
+
+// Live counterpart of a captured WorkspaceNodeState, holding the actual
+// containers so the incremental restore can patch them in place.
+type LiveNode =
+	| { type: 'tabs'; container: WorkspaceTabContainer }
+	| { type: 'split'; split: WorkspaceSplit; children: LiveNode[] };
+
+// A live tab group paired with the tabs it should end up with
+interface LiveTabGroup {
+	container: WorkspaceTabContainer;
+	tabs: TabState[];
+}
+
+// One saved arrangement of a note to restore without asking: the newest
+// with this name and/or in this workspace bucket.
+interface ArrangementPick {
+	name?: string;
+	workspaceId?: WorkspaceId;
+}
+
 // ============================================================================
 // Main Plugin Class
 // ============================================================================
@@ -251,6 +320,7 @@ interface SplitParent {
 export default class PerspectaPlugin extends Plugin {
 	settings: PerspectaSettings;
 	private focusedWindowIndex = -1;
+	private captureGroupLabels = new Map<string, string>(); // Linked-pane group id → label ('g1', ...) for the capture in progress
 	private windowFocusListeners: Map<Window, () => void> = new Map();
 	/**
 	 * Map from file path → indicator tier:
@@ -263,11 +333,25 @@ export default class PerspectaPlugin extends Plugin {
 	/** For 'other'-tier files, which workspaces hold the arrangement. */
 	private otherWorkspacesForFile = new Map<string, WorkspaceId[]>();
 	private refreshIndicatorsTimeout: ReturnType<typeof setTimeout> | null = null;
+	private refreshContextsViewsTimeout: ReturnType<typeof setTimeout> | null = null;
 	private isClosingWindow = false; // Guard against operations during window close
 	private isUnloading = false; // Guard against operations during plugin unload
 	private pendingTimeouts = new Set<ReturnType<typeof setTimeout>>(); // Track timeouts for cleanup
 	externalStore: ExternalContextStore;  // External context storage
+	jsonStore: JsonFileContextStore;  // ContextStore over the external store's JSON files
+	indexedDbStore: IndexedDbContextStore;  // Contexts in IndexedDB, no files
+	private frontmatterStore: InlineContextStore;
+	private canvasStore: InlineContextStore;
+	private baseStore: InlineContextStore;
+	undoStore: UndoSnapshotStore;  // Layouts captured before each restore, for undo
+	sessionStore: SessionStore;  // Last context note per workspace, for session restore
+	autoSave: AutoSaveScheduler;  // Saves layout changes to the current context note
+	perspectiveStore: PerspectiveStore;  // Named arrangements not bound to a note
+	templateStore: TemplateStore;  // Layout templates with tab slots
+	historyStore: ArrangementHistoryStore;  // Append-only version history per note
 	private shiftCmdHeld = false; // Track Cmd+Shift for context restore on link click
+	private autoRestoreGuard = new AutoRestoreGuard({ cooldownMs: TIMING.AUTO_RESTORE_COOLDOWN });  // Loop protection and "don't ask again" answers
+	private autoRestorePrompting = false; // An auto-restore prompt is open
 	private lastObservedWorkspaceName = ''; // Last Obsidian workspace name we synced from; '' means none / default
 	private forceDefaultWorkspace = false; // User explicitly picked Default via status-bar menu (overrides Obsidian's activeWorkspace)
 	private workspaceStatusBarEl: HTMLElement | null = null; // Status-bar indicator (active workspace)
@@ -290,11 +374,66 @@ export default class PerspectaPlugin extends Plugin {
 		this.externalStore = new ExternalContextStore({
 			app: this.app,
 			manifest: this.manifest,
-			sharedLocation: this.settings.workspaceSharedLocation
+			sharedLocation: this.settings.workspaceSharedLocation,
+			onQuarantine: (files) => {
+				new Notice(`Perspecta: ${files.length} unreadable context file(s) were moved to the corrupt folder. Run "Repair context store" to recover them from backups.`, 10000);
+			},
+			onSyncConflicts: (merges) => {
+				const copies = merges.reduce((sum, m) => sum + m.copies.length, 0);
+				const added = merges.reduce((sum, m) => sum + m.added, 0);
+				new Notice(`Perspecta: merged ${copies} sync conflict cop${copies === 1 ? 'y' : 'ies'} into ${merges.length} context(s), ${added} arrangement(s) recovered`, 8000);
+			},
+			onExternalChange: (changes) => {
+				const conflicts = changes.filter(c => c.conflict).length;
+				if (conflicts > 0) {
+					new Notice(`Perspecta: ${conflicts} context(s) changed on disk while you had unsaved changes. Both versions were kept.`, 8000);
+				}
+				this.rescanFilesWithContext();
+			}
 		});
 		if (this.settings.storageMode === 'external') {
 			await this.externalStore.initialize();
 		}
+		const uids: UidResolver = {
+			get: (file) => this.getUidForFile(file),
+			ensure: (file) => this.ensureUidForFile(file),
+		};
+		this.jsonStore = new JsonFileContextStore({ store: this.externalStore, uids });
+		this.indexedDbStore = new IndexedDbContextStore({ app: this.app, uids });
+		this.frontmatterStore = new InlineContextStore(this.app, 'frontmatter');
+		this.canvasStore = new InlineContextStore(this.app, 'canvas');
+		this.baseStore = new InlineContextStore(this.app, 'base');
+		// Pick up context files changed on disk by sync tools or by hand
+		const rawChangeRef = onRawVaultChange(this.app, (path) => this.externalStore.handleFileChange(path));
+		if (rawChangeRef) this.registerEvent(rawChangeRef);
+
+		this.autoSave = new AutoSaveScheduler({
+			delayMs: this.settings.autoSaveDelaySeconds * 1000,
+			capture: () => this.captureWindowArrangement(),
+			save: (path, arrangement) => this.autoSaveContext(path, arrangement),
+		});
+
+		this.undoStore = new UndoSnapshotStore({
+			app: this.app,
+			manifest: this.manifest,
+			capacity: this.settings.undoHistorySize
+		});
+		await this.undoStore.load();
+
+		this.sessionStore = new SessionStore({ app: this.app, manifest: this.manifest });
+		await this.sessionStore.load();
+
+		this.perspectiveStore = new PerspectiveStore({ app: this.app, manifest: this.manifest });
+		await this.perspectiveStore.load();
+
+		this.templateStore = new TemplateStore({ app: this.app, manifest: this.manifest });
+		await this.templateStore.load();
+
+		this.historyStore = new ArrangementHistoryStore({
+			app: this.app,
+			manifest: this.manifest,
+			retention: { maxVersions: this.settings.historyMaxVersions, maxAgeDays: this.settings.historyMaxAgeDays }
+		});
 
 		// Sync the active Obsidian workspace into the store before any save/restore.
 		await this.syncActiveWorkspace();
@@ -308,7 +447,10 @@ export default class PerspectaPlugin extends Plugin {
 		// Register proxy view (experimental)
 		this.registerView(PROXY_VIEW_TYPE, (leaf) => new ProxyNoteView(leaf));
 
-		this.addRibbonIcon('layout-grid', 'Perspecta', () => { /* Placeholder for future menu */ });
+		// Sidebar overview of all saved contexts
+		this.registerView(CONTEXTS_VIEW_TYPE, (leaf) => new ContextsView(leaf, this.contextsViewHost()));
+
+		this.addRibbonIcon('layout-grid', 'Perspecta', (evt: MouseEvent) => this.showRibbonMenu(evt));
 
 		this.addCommand({
 			id: 'save-context',
@@ -316,18 +458,122 @@ export default class PerspectaPlugin extends Plugin {
 			callback: () => this.saveContext()
 		});
 
+		this.addCommand({
+			id: 'save-context-as',
+			name: 'Save context as…',
+			callback: () => this.saveContext(undefined, true)
+		});
+
 		this.addCommand({
 			id: 'restore-context',
 			name: 'Restore context',
 			callback: () => this.restoreContext()
 		});
 
+		this.addCommand({
+			id: 'save-perspective',
+			name: 'Save layout as perspective…',
+			callback: () => this.savePerspective()
+		});
+
+		this.addCommand({
+			id: 'open-perspective',
+			name: 'Open perspective…',
+			callback: () => this.openPerspectivePalette()
+		});
+
+		this.addCommand({
+			id: 'edit-perspective',
+			name: 'Rename or edit perspective…',
+			checkCallback: (checking: boolean) => {
+				if (this.perspectiveStore.size === 0) return false;
+				if (!checking) this.editPerspective();
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'delete-perspective',
+			name: 'Delete perspective…',
+			checkCallback: (checking: boolean) => {
+				if (this.perspectiveStore.size === 0) return false;
+				if (!checking) this.deletePerspective();
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'save-layout-template',
+			name: 'Save current layout as template…',
+			callback: () => this.saveLayoutTemplate()
+		});
+
+		this.addCommand({
+			id: 'apply-layout-template',
+			name: 'Apply layout template to current note…',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || this.templateStore.size === 0) return false;
+				if (!checking) this.applyLayoutTemplatePalette(file);
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'delete-layout-template',
+			name: 'Delete layout template…',
+			checkCallback: (checking: boolean) => {
+				if (this.templateStore.size === 0) return false;
+				if (!checking) this.deleteLayoutTemplate();
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'undo-last-restore',
+			name: 'Undo last restore',
+			checkCallback: (checking: boolean) => {
+				if (this.undoStore.size === 0) return false;
+				if (!checking) this.undoLastRestore();
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'restore-part-of-context',
+			name: 'Restore part of context…',
+			callback: () => this.restorePartialContext()
+		});
+
+		this.addCommand({
+			id: 'open-context-alongside-window',
+			name: 'Open context alongside in new window',
+			callback: () => this.openContextAlongside('popout')
+		});
+
+		this.addCommand({
+			id: 'open-context-alongside-split',
+			name: 'Open context alongside in split',
+			callback: () => this.openContextAlongside('split')
+		});
+
 		this.addCommand({
 			id: 'show-context-details',
 			name: 'Show context details',
 			callback: () => this.showContextDetails()
 		});
 
+		this.addCommand({
+			id: 'show-context-history',
+			name: 'Show context history',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (!checking) this.showContextHistory(file);
+				return true;
+			}
+		});
+
 		this.addCommand({
 			id: 'copy-context-to-workspace',
 			name: 'Copy context to workspace…',
@@ -340,12 +586,30 @@ export default class PerspectaPlugin extends Plugin {
 			callback: () => this.copyOrMoveContextCommand('move')
 		});
 
+		this.addCommand({
+			id: 'open-contexts-view',
+			name: 'Open contexts view',
+			callback: () => this.openContextsView()
+		});
+
+		this.addCommand({
+			id: 'switch-context',
+			name: 'Switch context…',
+			callback: () => this.openContextSwitcher()
+		});
+
 		this.addCommand({
 			id: 'restore-context-from-any-workspace',
 			name: 'Restore context from any workspace…',
 			callback: () => this.restoreContext(undefined, false, /* crossWorkspace */ true)
 		});
 
+		this.addCommand({
+			id: 'repair-context-store',
+			name: 'Repair context store',
+			callback: () => this.repairContextStore()
+		});
+
 		this.addCommand({
 			id: 'convert-to-proxy',
 			name: 'Convert to proxy window',
@@ -379,6 +643,7 @@ export default class PerspectaPlugin extends Plugin {
 		// The metadata cache may not be fully populated during onload()
 		this.app.workspace.onLayoutReady(() => {
 			this.setupFileExplorerIndicators();
+			void this.restoreLastSession();
 		});
 
 		this.registerEvent(
@@ -439,6 +704,21 @@ export default class PerspectaPlugin extends Plugin {
 			})
 		);
 		
+		// Auto-restore rules. Registered before the Shift+Cmd handler below,
+		// which resets shiftCmdHeld. Notes opened by a restore hold it off.
+		this.registerEvent(this.app.workspace.on('file-open', (file) => {
+			if (this.isRestoring) {
+				this.autoRestoreGuard.hold();
+				return;
+			}
+			if (file) this.autoRestoreGuard.opened(file.path);
+			if (!file || this.shiftCmdHeld || !this.settings.enableAutoRestore) return;
+			// Same delay as the Shift+Cmd restore: let Obsidian finish its navigation
+			this.safeTimeout(() => {
+				void this.autoRestoreContext(file);
+			}, 50);
+		}));
+
 		// Intercept file-open: if Shift+Cmd was held when navigating, restore context instead
 		this.registerEvent(this.app.workspace.on('file-open', (file) => {
 			if (!file || !this.shiftCmdHeld) return;
@@ -484,11 +764,21 @@ export default class PerspectaPlugin extends Plugin {
 			clearTimeout(this.refreshIndicatorsTimeout);
 			this.refreshIndicatorsTimeout = null;
 		}
+		if (this.refreshContextsViewsTimeout) {
+			clearTimeout(this.refreshContextsViewsTimeout);
+			this.refreshContextsViewsTimeout = null;
+		}
 		this.pendingTimeouts.forEach(timeout => clearTimeout(timeout));
 		this.pendingTimeouts.clear();
 
+		// Save the current context note's layout before the stores close
+		if (this.autoSave.currentPath) {
+			await this.autoSave.flush();
+		}
+
 		// Cleanup external store (flush pending saves)
 		await this.externalStore.cleanup();
+		this.indexedDbStore.close();
 
 		// Remove window focus listeners
 		this.windowFocusListeners.forEach((listener, win) => {
@@ -543,6 +833,9 @@ export default class PerspectaPlugin extends Plugin {
 					this.isClosingWindow = false;
 				}, 100);
 
+				// Autosave the layout without the popout once the close has settled
+				this.autoSave.schedule(TIMING.AUTOSAVE_WINDOW_CLOSE_DELAY);
+
 				// Debug: Check if main thread gets blocked after our handler (uncomment to debug)
 				// const closeTime = performance.now();
 				// setTimeout(() => {
@@ -560,6 +853,8 @@ export default class PerspectaPlugin extends Plugin {
 				}
 				// Detect workspace switch via Obsidian's core Workspaces plugin.
 				this.syncActiveWorkspace().catch(e => Logger.warn('syncActiveWorkspace failed:', e));
+				// Changes made by a restore are not the user's
+				if (!this.isRestoring) this.autoSave.schedule();
 			})
 		);
 		this.registerEvent(
@@ -617,6 +912,7 @@ export default class PerspectaPlugin extends Plugin {
 	private captureWindowArrangement(): WindowArrangementV2 {
 		PerfTimer.mark('captureWindowArrangement:start');
 		const workspace = asExtendedWorkspace(this.app.workspace);
+		this.captureGroupLabels.clear();
 
 		const main = this.captureWindowState(workspace.rootSplit, window);
 		PerfTimer.mark('captureMainWindow');
@@ -805,6 +1101,26 @@ export default class PerspectaPlugin extends Plugin {
 			const leaf = children[i];
 			const view = leaf?.view as unknown as ExtendedView;
 
+			// Graph, search, web viewer etc. have no file to reopen — keep the
+			// view type and state so restore can recreate them with setViewState()
+			if (isNonFileView(view)) {
+				const viewState = leaf.getViewState();
+				const isActive = i === currentTabIndex;
+				if (PerfTimer.isEnabled()) {
+					Logger.debug(`  tab[${i}]: <${viewState.type}>, active=${isActive}`);
+				}
+				tabs.push({
+					path: '',
+					active: isActive,
+					name: leaf.getDisplayText(),
+					viewType: viewState.type,
+					viewState: viewState.state,
+					pinned: viewState.pinned || undefined,
+					group: this.captureGroupLabel(leaf)
+				});
+				continue;
+			}
+
 			// Use type guard for file access
 			if (hasFile(view)) {
 				const file = view.file;
@@ -817,6 +1133,10 @@ export default class PerspectaPlugin extends Plugin {
 				// Use type-safe scroll accessor
 				const scroll = getScrollPosition(view);
 
+				// Cursor/selection and folds (markdown only; a lone caret at 0:0 is the default)
+				const selections = getEditorSelections(view);
+				const folds = getFoldedRanges(view);
+
 				// Use type-safe canvas viewport accessor
 				let canvasViewport: { tx: number; ty: number; zoom: number } | undefined;
 				const viewport = getCanvasViewport(view);
@@ -840,6 +1160,11 @@ export default class PerspectaPlugin extends Plugin {
 					name,
 					scroll: typeof scroll === 'number' ? scroll : undefined,
 					propertiesCollapsed: getPropertiesCollapsed(view),
+					viewMode: getMarkdownViewMode(leaf),
+					selections: selections && !isDefaultSelection(selections) ? selections : undefined,
+					folds: folds?.length ? folds : undefined,
+					pinned: leaf.getViewState().pinned || undefined,
+					group: this.captureGroupLabel(leaf),
 					canvasViewport
 				});
 			}
@@ -847,6 +1172,22 @@ export default class PerspectaPlugin extends Plugin {
 		return { type: 'tabs', tabs };
 	}
 
+	/**
+	 * Label a leaf's linked-pane group. Obsidian's group ids are random and
+	 * session-bound; short labels keep the blob small and let restore map
+	 * them onto fresh ids.
+	 */
+	private captureGroupLabel(leaf: WorkspaceLeaf): string | undefined {
+		const groupId = getLeafGroup(leaf);
+		if (!groupId) return undefined;
+		let label = this.captureGroupLabels.get(groupId);
+		if (!label) {
+			label = `g${this.captureGroupLabels.size + 1}`;
+			this.captureGroupLabels.set(groupId, label);
+		}
+		return label;
+	}
+
 	/**
 	 * Captures sidebar state including collapse state and active tab.
 	 * Uses multiple fallback methods for compatibility across Obsidian versions.
@@ -889,7 +1230,20 @@ export default class PerspectaPlugin extends Plugin {
 			}
 		} catch { /* ignore errors accessing sidebar state */ }
 
-		return { collapsed: sidebar.collapsed ?? false, activeTab };
+		const state: SidebarState = { collapsed: sidebar.collapsed ?? false, activeTab };
+
+		// Full panel layout: the sidebar is a split like the root, so the same
+		// capture walk records its tab groups, order and sizes
+		if (this.settings.captureSidebarLayout) {
+			const root = this.captureSplitOrTabs(sidebar);
+			if (root.type === 'split' || root.tabs.length > 0) {
+				state.root = root;
+			}
+			const width = getSidebarWidth(sidebar);
+			if (width) state.width = width;
+		}
+
+		return state;
 	}
 
 	private getPopoutWindowObjects(): Window[] {
@@ -982,7 +1336,11 @@ export default class PerspectaPlugin extends Plugin {
 	// Context Save (Optimized)
 	// ============================================================================
 
-	async saveContext(file?: TFile) {
+	/**
+	 * @param promptLabel Ask for a name, description and tags before saving
+	 *   (also done for every save when promptForArrangementLabel is on)
+	 */
+	async saveContext(file?: TFile, promptLabel = false) {
 		PerfTimer.begin('saveContext');
 
 		const targetFile = file ?? this.app.workspace.getActiveFile();
@@ -1004,6 +1362,19 @@ export default class PerspectaPlugin extends Plugin {
 			return;
 		}
 
+		// Labels are kept by the external stores and in markdown frontmatter;
+		// inline canvas/base storage has no room for them.
+		const store = this.getContextStore(targetFile);
+		let label: ArrangementLabel = {};
+		if (store.capabilities.labels && (promptLabel || this.settings.promptForArrangementLabel)) {
+			const labelResult = await showArrangementLabelEditor({}, targetFile.name);
+			if (labelResult.cancelled) {
+				PerfTimer.end('saveContext');
+				return;
+			}
+			label = labelResult.label;
+		}
+
 		let context = this.captureWindowArrangement();
 		PerfTimer.mark('captureWindowArrangement');
 
@@ -1036,37 +1407,24 @@ export default class PerspectaPlugin extends Plugin {
 			}
 		}
 
-		// Auto-generate UIDs for files that don't have them (always needed for external storage)
-		if (this.settings.autoGenerateUids || this.settings.storageMode === 'external') {
+		// Auto-generate UIDs for files that don't have them (always needed for the UID-keyed stores)
+		if (this.settings.autoGenerateUids || store.capabilities.workspaces) {
 			context = await this.ensureUidsForContext(context);
 			PerfTimer.mark('ensureUidsForContext');
 		}
 
-		// Save based on storage mode. In external mode all file types — markdown,
-		// canvas, and base — go through the external store so they get the same
-		// workspace-scoped, multi-arrangement treatment. In frontmatter mode
-		// canvas/base fall back to inline storage (no external store available).
-		let saved = true;
-		if (this.settings.storageMode === 'external') {
-			saved = await this.saveContextExternal(targetFile, context);
-			PerfTimer.mark('saveContextExternal');
-		} else if (isCanvas) {
-			await saveContextToCanvas(this.app, targetFile, context);
-			this.filesWithContext.set(targetFile.path, 'active');
-			this.debouncedRefreshIndicators();
-			PerfTimer.mark('saveContextToCanvas');
-		} else if (isBase) {
-			await saveContextToBase(this.app, targetFile, context);
-			this.filesWithContext.set(targetFile.path, 'active');
-			this.debouncedRefreshIndicators();
-			PerfTimer.mark('saveContextToBase');
-		} else {
-			await saveContextToFrontmatter(this.app, targetFile, context);
-			PerfTimer.mark('saveArrangementToNote');
-		}
+		// In the external modes all file types — markdown, canvas, and base —
+		// go through the same workspace-scoped, multi-arrangement store. In
+		// frontmatter mode each file type keeps its context inline.
+		const saved = await this.saveContextToStore(store, targetFile, context, label);
+		PerfTimer.mark('saveContextToStore');
 
 		// Only show confirmation if save was not cancelled
 		if (saved) {
+			// Autosave has nothing new to write for this layout
+			if (this.autoSave.currentPath === targetFile.path) this.autoSave.track(targetFile.path, context);
+			await this.rememberContextNote(targetFile);
+			await this.recordHistory(targetFile, context, label);
 			if (this.settings.showDebugModal) {
 				this.showContextDebugModal(context, targetFile.name);
 				PerfTimer.mark('showContextDebugModal');
@@ -1097,7 +1455,7 @@ export default class PerspectaPlugin extends Plugin {
 		if (this.forceDefaultWorkspace) {
 			this.lastObservedWorkspaceName = rawName;
 			if (this.externalStore.getActiveWorkspace() !== DEFAULT_WORKSPACE_ID) {
-				this.externalStore.setActiveWorkspace(DEFAULT_WORKSPACE_ID);
+				this.setActiveWorkspaceId(DEFAULT_WORKSPACE_ID);
 				await this.rescanFilesWithContext();
 			}
 			this.updateWorkspaceStatusBar();
@@ -1118,7 +1476,7 @@ export default class PerspectaPlugin extends Plugin {
 		// No workspace active (plugin disabled, or none loaded) → default bucket.
 		if (!rawName) {
 			if (this.externalStore.getActiveWorkspace() !== DEFAULT_WORKSPACE_ID) {
-				this.externalStore.setActiveWorkspace(DEFAULT_WORKSPACE_ID);
+				this.setActiveWorkspaceId(DEFAULT_WORKSPACE_ID);
 				await this.rescanFilesWithContext();
 			}
 			return;
@@ -1126,27 +1484,36 @@ export default class PerspectaPlugin extends Plugin {
 
 		const wsId = slugifyWorkspaceName(rawName);
 
-		// Auto-create bucket if first encounter (requires external store to be
-		// initialized — only relevant in external storage mode).
-		if (this.settings.storageMode === 'external' && this.externalStore.isInitialized()) {
-			if (!this.externalStore.hasWorkspace(wsId)) {
-				try {
-					await this.externalStore.createWorkspaceBucket(rawName, wsId);
+		// Auto-create bucket if first encounter (only relevant in the external
+		// storage modes; the JSON store needs to be initialized).
+		if (this.settings.storageMode !== 'frontmatter') {
+			const store = this.settings.storageMode === 'indexeddb' ? this.indexedDbStore : this.jsonStore;
+			try {
+				if (await store.ensureWorkspace(rawName, wsId)) {
 					Logger.info(`Auto-created Perspecta workspace bucket: ${wsId} (${rawName})`);
-				} catch (e) {
-					Logger.warn(`Failed to auto-create workspace bucket ${wsId}:`, e);
 				}
+			} catch (e) {
+				Logger.warn(`Failed to auto-create workspace bucket ${wsId}:`, e);
 			}
 		}
 
 		if (this.externalStore.getActiveWorkspace() !== wsId) {
-			this.externalStore.setActiveWorkspace(wsId);
+			this.setActiveWorkspaceId(wsId);
 			await this.rescanFilesWithContext();
 		}
 
 		this.updateWorkspaceStatusBar();
 	}
 
+	/**
+	 * Point the workspace-scoped stores at a bucket. The JSON store's active
+	 * workspace doubles as the plugin's, so it follows in every storage mode.
+	 */
+	private setActiveWorkspaceId(workspaceId: WorkspaceId): void {
+		this.jsonStore.setActiveWorkspace(workspaceId);
+		this.indexedDbStore.setActiveWorkspace(workspaceId);
+	}
+
 	// ============================================================================
 	// Status-bar workspace indicator
 	// ----------------------------------------------------------------------------
@@ -1291,101 +1658,52 @@ export default class PerspectaPlugin extends Plugin {
 		this.otherWorkspacesForFile.clear();
 		await this.scanFilesWithContext();
 		this.debouncedRefreshIndicators();
+		this.debouncedRefreshContextsViews();
 	}
 
 	/**
 	 * Scan the vault and populate this.filesWithContext. Pure data — no event
 	 * registration, so it is safe to re-run (e.g. on workspace switch).
 	 *
-	 * Tier policy:
-	 *   - Canvas/base files with embedded context: always 'active' (single-bucket).
-	 *   - Markdown frontmatter context: always 'active' (workspace-agnostic).
-	 *   - External-store arrangement in active workspace: 'active'.
-	 *   - External-store arrangement in Default (when fallback is on): 'active'.
-	 *   - External-store arrangement only in other workspaces: 'other'.
+	 * Tier policy (see classifyContext):
+	 *   - Inline context (frontmatter, canvas JSON, base YAML): always 'active'
+	 *     (workspace-agnostic).
+	 *   - Workspace-store arrangement in active workspace: 'active'.
+	 *   - Workspace-store arrangement only in other workspaces: 'other'.
 	 */
 	private async scanFilesWithContext(): Promise<void> {
-		const mdFiles = this.app.vault.getMarkdownFiles();
-		PerfTimer.mark(`getMarkdownFiles (${mdFiles.length} files)`);
+		const files = this.app.vault.getFiles().filter(f => f.extension === 'md' || f.extension === 'canvas' || f.extension === 'base');
+		PerfTimer.mark(`getFiles (${files.length} files)`);
 
-		// Markdown files with frontmatter context — always 'active'.
-		for (const file of mdFiles) {
-			if (hasContextInFrontmatter(this.app, file)) {
-				this.filesWithContext.set(file.path, 'active');
-			}
+		for (const file of files) {
+			const { tier, otherWs } = await this.classifyContext(file);
+			if (!tier) continue;
+			this.filesWithContext.set(file.path, tier);
+			if (otherWs.length > 0) this.otherWorkspacesForFile.set(file.path, otherWs);
 		}
-		PerfTimer.mark('scanForContextFiles (frontmatter)');
-
-		// All non-markdown files share the same logic as markdown when in
-		// external mode: prefer external-store classification, fall back to
-		// inline context (canvas JSON / base YAML) when external is empty.
-		const canvasFiles = this.app.vault.getFiles().filter(f => f.extension === 'canvas');
-		const baseFiles = this.app.vault.getFiles().filter(f => f.extension === 'base');
-
-		// External storage: classify each file by tier.
-		// Policy: only the active workspace counts as "strong". Default-when-
-		// not-active = "other", regardless of the fallback-to-default setting.
-		// Fallback still affects restore behavior; this is purely a visual cue.
-		if (this.settings.storageMode === 'external') {
-			await this.externalStore.ensureInitialized();
-			const activeWs = this.externalStore.getActiveWorkspace();
-
-			const classifyByUid = (filePath: string, uid: string): boolean => {
-				const wsList = this.externalStore.workspacesWithUid(uid);
-				if (wsList.length === 0) return false;
-				const inActive = wsList.includes(activeWs);
-				const otherWs = wsList.filter(ws => ws !== activeWs);
-				if (inActive) {
-					this.filesWithContext.set(filePath, 'active');
-					if (otherWs.length > 0) this.otherWorkspacesForFile.set(filePath, otherWs);
-				} else {
-					if (this.filesWithContext.get(filePath) !== 'active') {
-						this.filesWithContext.set(filePath, 'other');
-					}
-					this.otherWorkspacesForFile.set(filePath, otherWs);
-				}
-				return true;
-			};
-
-			// Markdown.
-			for (const file of mdFiles) {
-				const uid = getUidFromCache(this.app, file);
-				if (uid) classifyByUid(file.path, uid);
-			}
-
-			// Canvas.
-			for (const file of canvasFiles) {
-				const uid = await getUidFromCanvas(this.app, file);
-				const classified = uid ? classifyByUid(file.path, uid) : false;
-				if (!classified && await canvasHasContext(this.app, file)) {
-					// Legacy inline-only canvas (no external entry yet) — strong icon.
-					this.filesWithContext.set(file.path, 'active');
-				}
-			}
+		PerfTimer.mark(`scanForContextFiles (${this.settings.storageMode})`);
+	}
 
-			// Base.
-			for (const file of baseFiles) {
-				const uid = await getUidFromBase(this.app, file);
-				const classified = uid ? classifyByUid(file.path, uid) : false;
-				if (!classified && await baseHasContext(this.app, file)) {
-					this.filesWithContext.set(file.path, 'active');
-				}
-			}
-			PerfTimer.mark('scanForContextFiles (external)');
-		} else {
-			// Frontmatter / non-external mode: inline storage is authoritative.
-			for (const file of canvasFiles) {
-				if (await canvasHasContext(this.app, file)) {
-					this.filesWithContext.set(file.path, 'active');
-				}
-			}
-			for (const file of baseFiles) {
-				if (await baseHasContext(this.app, file)) {
-					this.filesWithContext.set(file.path, 'active');
-				}
-			}
-			PerfTimer.mark(`scanForContextFiles (inline canvas/base)`);
-		}
+	/**
+	 * Indicator tier of a file. Only the active workspace counts as "strong";
+	 * Default-when-not-active is "other", regardless of the fallback-to-default
+	 * setting (fallback affects restore behavior; this is purely a visual cue).
+	 * Inline context found in the external modes (legacy canvas/base data,
+	 * pre-external-mode frontmatter) counts as active.
+	 *
+	 * @returns The tier (null = no context) and the non-active workspaces that
+	 *   hold arrangements for the file
+	 */
+	private async classifyContext(file: TFile): Promise<{ tier: 'active' | 'other' | null; otherWs: WorkspaceId[] }> {
+		const store = this.getContextStore(file);
+		const wsList = await store.workspacesWith(file);
+		const activeWs = store.getActiveWorkspace();
+		const otherWs = wsList.filter(ws => ws !== activeWs);
+		if (wsList.includes(activeWs)) return { tier: 'active', otherWs };
+
+		const inline = this.getInlineStore(file);
+		if (inline !== store && await inline.has(file)) return { tier: 'active', otherWs };
+		return { tier: otherWs.length > 0 ? 'other' : null, otherWs };
 	}
 
 	/**
@@ -1466,8 +1784,8 @@ export default class PerspectaPlugin extends Plugin {
 		// copy or move into the active workspace.
 		const max = this.settings.maxArrangementsPerNote;
 		const opResult = result.action === 'copy'
-			? this.externalStore.copyArrangements(uid, sourceWs, activeWs, 'merge', max)
-			: this.externalStore.moveArrangements(uid, sourceWs, activeWs, 'merge', max);
+			? await this.externalStore.copyArrangements(uid, sourceWs, activeWs, 'merge', max)
+			: await this.externalStore.moveArrangements(uid, sourceWs, activeWs, 'merge', max);
 
 		const verb = result.action === 'copy' ? 'Copied' : 'Moved';
 		new Notice(`${verb} to ${activeDisplayName}: ${opResult.copied} new, ${opResult.skipped} duplicate${opResult.overwritten ? `, ${opResult.overwritten} replaced` : ''}`);
@@ -1478,9 +1796,10 @@ export default class PerspectaPlugin extends Plugin {
 
 	/**
 	 * Copy/move arrangements for a specific file. Used by file-menu entries
-	 * (which already provide the file) and by the palette command above.
+	 * (which already provide the file), by the palette command above and by
+	 * the Contexts view, which names the source workspace.
 	 */
-	private async copyOrMoveForFile(file: TFile, action: 'copy' | 'move'): Promise<void> {
+	private async copyOrMoveForFile(file: TFile, action: 'copy' | 'move', sourceWorkspaceId?: WorkspaceId): Promise<void> {
 		if (this.settings.storageMode !== 'external') {
 			new Notice('Copy/move requires external storage mode');
 			return;
@@ -1504,7 +1823,9 @@ export default class PerspectaPlugin extends Plugin {
 			return;
 		}
 
-		const sourceWs = wsWithUid.includes(activeWs) ? activeWs : wsWithUid[0];
+		const sourceWs = sourceWorkspaceId && wsWithUid.includes(sourceWorkspaceId)
+			? sourceWorkspaceId
+			: wsWithUid.includes(activeWs) ? activeWs : wsWithUid[0];
 
 		// Warn when moving the only copy out of Default and fallback is disabled.
 		if (action === 'move' && sourceWs === DEFAULT_WORKSPACE_ID && !this.settings.workspaceFallbackToDefault) {
@@ -1533,8 +1854,8 @@ export default class PerspectaPlugin extends Plugin {
 
 		const max = this.settings.maxArrangementsPerNote;
 		const result = action === 'copy'
-			? this.externalStore.copyArrangements(uid, sourceWs, targetWs, 'merge', max)
-			: this.externalStore.moveArrangements(uid, sourceWs, targetWs, 'merge', max);
+			? await this.externalStore.copyArrangements(uid, sourceWs, targetWs, 'merge', max)
+			: await this.externalStore.moveArrangements(uid, sourceWs, targetWs, 'merge', max);
 
 		const wsLabel = this.externalStore.listWorkspaces().find(w => w.id === targetWs)?.displayName ?? targetWs;
 		const verb = action === 'copy' ? 'Copied' : 'Moved';
@@ -1544,8 +1865,6 @@ export default class PerspectaPlugin extends Plugin {
 		await this.rescanFilesWithContext();
 	}
 
-	// Save context to external store (using file's UID as key)
-	// Returns true if save was successful, false if cancelled
 	/**
 	 * Read the Perspecta UID from a file, dispatching by extension.
 	 * Markdown: frontmatter cache. Canvas: data.perspecta.uid in the JSON.
@@ -1566,44 +1885,82 @@ export default class PerspectaPlugin extends Plugin {
 		return addUidToFile(this.app, file, uid);
 	}
 
-	private async saveContextExternal(file: TFile, context: WindowArrangementV2): Promise<boolean> {
-		// Get the file's UID — read from the right place depending on file type.
-		let uid = await this.getUidForFile(file);
-		if (!uid) {
-			// Fallback: generate and persist a UID.
-			uid = generateUid();
-			await this.setUidForFile(file, uid);
-			await delay(TIMING.TAB_ACTIVATION_DELAY);
+	/**
+	 * Read the Perspecta UID of a file, generating and writing one if it has
+	 * none yet.
+	 */
+	private async ensureUidForFile(file: TFile): Promise<string> {
+		const existing = await this.getUidForFile(file);
+		if (existing) return existing;
+		const uid = generateUid();
+		await this.setUidForFile(file, uid);
+		await delay(TIMING.TAB_ACTIVATION_DELAY);
+		return uid;
+	}
+
+	/** The store a file's contexts are saved to in the current storage mode. */
+	private getContextStore(file: TFile): ContextStore {
+		return this.storeForMode(this.settings.storageMode, file);
+	}
+
+	private storeForMode(mode: StorageMode, file: TFile): ContextStore {
+		switch (mode) {
+			case 'external': return this.jsonStore;
+			case 'indexeddb': return this.indexedDbStore;
+			default: return this.getInlineStore(file);
 		}
+	}
 
-		// Initialize external store if not already
-		await this.externalStore.ensureInitialized();
+	/**
+	 * Inline storage of a file type: frontmatter, canvas JSON or base YAML.
+	 * The store itself in frontmatter mode; legacy data in the external modes.
+	 */
+	private getInlineStore(file: TFile): ContextStore {
+		if (file.extension === 'canvas') return this.canvasStore;
+		if (file.extension === 'base') return this.baseStore;
+		return this.frontmatterStore;
+	}
+
+	// Save context to a store. Returns true if saved, false if the user
+	// cancelled the overwrite confirmation.
+	private async saveContextToStore(store: ContextStore, file: TFile, context: WindowArrangementV2, label: ArrangementLabel = {}, confirmOverwrite = true): Promise<boolean> {
+		if (!store.capabilities.multiple) {
+			await store.set(file, context, label, 1);
+			return this.contextSaved(store, file);
+		}
 
-		const maxArrangements = this.settings.maxArrangementsPerNote;
-		const existingCount = this.externalStore.getCount(uid);
+		// The Autosave arrangement sits outside the per-note limit
+		const existing = await store.getAll(file);
+		const evicted = arrangementsToEvict(existing, this.settings.maxArrangementsPerNote);
 
 		// If max is 1 and there's already an arrangement, ask for confirmation (unless auto-confirm is on)
-		if (maxArrangements === 1 && existingCount > 0 && !this.settings.autoConfirmOverwrite) {
-			const existingArrangements = this.externalStore.getAll(uid);
-			if (existingArrangements.length > 0) {
-				const result = await showConfirmOverwrite(existingArrangements[0], file.name);
-				if (!result.confirmed) {
-					return false; // User cancelled
-				}
+		if (confirmOverwrite && this.settings.maxArrangementsPerNote === 1 && evicted.length > 0 && !this.settings.autoConfirmOverwrite) {
+			const result = await showConfirmOverwrite(evicted[0], file.name);
+			if (!result.confirmed) {
+				return false; // User cancelled
 			}
 		}
 
-		this.externalStore.set(uid, context, maxArrangements);
+		// Add first, then drop what the limit pushes out
+		await store.set(file, context, label, existing.length + 1);
+		for (const entry of evicted) {
+			await store.deleteArrangement(file, entry.savedAt);
+		}
+		return this.contextSaved(store, file);
+	}
 
-		// For markdown files: clean up any stale inline frontmatter context to
-		// avoid duplication. Canvas/base inline cleanup is handled by the
-		// explicit migration button (see Debug settings).
-		if (file.extension === 'md') {
+	/** Bookkeeping after a context was written to a note's store. */
+	private async contextSaved(store: ContextStore, file: TFile): Promise<boolean> {
+		// For markdown files saved elsewhere: clean up any stale inline
+		// frontmatter context to avoid duplication. Canvas/base inline cleanup
+		// is handled by the explicit migration button (see Debug settings).
+		if (file.extension === 'md' && store !== this.frontmatterStore) {
 			await removeContextFromFrontmatter(this.app, file);
 		}
 
 		this.filesWithContext.set(file.path, 'active');
 		this.debouncedRefreshIndicators();
+		this.debouncedRefreshContextsViews();
 		return true;
 	}
 
@@ -1660,30 +2017,74 @@ export default class PerspectaPlugin extends Plugin {
 		return cleanupOldUidPropertiesOp(this.app);
 	}
 
-	async migrateToExternalStorage(): Promise<{ migrated: number; errors: number }> {
-		return migrateToExternalStorageOp({
-			app: this.app,
-			externalStore: this.externalStore,
-			onAfterMigrate: async (newMode) => {
-				this.settings.storageMode = newMode;
-				await this.saveSettings();
-				this.filesWithContext.clear();
-				await this.setupFileExplorerIndicators();
+	/**
+	 * Move arrangements between storage modes: pick source, target and
+	 * policy from a dry-run preview, then switch to the target mode.
+	 */
+	async migrateStorage(): Promise<void> {
+		await this.externalStore.ensureInitialized();
+		await this.indexedDbStore.ensureLoaded();
+		const cfg = this.storeMigrationConfig();
+
+		const { options, cancelled } = await showStorageMigrationDialog({
+			modes: (Object.keys(STORAGE_MODE_LABELS) as StorageMode[]).map(mode => ({ mode, label: STORAGE_MODE_LABELS[mode] })),
+			current: this.settings.storageMode,
+			workspacesOf: (mode) => {
+				switch (mode) {
+					case 'external': return this.jsonStore.listWorkspaces();
+					case 'indexeddb': return this.indexedDbStore.listWorkspaces();
+					default: return this.frontmatterStore.listWorkspaces();
+				}
 			},
+			preview: (opts) => planMigrationOp(cfg, opts),
 		});
+		if (cancelled || !options) return;
+
+		const result = await executeMigrationOp(cfg, options);
+		if (result.errors > 0) {
+			// Some notes are still in the old storage: let the user choose
+			// which half to look at rather than switching for them
+			const { switchMode } = await showMigrationErrorsPrompt(result, STORAGE_MODE_LABELS[options.from], STORAGE_MODE_LABELS[options.to]);
+			if (switchMode) await this.switchStorageMode(options.to);
+			else await this.rescanFilesWithContext();
+			return;
+		}
+		if (result.migrated === 0) {
+			new Notice(`Nothing was migrated${result.skipped > 0 ? ` (${result.skipped} skipped)` : ''}; storage mode unchanged`, 4000);
+			return;
+		}
+
+		await this.switchStorageMode(options.to);
+		new Notice(`Migration complete: ${result.migrated} contexts moved`
+			+ (result.skipped > 0 ? `, ${result.skipped} skipped` : ''), 4000);
+	}
+
+	async listStorageMigrations(): Promise<{ name: string; path: string; manifest: RollbackManifest }[]> {
+		return listRollbackManifestsOp(this.storeMigrationConfig());
 	}
 
-	async migrateToFrontmatter(): Promise<{ migrated: number; errors: number }> {
-		return migrateToFrontmatterOp({
+	/** Undo a storage migration and switch back to the mode it came from. */
+	async rollbackStorageMigration(manifestPath: string): Promise<{ restored: number; missing: number; errors: number }> {
+		await this.externalStore.ensureInitialized();
+		const { manifest, ...result } = await rollbackMigrationOp(this.storeMigrationConfig(), manifestPath);
+		if (manifest) await this.switchStorageMode(manifest.from);
+		return result;
+	}
+
+	private storeMigrationConfig(): StoreMigrationConfig {
+		return {
 			app: this.app,
-			externalStore: this.externalStore,
-			onAfterMigrate: async (newMode) => {
-				this.settings.storageMode = newMode;
-				await this.saveSettings();
-				this.filesWithContext.clear();
-				await this.setupFileExplorerIndicators();
-			},
-		});
+			storeFor: (mode, file) => this.storeForMode(mode, file),
+			maxArrangementsPerNote: this.settings.maxArrangementsPerNote,
+			perspectaFolderPath: this.settings.perspectaFolderPath,
+		};
+	}
+
+	private async switchStorageMode(mode: StorageMode): Promise<void> {
+		await this.externalStore.flushDirty();
+		this.settings.storageMode = mode;
+		await this.saveSettings();
+		await this.rescanFilesWithContext();
 	}
 
 	/**
@@ -1738,6 +2139,36 @@ export default class PerspectaPlugin extends Plugin {
 		);
 	}
 
+	/**
+	 * Recover quarantined context files from the newest backups that have
+	 * them. The quarantined copies are left in place for manual inspection.
+	 */
+	async repairContextStore(): Promise<void> {
+		await this.externalStore.ensureInitialized();
+		await this.externalStore.flushDirty();
+
+		const quarantined = (await this.externalStore.listQuarantined())
+			.filter((f): f is QuarantinedFile & { uid: string } => f.uid !== null);
+		if (quarantined.length === 0) {
+			new Notice('Context store is healthy, nothing to repair', 4000);
+			return;
+		}
+
+		const { recovered, missing } = await salvageFromBackups({
+			app: this.app,
+			externalStore: this.externalStore,
+			perspectaFolderPath: this.settings.perspectaFolderPath,
+			maxArrangementsPerNote: this.settings.maxArrangementsPerNote,
+		}, quarantined);
+
+		const parts = [`Recovered ${recovered} of ${recovered + missing} context(s) from backups`];
+		if (missing > 0) parts.push(`${missing} not found in any backup`);
+		new Notice(parts.join('; '), 8000);
+
+		this.filesWithContext.clear();
+		await this.setupFileExplorerIndicators();
+	}
+
 	// Generate UIDs for any files in the context that don't have them
 	private async ensureUidsForContext(context: WindowArrangementV2): Promise<WindowArrangementV2> {
 		const filesToUpdate: { file: TFile; uid: string }[] = [];
@@ -1803,22 +2234,33 @@ export default class PerspectaPlugin extends Plugin {
 	// ============================================================================
 
 	// Track path corrections during restore (populated by restoreTabGroup and helpers)
-	private pathCorrections: Map<string, { newPath: string; newName: string }> = new Map();
+	private pathCorrections: Map<string, PathCorrection> = new Map();
+	// Saved tabs whose file could not be found during restore, keyed by saved path
+	private missingTabs = new Map<string, TabState>();
+	// Saved linked-pane group label → group id created for this restore
+	private restoreGroupIds = new Map<string, string>();
 	private isRestoring = false;  // Guard against concurrent restores
 
-	async restoreContext(file?: TFile, forceLatest = false, crossWorkspace = false) {
+	/**
+	 * Restore a note's saved context, replacing the current layout.
+	 *
+	 * @param pick - Restore this arrangement, if the note has it
+	 * @returns True if an arrangement was applied
+	 */
+	async restoreContext(file?: TFile, forceLatest = false, crossWorkspace = false, pick?: ArrangementPick): Promise<boolean> {
 		// Prevent concurrent restores which can cause duplicate windows
 		if (this.isRestoring) {
 			Logger.debug('Skipping restoreContext - already restoring');
-			return;
+			return false;
 		}
 		this.isRestoring = true;
 
 		const fullStart = performance.now();
 		PerfTimer.begin('restoreContext');
 
-		// Reset path corrections tracking
+		// Reset path corrections and missing-file tracking
 		this.pathCorrections.clear();
+		this.missingTabs.clear();
 
 		const targetFile = file ?? this.app.workspace.getActiveFile();
 		PerfTimer.mark('getActiveFile');
@@ -1826,24 +2268,37 @@ export default class PerspectaPlugin extends Plugin {
 		if (!targetFile) {
 			new Notice('No active file', 4000);
 			this.isRestoring = false;
-			return;
+			return false;
 		}
 
 		try {
 			// Get context - may show selector if multiple arrangements exist (unless forceLatest)
-			const contextResult = await this.getContextForFileWithSelection(targetFile, forceLatest, crossWorkspace);
+			const picked = pick
+				? (await this.getContextStore(targetFile).getAll(targetFile, pick.workspaceId)).find(e => pick.name === undefined || e.name === pick.name)
+				: undefined;
+			const contextResult = picked
+				? { context: picked.arrangement, cancelled: false }
+				: await this.getContextForFileWithSelection(targetFile, forceLatest, crossWorkspace);
 			PerfTimer.mark('getContextForFileWithSelection');
 
 			if (!contextResult || contextResult.cancelled) {
 				PerfTimer.end('restoreContext');
-				return;
+				return false;
 			}
 
 			const context = contextResult.context;
-			if (!context) { new Notice('No context found in this note', 4000); return; }
+			if (!context) { new Notice('No context found in this note', 4000); return false; }
 
-			const _focusedWin = await this.applyArrangement(context, targetFile.path);
+			await this.snapshotBeforeRestore(targetFile.path);
+			const focusedWin = await this.applyArrangement(context, targetFile.path);
 			PerfTimer.mark('applyArrangement');
+			this.autoRestoreGuard.restored(targetFile.path);
+
+			// Let the user replace or drop tabs whose file could not be found
+			const dropped = new Set<string>();
+			if (this.missingTabs.size > 0 && this.settings.showMissingFilesReport) {
+				await this.resolveMissingTabs(normalizeToV2(context), targetFile.name, focusedWin ?? window, dropped);
+			}
 
 			// Show restore debug modal if enabled
 			if (this.settings.showDebugModalOnRestore) {
@@ -1855,11 +2310,15 @@ export default class PerspectaPlugin extends Plugin {
 				}, 1000);
 			}
 
-			// If any files were resolved via fallback, update the saved context with corrected paths
-			if (this.pathCorrections.size > 0) {
-				await this.updateContextWithCorrectedPaths(targetFile, context);
+			// If any files were resolved via fallback, replaced or dropped, update the saved context
+			if (this.pathCorrections.size > 0 || dropped.size > 0) {
+				await this.updateContextWithCorrectedPaths(targetFile, context, dropped);
 				PerfTimer.mark('updateContextWithCorrectedPaths');
 			}
+
+			// The restored note is now the current context note
+			this.autoSave.track(this.autoSaveParticipates(targetFile) ? targetFile.path : null, this.captureWindowArrangement());
+			await this.rememberContextNote(targetFile);
 			PerfTimer.end('restoreContext');
 
 			// Measure time until next idle - this captures rendering/painting time
@@ -1869,66 +2328,406 @@ export default class PerspectaPlugin extends Plugin {
 					Logger.debug(`🏁 Full restore (including render): ${totalTime.toFixed(0)}ms`);
 				}, { timeout: 5000 });
 			}
+			return true;
 		} finally {
 			this.isRestoring = false;
 		}
 	}
 
-	// Get context with potential user selection for multiple arrangements
-	// If forceLatest is true, always use the most recent arrangement without showing selector
-	private async getContextForFileWithSelection(file: TFile, forceLatest = false, crossWorkspace = false): Promise<{ context: WindowArrangement | null; cancelled: boolean }> {
-		// External storage: all file types (markdown, canvas, base) flow through
-		// the workspace-scoped store. Inline-canvas/inline-base storage is used
-		// only as a backwards-compat fallback when the external store is empty.
-		if (this.settings.storageMode === 'external') {
-			const uid = await this.getUidForFile(file);
-			if (uid) {
-				// Initialize store if needed
-				await this.externalStore.ensureInitialized();
-
-				const activeWs = this.externalStore.getActiveWorkspace();
-				const useCrossWorkspace = crossWorkspace || this.settings.workspaceCrossSelector;
-
-				// Build the arrangement set. In single-workspace mode, just the active
-				// bucket (with optional Default fallback). In cross-workspace mode,
-				// gather from every workspace that has arrangements for this UID.
-				type Entry = { ts: TimestampedArrangement; wsId: WorkspaceId; wsLabel: string };
-				const entries: Entry[] = [];
-				let usedFallback = false;
-
-				if (useCrossWorkspace) {
-					for (const wsId of this.externalStore.workspacesWithUid(uid)) {
-						const wsInfo = this.externalStore.listWorkspaces().find(w => w.id === wsId);
-						const label = wsInfo?.displayName ?? wsId;
-						for (const ts of this.externalStore.getAll(uid, wsId)) {
-							entries.push({ ts, wsId, wsLabel: label });
-						}
-					}
-				} else {
-					for (const ts of this.externalStore.getAll(uid)) {
-						entries.push({ ts, wsId: activeWs, wsLabel: '' });
-					}
-					if (entries.length === 0 && this.settings.workspaceFallbackToDefault && activeWs !== DEFAULT_WORKSPACE_ID) {
-						for (const ts of this.externalStore.getAll(uid, DEFAULT_WORKSPACE_ID)) {
-							entries.push({ ts, wsId: DEFAULT_WORKSPACE_ID, wsLabel: 'Default' });
-							usedFallback = true;
-						}
-					}
-				}
+	/**
+	 * Restore the context of a note that was just opened, if it matches an
+	 * auto-restore rule. Asks first unless confirmation is off or the user
+	 * already answered for this note, and offers an undo afterwards.
+	 */
+	private async autoRestoreContext(file: TFile): Promise<void> {
+		if (this.isRestoring || this.autoRestorePrompting) return;
+		if (this.filesWithContext.get(file.path) !== 'active' || !this.autoRestoreGuard.mayRestore(file.path)) return;
+
+		const match = this.matchAutoRestore(file);
+		if (!match) return;
+
+		const decision = this.autoRestoreGuard.decisionFor(file.path);
+		if (decision === 'skip') return;
+		if (!decision && this.settings.autoRestoreConfirm) {
+			this.autoRestorePrompting = true;
+			try {
+				const answer = await showAutoRestorePrompt(file.basename, this.describeAutoRestoreMatch(match));
+				if (answer.remember) this.autoRestoreGuard.remember(file.path, answer.restore ? 'restore' : 'skip');
+				if (!answer.restore) return;
+			} finally {
+				this.autoRestorePrompting = false;
+			}
+		}
+
+		const forceLatest = match.arrangementName !== undefined || this.settings.autoRestoreArrangement === 'latest';
+		const pick = match.arrangementName !== undefined ? { name: match.arrangementName } : undefined;
+		if (await this.restoreContext(file, forceLatest, false, pick)) {
+			this.showAutoRestoreNotice(file);
+		}
+	}
+
+	private matchAutoRestore(file: TFile): AutoRestoreMatch | null {
+		const cache = this.app.metadataCache.getFileCache(file);
+		return matchAutoRestoreRule(
+			file.path,
+			cache?.frontmatter?.[AUTO_RESTORE_FRONTMATTER_KEY],
+			(cache && getAllTags(cache)) ?? [],
+			{ folders: this.settings.autoRestoreFolders, tags: this.settings.autoRestoreTags }
+		);
+	}
+
+	private describeAutoRestoreMatch(match: AutoRestoreMatch): string {
+		switch (match.reason) {
+			case 'frontmatter': return 'asks to be restored when opened';
+			case 'folder': return 'is in an auto-restore folder';
+			case 'tag': return 'has an auto-restore tag';
+		}
+	}
+
+	/** Toast after an auto-restore, with an undo button while there is a snapshot. */
+	private showAutoRestoreNotice(file: TFile): void {
+		const notice = new Notice(createFragment(frag => {
+			frag.createSpan({ text: `Restored context of ${file.basename}` });
+			if (this.undoStore.size === 0) return;
+			const undoBtn = frag.createEl('button', { cls: 'perspecta-notice-button', text: 'Undo' });
+			undoBtn.addEventListener('click', (evt) => {
+				evt.stopPropagation();
+				notice.hide();
+				void this.undoLastRestore();
+			});
+		}), TIMING.AUTO_RESTORE_TOAST_DURATION);
+	}
+
+	// ============================================================================
+	// Context switcher
+	// ----------------------------------------------------------------------------
+	// Palette over every note with a saved context: the indicator map plus, in
+	// external mode, the store's UIDs whose note the scan has not seen.
+	// ============================================================================
+
+	openContextSwitcher(): void {
+		new ContextSwitcherModal(this.app, {
+			load: (allWorkspaces) => this.listContextSwitchEntries(allWorkspaces),
+			allWorkspaces: this.settings.workspaceCrossSelector,
+			onChoose: (entry, pick) => {
+				if (pick) {
+					const otherBucket = entry.workspaceId !== this.getContextStore(entry.file).getActiveWorkspace();
+					void this.restoreContext(entry.file, false, otherBucket);
+				} else {
+					void this.restoreContext(entry.file, true, false, { workspaceId: entry.workspaceId });
+				}
+			},
+		}).open();
+	}
+
+	private async listContextSwitchEntries(allWorkspaces: boolean): Promise<ContextSwitchEntry[]> {
+		const paths = new Set(this.filesWithContext.keys());
+		if (this.settings.storageMode === 'external') {
+			const buckets = allWorkspaces
+				? this.externalStore.listWorkspaces().map(w => w.id)
+				: [this.externalStore.getActiveWorkspace()];
+			const uids = new Set(this.externalStore.getAllUidsAcross(buckets));
+			for (const [path, uid] of this.externalStore.getPathHints()) {
+				if (uids.has(uid)) paths.add(path);
+			}
+		}
+
+		const entries: ContextSwitchEntry[] = [];
+		for (const path of paths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+			const store = this.getContextStore(file);
+			const activeWs = store.getActiveWorkspace();
+			const buckets = allWorkspaces ? await store.workspacesWith(file) : [activeWs];
+			for (const wsId of buckets) {
+				// From the store's index where it has one; arrangements load per preview
+				const summary = await store.summarize(file, wsId);
+				if (!summary) continue;
+				entries.push({
+					file,
+					workspaceId: wsId,
+					workspaceLabel: wsId === activeWs ? '' : store.listWorkspaces().find(w => w.id === wsId)?.displayName ?? wsId,
+					...summary,
+					loadLatest: async () => (await store.getAll(file, wsId))[0] ?? null,
+				});
+			}
+		}
+		return entries;
+	}
+
+	// ============================================================================
+	// Contexts view
+	// ----------------------------------------------------------------------------
+	// Sidebar list of all saved contexts. It is refreshed where context data
+	// changes (saves, deletions, frontmatter edits, changes to the external
+	// store), never on layout changes: a refresh re-reads every bucket.
+	// ============================================================================
+
+	async openContextsView(): Promise<void> {
+		const existing = this.app.workspace.getLeavesOfType(CONTEXTS_VIEW_TYPE)[0];
+		if (existing) {
+			await this.app.workspace.revealLeaf(existing);
+			return;
+		}
+		const leaf = this.app.workspace.getRightLeaf(false);
+		if (!leaf) return;
+		await leaf.setViewState({ type: CONTEXTS_VIEW_TYPE, active: true });
+		await this.app.workspace.revealLeaf(leaf);
+	}
+
+	/** Reload the open Contexts views once a burst of changes has settled. */
+	private debouncedRefreshContextsViews(): void {
+		if (this.refreshContextsViewsTimeout) clearTimeout(this.refreshContextsViewsTimeout);
+		this.refreshContextsViewsTimeout = setTimeout(() => {
+			this.refreshContextsViewsTimeout = null;
+			if (this.isClosingWindow || this.isUnloading) return;
+			for (const leaf of this.app.workspace.getLeavesOfType(CONTEXTS_VIEW_TYPE)) {
+				if (leaf.view instanceof ContextsView) void leaf.view.refresh();
+			}
+		}, 100);
+	}
+
+	private contextsViewHost(): ContextsViewHost {
+		return {
+			listEntries: () => this.listContextsViewEntries(),
+			listWorkspaces: () => {
+				// Inline stores have only the Default bucket, whatever the file type
+				const store: ContextStore = { external: this.jsonStore, indexeddb: this.indexedDbStore, frontmatter: this.frontmatterStore }[this.settings.storageMode];
+				const activeWs = store.getActiveWorkspace();
+				return store.listWorkspaces()
+					.map(w => ({ id: w.id, displayName: w.displayName, active: w.id === activeWs }))
+					.sort((a, b) => Number(b.active) - Number(a.active));
+			},
+			canCopyOrMove: () => this.settings.storageMode === 'external',
+			restore: (entry, pick) => {
+				const otherBucket = entry.workspaceId !== this.getContextStore(entry.file).getActiveWorkspace();
+				if (pick) void this.restoreContext(entry.file, false, otherBucket);
+				else void this.restoreContext(entry.file, true, false, { workspaceId: entry.workspaceId });
+			},
+			rename: async (entry) => {
+				const store = this.getContextStore(entry.file);
+				if (!store.capabilities.labels) {
+					new Notice('Arrangements in this file type cannot be named', 4000);
+					return;
+				}
+				const arrangements = await store.getAll(entry.file, entry.workspaceId);
+				let target = arrangements[0];
+				if (!target) return;
+				if (arrangements.length > 1) {
+					const choice = await showArrangementSelector(arrangements, entry.file.name);
+					if (choice.cancelled) return;
+					target = choice.arrangement;
+				}
+				const result = await showArrangementLabelEditor(labelOf(target), entry.file.name);
+				if (result.cancelled) return;
+				await store.updateLabel(entry.file, target.savedAt, result.label, entry.workspaceId);
+			},
+			delete: async (entry) => {
+				const ws = entry.workspaceLabel ? ` from ${entry.workspaceLabel}` : '';
+				const what = entry.count === 1 ? 'the saved context' : `all ${entry.count} saved arrangements`;
+				if (!confirm(`Delete ${what} of ${entry.file.basename}${ws}?`)) return;
+				await this.getContextStore(entry.file).delete(entry.file, entry.workspaceId);
+				await this.updateFileExplorerIndicator(entry.file);
+			},
+			copyOrMove: (entry, action) => this.copyOrMoveForFile(entry.file, action, entry.workspaceId),
+			open: (entry) => {
+				void this.app.workspace.getLeaf(false).openFile(entry.file);
+			},
+		};
+	}
+
+	private async listContextsViewEntries(): Promise<ContextsViewEntry[]> {
+		const entries = await this.listContextSwitchEntries(true);
+		return entries.map(entry => {
+			const cache = this.app.metadataCache.getFileCache(entry.file);
+			const noteTags = (cache && getAllTags(cache)) ?? [];
+			const arrangementTags = entry.labels.filter(l => l.startsWith('#'));
+			const tags = [...new Set([...noteTags, ...arrangementTags].map(t => t.replace(/^#/, '')))];
+			return { ...entry, tags };
+		});
+	}
+
+	// ============================================================================
+	// Session restore
+	// ----------------------------------------------------------------------------
+	// The note whose context was restored or saved last is remembered per
+	// workspace bucket. On startup its context can be offered or restored
+	// again; the restore itself recreates popouts, geometry and wallpaper.
+	// ============================================================================
+
+	private async rememberContextNote(file: TFile): Promise<void> {
+		await this.sessionStore.setLastContext(this.externalStore.getActiveWorkspace(), {
+			path: file.path,
+			uid: await this.getUidForFile(file),
+			at: Date.now(),
+		});
+	}
+
+	private async restoreLastSession(): Promise<void> {
+		if (this.settings.sessionRestore === 'off') return;
+		const workspaceId = this.externalStore.getActiveWorkspace();
+		const last = this.sessionStore.getLastContext(workspaceId);
+		if (!last) return;
+
+		const { file } = resolveFile(this.app, { path: last.path, uid: last.uid, active: true });
+		if (!file || !await this.getContextStore(file).has(file)) {
+			Logger.debug(`Session restore: no context left for ${last.path}`);
+			await this.sessionStore.clearLastContext(workspaceId);
+			return;
+		}
+
+		if (this.settings.sessionRestore === 'auto') {
+			await this.restoreContext(file, true);
+			return;
+		}
+		this.showSessionRestoreNotice(file);
+	}
+
+	/** Startup toast offering to restore the last context note. */
+	private showSessionRestoreNotice(file: TFile): void {
+		const notice = new Notice(createFragment(frag => {
+			frag.createSpan({ text: `Last context: ${file.basename}` });
+			const restoreBtn = frag.createEl('button', { cls: 'perspecta-notice-button', text: 'Restore' });
+			restoreBtn.addEventListener('click', (evt) => {
+				evt.stopPropagation();
+				notice.hide();
+				void this.restoreContext(file, true);
+			});
+		}), TIMING.SESSION_RESTORE_TOAST_DURATION);
+	}
+
+	/**
+	 * Restore only the windows and tab groups picked in the partial restore
+	 * modal. When no main window group is picked, the main window and the
+	 * sidebars stay as they are.
+	 */
+	async restorePartialContext(file?: TFile) {
+		if (this.isRestoring) {
+			Logger.debug('Skipping restorePartialContext - already restoring');
+			return;
+		}
+		this.isRestoring = true;
+		PerfTimer.begin('restorePartialContext');
+
+		this.pathCorrections.clear();
+		this.missingTabs.clear();
+
+		const targetFile = file ?? this.app.workspace.getActiveFile();
+		if (!targetFile) {
+			new Notice('No active file', 4000);
+			this.isRestoring = false;
+			return;
+		}
+
+		try {
+			const contextResult = await this.getContextForFileWithSelection(targetFile);
+			if (!contextResult || contextResult.cancelled) return;
+
+			const context = contextResult.context;
+			if (!context) { new Notice('No context found in this note', 4000); return; }
+
+			const v2 = normalizeToV2(context);
+			const pick = await showPartialRestoreSelector({ arrangement: v2, savedAt: v2.ts }, targetFile.name);
+			if (pick.cancelled) return;
+
+			const partial = selectFromArrangement(v2, pick.selected);
+			if (!partial) return;
+
+			await this.snapshotBeforeRestore(targetFile.path);
+			await this.applyArrangement(partial.arrangement, targetFile.path, partial.includesMain);
+
+			// Path corrections are not written back here: only the picked part
+			// of the saved arrangement was resolved, so the full arrangement
+			// can't be patched safely
+		} finally {
+			PerfTimer.end('restorePartialContext');
+			this.isRestoring = false;
+		}
+	}
+
+	/**
+	 * Open a note's saved context next to the current layout instead of
+	 * replacing it. Existing windows and leaves are left alone.
+	 */
+	async openContextAlongside(target: AlongsideTarget, file?: TFile) {
+		if (this.isRestoring) {
+			Logger.debug('Skipping openContextAlongside - already restoring');
+			return;
+		}
+		this.isRestoring = true;
+		PerfTimer.begin('openContextAlongside');
+
+		this.pathCorrections.clear();
+		this.missingTabs.clear();
+
+		const targetFile = file ?? this.app.workspace.getActiveFile();
+		if (!targetFile) {
+			new Notice('No active file', 4000);
+			this.isRestoring = false;
+			return;
+		}
+
+		try {
+			const contextResult = await this.getContextForFileWithSelection(targetFile);
+			if (!contextResult || contextResult.cancelled) return;
 
-				if (entries.length === 0) {
-					// External store empty for this UID — fall back to the
-					// file's inline storage if it has one (legacy canvas/base
-					// data, or pre-external-mode markdown frontmatter).
-					if (file.extension === 'canvas') {
-						return { context: await getContextFromCanvas(this.app, file), cancelled: false };
+			const context = contextResult.context;
+			if (!context) { new Notice('No context found in this note', 4000); return; }
+
+			await this.snapshotBeforeRestore(targetFile.path);
+			await this.applyArrangementAlongside(context, target);
+
+			// Path corrections are not written back here: the sidebars and
+			// (unless enabled) popouts of the saved arrangement were not opened,
+			// so the full arrangement can't be patched safely
+		} finally {
+			PerfTimer.end('openContextAlongside');
+			this.isRestoring = false;
+		}
+	}
+
+	// Get context with potential user selection for multiple arrangements
+	// If forceLatest is true, always use the most recent arrangement without showing selector
+	private async getContextForFileWithSelection(file: TFile, forceLatest = false, crossWorkspace = false): Promise<{ context: WindowArrangement | null; cancelled: boolean }> {
+		// External modes: all file types (markdown, canvas, base) flow through
+		// the workspace-scoped store. Inline storage is used only as a
+		// backwards-compat fallback when the store has nothing for the file.
+		const store = this.getContextStore(file);
+		if (store.capabilities.workspaces) {
+			const activeWs = store.getActiveWorkspace();
+			const useCrossWorkspace = crossWorkspace || this.settings.workspaceCrossSelector;
+
+			// Build the arrangement set. In single-workspace mode, just the active
+			// bucket (with optional Default fallback). In cross-workspace mode,
+			// gather from every workspace that has arrangements for this UID.
+			type Entry = { ts: TimestampedArrangement; wsId: WorkspaceId; wsLabel: string };
+			const entries: Entry[] = [];
+			let usedFallback = false;
+
+			if (useCrossWorkspace) {
+				for (const wsId of await store.workspacesWith(file)) {
+					const wsInfo = store.listWorkspaces().find(w => w.id === wsId);
+					const label = wsInfo?.displayName ?? wsId;
+					for (const ts of await store.getAll(file, wsId)) {
+						entries.push({ ts, wsId, wsLabel: label });
 					}
-					if (file.extension === 'base') {
-						return { context: await getContextFromBase(this.app, file), cancelled: false };
+				}
+			} else {
+				for (const ts of await store.getAll(file)) {
+					entries.push({ ts, wsId: activeWs, wsLabel: '' });
+				}
+				if (entries.length === 0 && this.settings.workspaceFallbackToDefault && activeWs !== DEFAULT_WORKSPACE_ID) {
+					for (const ts of await store.getAll(file, DEFAULT_WORKSPACE_ID)) {
+						entries.push({ ts, wsId: DEFAULT_WORKSPACE_ID, wsLabel: 'Default' });
+						usedFallback = true;
 					}
-					return { context: getContextFromFrontmatter(this.app, file), cancelled: false };
 				}
+			}
 
+			// Store empty for this file — fall through to the file's inline
+			// storage (legacy canvas/base data, or pre-external-mode markdown
+			// frontmatter).
+			if (entries.length > 0) {
 				if (entries.length === 1 || forceLatest) {
 					if (usedFallback) {
 						new Notice(`Restored from Default — save to remember in this workspace`, 4000);
@@ -1953,10 +2752,14 @@ export default class PerspectaPlugin extends Plugin {
 					{
 						onDelete: (savedAt, wsId) => {
 							const target = wsId ?? byTs.get(savedAt) ?? activeWs;
-							this.externalStore.deleteArrangement(uid, savedAt, target);
+							void store.deleteArrangement(file, savedAt, target).then(() => this.updateFileExplorerIndicator(file));
 						},
 						getWorkspaceId: (savedAt) => byTs.get(savedAt),
 						getWorkspaceLabel: showLabels ? (savedAt) => labelByTs.get(savedAt) : undefined,
+						onEditLabel: (savedAt, label, wsId) => {
+							const target = wsId ?? byTs.get(savedAt) ?? activeWs;
+							void store.updateLabel(file, savedAt, label, target).then(() => this.debouncedRefreshContextsViews());
+						},
 					}
 				);
 				if (result.cancelled) {
@@ -1969,76 +2772,96 @@ export default class PerspectaPlugin extends Plugin {
 			}
 		}
 
-		// Frontmatter mode (or external mode + no UID): pull from inline storage
-		// per file type. Canvas/base get their JSON/YAML embed; markdown gets
-		// its frontmatter.
-		if (file.extension === 'canvas') {
-			return { context: await getContextFromCanvas(this.app, file), cancelled: false };
-		}
-		if (file.extension === 'base') {
-			return { context: await getContextFromBase(this.app, file), cancelled: false };
-		}
-		return { context: getContextFromFrontmatter(this.app, file), cancelled: false };
+		// Frontmatter mode, or nothing in the workspace store: pull from
+		// inline storage per file type. Canvas/base get their JSON/YAML embed;
+		// markdown gets its frontmatter.
+		return { context: await this.getInlineStore(file).getLatest(file), cancelled: false };
 	}
 
 	// Get context for file - handles markdown, canvas, base, and external storage
 	private async getContextForFile(file: TFile): Promise<WindowArrangement | null> {
-		// Canvas files store context directly in their JSON
-		if (file.extension === 'canvas') {
-			return getContextFromCanvas(this.app, file);
-		}
+		const store = this.getContextStore(file);
+		const context = await store.getLatest(file);
+		if (context) return context;
 
-		// Base files store context directly in their YAML
-		if (file.extension === 'base') {
-			return getContextFromBase(this.app, file);
-		}
+		// Fall back to inline storage (for backward compatibility in the external modes)
+		const inline = this.getInlineStore(file);
+		return inline === store ? null : inline.getLatest(file);
+	}
 
-		// For markdown files, check external storage first (if enabled)
-		if (this.settings.storageMode === 'external') {
-			const uid = getUidFromCache(this.app, file);
-			if (uid) {
-				// Initialize store if needed
-				await this.externalStore.ensureInitialized();
-				const context = this.externalStore.getLatest(uid);
-				if (context) return context;
+	/**
+	 * Report tabs whose file could not be found and apply the user's choices:
+	 * replacements are opened and become path corrections, dropped tabs are
+	 * added to `dropped`.
+	 *
+	 * @param arrangement The arrangement just restored
+	 */
+	private async resolveMissingTabs(arrangement: WindowArrangementV2, fileName: string, targetWindow: Window, dropped: Set<string>): Promise<void> {
+		const candidates = this.app.vault.getFiles()
+			.filter(f => ['md', 'canvas', 'base'].includes(f.extension))
+			.map(f => f.path)
+			.sort((a, b) => a.localeCompare(b));
+
+		const result = await showMissingFilesReport([...this.missingTabs.values()], candidates, fileName, targetWindow);
+		if (result.cancelled) return;
+
+		for (const [path, choice] of result.choices) {
+			if (choice.action === 'drop') {
+				dropped.add(path);
+			} else if (choice.action === 'replace') {
+				const file = this.app.vault.getAbstractFileByPath(choice.path);
+				if (file instanceof TFile) {
+					await this.openReplacement(arrangement, path, file, targetWindow);
+					this.pathCorrections.set(path, {
+						newPath: file.path,
+						newName: file.basename,
+						newUid: getUidFromCache(this.app, file) ?? null
+					});
+				}
 			}
 		}
-
-		// Fall back to frontmatter (for backward compatibility or frontmatter mode)
-		return getContextFromFrontmatter(this.app, file);
 	}
 
-	// Update saved context with corrected file paths after fallback resolution
-	private async updateContextWithCorrectedPaths(contextFile: TFile, originalContext: WindowArrangement): Promise<void> {
-		if (this.pathCorrections.size === 0) return;
+	/**
+	 * Open a picked replacement where the missing tab would have been: in the
+	 * tab group of its saved siblings, or a new tab in the target window when
+	 * none of them is open.
+	 */
+	private async openReplacement(arrangement: WindowArrangementV2, missingPath: string, file: TFile, targetWindow: Window): Promise<void> {
+		const siblings = new Set((savedTabGroupOf(arrangement, missingPath) ?? [])
+			.filter(tab => !tab.viewType && tab.path !== missingPath)
+			.map(tab => this.pathCorrections.get(tab.path)?.newPath ?? tab.path));
+
+		const sidebars: unknown[] = [this.app.workspace.leftSplit, this.app.workspace.rightSplit];
+		const leaves: WorkspaceLeaf[] = [];
+		this.app.workspace.iterateAllLeaves((leaf) => { leaves.push(leaf); });
+		const neighbour = leaves.find(leaf => hasFile(leaf.view) && siblings.has(leaf.view.file.path))
+			?? leaves.find(leaf => leaf.view?.containerEl?.win === targetWindow && !sidebars.includes(leaf.getRoot()));
+
+		const container = neighbour?.parent as unknown as WorkspaceTabContainer | undefined;
+		const leaf = container
+			? this.app.workspace.createLeafInParent(container as unknown as ObsidianWorkspaceSplit, container.children.length)
+			: this.app.workspace.getLeaf('tab');
+		await leaf.openFile(file);
+	}
 
-		// Re-capture the current arrangement (which now has correct paths)
-		const correctedContext = this.captureWindowArrangement();
+	// Update saved context with corrected file paths after fallback resolution,
+	// user-picked replacements and dropped tabs. The saved arrangement is
+	// patched rather than re-captured, so tabs that are still missing but
+	// were kept stay in the context.
+	private async updateContextWithCorrectedPaths(contextFile: TFile, originalContext: WindowArrangement, dropped: ReadonlySet<string> = new Set()): Promise<void> {
+		if (this.pathCorrections.size === 0 && dropped.size === 0) return;
 
-		// Preserve original metadata
-		correctedContext.ts = originalContext.ts;
-		correctedContext.focusedWindow = originalContext.focusedWindow;
+		const correctedContext = patchArrangement(normalizeToV2(originalContext), this.pathCorrections, dropped);
 
-		// Preserve source screen info if it existed
-		const v2Original = normalizeToV2(originalContext);
-		if (v2Original.sourceScreen) {
-			correctedContext.sourceScreen = v2Original.sourceScreen;
-		}
+		// Save the corrected context where it was read from: the store of the
+		// current storage mode, or inline storage for legacy data
+		const store = this.getContextStore(contextFile);
+		const target = store.capabilities.workspaces && !await store.has(contextFile) ? this.getInlineStore(contextFile) : store;
 
-		// Save the corrected context based on file type and storage mode
-		if (contextFile.extension === 'canvas') {
-			// Canvas files store context in their JSON
-			await saveContextToCanvas(this.app, contextFile, correctedContext);
-		} else if (contextFile.extension === 'base') {
-			// Base files store context in their YAML
-			await saveContextToBase(this.app, contextFile, correctedContext);
-		} else if (this.settings.storageMode === 'external') {
-			const uid = getUidFromCache(this.app, contextFile);
-			if (uid) {
-				this.externalStore.set(uid, correctedContext);
-			}
-		} else {
-			await saveContextToFrontmatter(this.app, contextFile, correctedContext);
+		if (!await saveCorrectedArrangement(target, contextFile, correctedContext)) {
+			Logger.debug(`Restored arrangement of ${contextFile.path} is no longer stored; corrections not saved`);
+			return;
 		}
 
 		if (PerfTimer.isEnabled()) {
@@ -2049,7 +2872,13 @@ export default class PerspectaPlugin extends Plugin {
 		}
 	}
 
-	private async applyArrangement(arrangement: WindowArrangement, contextNotePath?: string): Promise<Window | null> {
+	/**
+	 * Apply an arrangement, replacing the current windows. With includeMain
+	 * false (partial restore without main window groups) the main window,
+	 * its geometry and the sidebars are left untouched and only popouts are
+	 * replaced. Errors are shown in a notice, or thrown with onError 'throw'.
+	 */
+	private async applyArrangement(arrangement: WindowArrangement, contextNotePath?: string, includeMain = true, onError: 'notice' | 'throw' = 'notice'): Promise<Window | null> {
 		try {
 			PerfTimer.mark('applyArrangement:start');
 
@@ -2061,6 +2890,7 @@ export default class PerspectaPlugin extends Plugin {
 
 			const v2 = normalizeToV2(arrangement);
 			PerfTimer.mark('normalizeToV2');
+			this.restoreGroupIds.clear();
 
 			// Check if we need to tile windows due to aspect ratio mismatch
 			const useTiling = needsTiling(v2.sourceScreen);
@@ -2081,155 +2911,925 @@ export default class PerspectaPlugin extends Plugin {
 			}
 			PerfTimer.mark('checkTilingNeeded');
 
-			// Close popouts (but not DevTools)
-			const popoutWindows = this.getPopoutWindowObjects();
-			PerfTimer.mark('getPopoutWindowObjects');
+			const popoutsToRestore = this.selectPopoutsToRestore(v2, useTiling ? tiledPositions : []);
+
+			if (this.settings.enableIncrementalRestore) {
+				if (includeMain) this.restoreMainWindowGeometry(v2, useTiling ? tiledPositions : []);
+
+				// Diff-apply: keep matching leaves and windows, only create/close what differs
+				await this.reconcileWindows(v2, popoutsToRestore, includeMain);
+				PerfTimer.mark('reconcileWindows');
+
+				if (devToolsWasOpen) {
+					this.openDevTools();
+				}
+			} else {
+				// Close popouts (but not DevTools)
+				const popoutWindows = this.getPopoutWindowObjects();
+				PerfTimer.mark('getPopoutWindowObjects');
 
-			Logger.debug(`Found ${popoutWindows.length} popout windows to close`);
+				Logger.debug(`Found ${popoutWindows.length} popout windows to close`);
 
-			for (const win of popoutWindows) {
-				this.closePopoutWindow(win);
+				for (const win of popoutWindows) {
+					this.closePopoutWindow(win);
+				}
+				PerfTimer.mark('closePopoutWindows');
+
+				// Re-open DevTools if it was open before (do this early so logs are visible)
+				if (devToolsWasOpen) {
+					this.openDevTools();
+				}
+
+				if (includeMain) {
+					// Get main window leaves (single iteration)
+					const mainLeaves = this.getMainWindowLeaves();
+					PerfTimer.mark('getMainWindowLeaves');
+
+					for (let i = 1; i < mainLeaves.length; i++) mainLeaves[i].detach();
+					PerfTimer.mark('detachExtraLeaves');
+
+					this.restoreMainWindowGeometry(v2, useTiling ? tiledPositions : []);
+
+					// Restore main workspace
+					const workspace = asExtendedWorkspace(this.app.workspace);
+					await this.restoreWorkspaceNode(workspace.rootSplit, v2.main.root, mainLeaves[0]);
+					PerfTimer.mark('restoreMainWorkspace');
+				}
+
+				await this.restorePopouts(popoutsToRestore, v2.sourceScreen);
+			}
+
+			// Process pending tab activations after a delay to ensure windows are fully ready.
+			// rAF waits for layout/paint; safeTimeout waits one more macrotask AND won't fire
+			// if the plugin unloads mid-restore.
+			if (this.pendingTabActivations.length > 0) {
+				requestAnimationFrame(() => {
+					this.safeTimeout(() => {
+						this.processPendingTabActivations();
+					}, 100);
+				});
 			}
-			PerfTimer.mark('closePopoutWindows');
 
-			// Re-open DevTools if it was open before (do this early so logs are visible)
-			if (devToolsWasOpen) {
-				this.openDevTools();
+			// Restore sidebars
+			if (includeMain && v2.leftSidebar) await this.restoreSidebarState('left', v2.leftSidebar);
+			if (includeMain && v2.rightSidebar) await this.restoreSidebarState('right', v2.rightSidebar);
+			PerfTimer.mark('restoreSidebars');
+
+			// Restore wallpaper if enabled (experimental) - run concurrently, non-blocking
+			if (this.settings.enableWallpaperRestore && v2.wallpaper) {
+				setWallpaper(v2.wallpaper).then(result => {
+					if (result.success) {
+						PerfTimer.mark('restoreWallpaper');
+					} else {
+						Logger.debug('Could not restore wallpaper:', result.error);
+					}
+				}).catch(e => {
+					Logger.debug('Wallpaper restoration failed:', e);
+				});
 			}
 
-			// Get main window leaves (single iteration)
-			const mainLeaves = this.getMainWindowLeaves();
-			PerfTimer.mark('getMainWindowLeaves');
+			// Schedule scroll position restoration for all leaves
+			if (includeMain) this.scheduleScrollRestoration(v2.main.root);
+			for (const popout of v2.popouts) {
+				this.scheduleScrollRestoration(popout.root);
+			}
+			PerfTimer.mark('scheduleScrollRestoration');
 
-			for (let i = 1; i < mainLeaves.length; i++) mainLeaves[i].detach();
-			PerfTimer.mark('detachExtraLeaves');
+			// Schedule properties collapse/expand restoration for all leaves
+			Logger.debug('Scheduling properties restoration');
+			if (includeMain) this.schedulePropertiesRestoration(v2.main.root);
+			for (const popout of v2.popouts) {
+				this.schedulePropertiesRestoration(popout.root);
+			}
+			PerfTimer.mark('schedulePropertiesRestoration');
 
-			// Restore geometry - use tiled position if aspect ratios differ
-			if (useTiling && tiledPositions.length > 0) {
-				this.restoreWindowGeometryDirect(window, tiledPositions[0]);
-			} else {
-				this.restoreWindowGeometry(window, v2.main, v2.sourceScreen);
+			// Find and focus the window containing the context note (the note used to restore)
+			// This ensures the context note is active and its window is in foreground
+			let contextNoteWin: Window | null = null;
+			if (contextNotePath) {
+				contextNoteWin = this.findWindowContainingFile(contextNotePath);
 			}
-			PerfTimer.mark('restoreWindowGeometry');
 
-			// Restore main workspace
-			const workspace = asExtendedWorkspace(this.app.workspace);
-			await this.restoreWorkspaceNode(workspace.rootSplit, v2.main.root, mainLeaves[0]);
-			PerfTimer.mark('restoreMainWorkspace');
-
-			// Restore popouts (with deduplication to prevent duplicate windows)
-			const restoredPaths = new Set<string>();
-			const popoutsToRestore: Array<{
-				index: number;
-				state: WindowStateV2;
-				tiledPosition?: { x: number; y: number; width: number; height: number };
-			}> = [];
-
-			for (let i = 0; i < v2.popouts.length; i++) {
-				// Get the primary file path for this popout to detect duplicates
-				const firstTab = this.getFirstTab(v2.popouts[i].root);
-				const popoutPath = firstTab?.path;
-
-				// Skip if we've already restored a popout with this exact path
-				if (popoutPath && restoredPaths.has(popoutPath)) {
-					continue;
-				}
-				if (popoutPath) {
-					restoredPaths.add(popoutPath);
+			// Fall back to the originally focused window if context note window not found
+			const focusedWin = contextNoteWin ?? this.getFocusedWindow(v2);
+
+			if (focusedWin) {
+				// Activate the leaf containing the context note (or the originally active leaf)
+				if (contextNotePath && contextNoteWin) {
+					this.activateLeafByPath(contextNoteWin, contextNotePath);
+				} else {
+					this.activateWindowLeaf(focusedWin, v2);
 				}
+				focusedWin.focus();
+				this.showFocusTint(focusedWin);
+			}
+			PerfTimer.mark('activateFocusedWindow');
+
+			return focusedWin;
+		} catch (e) {
+			if (onError === 'throw') throw e;
+			new Notice('Error restoring context: ' + (e as Error).message, 4000);
+			return null;
+		}
+	}
 
-				const tiledPosition = useTiling && tiledPositions.length > i + 1 ? tiledPositions[i + 1] : undefined;
-				popoutsToRestore.push({ index: i, state: v2.popouts[i], tiledPosition });
+	/**
+	 * Pick the popouts to restore, skipping duplicates (a popout whose first
+	 * file was already used by an earlier popout), and attach tiled positions.
+	 */
+	private selectPopoutsToRestore(
+		v2: WindowArrangementV2,
+		tiledPositions: { x: number; y: number; width: number; height: number }[]
+	): PopoutRestoreItem[] {
+		const restoredPaths = new Set<string>();
+		const popoutsToRestore: PopoutRestoreItem[] = [];
+
+		for (let i = 0; i < v2.popouts.length; i++) {
+			// Get the primary file path for this popout to detect duplicates
+			const firstTab = this.getFirstTab(v2.popouts[i].root);
+			const popoutPath = firstTab?.path;
+
+			// Skip if we've already restored a popout with this exact path
+			if (popoutPath && restoredPaths.has(popoutPath)) {
+				continue;
+			}
+			if (popoutPath) {
+				restoredPaths.add(popoutPath);
+			}
+
+			const tiledPosition = tiledPositions.length > i + 1 ? tiledPositions[i + 1] : undefined;
+			popoutsToRestore.push({ index: i, state: v2.popouts[i], tiledPosition });
+		}
+		return popoutsToRestore;
+	}
+
+	/**
+	 * Restore main window geometry - use tiled position if aspect ratios differ.
+	 */
+	private restoreMainWindowGeometry(
+		v2: WindowArrangementV2,
+		tiledPositions: { x: number; y: number; width: number; height: number }[]
+	): void {
+		if (tiledPositions.length > 0) {
+			this.restoreWindowGeometryDirect(window, tiledPositions[0]);
+		} else {
+			this.restoreWindowGeometry(window, v2.main, v2.sourceScreen);
+		}
+		PerfTimer.mark('restoreWindowGeometry');
+	}
+
+	/**
+	 * Create popout windows, in parallel when enabled.
+	 */
+	private async restorePopouts(popoutsToRestore: PopoutRestoreItem[], sourceScreen?: ScreenInfo): Promise<void> {
+		if (this.settings.enableParallelPopoutCreation && popoutsToRestore.length > 1) {
+			// Parallel restoration - create all popouts concurrently
+			await Promise.all(
+				popoutsToRestore.map(async ({ index, state, tiledPosition }) => {
+					await this.restorePopoutWindow(state, sourceScreen, tiledPosition);
+					PerfTimer.mark(`restorePopout[${index}]`);
+				})
+			);
+			PerfTimer.mark('restorePopoutsParallel');
+		} else {
+			// Sequential restoration (default behavior)
+			for (const { index, state, tiledPosition } of popoutsToRestore) {
+				await this.restorePopoutWindow(state, sourceScreen, tiledPosition);
+				PerfTimer.mark(`restorePopout[${index}]`);
+			}
+		}
+	}
+
+	// ============================================================================
+	// Autosave
+	// ============================================================================
+
+	/**
+	 * Whether layout changes are saved to a restored note. "perspecta-autosave"
+	 * in the frontmatter opts a note in (or out with false).
+	 */
+	private autoSaveParticipates(file: TFile): boolean {
+		if (!this.settings.enableAutoSave) return false;
+		const flag: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[AUTOSAVE_FRONTMATTER_KEY];
+		if (flag === false || flag === 'false') return false;
+		switch (this.settings.autoSaveNotes) {
+			case 'flagged': return flag === true || flag === 'true';
+			case 'auto-restore': return this.matchAutoRestore(file) !== null;
+			default: return true;
+		}
+	}
+
+	/**
+	 * Write an autosaved layout to a note (see writeAutosave). Not recorded
+	 * in history.
+	 */
+	private async autoSaveContext(path: string, arrangement: WindowArrangementV2): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			this.autoSave.track(null);
+			return;
+		}
+
+		const store = this.getContextStore(file);
+		let context = arrangement;
+		if (this.settings.autoGenerateUids || store.capabilities.workspaces) {
+			context = await this.ensureUidsForContext(context);
+		}
+
+		await writeAutosave(store, file, context);
+		await this.contextSaved(store, file);
+		Logger.debug(`Autosaved context to ${path}`);
+	}
+
+	// ============================================================================
+	// Undo Restore
+	// ============================================================================
+
+	/**
+	 * Capture the current layout into the undo ring before a restore changes it.
+	 */
+	private async snapshotBeforeRestore(contextNotePath?: string): Promise<void> {
+		if (this.settings.undoHistorySize === 0) return;
+		try {
+			await this.undoStore.push({
+				arrangement: this.captureWindowArrangement(),
+				takenAt: Date.now(),
+				contextNotePath
+			});
+			PerfTimer.mark('snapshotBeforeRestore');
+		} catch (e) {
+			// Never block a restore because the snapshot failed
+			Logger.warn('Could not capture layout before restore:', e);
+		}
+	}
+
+	/**
+	 * Put back the layout captured before the most recent restore. The undo
+	 * itself is not snapshotted, so repeated undos walk back through the ring.
+	 */
+	async undoLastRestore() {
+		if (this.isRestoring) {
+			Logger.debug('Skipping undoLastRestore - already restoring');
+			return;
+		}
+
+		// The snapshot is only dropped once it has been applied, so a failed
+		// undo can be tried again
+		const snapshot = this.undoStore.peek();
+		if (!snapshot) {
+			new Notice('Nothing to undo', 4000);
+			return;
+		}
+
+		this.isRestoring = true;
+		this.pathCorrections.clear();
+		this.missingTabs.clear();
+		// The layout before the restore doesn't belong to the restored note
+		this.autoSave.track(null);
+		try {
+			await this.applyArrangement(snapshot.arrangement, undefined, true, 'throw');
+			await this.undoStore.pop();
+			const noteName = snapshot.contextNotePath?.split('/').pop()?.replace(/\.md$/, '');
+			new Notice(noteName ? `Undid restore of ${noteName}` : 'Undid last restore', 4000);
+		} catch (e) {
+			new Notice('Error undoing restore: ' + (e as Error).message, 4000);
+		} finally {
+			this.isRestoring = false;
+		}
+	}
+
+	// ============================================================================
+	// Perspectives (arrangements not bound to a note)
+	// ============================================================================
+
+	/**
+	 * Save the current layout as a named perspective. Saving under an
+	 * existing name replaces that perspective after confirmation.
+	 */
+	async savePerspective() {
+		const labelResult = await showArrangementLabelEditor({}, '', window, 'Save Perspective', []);
+		if (labelResult.cancelled) return;
+
+		const { name } = labelResult.label;
+		if (!name) {
+			new Notice('A perspective needs a name', 4000);
+			return;
+		}
+
+		const existing = this.perspectiveStore.findByName(name);
+		if (existing && !this.settings.autoConfirmOverwrite) {
+			const result = await showConfirmOverwrite(existing, existing.name);
+			if (!result.confirmed) return;
+		}
+
+		let arrangement = this.captureWindowArrangement();
+		if (this.settings.autoGenerateUids) {
+			arrangement = await this.ensureUidsForContext(arrangement);
+		}
+
+		await this.perspectiveStore.save(arrangement, { ...labelResult.label, name });
+		new Notice(`Perspective "${name}" saved`, 4000);
+	}
+
+	openPerspectivePalette(): void {
+		if (this.perspectiveStore.size === 0) {
+			new Notice('No perspectives saved yet', 4000);
+			return;
+		}
+		new NamedArrangementSuggestModal(this.app, this.perspectiveStore.list(), 'Open perspective…', (perspective) => {
+			void this.restorePerspective(perspective);
+		}).open();
+	}
+
+	/**
+	 * Restore a perspective like a context note: the layout is snapshotted
+	 * for undo, missing files are reported, and corrections are written back
+	 * to the perspective.
+	 */
+	async restorePerspective(perspective: Perspective) {
+		if (this.isRestoring) {
+			Logger.debug('Skipping restorePerspective - already restoring');
+			return;
+		}
+		this.isRestoring = true;
+		PerfTimer.begin('restorePerspective');
+
+		this.pathCorrections.clear();
+		this.missingTabs.clear();
+
+		try {
+			await this.snapshotBeforeRestore();
+			const focusedWin = await this.applyArrangement(perspective.arrangement);
+			PerfTimer.mark('applyArrangement');
+
+			const dropped = new Set<string>();
+			if (this.missingTabs.size > 0 && this.settings.showMissingFilesReport) {
+				await this.resolveMissingTabs(perspective.arrangement, perspective.name, focusedWin ?? window, dropped);
+			}
+
+			if (this.pathCorrections.size > 0 || dropped.size > 0) {
+				const corrected = patchArrangement(perspective.arrangement, this.pathCorrections, dropped);
+				await this.perspectiveStore.updateArrangement(perspective.id, corrected);
+			}
+		} finally {
+			PerfTimer.end('restorePerspective');
+			this.isRestoring = false;
+		}
+	}
+
+	editPerspective(): void {
+		new NamedArrangementSuggestModal(this.app, this.perspectiveStore.list(), 'Rename or edit perspective…', (perspective) => {
+			void showArrangementLabelEditor(labelOf(perspective), perspective.name, window, 'Edit Perspective', []).then(async result => {
+				if (result.cancelled) return;
+				if (!await this.perspectiveStore.updateLabel(perspective.id, result.label)) {
+					new Notice(`A perspective named "${result.label.name}" already exists`, 4000);
+				}
+			});
+		}).open();
+	}
+
+	deletePerspective(): void {
+		new NamedArrangementSuggestModal(this.app, this.perspectiveStore.list(), 'Delete perspective…', (perspective) => {
+			void this.perspectiveStore.delete(perspective.id).then(() => {
+				new Notice(`Perspective "${perspective.name}" deleted`, 4000);
+			});
+		}).open();
+	}
+
+	// ============================================================================
+	// Context History
+	// ============================================================================
+
+	/**
+	 * History is keyed by the note's UID, or by its path when it has none.
+	 * Versions recorded under the path before the note got a UID move over.
+	 */
+	private async historyKeyFor(file: TFile): Promise<string> {
+		const uid = await this.getUidForFile(file);
+		if (!uid) return file.path;
+		await this.historyStore.rekey(file.path, uid);
+		return uid;
+	}
+
+	private async recordHistory(file: TFile, context: WindowArrangementV2, label: ArrangementLabel = {}): Promise<void> {
+		if (this.settings.historyMaxVersions === 0) return;
+		await this.historyStore.append(await this.historyKeyFor(file), { arrangement: context, savedAt: Date.now(), ...label });
+	}
+
+	async showContextHistory(file: TFile) {
+		const versions = await this.historyStore.list(await this.historyKeyFor(file));
+		if (versions.length === 0) {
+			new Notice(this.settings.historyMaxVersions === 0
+				? 'Context history is turned off in settings'
+				: `No saved versions of ${file.name} yet`, 4000);
+			return;
+		}
+
+		const result = await showHistoryModal(versions, file.name);
+		if (result.cancelled || !result.version) return;
+
+		if (result.action === 'restore') {
+			await this.restoreHistoryVersion(file, result.version);
+		} else if (result.action === 'promote') {
+			await this.promoteHistoryVersion(file, result.version);
+		}
+	}
+
+	/** Open an old version; the note's saved context is left as it is. */
+	private async restoreHistoryVersion(file: TFile, version: TimestampedArrangement): Promise<void> {
+		if (this.isRestoring) {
+			Logger.debug('Skipping restoreHistoryVersion - already restoring');
+			return;
+		}
+		this.isRestoring = true;
+		this.pathCorrections.clear();
+		this.missingTabs.clear();
+		try {
+			await this.snapshotBeforeRestore(file.path);
+			await this.applyArrangement(version.arrangement, file.path);
+		} finally {
+			this.isRestoring = false;
+		}
+	}
+
+	/**
+	 * Save an old version as the note's current context (same storage as a
+	 * normal save) and record it in the history as the newest version.
+	 */
+	private async promoteHistoryVersion(file: TFile, version: TimestampedArrangement): Promise<void> {
+		const label = labelOf(version);
+		await this.saveContextToStore(this.getContextStore(file), file, version.arrangement, label, false);
+		await this.recordHistory(file, version.arrangement, label);
+		new Notice(`Version from ${new Date(version.savedAt).toLocaleString()} is now the current context of ${file.name}`, 4000);
+	}
+
+	// ============================================================================
+	// Layout Templates
+	// ============================================================================
+
+	/**
+	 * The note a template is captured from or applied to, with its outgoing
+	 * links (document order) and backlinks (most recently modified first).
+	 */
+	private getTemplateContext(file: TFile | null): TemplateContext {
+		if (!file) return { activePath: '', linkedPaths: [], backlinkPaths: [] };
+
+		const linkedPaths: string[] = [];
+		for (const link of this.app.metadataCache.getFileCache(file)?.links ?? []) {
+			const dest = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(link.link), file.path);
+			if (dest && dest.path !== file.path && !linkedPaths.includes(dest.path)) {
+				linkedPaths.push(dest.path);
+			}
+		}
+
+		const backlinks: TFile[] = [];
+		for (const [source, targets] of Object.entries(this.app.metadataCache.resolvedLinks)) {
+			if (source === file.path || !targets[file.path]) continue;
+			const sourceFile = this.app.vault.getAbstractFileByPath(source);
+			if (sourceFile instanceof TFile) backlinks.push(sourceFile);
+		}
+		backlinks.sort((a, b) => b.stat.mtime - a.stat.mtime);
+
+		return { activePath: file.path, linkedPaths, backlinkPaths: backlinks.map(f => f.path) };
+	}
+
+	/**
+	 * Save the current layout as a template. Slots are guessed from the
+	 * active note and its links, then adjusted in the template editor.
+	 */
+	async saveLayoutTemplate() {
+		const arrangement = this.captureWindowArrangement();
+		const ctx = this.getTemplateContext(this.app.workspace.getActiveFile());
+		const tabs = templateTabs(arrangement);
+		if (tabs.length === 0) {
+			new Notice('No tabs to save as a template', 4000);
+			return;
+		}
+
+		const result = await showTemplateEditor(tabs, createTemplateSlots(arrangement, ctx), '');
+		if (result.cancelled) return;
+
+		const existing = this.templateStore.findByName(result.name);
+		if (existing && !this.settings.autoConfirmOverwrite) {
+			const confirm = await showConfirmOverwrite(existing, existing.name);
+			if (!confirm.confirmed) return;
+		}
+
+		await this.templateStore.save({
+			name: result.name,
+			arrangement: toTemplateArrangement(arrangement),
+			slots: result.slots
+		});
+		new Notice(`Template "${result.name}" saved`, 4000);
+	}
+
+	applyLayoutTemplatePalette(file: TFile): void {
+		new NamedArrangementSuggestModal(this.app, this.templateStore.list(), `Apply template to ${file.basename}…`, (template) => {
+			void this.applyLayoutTemplate(template, file);
+		}).open();
+	}
+
+	/**
+	 * Fill a template's slots for a note and restore the result like a
+	 * saved context (snapshotted for undo; tabs whose file is missing are
+	 * skipped).
+	 */
+	async applyLayoutTemplate(template: LayoutTemplate, file: TFile) {
+		if (this.isRestoring) {
+			Logger.debug('Skipping applyLayoutTemplate - already restoring');
+			return;
+		}
+		this.isRestoring = true;
+		PerfTimer.begin('applyLayoutTemplate');
+
+		this.pathCorrections.clear();
+		this.missingTabs.clear();
+
+		try {
+			const arrangement = fillTemplate(template, this.getTemplateContext(file));
+			await this.snapshotBeforeRestore(file.path);
+			await this.applyArrangement(arrangement, file.path);
+			PerfTimer.mark('applyArrangement');
+
+			if (this.missingTabs.size > 0) {
+				new Notice(`${this.missingTabs.size} file${this.missingTabs.size > 1 ? 's' : ''} in template "${template.name}" could not be found`, 4000);
+			}
+		} finally {
+			PerfTimer.end('applyLayoutTemplate');
+			this.isRestoring = false;
+		}
+	}
+
+	deleteLayoutTemplate(): void {
+		new NamedArrangementSuggestModal(this.app, this.templateStore.list(), 'Delete layout template…', (template) => {
+			void this.templateStore.delete(template.id).then(() => {
+				new Notice(`Template "${template.name}" deleted`, 4000);
+			});
+		}).open();
+	}
+
+	// ============================================================================
+	// Open Alongside (additive restore)
+	// ============================================================================
+
+	/**
+	 * Apply an arrangement additively: the main window tree opens in a new
+	 * popout or a new split in the current root, and saved popouts (when
+	 * enabled) open as additional windows. Main window geometry, sidebars
+	 * and wallpaper are left as they are.
+	 */
+	private async applyArrangementAlongside(arrangement: WindowArrangement, target: AlongsideTarget): Promise<Window | null> {
+		try {
+			const v2 = normalizeToV2(arrangement);
+			this.restoreGroupIds.clear();
+
+			let focusedWin: Window | null = null;
+			let focusedLeaf: WorkspaceLeaf | undefined;
+			if (target === 'popout') {
+				focusedWin = await this.restorePopoutWindow(v2.main, v2.sourceScreen);
+			} else {
+				focusedLeaf = await this.restoreAlongsideSplit(v2.main.root);
+				if (focusedLeaf) focusedWin = window;
+			}
+			PerfTimer.mark('restoreMainAlongside');
+
+			const popouts = this.settings.alongsideIncludePopouts ? v2.popouts : [];
+			if (popouts.length > 0) {
+				await this.restorePopouts(this.selectPopoutsToRestore(v2, []), v2.sourceScreen);
+			}
+
+			if (this.pendingTabActivations.length > 0) {
+				requestAnimationFrame(() => {
+					this.safeTimeout(() => {
+						this.processPendingTabActivations();
+					}, 100);
+				});
+			}
+
+			for (const root of [v2.main.root, ...popouts.map(p => p.root)]) {
+				this.scheduleScrollRestoration(root);
+				this.schedulePropertiesRestoration(root);
+			}
+
+			if (!focusedWin && !focusedLeaf) {
+				new Notice('None of the files in this context could be found', 4000);
+				return null;
+			}
+			if (focusedLeaf) {
+				this.app.workspace.setActiveLeaf(focusedLeaf, { focus: true });
+			}
+			if (focusedWin) {
+				focusedWin.focus();
+				this.showFocusTint(focusedWin);
+			}
+			return focusedWin;
+		} catch (e) {
+			new Notice('Error opening context: ' + (e as Error).message, 4000);
+			return null;
+		}
+	}
+
+	/**
+	 * Restore a saved tree into a new split in the current main window, placed
+	 * by placeAlongsideSplit. If no tab could be opened, the empty leaf is
+	 * removed again.
+	 *
+	 * @returns The first leaf of the restored tree, or undefined if nothing opened
+	 */
+	private async restoreAlongsideSplit(root: WorkspaceNodeState): Promise<WorkspaceLeaf | undefined> {
+		const rootSplit = asExtendedWorkspace(this.app.workspace).rootSplit;
+		const live = this.mapLiveTree(rootSplit);
+		const current = rootSplit ? this.captureSplitOrTabs(rootSplit) : null;
+		if (!live || !current) return undefined;
+
+		const groups: { path: number[]; container: WorkspaceTabContainer }[] = [];
+		this.collectTabGroupPaths(live, [], groups);
+		const recentGroup = this.app.workspace.getMostRecentLeaf(this.app.workspace.rootSplit)?.parent as unknown;
+		const recent = groups.find(g => g.container === recentGroup)?.path ?? null;
+		const placement = placeAlongsideSplit(current, recent);
+
+		const anchorKey = placement.anchor.join('.');
+		const anchor = groups.find(g => g.path.join('.') === anchorKey)?.container.children[0];
+		if (!anchor) return undefined;
+		const newLeaf = this.app.workspace.createLeafBySplit(anchor, 'vertical');
+		await briefPause();
+
+		const firstLeaf = await this.restoreWorkspaceNode(null, root, newLeaf);
+		if (newLeaf.view?.getViewType() === 'empty') {
+			newLeaf.detach();
+			return undefined;
+		}
+		// Skipped if the restored tree added more than one column
+		if (placement.sizes && live.type === 'split' && live.split.children.length === placement.sizes.length) {
+			this.setSplitChildSizes(live.split, placement.sizes);
+		}
+		return firstLeaf;
+	}
+
+	/** Tab groups of a live tree with their child-index paths. */
+	private collectTabGroupPaths(live: LiveNode, path: number[], out: { path: number[]; container: WorkspaceTabContainer }[]): void {
+		if (live.type === 'tabs') {
+			out.push({ path, container: live.container });
+		} else {
+			live.children.forEach((child, i) => this.collectTabGroupPaths(child, [...path, i], out));
+		}
+	}
+
+	// ============================================================================
+	// Incremental Restore (diff-apply)
+	// ============================================================================
+
+	/**
+	 * Reconcile the open windows with the target arrangement instead of
+	 * rebuilding them. Windows whose split tree has the target's shape are
+	 * patched tab group by tab group (matching leaves stay open, keeping
+	 * their editor state and undo history, and are moved over when they sit
+	 * in another group or window); everything else is rebuilt.
+	 *
+	 * @see services/reconcile.ts for the matching rules
+	 */
+	private async reconcileWindows(v2: WindowArrangementV2, popoutsToRestore: PopoutRestoreItem[], includeMain = true): Promise<void> {
+		const workspace = asExtendedWorkspace(this.app.workspace);
+		const groups: LiveTabGroup[] = [];
+
+		// Main window
+		const liveMain = this.mapLiveTree(workspace.rootSplit);
+		const currentMain = workspace.rootSplit ? this.captureSplitOrTabs(workspace.rootSplit) : null;
+		if (!includeMain) {
+			Logger.debug('reconcileWindows: main window not part of this restore');
+		} else if (liveMain && currentMain && sameShape(currentMain, v2.main.root)) {
+			Logger.debug('reconcileWindows: patching main window in place');
+			this.collectLiveTabGroups(liveMain, v2.main.root, groups);
+		} else {
+			Logger.debug('reconcileWindows: main window shape differs, rebuilding');
+			const mainLeaves = this.getMainWindowLeaves();
+			for (let i = 1; i < mainLeaves.length; i++) mainLeaves[i].detach();
+			await this.restoreWorkspaceNode(workspace.rootSplit, v2.main.root, mainLeaves[0]);
+		}
+
+		// Popouts: pair each target with the open popout sharing the most tabs
+		const seenWindows = new Set<Window>();
+		const containers = getFloatingWindowContainers(this.app.workspace).filter(container => {
+			const win = container?.win;
+			if (!win || win === window || seenWindows.has(win) || this.isDevToolsWindow(win)) return false;
+			seenWindows.add(win);
+			return true;
+		});
+		const currentRoots = containers.map(container => this.captureSplitOrTabs(container));
+		const matches = matchWindows(currentRoots, popoutsToRestore.map(p => p.state.root));
+
+		const kept = new Set<number>();
+		const toCreate: PopoutRestoreItem[] = [];
+		for (let i = 0; i < popoutsToRestore.length; i++) {
+			const item = popoutsToRestore[i];
+			const match = matches[i];
+			const container = match !== null ? containers[match] : null;
+			const live = container && !item.state.isProxy && !this.isProxyWindow(container) && sameShape(currentRoots[match!], item.state.root)
+				? this.mapLiveTree(container)
+				: null;
+
+			if (!container?.win || !live) {
+				toCreate.push(item);
+				continue;
 			}
 
-			if (this.settings.enableParallelPopoutCreation && popoutsToRestore.length > 1) {
-				// Parallel restoration - create all popouts concurrently
-				await Promise.all(
-					popoutsToRestore.map(async ({ index, state, tiledPosition }) => {
-						await this.restorePopoutWindow(state, v2.sourceScreen, tiledPosition);
-						PerfTimer.mark(`restorePopout[${index}]`);
-					})
-				);
-				PerfTimer.mark('restorePopoutsParallel');
+			kept.add(match!);
+			this.collectLiveTabGroups(live, item.state.root, groups);
+			if (item.tiledPosition) {
+				this.restoreWindowGeometryDirect(container.win, item.tiledPosition);
 			} else {
-				// Sequential restoration (default behavior)
-				for (const { index, state, tiledPosition } of popoutsToRestore) {
-					await this.restorePopoutWindow(state, v2.sourceScreen, tiledPosition);
-					PerfTimer.mark(`restorePopout[${index}]`);
-				}
+				this.restoreWindowGeometry(container.win, item.state, v2.sourceScreen);
 			}
+		}
 
-			// Process pending tab activations after a delay to ensure windows are fully ready.
-			// rAF waits for layout/paint; safeTimeout waits one more macrotask AND won't fire
-			// if the plugin unloads mid-restore.
-			if (this.pendingTabActivations.length > 0) {
-				requestAnimationFrame(() => {
-					this.safeTimeout(() => {
-						this.processPendingTabActivations();
-					}, 100);
-				});
-			}
+		// Popouts about to close can still give up leaves to the kept windows
+		const donors: WorkspaceTabContainer[] = [];
+		containers.forEach((container, idx) => {
+			if (kept.has(idx) || this.isProxyWindow(container)) return;
+			const live = this.mapLiveTree(container);
+			if (live) this.collectTabContainers(live, donors);
+		});
 
-			// Restore sidebars
-			if (v2.leftSidebar) this.restoreSidebarState('left', v2.leftSidebar);
-			if (v2.rightSidebar) this.restoreSidebarState('right', v2.rightSidebar);
-			PerfTimer.mark('restoreSidebars');
+		await this.reconcileTabGroups(groups, donors);
 
-			// Restore wallpaper if enabled (experimental) - run concurrently, non-blocking
-			if (this.settings.enableWallpaperRestore && v2.wallpaper) {
-				setWallpaper(v2.wallpaper).then(result => {
-					if (result.success) {
-						PerfTimer.mark('restoreWallpaper');
-					} else {
-						Logger.debug('Could not restore wallpaper:', result.error);
-					}
-				}).catch(e => {
-					Logger.debug('Wallpaper restoration failed:', e);
-				});
-			}
+		containers.forEach((container, idx) => {
+			if (!kept.has(idx) && container.win) this.closePopoutWindow(container.win);
+		});
 
-			// Schedule scroll position restoration for all leaves
-			this.scheduleScrollRestoration(v2.main.root);
-			for (const popout of v2.popouts) {
-				this.scheduleScrollRestoration(popout.root);
-			}
-			PerfTimer.mark('scheduleScrollRestoration');
+		Logger.debug(`reconcileWindows: kept ${kept.size} popouts, closed ${containers.length - kept.size}, creating ${toCreate.length}`);
+		await this.restorePopouts(toCreate, v2.sourceScreen);
+	}
 
-			// Schedule properties collapse/expand restoration for all leaves
-			Logger.debug('Scheduling properties restoration');
-			this.schedulePropertiesRestoration(v2.main.root);
-			for (const popout of v2.popouts) {
-				this.schedulePropertiesRestoration(popout.root);
+	/**
+	 * Map a live workspace container to the tree captureSplitOrTabs would
+	 * produce for it (same filtering and single-child collapsing), keeping
+	 * references to the actual containers.
+	 */
+	private mapLiveTree(node: unknown): LiveNode | null {
+		if (!node) return null;
+		if (isSplit(node)) {
+			const children: LiveNode[] = [];
+			for (const child of node.children) {
+				const mapped = this.mapLiveTree(child);
+				if (mapped) children.push(mapped);
 			}
-			PerfTimer.mark('schedulePropertiesRestoration');
+			if (children.length === 0) return null;
+			if (children.length === 1) return children[0];
+			return { type: 'split', split: node, children };
+		}
+		const container = node as WorkspaceTabContainer;
+		return this.captureTabGroup(container).tabs.length > 0 ? { type: 'tabs', container } : null;
+	}
 
-			// Find and focus the window containing the context note (the note used to restore)
-			// This ensures the context note is active and its window is in foreground
-			let contextNoteWin: Window | null = null;
-			if (contextNotePath) {
-				contextNoteWin = this.findWindowContainingFile(contextNotePath);
+	/**
+	 * Pair the tab groups of a live tree with those of a target tree of the
+	 * same shape, applying the target's split sizes on the way.
+	 */
+	private collectLiveTabGroups(live: LiveNode, target: WorkspaceNodeState, out: LiveTabGroup[]): void {
+		if (live.type === 'tabs' && target.type === 'tabs') {
+			out.push({ container: live.container, tabs: target.tabs });
+			return;
+		}
+		if (live.type === 'split' && target.type === 'split') {
+			for (let i = 0; i < target.children.length; i++) {
+				this.collectLiveTabGroups(live.children[i], target.children[i], out);
+			}
+			if (target.sizes?.length && target.sizes.length === live.split.children.length) {
+				this.setSplitChildSizes(live.split, target.sizes);
 			}
+		}
+	}
 
-			// Fall back to the originally focused window if context note window not found
-			const focusedWin = contextNoteWin ?? this.getFocusedWindow(v2);
+	private collectTabContainers(live: LiveNode, out: WorkspaceTabContainer[]): void {
+		if (live.type === 'tabs') {
+			out.push(live.container);
+		} else {
+			for (const child of live.children) this.collectTabContainers(child, out);
+		}
+	}
 
-			if (focusedWin) {
-				// Activate the leaf containing the context note (or the originally active leaf)
-				if (contextNotePath && contextNoteWin) {
-					this.activateLeafByPath(contextNoteWin, contextNotePath);
+	/**
+	 * Patch tab groups together: keep leaves that match a target tab (moving
+	 * them from another group or window if that is where they are), open the
+	 * missing tabs, close leftovers, then put each group in target order.
+	 * Leaves of `donors` can only be moved out; their windows are closed
+	 * afterwards. Sidebar panels are matched by view type and keep their state.
+	 */
+	private async reconcileTabGroups(groups: LiveTabGroup[], donors: WorkspaceTabContainer[], sidebar = false): Promise<void> {
+		const keyOf = sidebar ? sidebarTabKey : tabKey;
+		const containers = [...groups.map(g => g.container), ...donors];
+		const leaves = containers.map(container => [...container.children]);
+		const plan = planTabGroups(
+			leaves.map(group => group.map(leaf => this.liveTabKey(leaf, keyOf))),
+			groups.map(g => g.tabs.map(keyOf))
+		);
+
+		// Open missing tabs before moving any leaf, so moves never empty a
+		// group that still has tabs to show
+		const placed: (WorkspaceLeaf | null)[][] = [];
+		for (let g = 0; g < groups.length; g++) {
+			const { container, tabs } = groups[g];
+			const row: (WorkspaceLeaf | null)[] = [];
+			for (let i = 0; i < tabs.length; i++) {
+				const source = plan.sources[g][i];
+				if (source) {
+					row.push(leaves[source.group][source.index]);
+				} else if (this.canOpenTab(tabs[i])) {
+					row.push(await this.openLeafInGroup(container, tabs[i]));
 				} else {
-					this.activateWindowLeaf(focusedWin, v2);
+					row.push(null);
 				}
-				focusedWin.focus();
-				this.showFocusTint(focusedWin);
 			}
-			PerfTimer.mark('activateFocusedWindow');
+			placed.push(row);
+		}
+
+		let moved = 0;
+		let reopened = 0;
+		for (let g = 0; g < groups.length; g++) {
+			const { container, tabs } = groups[g];
+			for (let i = 0; i < tabs.length; i++) {
+				const source = plan.sources[g][i];
+				const leaf = placed[g][i];
+				if (!source || !leaf) continue;
+				if (source.group !== g) {
+					const from = containers[source.group];
+					// Emptying a patched group would remove it from its split
+					const keepsGroup = source.group >= groups.length || from.children.length > 1;
+					if (keepsGroup && moveLeafToContainer(leaf, container, container.children.length)) {
+						moved++;
+					} else {
+						placed[g][i] = await this.openLeafInGroup(container, tabs[i]);
+						reopened++;
+						continue;
+					}
+				}
+				if (!sidebar || !tabs[i].viewType) await this.updateKeptLeaf(leaf, tabs[i]);
+			}
+		}
 
-			return focusedWin;
-		} catch (e) {
-			new Notice('Error restoring context: ' + (e as Error).message, 4000);
-			return null;
+		for (const { group, index } of plan.close) {
+			// Nothing from the target could be opened - leave the group alone
+			// rather than emptying it
+			if (placed[group].some(leaf => leaf)) leaves[group][index].detach();
+		}
+		// A leaf that could not be moved was reopened; close the original
+		// unless it is all its group has left
+		for (let g = 0; g < groups.length; g++) {
+			groups[g].tabs.forEach((_, i) => {
+				const source = plan.sources[g][i];
+				if (!source || source.group === g || source.group >= groups.length) return;
+				const original = leaves[source.group][source.index];
+				if (placed[g][i] !== original && placed[source.group].some(leaf => leaf)) original.detach();
+			});
+		}
+
+		for (let g = 0; g < groups.length; g++) {
+			const { container, tabs } = groups[g];
+			const ordered = placed[g].filter((leaf): leaf is WorkspaceLeaf => !!leaf);
+			if (ordered.length === 0) continue;
+			ordered.forEach((leaf, index) => moveChildToIndex(container, leaf, index));
+
+			const activeIndex = tabs.findIndex((tab, i) => tab.active && placed[g][i]);
+			const activeLeaf = activeIndex >= 0 ? placed[g][activeIndex]! : ordered[0];
+			this.pendingTabActivations.push({
+				container: container as unknown as TabActivationContainer,
+				activeTabIndex: container.children.indexOf(activeLeaf),
+				activeLeaf
+			});
+		}
+
+		if (PerfTimer.isEnabled()) {
+			const reused = plan.sources.flat().filter(src => src !== null).length;
+			Logger.debug(`reconcileTabGroups: ${reused - moved - reopened} kept, ${moved} moved, ${reopened} reopened, ${plan.close.length} closed`);
+		}
+	}
+
+	private async openLeafInGroup(container: WorkspaceTabContainer, tab: TabState): Promise<WorkspaceLeaf> {
+		const leaf = this.app.workspace.createLeafInParent(container as unknown as ObsidianWorkspaceSplit, container.children.length);
+		await this.openTabInLeaf(leaf, tab);
+		return leaf;
+	}
+
+	/**
+	 * Bring a kept leaf in line with its target tab without reopening it.
+	 */
+	private async updateKeptLeaf(leaf: WorkspaceLeaf, tab: TabState): Promise<void> {
+		const viewState = leaf.getViewState();
+		if (tab.viewType) {
+			if (JSON.stringify(viewState.state ?? {}) !== JSON.stringify(tab.viewState ?? {})) {
+				await leaf.setViewState({ type: tab.viewType, state: tab.viewState ?? {} });
+			}
+		} else if (tab.viewMode && getMarkdownViewMode(leaf) !== tab.viewMode) {
+			await leaf.setViewState({ ...viewState, state: { ...viewState.state, ...markdownViewModeState(tab.viewMode) } });
 		}
+		this.applyTabLeafState(leaf, tab);
+	}
+
+	private liveTabKey(leaf: WorkspaceLeaf, keyOf: (tab: Pick<TabState, 'path' | 'viewType' | 'viewState'>) => string = tabKey): string {
+		const view = leaf.view;
+		if (isNonFileView(view)) return keyOf({ path: '', viewType: view.getViewType(), viewState: leaf.getViewState().state });
+		if (hasFile(view)) return keyOf({ path: view.file.path });
+		return '';
 	}
 
 	private getMainWindowLeaves(): WorkspaceLeaf[] {
@@ -2243,6 +3843,73 @@ export default class PerspectaPlugin extends Plugin {
 		return leaves;
 	}
 
+	/**
+	 * Check whether a saved tab can be opened: non-file views always can,
+	 * file tabs only if the file resolves (path → UID → filename).
+	 */
+	private canOpenTab(tab: TabState): boolean {
+		return !!tab.viewType || !!this.resolveTabFile(tab).file;
+	}
+
+	/**
+	 * Resolve a saved file tab, remembering it for the missing-files report
+	 * when its file cannot be found.
+	 */
+	private resolveTabFile(tab: TabState): ReturnType<typeof resolveFile> {
+		const result = resolveFile(this.app, tab);
+		if (!result.file) this.missingTabs.set(tab.path, tab);
+		return result;
+	}
+
+	/**
+	 * Open a saved tab in an existing leaf. File tabs are resolved with the
+	 * path → UID → filename fallback (recording any path correction);
+	 * non-file views are recreated from their saved view state.
+	 *
+	 * @returns false if the tab's file could not be found (leaf untouched)
+	 */
+	private async openTabInLeaf(leaf: WorkspaceLeaf, tab: TabState): Promise<boolean> {
+		if (tab.viewType) {
+			await leaf.setViewState({ type: tab.viewType, state: tab.viewState ?? {} });
+		} else {
+			const { file, method } = this.resolveTabFile(tab);
+			if (!file) return false;
+
+			if (method !== 'path') {
+				this.pathCorrections.set(tab.path, { newPath: file.path, newName: file.basename });
+			}
+			// Open straight into the saved mode so scroll restoration (scheduled
+			// after the tree is built) measures the right renderer
+			if (tab.viewMode && file.extension === 'md') {
+				await leaf.openFile(file, { state: markdownViewModeState(tab.viewMode) });
+			} else {
+				await leaf.openFile(file);
+			}
+		}
+
+		this.applyTabLeafState(leaf, tab);
+		return true;
+	}
+
+	/**
+	 * Apply pin and linked-pane group from a saved tab to a leaf.
+	 */
+	private applyTabLeafState(leaf: WorkspaceLeaf, tab: TabState): void {
+		if (!!tab.pinned !== !!leaf.getViewState().pinned) {
+			leaf.setPinned(!!tab.pinned);
+		}
+		if (tab.group) {
+			// Saved labels map to fresh group ids per restore, so a restored
+			// group never merges with a leftover group from an earlier layout
+			let groupId = this.restoreGroupIds.get(tab.group);
+			if (!groupId) {
+				groupId = generateUid();
+				this.restoreGroupIds.set(tab.group, groupId);
+			}
+			leaf.setGroup(groupId);
+		}
+	}
+
 	private async restoreWorkspaceNode(parent: SplitParent | null, state: WorkspaceNodeState, existingLeaf?: WorkspaceLeaf): Promise<WorkspaceLeaf | undefined> {
 		if (!state?.type) {
 			// Handle legacy states without explicit type - check for tabs property
@@ -2292,29 +3959,17 @@ export default class PerspectaPlugin extends Plugin {
 			const tabStart = performance.now();
 
 			// Use fallback resolution: path → UID → filename
-			const { file, method } = resolveFile(this.app, tab);
-			if (!file) {
+			if (!this.canOpenTab(tab)) {
 				if (PerfTimer.isEnabled()) {
 					Logger.debug(`  ✗ File not found: ${tab.path} (tried path, uid: ${tab.uid || 'none'}, name: ${tab.name || 'none'})`);
 				}
 				continue;
 			}
 
-			// Track if we found a file via fallback (for path correction)
-			if (method !== 'path') {
-				this.pathCorrections.set(tab.path, {
-					newPath: file.path,
-					newName: file.basename
-				});
-				if (PerfTimer.isEnabled()) {
-					Logger.debug(`  ↪ Resolved ${tab.path} → ${file.path} (via ${method})`);
-				}
-			}
-
 			let leaf: WorkspaceLeaf;
 			if (!isFirstTabOpened && existingLeaf) {
 				// Use existing leaf for the first tab we open
-				await existingLeaf.openFile(file);
+				await this.openTabInLeaf(existingLeaf, tab);
 				leaf = existingLeaf;
 				container = existingLeaf.parent;
 				firstLeaf = leaf;
@@ -2325,7 +3980,7 @@ export default class PerspectaPlugin extends Plugin {
 				// SplitParent shape covers everything *we* read, but
 				// createLeafInParent wants the full official type.
 				leaf = this.app.workspace.createLeafInParent(_parent as unknown as ObsidianWorkspaceSplit, 0);
-				await leaf.openFile(file);
+				await this.openTabInLeaf(leaf, tab);
 				container = leaf.parent;
 				firstLeaf = leaf;
 				isFirstTabOpened = true;
@@ -2333,14 +3988,15 @@ export default class PerspectaPlugin extends Plugin {
 				// Subsequent tabs go into the same container
 				if (!container) continue;
 				leaf = this.app.workspace.createLeafInParent(container, container.children?.length ?? 0);
-				await leaf.openFile(file);
+				await this.openTabInLeaf(leaf, tab);
 			}
 
 			const elapsed = performance.now() - tabStart;
 			if (PerfTimer.isEnabled()) {
 				const flag = elapsed > 50 ? '⚠ SLOW' : '✓';
-				const methodSuffix = method !== 'path' ? ` [${method}]` : '';
-				Logger.debug(`  ${flag} openFile[${originalIndex}]: ${file.basename} - ${elapsed.toFixed(1)}ms${methodSuffix}${tab.active ? ' [ACTIVE]' : ''}`);
+				const corrected = this.pathCorrections.get(tab.path);
+				const correctionSuffix = corrected ? ` [→ ${corrected.newPath}]` : '';
+				Logger.debug(`  ${flag} openTab[${originalIndex}]: ${tab.name || tab.viewType || tab.path} - ${elapsed.toFixed(1)}ms${correctionSuffix}${tab.active ? ' [ACTIVE]' : ''}`);
 			}
 		}
 
@@ -2395,13 +4051,7 @@ export default class PerspectaPlugin extends Plugin {
 			// Simple tabs
 			const firstTab = firstChild.tabs[0];
 			if (firstTab && existingLeaf) {
-				const { file: f, method } = resolveFile(this.app, firstTab);
-				if (f) {
-					if (method !== 'path') {
-						this.pathCorrections.set(firstTab.path, { newPath: f.path, newName: f.basename });
-					}
-					await existingLeaf.openFile(f);
-				}
+				await this.openTabInLeaf(existingLeaf, firstTab);
 			}
 			if (firstChild.tabs.length > 1 && existingLeaf) {
 				await this.restoreRemainingTabs(existingLeaf, firstChild.tabs, 1);
@@ -2429,13 +4079,7 @@ export default class PerspectaPlugin extends Plugin {
 			if (child.type === 'tabs') {
 				const firstTab = child.tabs[0];
 				if (firstTab) {
-					const { file: f, method } = resolveFile(this.app, firstTab);
-					if (f) {
-						if (method !== 'path') {
-							this.pathCorrections.set(firstTab.path, { newPath: f.path, newName: f.basename });
-						}
-						await newLeaf.openFile(f);
-					}
+					await this.openTabInLeaf(newLeaf, firstTab);
 				}
 				if (child.tabs.length > 1) {
 					await this.restoreRemainingTabs(newLeaf, child.tabs, 1);
@@ -2444,13 +4088,7 @@ export default class PerspectaPlugin extends Plugin {
 				// Nested split
 				const firstTab = this.getFirstTabFromNode(child);
 				if (firstTab) {
-					const { file: f, method } = resolveFile(this.app, firstTab);
-					if (f) {
-						if (method !== 'path') {
-							this.pathCorrections.set(firstTab.path, { newPath: f.path, newName: f.basename });
-						}
-						await newLeaf.openFile(f);
-					}
+					await this.openTabInLeaf(newLeaf, firstTab);
 				}
 				await this.buildNestedSplit(newLeaf, child);
 			}
@@ -2515,25 +4153,31 @@ export default class PerspectaPlugin extends Plugin {
 			return;
 		}
 
+		Logger.debug(`applySplitSizes: found parent with ${parent.children.length} children, direction=${parent.direction}`);
+		this.setSplitChildSizes(parent, sizes);
+	}
+
+	/**
+	 * Set the relative sizes of a split's children and trigger a resize.
+	 */
+	private setSplitChildSizes(parent: WorkspaceSplit, sizes: number[]): void {
 		// Normalize sizes to percentages that sum to 100
 		const total = sizes.reduce((a, b) => a + b, 0);
 		const normalizedSizes = sizes.map(s => (s / total) * 100);
 
-		Logger.debug(`applySplitSizes: found parent with ${parent.children.length} children, direction=${parent.direction}, applying sizes:`, normalizedSizes);
-
 		// Apply dimension to each child using setDimension if available, otherwise direct assignment
 		for (let i = 0; i < normalizedSizes.length; i++) {
 			const child = parent.children[i] as WorkspaceTabContainer | WorkspaceSplit;
 			if (child && normalizedSizes[i] !== undefined) {
 				setContainerDimension(child, normalizedSizes[i]);
-				Logger.debug(`applySplitSizes: set child[${i}].dimension = ${normalizedSizes[i]}`);
+				Logger.debug(`setSplitChildSizes: set child[${i}].dimension = ${normalizedSizes[i]}`);
 			}
 		}
 
 		// Trigger resize using helper function
 		const workspace = asExtendedWorkspace(this.app.workspace);
 		triggerWorkspaceResize(workspace, workspace.rootSplit);
-		Logger.debug(`applySplitSizes: triggered workspace resize`);
+		Logger.debug(`setSplitChildSizes: triggered workspace resize`);
 	}
 
 	/**
@@ -2553,6 +4197,9 @@ export default class PerspectaPlugin extends Plugin {
 
 	/**
 	 * Collect scroll/viewport positions from a workspace node state and apply them to matching leaves.
+	 * Editor cursor/selections and folds ride along in the same loop: they
+	 * need the same mounted CodeMirror, and folds must land before scroll
+	 * since they change line heights.
 	 *
 	 * Retries application until every target path's scroll/viewport actually
 	 * sticks (applyScrollPosition / restoreCanvasViewport return true), with
@@ -2567,22 +4214,33 @@ export default class PerspectaPlugin extends Plugin {
 	private scheduleScrollRestoration(state: WorkspaceNodeState): void {
 		const scrollMap = new Map<string, number>();
 		const canvasViewportMap = new Map<string, { tx: number; ty: number; zoom: number }>();
-		this.collectViewPositions(state, scrollMap, canvasViewportMap);
+		const editorStateMap = new Map<string, { selections?: EditorRangeState[]; folds?: FoldRangeState[] }>();
+		this.collectViewPositions(state, scrollMap, canvasViewportMap, editorStateMap);
 
-		if (scrollMap.size === 0 && canvasViewportMap.size === 0) return;
+		if (scrollMap.size === 0 && canvasViewportMap.size === 0 && editorStateMap.size === 0) return;
 
 		// Track which paths haven't successfully applied yet. Each retry
 		// pass removes paths whose apply succeeded; the loop stops when
 		// the set is empty or the timeout fires.
 		const pendingScroll = new Set(scrollMap.keys());
 		const pendingViewport = new Set(canvasViewportMap.keys());
-		Logger.debug(`scheduleScrollRestoration: ${pendingScroll.size} scroll, ${pendingViewport.size} canvas viewports`);
+		const pendingEditor = new Set(editorStateMap.keys());
+		Logger.debug(`scheduleScrollRestoration: ${pendingScroll.size} scroll, ${pendingViewport.size} canvas viewports, ${pendingEditor.size} editor states`);
 
 		const tryApplyOnce = () => {
 			this.app.workspace.iterateAllLeaves((leaf) => {
 				if (!hasFile(leaf.view)) return;
 				const path = leaf.view.file.path;
 
+				if (pendingEditor.has(path)) {
+					const editorState = editorStateMap.get(path);
+					const foldsApplied = !editorState?.folds || applyFoldedRanges(leaf.view, editorState.folds);
+					const selectionsApplied = !editorState?.selections || applyEditorSelections(leaf.view, editorState.selections);
+					if (foldsApplied && selectionsApplied) {
+						pendingEditor.delete(path);
+					}
+				}
+
 				if (pendingScroll.has(path)) {
 					const scroll = scrollMap.get(path);
 					if (scroll === undefined || scroll === 0) {
@@ -2613,17 +4271,17 @@ export default class PerspectaPlugin extends Plugin {
 			while (Date.now() - startedAt < TIMEOUT_MS) {
 				if (this.isUnloading) return;
 				tryApplyOnce();
-				if (pendingScroll.size === 0 && pendingViewport.size === 0) {
+				if (pendingScroll.size === 0 && pendingViewport.size === 0 && pendingEditor.size === 0) {
 					Logger.debug(`scheduleScrollRestoration: all positions applied in ${Date.now() - startedAt}ms`);
 					return;
 				}
 				await delay(INTERVAL_MS);
 			}
 
-			if (pendingScroll.size > 0 || pendingViewport.size > 0) {
+			if (pendingScroll.size > 0 || pendingViewport.size > 0 || pendingEditor.size > 0) {
 				Logger.debug(
-					`scheduleScrollRestoration: timed out with ${pendingScroll.size} scroll + ${pendingViewport.size} viewport pending`,
-					{ scroll: [...pendingScroll], viewport: [...pendingViewport] }
+					`scheduleScrollRestoration: timed out with ${pendingScroll.size} scroll + ${pendingViewport.size} viewport + ${pendingEditor.size} editor pending`,
+					{ scroll: [...pendingScroll], viewport: [...pendingViewport], editor: [...pendingEditor] }
 				);
 			}
 		})();
@@ -2717,7 +4375,8 @@ export default class PerspectaPlugin extends Plugin {
 	private collectViewPositions(
 		node: WorkspaceNodeState,
 		scrollMap: Map<string, number>,
-		canvasViewportMap: Map<string, { tx: number; ty: number; zoom: number }>
+		canvasViewportMap: Map<string, { tx: number; ty: number; zoom: number }>,
+		editorStateMap: Map<string, { selections?: EditorRangeState[]; folds?: FoldRangeState[] }>
 	): void {
 		if (node.type === 'tabs') {
 			for (const tab of node.tabs) {
@@ -2727,10 +4386,13 @@ export default class PerspectaPlugin extends Plugin {
 				if (tab.canvasViewport) {
 					canvasViewportMap.set(tab.path, tab.canvasViewport);
 				}
+				if (tab.selections?.length || tab.folds?.length) {
+					editorStateMap.set(tab.path, { selections: tab.selections, folds: tab.folds });
+				}
 			}
 		} else {
 			for (const child of node.children) {
-				this.collectViewPositions(child, scrollMap, canvasViewportMap);
+				this.collectViewPositions(child, scrollMap, canvasViewportMap, editorStateMap);
 			}
 		}
 	}
@@ -2798,13 +4460,7 @@ export default class PerspectaPlugin extends Plugin {
 		if (firstChild.type === 'tabs') {
 			const firstTab = firstChild.tabs[0];
 			if (firstTab) {
-				const { file: f, method } = resolveFile(this.app, firstTab);
-				if (f) {
-					if (method !== 'path') {
-						this.pathCorrections.set(firstTab.path, { newPath: f.path, newName: f.basename });
-					}
-					await startLeaf.openFile(f);
-				}
+				await this.openTabInLeaf(startLeaf, firstTab);
 			}
 			if (firstChild.tabs.length > 1) {
 				await this.restoreRemainingTabs(startLeaf, firstChild.tabs, 1);
@@ -2832,13 +4488,7 @@ export default class PerspectaPlugin extends Plugin {
 			if (child.type === 'tabs') {
 				const firstTab = child.tabs[0];
 				if (firstTab) {
-					const { file: f, method } = resolveFile(this.app, firstTab);
-					if (f) {
-						if (method !== 'path') {
-							this.pathCorrections.set(firstTab.path, { newPath: f.path, newName: f.basename });
-						}
-						await newLeaf.openFile(f);
-					}
+					await this.openTabInLeaf(newLeaf, firstTab);
 				}
 				if (child.tabs.length > 1) {
 					await this.restoreRemainingTabs(newLeaf, child.tabs, 1);
@@ -2847,13 +4497,7 @@ export default class PerspectaPlugin extends Plugin {
 				// Nested split
 				const firstTab = this.getFirstTabFromNode(child);
 				if (firstTab) {
-					const { file: f, method } = resolveFile(this.app, firstTab);
-					if (f) {
-						if (method !== 'path') {
-							this.pathCorrections.set(firstTab.path, { newPath: f.path, newName: f.basename });
-						}
-						await newLeaf.openFile(f);
-					}
+					await this.openTabInLeaf(newLeaf, firstTab);
 				}
 				await this.buildNestedSplit(newLeaf, child);
 			}
@@ -2871,31 +4515,21 @@ export default class PerspectaPlugin extends Plugin {
 		state: WindowStateV2,
 		sourceScreen?: ScreenInfo,
 		tiledPosition?: { x: number; y: number; width: number; height: number }
-	) {
+	): Promise<Window | null> {
 		const _popoutStart = performance.now();
 
 		// Handle proxy windows specially
 		if (state.isProxy && this.settings.enableProxyWindows) {
-			await this.restoreProxyWindow(state, sourceScreen, tiledPosition);
-			return;
+			return this.restoreProxyWindow(state, sourceScreen, tiledPosition);
 		}
 
 		// For simple tabs root, find any tab to start with (we'll reorder later)
 		// For splits, use the first tab as before
 		const firstTab = this.getFirstTab(state.root);
-		if (!firstTab) return;
+		if (!firstTab) return null;
 
 		// Use fallback resolution: path → UID → filename
-		const { file, method } = resolveFile(this.app, firstTab);
-		if (!file) return;
-
-		// Track path corrections for fallback resolutions
-		if (method !== 'path') {
-			this.pathCorrections.set(firstTab.path, {
-				newPath: file.path,
-				newName: file.basename
-			});
-		}
+		if (!this.canOpenTab(firstTab)) return null;
 
 		// Create the popout with a placeholder file first
 		const openPopoutStart = performance.now();
@@ -2905,9 +4539,9 @@ export default class PerspectaPlugin extends Plugin {
 		}
 
 		const openFileStart = performance.now();
-		await popoutLeaf.openFile(file);
+		await this.openTabInLeaf(popoutLeaf, firstTab);
 		if (PerfTimer.isEnabled()) {
-			Logger.debug(`    ✓ openFile (popout first): ${(performance.now() - openFileStart).toFixed(1)}ms`);
+			Logger.debug(`    ✓ openTab (popout first): ${(performance.now() - openFileStart).toFixed(1)}ms`);
 		}
 
 		const win = popoutLeaf.view?.containerEl?.win;
@@ -2929,6 +4563,8 @@ export default class PerspectaPlugin extends Plugin {
 			// First create all outer splits, then fill in nested structures
 			await this.restoreSplitOuterFirst(popoutLeaf, state.root);
 		}
+
+		return win ?? null;
 	}
 
 	/**
@@ -2938,14 +4574,14 @@ export default class PerspectaPlugin extends Plugin {
 		state: WindowStateV2,
 		sourceScreen?: ScreenInfo,
 		tiledPosition?: { x: number; y: number; width: number; height: number }
-	) {
+	): Promise<Window | null> {
 		// Get the first tab's file path from the state
 		const firstTab = this.getFirstTab(state.root);
-		if (!firstTab) return;
+		if (!firstTab) return null;
 
 		// Use fallback resolution: path → UID → filename
 		const { file } = resolveFile(this.app, firstTab);
-		if (!file) return;
+		if (!file) return null;
 
 		// Check if this file has a saved arrangement for the proxy to reference
 		let arrangementUid: string | undefined;
@@ -3003,6 +4639,7 @@ export default class PerspectaPlugin extends Plugin {
 		if (PerfTimer.isEnabled()) {
 			Logger.debug(`    ✓ restoreProxyWindow: ${file.basename}`);
 		}
+		return win ?? null;
 	}
 
 	// Restore split using "outer-first" approach:
@@ -3034,17 +4671,7 @@ export default class PerspectaPlugin extends Plugin {
 			// Open the first file of this child (use fallback resolution)
 			const childFirstTab = this.getFirstTabFromNode(state.children[i]);
 			if (childFirstTab) {
-				const { file: f, method } = resolveFile(this.app, childFirstTab);
-				if (f) {
-					// Track path corrections for fallback resolutions
-					if (method !== 'path') {
-						this.pathCorrections.set(childFirstTab.path, {
-							newPath: f.path,
-							newName: f.basename
-						});
-					}
-					await newLeaf.openFile(f);
-				}
+				await this.openTabInLeaf(newLeaf, childFirstTab);
 			}
 
 			leafSlots.push(newLeaf);
@@ -3054,17 +4681,7 @@ export default class PerspectaPlugin extends Plugin {
 		// Now open the first file in the existing leaf (which is slot 0, use fallback resolution)
 		const firstTab = this.getFirstTabFromNode(state.children[0]);
 		if (firstTab) {
-			const { file: f, method } = resolveFile(this.app, firstTab);
-			if (f) {
-				// Track path corrections for fallback resolutions
-				if (method !== 'path') {
-					this.pathCorrections.set(firstTab.path, {
-						newPath: f.path,
-						newName: f.basename
-					});
-				}
-				await existingLeaf.openFile(f);
-			}
+			await this.openTabInLeaf(existingLeaf, firstTab);
 		}
 
 		if (COORDINATE_DEBUG) {
@@ -3137,17 +4754,7 @@ export default class PerspectaPlugin extends Plugin {
 			// Open first file (use fallback resolution)
 			const childFirstTab = this.getFirstTabFromNode(child);
 			if (childFirstTab) {
-				const { file: f, method } = resolveFile(this.app, childFirstTab);
-				if (f) {
-					// Track path corrections for fallback resolutions
-					if (method !== 'path') {
-						this.pathCorrections.set(childFirstTab.path, {
-							newPath: f.path,
-							newName: f.basename
-						});
-					}
-					await newLeaf.openFile(f);
-				}
+				await this.openTabInLeaf(newLeaf, childFirstTab);
 			}
 
 			// Handle child's structure
@@ -3204,24 +4811,16 @@ export default class PerspectaPlugin extends Plugin {
 		// Open remaining tabs in order (tabs[1], tabs[2], etc.)
 		for (let i = 1; i < tabs.length; i++) {
 			const tab = tabs[i];
-			const { file, method } = resolveFile(this.app, tab);
-			if (!file) {
+			if (!this.canOpenTab(tab)) {
 				Logger.debug(`  ✗ File not found: ${tab.path}`);
 				continue;
 			}
 
-			if (method !== 'path') {
-				this.pathCorrections.set(tab.path, {
-					newPath: file.path,
-					newName: file.basename
-				});
-			}
-
 			const leaf = this.app.workspace.createLeafInParent(container, container.children?.length ?? 0);
-			await leaf.openFile(file);
+			await this.openTabInLeaf(leaf, tab);
 			openedLeaves.push(leaf);
 
-			Logger.debug(`  ✓ Opened[${i}]: ${file.basename}`);
+			Logger.debug(`  ✓ Opened[${i}]: ${tab.name || tab.viewType || tab.path}`);
 		}
 
 		// Now all tabs are open in correct order
@@ -3333,22 +4932,14 @@ export default class PerspectaPlugin extends Plugin {
 
 		// Open tabs in the reordered sequence
 		for (const { tab, index } of tabsToOpen) {
-			const { file, method } = resolveFile(this.app, tab);
-			if (!file) {
+			if (!this.canOpenTab(tab)) {
 				Logger.debug(`  tab[${index}]: file not found for ${tab.path}`);
 				continue;
 			}
 
-			if (method !== 'path') {
-				this.pathCorrections.set(tab.path, {
-					newPath: file.path,
-					newName: file.basename
-				});
-			}
-
 			const leaf = this.app.workspace.createLeafInParent(parent, parent.children?.length ?? 0);
-			await leaf.openFile(file);
-			Logger.debug(`  tab[${index}]: opened ${file.basename}, active=${tab.active}`);
+			await this.openTabInLeaf(leaf, tab);
+			Logger.debug(`  tab[${index}]: opened ${tab.name || tab.viewType || tab.path}, active=${tab.active}`);
 		}
 
 		// If active tab was the first tab (in existingLeaf), we need to switch to it
@@ -3501,17 +5092,25 @@ export default class PerspectaPlugin extends Plugin {
 		return el ? !el.closest('.mod-left-split') && !el.closest('.mod-right-split') : true;
 	}
 
-	private restoreSidebarState(side: 'left' | 'right', state: SidebarState) {
+	private async restoreSidebarState(side: 'left' | 'right', state: SidebarState) {
 		try {
 			const workspace = asExtendedWorkspace(this.app.workspace);
 			const sidebar = side === 'left' ? workspace.leftSplit : workspace.rightSplit;
 			if (!sidebar) return;
 
+			if (state.root) {
+				await this.restoreSidebarLayout(side, state.root);
+			}
+			if (state.width) {
+				setSidebarWidth(sidebar, state.width);
+			}
+
 			if (state.collapsed) { (sidebar as { collapse?: () => void }).collapse?.(); return; }
 			(sidebar as { expand?: () => void }).expand?.();
 
-			// If we have an active tab to restore, try to reveal it
-			if (state.activeTab) {
+			// Older captures only know the active panel - try to reveal it.
+			// (With a full layout, restoreTabGroup already activated the right tabs.)
+			if (state.activeTab && !state.root) {
 				const sidebarSelector = side === 'left' ? '.mod-left-split' : '.mod-right-split';
 
 				// Find the leaf with this view type in the correct sidebar
@@ -3538,6 +5137,48 @@ export default class PerspectaPlugin extends Plugin {
 		} catch { /* ignore */ }
 	}
 
+	/**
+	 * Bring a sidebar's panel tree in line with a captured layout.
+	 *
+	 * When the sidebar's splits already have the captured shape, its tab
+	 * groups are patched like the root's: panels already open stay as they
+	 * are, only missing ones are opened and extra ones closed. Otherwise the
+	 * tree is rebuilt: a fresh leaf is created before the current panels are
+	 * detached, so the sidebar never goes empty mid-rebuild, and the tree is
+	 * restored into it with the same split/tab machinery as the root.
+	 */
+	private async restoreSidebarLayout(side: 'left' | 'right', root: WorkspaceNodeState): Promise<void> {
+		const workspace = asExtendedWorkspace(this.app.workspace);
+		const sidebar = side === 'left' ? workspace.leftSplit : workspace.rightSplit;
+		if (!sidebar) return;
+
+		const live = this.mapLiveTree(sidebar);
+		if (live && sameShape(this.captureSplitOrTabs(sidebar), root)) {
+			const groups: LiveTabGroup[] = [];
+			this.collectLiveTabGroups(live, root, groups);
+			await this.reconcileTabGroups(groups, [], true);
+			return;
+		}
+
+		const oldLeaves: WorkspaceLeaf[] = [];
+		this.app.workspace.iterateAllLeaves((leaf) => {
+			if (leaf.getRoot() === (sidebar as unknown)) oldLeaves.push(leaf);
+		});
+
+		const firstLeaf = side === 'left' ? this.app.workspace.getLeftLeaf(false) : this.app.workspace.getRightLeaf(false);
+		if (!firstLeaf) return;
+
+		for (const leaf of oldLeaves) {
+			leaf.detach();
+		}
+
+		await this.restoreWorkspaceNode(sidebar as SplitParent, root, firstLeaf);
+
+		if (PerfTimer.isEnabled()) {
+			Logger.debug(`restoreSidebarLayout(${side}): replaced ${oldLeaves.length} panels`);
+		}
+	}
+
 	private showFocusTint(win: Window) {
 		const duration = this.settings.focusTintDuration;
 		if (duration <= 0) return;
@@ -3666,7 +5307,9 @@ export default class PerspectaPlugin extends Plugin {
 				tabList.createSpan({ cls: 'perspecta-size-badge', text: sizePercent });
 			}
 			for (const t of node.tabs) {
-				const name = t.path.split('/').pop()?.replace(/\.md$/, '') || t.path;
+				const name = t.viewType
+					? t.name || t.viewType
+					: t.path.split('/').pop()?.replace(/\.md$/, '') || t.path;
 				const folder = t.path.includes('/') ? t.path.split('/').slice(0, -1).join('/') : '';
 				const classes = ['perspecta-tab-item'];
 				if (t.active) classes.push('perspecta-tab-active');
@@ -3807,9 +5450,20 @@ export default class PerspectaPlugin extends Plugin {
 			}
 			for (const t of node.tabs) {
 				const tabLine = wrapper.createDiv({ cls: 'perspecta-debug-tab' });
-				tabLine.appendText(`📄 ${t.path.split('/').pop() || t.path}`);
+				if (t.viewType) {
+					tabLine.appendText(`🧩 ${t.name || t.viewType} <${t.viewType}>`);
+				} else {
+					tabLine.appendText(`📄 ${t.path.split('/').pop() || t.path}`);
+				}
 				if (t.active) tabLine.appendText(' ✓');
 				
+				if (t.pinned) tabLine.appendText(' 📌');
+				if (t.group) tabLine.createSpan({ cls: 'perspecta-debug-props', text: ` 🔗 ${t.group}` });
+				if (t.viewMode) {
+					const modeText = t.viewMode === 'reading' ? 'Reading view' : t.viewMode === 'source' ? 'Source mode' : 'Live Preview';
+					tabLine.createSpan({ cls: 'perspecta-debug-props', text: ` 📖 ${modeText}` });
+				}
+
 				// Show properties collapse/expand state if available
 				if (t.propertiesCollapsed !== undefined) {
 					const propsIcon = t.propertiesCollapsed ? '🔽' : '🔼';
@@ -3868,26 +5522,8 @@ export default class PerspectaPlugin extends Plugin {
 			return;
 		}
 
-		// Check inline storage per file type (frontmatter / canvas JSON / base YAML).
-		let hasContextInline = false;
-		if (file.extension === 'md') {
-			hasContextInline = hasContextInFrontmatter(this.app, file);
-		} else if (file.extension === 'canvas') {
-			hasContextInline = await canvasHasContext(this.app, file);
-		} else if (file.extension === 'base') {
-			hasContextInline = await baseHasContext(this.app, file);
-		}
-
-		// Check external storage (workspace-aware).
-		let hasContextExternal = false;
-		if (this.settings.storageMode === 'external') {
-			const uid = await this.getUidForFile(file);
-			if (uid && this.externalStore.has(uid)) {
-				hasContextExternal = true;
-			}
-		}
-
-		const hasContext = hasContextInline || hasContextExternal;
+		// Only context restorable in the active workspace gets the header icon
+		const hasContext = (await this.classifyContext(file)).tier === 'active';
 		PerfTimer.mark('checkHasContext');
 
 		if (hasContext) {
@@ -3965,6 +5601,8 @@ export default class PerspectaPlugin extends Plugin {
 		this.registerEvent(
 			this.app.vault.on('rename', (file, oldPath) => {
 				if (this.isClosingWindow || this.isUnloading) return;
+				// Path-keyed history follows the note
+				if (file instanceof TFile) void this.historyStore.rekey(oldPath, file.path);
 				const tier = this.filesWithContext.get(oldPath);
 				if (tier) {
 					this.filesWithContext.delete(oldPath);
@@ -3975,6 +5613,7 @@ export default class PerspectaPlugin extends Plugin {
 						this.otherWorkspacesForFile.set(file.path, otherWs);
 					}
 					this.debouncedRefreshIndicators();
+					this.debouncedRefreshContextsViews();
 				}
 			})
 		);
@@ -3987,6 +5626,7 @@ export default class PerspectaPlugin extends Plugin {
 					this.filesWithContext.delete(file.path);
 					this.otherWorkspacesForFile.delete(file.path);
 					this.debouncedRefreshIndicators();
+					this.debouncedRefreshContextsViews();
 				}
 			})
 		);
@@ -3996,41 +5636,11 @@ export default class PerspectaPlugin extends Plugin {
 	}
 
 	private async updateFileExplorerIndicator(file: TFile) {
-		let tier: 'active' | 'other' | null = null;
-		let otherWs: WorkspaceId[] | null = null;
-
-		// 1. External store (workspace-aware) — preferred for all file types.
-		if (this.settings.storageMode === 'external') {
-			const uid = await this.getUidForFile(file);
-			if (uid) {
-				const wsList = this.externalStore.workspacesWithUid(uid);
-				if (wsList.length > 0) {
-					const activeWs = this.externalStore.getActiveWorkspace();
-					const inActive = wsList.includes(activeWs);
-					const others = wsList.filter(ws => ws !== activeWs);
-					if (inActive) {
-						tier = 'active';
-						otherWs = others.length > 0 ? others : null;
-					} else {
-						tier = 'other';
-						otherWs = others;
-					}
-				}
-			}
-		}
-
-		// 2. Inline storage fallback (legacy data, or frontmatter mode).
-		if (!tier) {
-			let hasInline = false;
-			if (file.extension === 'md') hasInline = hasContextInFrontmatter(this.app, file);
-			else if (file.extension === 'canvas') hasInline = await canvasHasContext(this.app, file);
-			else if (file.extension === 'base') hasInline = await baseHasContext(this.app, file);
-			if (hasInline) tier = 'active';
-		}
+		const { tier, otherWs } = await this.classifyContext(file);
 
 		if (tier) {
 			this.filesWithContext.set(file.path, tier);
-			if (otherWs) {
+			if (otherWs.length > 0) {
 				this.otherWorkspacesForFile.set(file.path, otherWs);
 			} else {
 				this.otherWorkspacesForFile.delete(file.path);
@@ -4040,6 +5650,7 @@ export default class PerspectaPlugin extends Plugin {
 			this.otherWorkspacesForFile.delete(file.path);
 		}
 		this.debouncedRefreshIndicators();
+		this.debouncedRefreshContextsViews();
 	}
 
 	private debouncedRefreshIndicators() {
@@ -4094,6 +5705,33 @@ export default class PerspectaPlugin extends Plugin {
 	// Utility
 	// ============================================================================
 
+	private showRibbonMenu(evt: MouseEvent): void {
+		const menu = new Menu();
+		menu.addItem(item => item
+			.setTitle('Save context')
+			.setIcon('save')
+			.onClick(() => this.saveContext()));
+		menu.addItem(item => item
+			.setTitle('Restore context')
+			.setIcon('layout-grid')
+			.onClick(() => this.restoreContext()));
+		menu.addItem(item => item
+			.setTitle('Open perspective…')
+			.setIcon('telescope')
+			.onClick(() => this.openPerspectivePalette()));
+		menu.addItem(item => item
+			.setTitle('Contexts view')
+			.setIcon('list')
+			.onClick(() => this.openContextsView()));
+		menu.addSeparator();
+		menu.addItem(item => item
+			.setTitle(this.undoStore.size > 0 ? 'Undo last restore' : 'Nothing to undo')
+			.setIcon('undo-2')
+			.setDisabled(this.undoStore.size === 0)
+			.onClick(() => this.undoLastRestore()));
+		menu.showAtMouseEvent(evt);
+	}
+
 	async openInNewWindow(file: TFile) {
 		const leaf = this.app.workspace.openPopoutLeaf();
 		await leaf.openFile(file);
@@ -4111,9 +5749,8 @@ export default class PerspectaPlugin extends Plugin {
 		// Check if this file has a saved arrangement
 		let arrangementUid: string | undefined;
 		const uid = await getUidFromFile(this.app, file);
-		if (uid && this.settings.storageMode === 'external') {
-			const arrangements = this.externalStore.getAll(uid);
-			if (arrangements.length > 0) {
+		if (uid && this.settings.storageMode !== 'frontmatter') {
+			if (await this.getContextStore(file).has(file)) {
 				arrangementUid = uid;
 			}
 		} else if (this.settings.storageMode === 'frontmatter' && file.extension === 'md') {
@@ -4250,10 +5887,56 @@ export default class PerspectaPlugin extends Plugin {
 			this.settings.maxArrangementsPerNote = Math.max(1, Math.min(50, Math.floor(this.settings.maxArrangementsPerNote)));
 		}
 
+		// undoHistorySize: 0 to 20
+		if (typeof this.settings.undoHistorySize !== 'number' || isNaN(this.settings.undoHistorySize)) {
+			this.settings.undoHistorySize = DEFAULT_SETTINGS.undoHistorySize;
+		} else {
+			this.settings.undoHistorySize = Math.max(0, Math.min(20, Math.floor(this.settings.undoHistorySize)));
+		}
+
+		// historyMaxVersions: 0 to 100
+		if (typeof this.settings.historyMaxVersions !== 'number' || isNaN(this.settings.historyMaxVersions)) {
+			this.settings.historyMaxVersions = DEFAULT_SETTINGS.historyMaxVersions;
+		} else {
+			this.settings.historyMaxVersions = Math.max(0, Math.min(100, Math.floor(this.settings.historyMaxVersions)));
+		}
+
+		// historyMaxAgeDays: 0 (no limit) to 3650
+		if (typeof this.settings.historyMaxAgeDays !== 'number' || isNaN(this.settings.historyMaxAgeDays)) {
+			this.settings.historyMaxAgeDays = DEFAULT_SETTINGS.historyMaxAgeDays;
+		} else {
+			this.settings.historyMaxAgeDays = Math.max(0, Math.min(3650, Math.floor(this.settings.historyMaxAgeDays)));
+		}
+
 		// storageMode: must be valid enum value
-		if (this.settings.storageMode !== 'frontmatter' && this.settings.storageMode !== 'external') {
+		if (!['frontmatter', 'external', 'indexeddb'].includes(this.settings.storageMode)) {
 			this.settings.storageMode = DEFAULT_SETTINGS.storageMode;
 		}
+
+		// Auto-restore rules: lists of non-empty strings
+		for (const key of ['autoRestoreFolders', 'autoRestoreTags'] as const) {
+			const value: unknown = this.settings[key];
+			this.settings[key] = Array.isArray(value)
+				? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '')
+				: [];
+		}
+		if (!['latest', 'ask'].includes(this.settings.autoRestoreArrangement)) {
+			this.settings.autoRestoreArrangement = DEFAULT_SETTINGS.autoRestoreArrangement;
+		}
+
+		// autoSaveDelaySeconds: 2 to 600
+		if (typeof this.settings.autoSaveDelaySeconds !== 'number' || isNaN(this.settings.autoSaveDelaySeconds)) {
+			this.settings.autoSaveDelaySeconds = DEFAULT_SETTINGS.autoSaveDelaySeconds;
+		} else {
+			this.settings.autoSaveDelaySeconds = Math.max(2, Math.min(600, this.settings.autoSaveDelaySeconds));
+		}
+		if (!['all', 'auto-restore', 'flagged'].includes(this.settings.autoSaveNotes)) {
+			this.settings.autoSaveNotes = DEFAULT_SETTINGS.autoSaveNotes;
+		}
+
+		if (!['off', 'ask', 'auto'].includes(this.settings.sessionRestore)) {
+			this.settings.sessionRestore = DEFAULT_SETTINGS.sessionRestore;
+		}
 	}
 }
 
@@ -0,0 +1,54 @@
+// ============================================================================
+// Open Alongside
+// ----------------------------------------------------------------------------
+// Where a saved main window tree goes when it is opened next to the current
+// layout as a new split. Tab groups are addressed by their child-index path
+// in the current main window tree, as in partial-restore.ts; main.ts maps
+// the live workspace to that tree, splits the anchor group and applies the
+// sizes.
+// ============================================================================
+
+import { WorkspaceNodeState } from '../types';
+
+export interface AlongsidePlacement {
+	/** Path of the tab group to split; the new pane opens to its right. */
+	anchor: number[];
+	/**
+	 * Sizes of the root split's children once the new pane is added, or
+	 * undefined when the new pane only halves the anchor group.
+	 */
+	sizes?: number[];
+}
+
+/** Path of the last tab group of a tree, depth-first. */
+function lastGroupPath(node: WorkspaceNodeState, path: number[] = []): number[] {
+	if (node.type === 'tabs') return path;
+	const last = node.children.length - 1;
+	return lastGroupPath(node.children[last], [...path, last]);
+}
+
+/**
+ * Place a new pane in the current main window tree.
+ *
+ * When the root is a row of columns ending in a tab group, the pane becomes
+ * a new last column and every column gives up an equal share of its width,
+ * so the pane is as wide as an average column. Otherwise the root can't
+ * take another column from a split, and the pane halves the most recent
+ * group (or the last one).
+ *
+ * @param recent Path of the most recently active tab group, if known
+ */
+export function placeAlongsideSplit(root: WorkspaceNodeState, recent: number[] | null): AlongsidePlacement {
+	if (root.type === 'split' && root.direction === 'vertical') {
+		const count = root.children.length;
+		if (root.children[count - 1].type === 'tabs') {
+			const current = root.sizes?.length === count ? root.sizes : root.children.map(() => 1);
+			const total = current.reduce((a, b) => a + b, 0);
+			return {
+				anchor: [count - 1],
+				sizes: [...current.map(s => s * count / (count + 1)), total / (count + 1)],
+			};
+		}
+	}
+	return { anchor: recent ?? lastGroupPath(root) };
+}
@@ -0,0 +1,151 @@
+// ============================================================================
+// Auto-Restore Rules
+// ----------------------------------------------------------------------------
+// Decides whether opening a note should restore its saved context. A note
+// opts in through any of:
+//
+//   perspecta-auto-restore: true      frontmatter flag (latest arrangement)
+//   perspecta-auto-restore: "Review"  flag naming the arrangement to restore
+//   folder globs                      e.g. `Projects/**`, `Daily/*.md`
+//   tags                              e.g. `project` (also `#project/alpha`)
+//
+// `perspecta-auto-restore: false` opts a note out of the folder and tag rules.
+//
+// A restore opens notes, and those may have rules of their own, so the
+// AutoRestoreGuard holds further auto-restores back for a short while. The
+// note restored last is not restored again until another note has been
+// opened, so coming back to it (A → B → A) restores it, but the restore's
+// own file-open doesn't. The guard also remembers the "don't ask again"
+// answers for the rest of the session.
+// ============================================================================
+
+export interface AutoRestoreRules {
+	/** Folder globs matched against the note's path. */
+	folders: string[];
+	/** Tags without `#`; nested tags match their parent. */
+	tags: string[];
+}
+
+export interface AutoRestoreMatch {
+	reason: 'frontmatter' | 'folder' | 'tag';
+	/** Arrangement named by the frontmatter flag. */
+	arrangementName?: string;
+}
+
+/**
+ * Glob to a regular expression over vault paths: `**` matches across
+ * folders, `*` and `?` within one. A glob without wildcards names a folder
+ * and matches everything below it.
+ */
+export function globToRegExp(glob: string): RegExp {
+	const trimmed = glob.trim().replace(/^\/+/, '').replace(/\/+$/, '');
+	if (!/[*?]/.test(trimmed)) {
+		const escaped = trimmed.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		return new RegExp(`^${escaped}/`);
+	}
+	let source = '';
+	for (let i = 0; i < trimmed.length; i++) {
+		const ch = trimmed[i];
+		if (ch === '*' && trimmed[i + 1] === '*') {
+			// `**/` also matches no folder at all
+			source += trimmed[i + 2] === '/' ? '(?:.*/)?' : '.*';
+			i += trimmed[i + 2] === '/' ? 2 : 1;
+		} else if (ch === '*') {
+			source += '[^/]*';
+		} else if (ch === '?') {
+			source += '[^/]';
+		} else {
+			source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#+/, '').toLowerCase();
+}
+
+/**
+ * Find the rule that makes a note auto-restore, if any. The frontmatter
+ * flag wins over folder and tag rules.
+ *
+ * @param flag - Value of the perspecta-auto-restore frontmatter property
+ * @param tags - The note's tags, with or without `#`
+ */
+export function matchAutoRestoreRule(
+	path: string,
+	flag: unknown,
+	tags: string[],
+	rules: AutoRestoreRules
+): AutoRestoreMatch | null {
+	if (flag === false || flag === 'false') return null;
+	if (flag === true || flag === 'true') return { reason: 'frontmatter' };
+	if (typeof flag === 'string' && flag.trim()) return { reason: 'frontmatter', arrangementName: flag.trim() };
+
+	if (rules.folders.some(glob => glob.trim() && globToRegExp(glob).test(path))) {
+		return { reason: 'folder' };
+	}
+
+	const ruleTags = rules.tags.map(normalizeTag).filter(Boolean);
+	const noteTags = tags.map(normalizeTag);
+	if (noteTags.some(tag => ruleTags.some(rule => tag === rule || tag.startsWith(`${rule}/`)))) {
+		return { reason: 'tag' };
+	}
+	return null;
+}
+
+export type AutoRestoreDecision = 'restore' | 'skip';
+
+export interface AutoRestoreGuardConfig {
+	/** How long after a restore other notes are left alone. */
+	cooldownMs: number;
+}
+
+export class AutoRestoreGuard {
+	private cooldownMs: number;
+	private quietUntil = 0;
+	private lastRestoredPath: string | null = null;
+	private decisions = new Map<string, AutoRestoreDecision>();
+
+	constructor(config: AutoRestoreGuardConfig) {
+		this.cooldownMs = config.cooldownMs;
+	}
+
+	/**
+	 * False while a restore is settling, and for the note restored last
+	 * until another note has been opened.
+	 */
+	mayRestore(path: string, now = Date.now()): boolean {
+		return now >= this.quietUntil && path !== this.lastRestoredPath;
+	}
+
+	/**
+	 * Record that the user opened a note. Opening a different note once the
+	 * restore has settled lets the last restored note restore again.
+	 */
+	opened(path: string, now = Date.now()): void {
+		if (now >= this.quietUntil && path !== this.lastRestoredPath) {
+			this.lastRestoredPath = null;
+		}
+	}
+
+	/** Hold off auto-restores, e.g. while a restore is opening notes. */
+	hold(now = Date.now()): void {
+		this.quietUntil = Math.max(this.quietUntil, now + this.cooldownMs);
+	}
+
+	/** Record that a note's context was restored, automatically or not. */
+	restored(path: string, now = Date.now()): void {
+		this.lastRestoredPath = path;
+		this.hold(now);
+	}
+
+	/** Answer kept from a "don't ask again" for this session. */
+	decisionFor(path: string): AutoRestoreDecision | undefined {
+		return this.decisions.get(path);
+	}
+
+	remember(path: string, decision: AutoRestoreDecision): void {
+		this.decisions.set(path, decision);
+	}
+}
@@ -0,0 +1,156 @@
+// ============================================================================
+// Autosave
+// ----------------------------------------------------------------------------
+// Keeps the current context note (the one restored last) up to date with the
+// layout. Layout changes are debounced into one capture; a capture that
+// matches what was last saved or restored is not written again.
+//
+// The scheduler only decides when to capture and whether the result is new.
+// Capturing the layout is left to the plugin.
+//
+// In stores with several arrangements per note, the autosave is kept as one
+// extra arrangement named "Autosave" that does not count toward the per-note
+// limit: writing it never pushes out an arrangement the user saved, and a
+// manual save never spends a slot on it. The label editor refuses the name
+// for the user's own arrangements.
+// ============================================================================
+
+import { TFile } from 'obsidian';
+import { ArrangementLabel, AUTOSAVE_ARRANGEMENT_NAME, TimestampedArrangement, WindowArrangementV2 } from '../types';
+import { ContextStore } from '../storage/context-store';
+import { labelOf } from './labels';
+import { Logger } from '../utils/logger';
+
+export interface AutoSaveConfig {
+	/** Quiet time after the last layout change before saving. */
+	delayMs: number;
+	capture: () => WindowArrangementV2;
+	save: (path: string, arrangement: WindowArrangementV2) => Promise<void>;
+}
+
+/**
+ * Identity of a layout for change detection. The capture time is left out,
+ * so two captures of the same layout compare equal.
+ */
+export function layoutFingerprint(arrangement: WindowArrangementV2): string {
+	const { ts: _ts, ...layout } = arrangement;
+	return JSON.stringify(layout);
+}
+
+export class AutoSaveScheduler {
+	private delayMs: number;
+	private capture: () => WindowArrangementV2;
+	private save: (path: string, arrangement: WindowArrangementV2) => Promise<void>;
+	private path: string | null = null;
+	private fingerprint: string | null = null;
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private saving: Promise<void> = Promise.resolve();
+
+	constructor(config: AutoSaveConfig) {
+		this.delayMs = config.delayMs;
+		this.capture = config.capture;
+		this.save = config.save;
+	}
+
+	/** Note the layout is saved to, or null when nothing is tracked. */
+	get currentPath(): string | null {
+		return this.path;
+	}
+
+	/** Whether a save is waiting for the layout to settle. */
+	get pending(): boolean {
+		return this.timer !== null;
+	}
+
+	setDelay(delayMs: number): void {
+		this.delayMs = delayMs;
+	}
+
+	/**
+	 * Start saving layout changes to a note (null stops). The layout at hand,
+	 * usually the one just restored, is the baseline for change detection.
+	 */
+	track(path: string | null, baseline?: WindowArrangementV2): void {
+		this.cancel();
+		this.path = path;
+		this.fingerprint = baseline ? layoutFingerprint(baseline) : null;
+	}
+
+	/** Save after the layout has been quiet for the configured delay. */
+	schedule(delayMs = this.delayMs): void {
+		if (!this.path) return;
+		this.cancel();
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			void this.flush();
+		}, delayMs);
+	}
+
+	cancel(): void {
+		if (this.timer) clearTimeout(this.timer);
+		this.timer = null;
+	}
+
+	/**
+	 * Capture and save now if the layout changed since the last save.
+	 * Saves run one after another.
+	 *
+	 * @returns True if a save was written
+	 */
+	flush(): Promise<boolean> {
+		this.cancel();
+		const result = this.saving.then(() => this.saveIfChanged());
+		this.saving = result.then(() => undefined);
+		return result;
+	}
+
+	private async saveIfChanged(): Promise<boolean> {
+		const path = this.path;
+		if (!path) return false;
+		try {
+			const arrangement = this.capture();
+			const fingerprint = layoutFingerprint(arrangement);
+			if (fingerprint === this.fingerprint) return false;
+			await this.save(path, arrangement);
+			// Tracking may have moved on while saving
+			if (this.path === path) this.fingerprint = fingerprint;
+			return true;
+		} catch (e) {
+			Logger.warn(`Autosave to ${path} failed:`, e);
+			return false;
+		}
+	}
+}
+
+export function isAutosaveEntry(entry: ArrangementLabel): boolean {
+	return entry.name === AUTOSAVE_ARRANGEMENT_NAME;
+}
+
+/**
+ * Write an autosaved layout to a note. Multi-arrangement stores replace the
+ * previous "Autosave" arrangement and keep every other one; single-slot
+ * stores update their one arrangement and keep its label.
+ */
+export async function writeAutosave(store: ContextStore, file: TFile, arrangement: WindowArrangementV2): Promise<void> {
+	const existing = await store.getAll(file);
+	if (!store.capabilities.multiple) {
+		await store.set(file, arrangement, existing[0] ? labelOf(existing[0]) : {}, 1);
+		return;
+	}
+
+	for (const entry of existing.filter(isAutosaveEntry)) {
+		await store.deleteArrangement(file, entry.savedAt);
+	}
+	const saved = existing.filter(entry => !isAutosaveEntry(entry)).length;
+	await store.set(file, arrangement, { name: AUTOSAVE_ARRANGEMENT_NAME }, saved + 1);
+}
+
+/**
+ * The arrangements a manual save would push out of a multi-arrangement
+ * store: the oldest user-saved ones beyond the limit. The Autosave
+ * arrangement is never counted.
+ */
+export function arrangementsToEvict(existing: TimestampedArrangement[], maxArrangements: number): TimestampedArrangement[] {
+	const saved = existing.filter(entry => !isAutosaveEntry(entry)).sort((a, b) => a.savedAt - b.savedAt);
+	return saved.slice(0, Math.max(0, saved.length - maxArrangements + 1));
+}
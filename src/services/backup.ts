@@ -21,9 +21,10 @@
 
 import { App, Notice } from 'obsidian';
 import { ExternalContextStore } from '../storage/external-store';
-import { WindowArrangementV2, DEFAULT_WORKSPACE_ID, WorkspaceId } from '../types';
+import { TimestampedArrangement, DEFAULT_WORKSPACE_ID, WorkspaceId } from '../types';
 import { showRestoreModeSelector, RestoreMode } from '../ui/modals';
 import { Logger } from '../utils/logger';
+import { labelOf } from './labels';
 
 export interface BackupConfig {
 	app: App;
@@ -40,13 +41,13 @@ interface BackupV1 {
 	version: 1;
 	createdAt: string;
 	arrangementCount: number;
-	arrangements: Record<string, Array<{ arrangement: WindowArrangementV2; savedAt: number }>>;
+	arrangements: Record<string, TimestampedArrangement[]>;
 }
 
 interface BackupV2WorkspaceEntry {
 	displayName: string;
 	shared: boolean;
-	arrangements: Record<string, Array<{ arrangement: WindowArrangementV2; savedAt: number }>>;
+	arrangements: Record<string, TimestampedArrangement[]>;
 }
 
 interface BackupV2 {
@@ -77,9 +78,9 @@ export async function backupArrangements(
 
 	for (const ws of externalStore.listWorkspaces()) {
 		const uids = externalStore.getAllUids(ws.id);
-		const arrangements: Record<string, Array<{ arrangement: WindowArrangementV2; savedAt: number }>> = {};
+		const arrangements: Record<string, TimestampedArrangement[]> = {};
 		for (const uid of uids) {
-			const items = externalStore.getAll(uid, ws.id);
+			const items = await externalStore.getAll(uid, ws.id);
 			if (items.length > 0) {
 				arrangements[uid] = items;
 				totalArrangements += items.length;
@@ -189,7 +190,7 @@ export async function restoreFromBackup(
 	await externalStore.ensureInitialized();
 
 	// Normalize either format into a workspace → uid → arrangements map.
-	const normalized: Record<WorkspaceId, Record<string, Array<{ arrangement: WindowArrangementV2; savedAt: number }>>> = {};
+	const normalized: Record<WorkspaceId, Record<string, TimestampedArrangement[]>> = {};
 
 	if (isV2(parsed)) {
 		// Ensure all workspaces in the backup exist (recreate if missing).
@@ -222,7 +223,7 @@ export async function restoreFromBackup(
 		for (const [uid, backupArrangements] of Object.entries(uidMap)) {
 			try {
 				if (mode === 'merge') {
-					const existing = externalStore.get(uid, wsId) || [];
+					const existing = await externalStore.get(uid, wsId) || [];
 					const combined = [...existing];
 					for (const backupItem of backupArrangements) {
 						if (!combined.some(e => e.savedAt === backupItem.savedAt)) {
@@ -231,13 +232,13 @@ export async function restoreFromBackup(
 					}
 					combined.sort((a, b) => b.savedAt - a.savedAt);
 					const trimmed = combined.slice(0, maxArrangementsPerNote);
-					externalStore.clearUid(uid, wsId);
+					await externalStore.clearUid(uid, wsId);
 					for (const item of trimmed) {
-						externalStore.set(uid, item.arrangement, maxArrangementsPerNote, wsId);
+						await externalStore.set(uid, item.arrangement, maxArrangementsPerNote, wsId, labelOf(item));
 					}
 				} else {
 					for (const item of backupArrangements) {
-						externalStore.set(uid, item.arrangement, maxArrangementsPerNote, wsId);
+						await externalStore.set(uid, item.arrangement, maxArrangementsPerNote, wsId, labelOf(item));
 					}
 				}
 				restored++;
@@ -253,3 +254,45 @@ export async function restoreFromBackup(
 
 	return { restored, errors };
 }
+
+/**
+ * Refill damaged collections (typically quarantined files) from backups.
+ * Backups are searched newest first; the first one containing a UID wins,
+ * and its arrangements are merged with whatever the store still has.
+ */
+export async function salvageFromBackups(
+	cfg: Pick<BackupConfig, 'app' | 'externalStore' | 'perspectaFolderPath' | 'maxArrangementsPerNote'>,
+	damaged: { workspaceId: WorkspaceId; uid: string }[]
+): Promise<{ recovered: number; missing: number }> {
+	const { app, externalStore, maxArrangementsPerNote } = cfg;
+	const pending = new Map(damaged.map(d => [`${d.workspaceId}/${d.uid}`, d]));
+	let recovered = 0;
+
+	for (const backup of await listBackups(cfg)) {
+		if (pending.size === 0) break;
+
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(await app.vault.adapter.read(backup.path));
+		} catch (e) {
+			Logger.warn(`Skipping unreadable backup ${backup.name}:`, e);
+			continue;
+		}
+
+		for (const [key, { workspaceId, uid }] of pending) {
+			const items = isV2(parsed)
+				? parsed.workspaces[workspaceId]?.arrangements[uid]
+				: isV1(parsed) && workspaceId === DEFAULT_WORKSPACE_ID
+					? parsed.arrangements[uid]
+					: undefined;
+			if (!items || items.length === 0) continue;
+
+			await externalStore.mergeArrangements(uid, items, maxArrangementsPerNote, workspaceId);
+			pending.delete(key);
+			recovered++;
+		}
+	}
+
+	await externalStore.flushDirty();
+	return { recovered, missing: pending.size };
+}
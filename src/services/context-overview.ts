@@ -0,0 +1,119 @@
+// ============================================================================
+// Context Overview
+// ----------------------------------------------------------------------------
+// Sorting, filtering and grouping behind the Contexts view. An entry is one
+// note in one workspace bucket; the view builds the entries and renders
+// what these functions leave over.
+// ============================================================================
+
+import { WorkspaceId } from '../types';
+
+export interface OverviewEntry {
+	file: { path: string; basename: string };
+	workspaceId: WorkspaceId;
+	/** savedAt of the newest arrangement. */
+	latestSavedAt: number;
+	/** Number of arrangements in the bucket. */
+	count: number;
+	/** Tags of the note and of its arrangements, without `#`. */
+	tags: string[];
+}
+
+export type OverviewSort = 'recent' | 'oldest' | 'name' | 'count';
+
+// Last saved within a day, week or month, or not for more than a month
+export type OverviewAge = 'any' | 'day' | 'week' | 'month' | 'stale';
+
+export interface OverviewFilter {
+	/** Folder path; '' for every folder. Subfolders are included. */
+	folder: string;
+	/** Tag without `#`; '' for any. Nested tags match their parent. */
+	tag: string;
+	age: OverviewAge;
+}
+
+export interface OverviewGroup<T extends OverviewEntry> {
+	workspaceId: WorkspaceId;
+	entries: T[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AGE_LIMITS: Record<Exclude<OverviewAge, 'any'>, number> = {
+	day: DAY_MS,
+	week: 7 * DAY_MS,
+	month: 30 * DAY_MS,
+	stale: 30 * DAY_MS,
+};
+
+export function folderOf(path: string): string {
+	const slash = path.lastIndexOf('/');
+	return slash === -1 ? '' : path.slice(0, slash);
+}
+
+export function matchesOverviewFilter(entry: OverviewEntry, filter: OverviewFilter, now = Date.now()): boolean {
+	if (filter.folder && !entry.file.path.startsWith(`${filter.folder}/`)) return false;
+
+	const tag = filter.tag.toLowerCase();
+	if (tag && !entry.tags.some(t => {
+		const lower = t.toLowerCase();
+		return lower === tag || lower.startsWith(`${tag}/`);
+	})) return false;
+
+	if (filter.age !== 'any') {
+		const age = now - entry.latestSavedAt;
+		const limit = AGE_LIMITS[filter.age];
+		if (filter.age === 'stale' ? age <= limit : age > limit) return false;
+	}
+	return true;
+}
+
+export function sortOverviewEntries<T extends OverviewEntry>(entries: T[], sort: OverviewSort): T[] {
+	const byName = (a: T, b: T) => a.file.basename.localeCompare(b.file.basename) || a.file.path.localeCompare(b.file.path);
+	const compare: Record<OverviewSort, (a: T, b: T) => number> = {
+		recent: (a, b) => b.latestSavedAt - a.latestSavedAt,
+		oldest: (a, b) => a.latestSavedAt - b.latestSavedAt,
+		name: byName,
+		count: (a, b) => b.count - a.count || byName(a, b),
+	};
+	return [...entries].sort(compare[sort]);
+}
+
+/**
+ * Filter, sort and group entries by workspace bucket. Buckets come in the
+ * given order (e.g. active first); buckets without entries are left out.
+ */
+export function groupOverviewEntries<T extends OverviewEntry>(
+	entries: T[],
+	bucketOrder: WorkspaceId[],
+	sort: OverviewSort,
+	filter: OverviewFilter,
+	now = Date.now()
+): OverviewGroup<T>[] {
+	const byBucket = new Map<WorkspaceId, T[]>();
+	for (const entry of entries) {
+		if (!matchesOverviewFilter(entry, filter, now)) continue;
+		const bucket = byBucket.get(entry.workspaceId) ?? [];
+		bucket.push(entry);
+		byBucket.set(entry.workspaceId, bucket);
+	}
+
+	const order = [...bucketOrder, ...[...byBucket.keys()].filter(id => !bucketOrder.includes(id))];
+	return order
+		.filter(id => byBucket.has(id))
+		.map(id => ({ workspaceId: id, entries: sortOverviewEntries(byBucket.get(id) ?? [], sort) }));
+}
+
+/** Folders and tags present in the entries, for the filter menus. */
+export function overviewFacets(entries: OverviewEntry[]): { folders: string[]; tags: string[] } {
+	const folders = new Set<string>();
+	const tags = new Set<string>();
+	for (const entry of entries) {
+		let folder = folderOf(entry.file.path);
+		while (folder) {
+			folders.add(folder);
+			folder = folderOf(folder);
+		}
+		entry.tags.forEach(t => tags.add(t));
+	}
+	return { folders: [...folders].sort(), tags: [...tags].sort() };
+}
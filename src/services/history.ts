@@ -0,0 +1,195 @@
+// ============================================================================
+// Arrangement History
+// ----------------------------------------------------------------------------
+// Pure helpers for the per-note version history: retention (by count and
+// age) and a structural diff between two versions. The diff compares what a
+// user would notice — tabs added or removed, windows moved or resized, split
+// sizes changed — not every saved field (scroll, selections, ...).
+//
+// Popouts are paired with matchWindows from the restore reconciliation, so a
+// window keeps its identity when popouts are reordered.
+// ============================================================================
+
+import { TabState, TimestampedArrangement, WindowArrangementV2, WindowStateV2, WorkspaceNodeState } from '../types';
+import { matchWindows, sameShape, tabKey } from './reconcile';
+
+export interface RetentionPolicy {
+	/** Versions kept per note (0 disables history). */
+	maxVersions: number;
+	/** Versions older than this are dropped (0 = no age limit). */
+	maxAgeDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Geometry changes smaller than this (px) are not reported as moves. */
+const MOVE_TOLERANCE = 2;
+/** Split size changes smaller than this (relative units) are ignored. */
+const SIZE_TOLERANCE = 0.5;
+
+/**
+ * Apply a retention policy to versions in any order. The newest version is
+ * always kept (unless history is disabled), however old it is.
+ *
+ * @returns The kept versions, oldest first
+ */
+export function applyRetention(
+	versions: TimestampedArrangement[],
+	policy: RetentionPolicy,
+	now: number = Date.now()
+): TimestampedArrangement[] {
+	if (policy.maxVersions <= 0) return [];
+	const sorted = [...versions].sort((a, b) => a.savedAt - b.savedAt);
+	const newest = sorted[sorted.length - 1];
+
+	let kept = policy.maxAgeDays > 0
+		? sorted.filter(v => v === newest || now - v.savedAt <= policy.maxAgeDays * DAY_MS)
+		: sorted;
+	if (kept.length > policy.maxVersions) kept = kept.slice(-policy.maxVersions);
+	return kept;
+}
+
+// ---------------------------------------------------------------------------
+// Structural diff
+// ---------------------------------------------------------------------------
+
+export interface TabChange {
+	/** 'Main window' or 'Popout N' (numbered in the version the tab is in). */
+	window: string;
+	name: string;
+	key: string;
+}
+
+export interface WindowGeometry {
+	x?: number;
+	y?: number;
+	width?: number;
+	height?: number;
+}
+
+export interface WindowMove {
+	/** Label in the newer version. */
+	window: string;
+	from: WindowGeometry;
+	to: WindowGeometry;
+}
+
+export interface SplitResize {
+	window: string;
+	/** Child-index path to the split inside the window tree. */
+	path: number[];
+	from: number[];
+	to: number[];
+}
+
+export interface ArrangementDiff {
+	addedTabs: TabChange[];
+	removedTabs: TabChange[];
+	addedWindows: string[];
+	removedWindows: string[];
+	movedWindows: WindowMove[];
+	resizedSplits: SplitResize[];
+}
+
+function windowLabel(index: number): string {
+	return index < 0 ? 'Main window' : `Popout ${index + 1}`;
+}
+
+function tabName(tab: TabState): string {
+	if (tab.viewType) return `${tab.viewType} view`;
+	return tab.name || (tab.path.split('/').pop() ?? tab.path).replace(/\.md$/, '');
+}
+
+function collectTabs(node: WorkspaceNodeState, window: string, out: TabChange[]): void {
+	if (node.type === 'tabs') {
+		for (const tab of node.tabs) out.push({ window, name: tabName(tab), key: tabKey(tab) });
+	} else {
+		for (const child of node.children) collectTabs(child, window, out);
+	}
+}
+
+function allTabs(arr: WindowArrangementV2): TabChange[] {
+	const tabs: TabChange[] = [];
+	collectTabs(arr.main.root, windowLabel(-1), tabs);
+	arr.popouts.forEach((p, i) => collectTabs(p.root, windowLabel(i), tabs));
+	return tabs;
+}
+
+/** Tabs of `a` without a counterpart in `b` (counting duplicates). */
+function tabsMissingFrom(a: TabChange[], b: TabChange[]): TabChange[] {
+	const remaining = new Map<string, number>();
+	for (const tab of b) remaining.set(tab.key, (remaining.get(tab.key) ?? 0) + 1);
+	return a.filter(tab => {
+		const count = remaining.get(tab.key) ?? 0;
+		if (count === 0) return true;
+		remaining.set(tab.key, count - 1);
+		return false;
+	});
+}
+
+function geometry(win: WindowStateV2): WindowGeometry {
+	return { x: win.x, y: win.y, width: win.width, height: win.height };
+}
+
+function moved(a: WindowGeometry, b: WindowGeometry): boolean {
+	const keys: (keyof WindowGeometry)[] = ['x', 'y', 'width', 'height'];
+	return keys.some(k => a[k] !== undefined && b[k] !== undefined && Math.abs(a[k]! - b[k]!) > MOVE_TOLERANCE);
+}
+
+function collectResizes(a: WorkspaceNodeState, b: WorkspaceNodeState, window: string, path: number[], out: SplitResize[]): void {
+	if (a.type !== 'split' || b.type !== 'split') return;
+	if (a.sizes && b.sizes && a.sizes.length === b.sizes.length
+		&& a.sizes.some((size, i) => Math.abs(size - b.sizes![i]) > SIZE_TOLERANCE)) {
+		out.push({ window, path, from: a.sizes, to: b.sizes });
+	}
+	a.children.forEach((child, i) => collectResizes(child, b.children[i], window, [...path, i], out));
+}
+
+function compareWindows(a: WindowStateV2, b: WindowStateV2, window: string, diff: ArrangementDiff): void {
+	const from = geometry(a);
+	const to = geometry(b);
+	if (moved(from, to)) diff.movedWindows.push({ window, from, to });
+	// Split sizes are only comparable when the split trees line up
+	if (sameShape(a.root, b.root)) collectResizes(a.root, b.root, window, [], diff.resizedSplits);
+}
+
+/**
+ * Structural changes from version `a` (older) to version `b` (newer).
+ */
+export function diffArrangements(a: WindowArrangementV2, b: WindowArrangementV2): ArrangementDiff {
+	const tabsA = allTabs(a);
+	const tabsB = allTabs(b);
+	const diff: ArrangementDiff = {
+		addedTabs: tabsMissingFrom(tabsB, tabsA),
+		removedTabs: tabsMissingFrom(tabsA, tabsB),
+		addedWindows: [],
+		removedWindows: [],
+		movedWindows: [],
+		resizedSplits: [],
+	};
+
+	compareWindows(a.main, b.main, windowLabel(-1), diff);
+
+	const matches = matchWindows(a.popouts.map(p => p.root), b.popouts.map(p => p.root));
+	const matchedA = new Set<number>();
+	matches.forEach((ai, bi) => {
+		if (ai === null) {
+			diff.addedWindows.push(windowLabel(bi));
+		} else {
+			matchedA.add(ai);
+			compareWindows(a.popouts[ai], b.popouts[bi], windowLabel(bi), diff);
+		}
+	});
+	a.popouts.forEach((_, ai) => {
+		if (!matchedA.has(ai)) diff.removedWindows.push(windowLabel(ai));
+	});
+
+	return diff;
+}
+
+/** True when the diff found nothing to report. */
+export function isEmptyDiff(diff: ArrangementDiff): boolean {
+	return diff.addedTabs.length === 0 && diff.removedTabs.length === 0
+		&& diff.addedWindows.length === 0 && diff.removedWindows.length === 0
+		&& diff.movedWindows.length === 0 && diff.resizedSplits.length === 0;
+}
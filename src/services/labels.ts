@@ -0,0 +1,49 @@
+// ============================================================================
+// Arrangement Labels
+// ----------------------------------------------------------------------------
+// Helpers for the optional name, description and tags of a saved
+// arrangement. Labels are stored on TimestampedArrangement (external store)
+// and in the compact blob (frontmatter); both only hold non-empty fields.
+// ============================================================================
+
+import { ArrangementLabel } from '../types';
+
+/**
+ * Parse tag input such as `#work, deep-focus  reading` into a list of tags:
+ * split on commas and whitespace, leading `#` removed, duplicates dropped.
+ */
+export function parseTags(input: string): string[] {
+	const tags: string[] = [];
+	for (const raw of input.split(/[\s,]+/)) {
+		const tag = raw.replace(/^#+/, '').trim();
+		if (tag && !tags.includes(tag)) tags.push(tag);
+	}
+	return tags;
+}
+
+/** Trim a label and drop empty fields. */
+export function normalizeLabel(label: ArrangementLabel): ArrangementLabel {
+	const normalized: ArrangementLabel = {};
+	const name = label.name?.trim();
+	const description = label.description?.trim();
+	const tags = (label.tags ?? []).map(t => t.replace(/^#+/, '').trim()).filter(Boolean);
+	if (name) normalized.name = name;
+	if (description) normalized.description = description;
+	if (tags.length > 0) normalized.tags = [...new Set(tags)];
+	return normalized;
+}
+
+/** Copy just the label fields of an entry (e.g. a TimestampedArrangement). */
+export function labelOf(entry: ArrangementLabel): ArrangementLabel {
+	return normalizeLabel({ name: entry.name, description: entry.description, tags: entry.tags });
+}
+
+/** Names and `#tags` of a note's arrangements, for search and filtering. */
+export function searchLabels(entries: ArrangementLabel[]): string[] {
+	return entries.flatMap(e => [e.name ?? '', ...(e.tags ?? []).map(t => `#${t}`)]).filter(Boolean);
+}
+
+/** True when the label has at least one field set. */
+export function hasLabel(label: ArrangementLabel | null | undefined): boolean {
+	return !!label && (!!label.name || !!label.description || !!label.tags?.length);
+}
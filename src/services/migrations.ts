@@ -1,21 +1,16 @@
 // ============================================================================
 // Storage Migrations & Housekeeping
 // ----------------------------------------------------------------------------
-// Functions that move arrangement data between the two storage modes
-// (frontmatter ↔ external) and clean up legacy frontmatter properties.
+// Format upgrades and clean-up of legacy data: v1 → v2 arrangements, the
+// old `uid` property, and contexts embedded in canvas/base files. Moving
+// arrangements between storage modes lives in store-migration.ts.
 //
-// These functions take the storage stores and an indicator-refresh
-// callback as parameters — no plugin-instance coupling, so they can
-// be unit-tested with mocked stores.
+// These functions take the app and stores as parameters — no
+// plugin-instance coupling, so they can be unit-tested with mocked stores.
 // ============================================================================
 
 import { App } from 'obsidian';
 import { ExternalContextStore } from '../storage/external-store';
-import {
-	getContextFromFrontmatter,
-	removeContextFromFrontmatter,
-	saveContextToFrontmatter,
-} from '../storage/frontmatter-store';
 import {
 	getUidFromCanvas,
 	getContextFromCanvas,
@@ -31,18 +26,12 @@ import {
 	baseHasContext,
 } from '../storage/base';
 import { WindowArrangement, WindowArrangementV1, WindowArrangementV2, DEFAULT_WORKSPACE_ID } from '../types';
-import { briefPause } from '../utils/async-utils';
 import { Logger } from '../utils/logger';
-import { addUidToFile, cleanupOldUid, generateUid, getUidFromCache } from '../utils/uid';
+import { cleanupOldUid, generateUid } from '../utils/uid';
 
 export interface MigrationConfig {
 	app: App;
 	externalStore: ExternalContextStore;
-	/**
-	 * Called after migration completes. Implementations typically refresh
-	 * file-explorer indicators and persist the storageMode setting.
-	 */
-	onAfterMigrate: (newMode: 'frontmatter' | 'external') => Promise<void>;
 }
 
 /**
@@ -67,94 +56,11 @@ export async function cleanupOldUidProperties(app: App): Promise<number> {
 	return cleaned;
 }
 
-/**
- * Move all frontmatter-stored arrangements into the external store.
- * Each migrated file gets a UID added if it didn't already have one,
- * and the perspecta-arrangement line is stripped from its frontmatter.
- */
-export async function migrateToExternalStorage(
-	cfg: MigrationConfig
-): Promise<{ migrated: number; errors: number }> {
-	const { app, externalStore, onAfterMigrate } = cfg;
-	const files = app.vault.getMarkdownFiles();
-	let migrated = 0;
-	let errors = 0;
-
-	await externalStore.ensureInitialized();
-
-	for (const file of files) {
-		try {
-			const context = getContextFromFrontmatter(app, file);
-			if (!context) continue;
-
-			let uid = getUidFromCache(app, file);
-			if (!uid) {
-				uid = generateUid();
-				await addUidToFile(app, file, uid);
-				await briefPause(); // give the metadata cache a moment
-			}
-
-			const v2 = normalizeToV2(context);
-			externalStore.set(uid, v2);
-
-			await removeContextFromFrontmatter(app, file);
-
-			migrated++;
-		} catch (e) {
-			Logger.error(`Failed to migrate ${file.path}:`, e);
-			errors++;
-		}
-	}
-
-	await externalStore.flushDirty();
-	await onAfterMigrate('external');
-
-	return { migrated, errors };
-}
-
-/**
- * Move all external-store arrangements back into note frontmatter.
- * The external entry is deleted only after the frontmatter write succeeds.
- */
-export async function migrateToFrontmatter(
-	cfg: MigrationConfig
-): Promise<{ migrated: number; errors: number }> {
-	const { app, externalStore, onAfterMigrate } = cfg;
-	const files = app.vault.getMarkdownFiles();
-	let migrated = 0;
-	let errors = 0;
-
-	await externalStore.ensureInitialized();
-
-	for (const file of files) {
-		try {
-			const uid = getUidFromCache(app, file);
-			if (!uid) continue;
-
-			const context = externalStore.getLatest(uid);
-			if (!context) continue;
-
-			await saveContextToFrontmatter(app, file, context);
-			await externalStore.delete(uid);
-
-			migrated++;
-		} catch (e) {
-			Logger.error(`Failed to migrate ${file.path}:`, e);
-			errors++;
-		}
-	}
-
-	await onAfterMigrate('frontmatter');
-
-	return { migrated, errors };
-}
-
 /**
  * Promote a v1 arrangement to v2 in-place. v1 stored a flat tabs array;
  * v2 wraps each window's tabs in a tab-group node so splits can be expressed.
  *
- * Exported so the migration tools can normalise old-format frontmatter
- * arrangements found during migrateToExternalStorage.
+ * Exported so the stores can normalise old-format arrangements they read.
  */
 export function normalizeToV2(arr: WindowArrangement): WindowArrangementV2 {
 	if (arr.v === 2) return arr as WindowArrangementV2;
@@ -219,7 +125,7 @@ export async function migrateInlineCanvasBaseContexts(
 			const ctx = await getContextFromCanvas(app, file);
 			if (!ctx) continue;
 			const v2 = normalizeToV2(ctx) as WindowArrangementV2;
-			externalStore.set(uid, v2, maxArrangementsPerNote, DEFAULT_WORKSPACE_ID);
+			await externalStore.set(uid, v2, maxArrangementsPerNote, DEFAULT_WORKSPACE_ID);
 			await removeContextFromCanvas(app, file);
 			result.canvasMigrated++;
 		} catch (e) {
@@ -241,7 +147,7 @@ export async function migrateInlineCanvasBaseContexts(
 			const ctx = await getContextFromBase(app, file);
 			if (!ctx) continue;
 			const v2 = normalizeToV2(ctx) as WindowArrangementV2;
-			externalStore.set(uid, v2, maxArrangementsPerNote, DEFAULT_WORKSPACE_ID);
+			await externalStore.set(uid, v2, maxArrangementsPerNote, DEFAULT_WORKSPACE_ID);
 			await removeContextFromBase(app, file);
 			result.baseMigrated++;
 		} catch (e) {
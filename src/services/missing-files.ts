@@ -0,0 +1,144 @@
+// ============================================================================
+// Missing Files
+// ----------------------------------------------------------------------------
+// Writing restore outcomes back into a saved arrangement: tabs whose file was
+// found elsewhere (UID/name fallback, or a replacement picked in the
+// missing-files report) get their new path, and tabs the user chose to drop
+// are removed. Tab groups and windows left empty are pruned the same way a
+// partial restore prunes them; everything else is kept as saved, including
+// tabs that were missing but kept. The patched arrangement replaces the
+// stored entry it was restored from, in place.
+// ============================================================================
+
+import { TFile } from 'obsidian';
+import { ContextStore } from '../storage/context-store';
+import { SidebarState, TabState, WindowArrangementV2, WindowStateV2, WorkspaceNodeState } from '../types';
+import { MAIN_WINDOW_INDEX, pruneSplit } from './partial-restore';
+
+export interface PathCorrection {
+	newPath: string;
+	newName: string;
+	/**
+	 * UID of the new file. Only set for user-picked replacements, where the
+	 * saved UID belongs to the missing file; null clears it.
+	 */
+	newUid?: string | null;
+}
+
+function correctTab(tab: TabState, correction: PathCorrection | undefined): TabState {
+	if (!correction) return tab;
+	const corrected: TabState = { ...tab, path: correction.newPath, name: correction.newName };
+	if (correction.newUid === null) {
+		delete corrected.uid;
+	} else if (correction.newUid !== undefined) {
+		corrected.uid = correction.newUid;
+	}
+	return corrected;
+}
+
+function patchNode(
+	node: WorkspaceNodeState,
+	corrections: ReadonlyMap<string, PathCorrection>,
+	dropped: ReadonlySet<string>
+): WorkspaceNodeState | null {
+	if (node.type === 'tabs') {
+		const tabs = node.tabs
+			.filter(tab => tab.viewType || !dropped.has(tab.path))
+			.map(tab => tab.viewType ? tab : correctTab(tab, corrections.get(tab.path)));
+		return tabs.length > 0 ? { ...node, tabs } : null;
+	}
+	return pruneSplit(node, node.children.map(child => patchNode(child, corrections, dropped)));
+}
+
+function patchWindow(
+	state: WindowStateV2,
+	corrections: ReadonlyMap<string, PathCorrection>,
+	dropped: ReadonlySet<string>
+): WindowStateV2 | null {
+	const root = patchNode(state.root, corrections, dropped);
+	return root ? { ...state, root } : null;
+}
+
+// A sidebar left without tabs keeps its width and collapsed state
+function patchSidebar(
+	state: SidebarState,
+	corrections: ReadonlyMap<string, PathCorrection>,
+	dropped: ReadonlySet<string>
+): SidebarState {
+	if (!state.root) return state;
+	const root = patchNode(state.root, corrections, dropped);
+	if (root) return { ...state, root };
+	const { root: _root, ...rest } = state;
+	return rest;
+}
+
+/**
+ * Apply path corrections and dropped tabs (both keyed by saved path) to an
+ * arrangement, sidebar panels included. A main window left without tabs
+ * keeps an empty tab group; popouts left without tabs are removed and the
+ * focused window index is remapped (falling back to the main window).
+ */
+export function patchArrangement(
+	arr: WindowArrangementV2,
+	corrections: ReadonlyMap<string, PathCorrection>,
+	dropped: ReadonlySet<string> = new Set()
+): WindowArrangementV2 {
+	const main = patchWindow(arr.main, corrections, dropped) ?? { ...arr.main, root: { type: 'tabs', tabs: [] } };
+
+	const popouts: WindowStateV2[] = [];
+	const popoutIndexMap = new Map<number, number>();
+	arr.popouts.forEach((popout, i) => {
+		const patched = patchWindow(popout, corrections, dropped);
+		if (!patched) return;
+		popoutIndexMap.set(i, popouts.length);
+		popouts.push(patched);
+	});
+
+	const focusedWindow = arr.focusedWindow === MAIN_WINDOW_INDEX
+		? MAIN_WINDOW_INDEX
+		: popoutIndexMap.get(arr.focusedWindow) ?? MAIN_WINDOW_INDEX;
+
+	const patched: WindowArrangementV2 = { ...arr, main, popouts, focusedWindow };
+	if (arr.leftSidebar) patched.leftSidebar = patchSidebar(arr.leftSidebar, corrections, dropped);
+	if (arr.rightSidebar) patched.rightSidebar = patchSidebar(arr.rightSidebar, corrections, dropped);
+	return patched;
+}
+
+function findTabGroup(node: WorkspaceNodeState, path: string): TabState[] | null {
+	if (node.type === 'tabs') return node.tabs.some(tab => !tab.viewType && tab.path === path) ? node.tabs : null;
+	for (const child of node.children) {
+		const found = findTabGroup(child, path);
+		if (found) return found;
+	}
+	return null;
+}
+
+/**
+ * Tabs of the saved tab group holding a file tab, searched in the main
+ * window, the popouts and the sidebars; null if no group has it.
+ */
+export function savedTabGroupOf(arr: WindowArrangementV2, path: string): TabState[] | null {
+	const roots = [arr.main.root, ...arr.popouts.map(p => p.root), arr.leftSidebar?.root, arr.rightSidebar?.root];
+	for (const root of roots) {
+		const found = root ? findTabGroup(root, path) : null;
+		if (found) return found;
+	}
+	return null;
+}
+
+/**
+ * Replace the stored entry an arrangement was restored from (matched by its
+ * `ts`) with the patched arrangement. The entry keeps its savedAt and label
+ * and the note's other arrangements are left alone. The active bucket is
+ * searched first, then the others, since the cross-workspace selector can
+ * restore from any of them. Returns false when the entry is gone.
+ */
+export async function saveCorrectedArrangement(store: ContextStore, file: TFile, corrected: WindowArrangementV2): Promise<boolean> {
+	const active = store.getActiveWorkspace();
+	const workspaces = [active, ...(await store.workspacesWith(file)).filter(ws => ws !== active)];
+	for (const ws of workspaces) {
+		const entry = (await store.getAll(file, ws)).find(e => e.arrangement.ts === corrected.ts);
+		if (entry && await store.updateArrangement(file, entry.savedAt, corrected, ws)) return true;
+	}
+	return false;
+}
@@ -0,0 +1,127 @@
+// ============================================================================
+// Partial Restore
+// ----------------------------------------------------------------------------
+// Pure helpers for restoring only part of a saved arrangement. Tab groups are
+// addressed by a key made of the window index (-1 = main window, 0.. =
+// popouts) and the child-index path to the group inside that window's split
+// tree. selectFromArrangement prunes an arrangement down to the selected
+// groups; main.ts then applies the result like any other arrangement.
+// ============================================================================
+
+import { SplitState, WindowArrangementV2, WindowStateV2, WorkspaceNodeState } from '../types';
+
+/** Window index used for the main window in tab group keys. */
+export const MAIN_WINDOW_INDEX = -1;
+
+export interface PartialArrangement {
+	arrangement: WindowArrangementV2;
+	/** False when no main window group was selected — the main window is left as it is. */
+	includesMain: boolean;
+}
+
+/**
+ * Key of one tab group: `<window>:<path>`, e.g. `-1:` for a main window
+ * without splits or `0:1.0` for the first group of the second split child
+ * in the first popout.
+ */
+export function tabGroupKey(windowIndex: number, path: number[]): string {
+	return `${windowIndex}:${path.join('.')}`;
+}
+
+/** All tab group keys of one window, in depth-first order. */
+export function windowTabGroupKeys(windowIndex: number, node: WorkspaceNodeState, path: number[] = []): string[] {
+	if (node.type === 'tabs') return [tabGroupKey(windowIndex, path)];
+	return node.children.flatMap((child, i) => windowTabGroupKeys(windowIndex, child, [...path, i]));
+}
+
+/** All tab group keys of an arrangement, main window first. */
+export function arrangementTabGroupKeys(arr: WindowArrangementV2): string[] {
+	return [
+		...windowTabGroupKeys(MAIN_WINDOW_INDEX, arr.main.root),
+		...arr.popouts.flatMap((popout, i) => windowTabGroupKeys(i, popout.root)),
+	];
+}
+
+/**
+ * Rebuild a split from its pruned children (null = removed). A split left
+ * with one child collapses into that child; kept sizes are scaled back to
+ * the original total so the kept panes share the freed space.
+ *
+ * @returns The rebuilt node, or null if every child was removed
+ */
+export function pruneSplit(node: SplitState, children: (WorkspaceNodeState | null)[]): WorkspaceNodeState | null {
+	const kept: WorkspaceNodeState[] = [];
+	const sizes: number[] = [];
+	children.forEach((child, i) => {
+		if (!child) return;
+		kept.push(child);
+		if (node.sizes?.[i] !== undefined) sizes.push(node.sizes[i]);
+	});
+
+	if (kept.length === 0) return null;
+	if (kept.length === 1) return kept[0];
+	if (kept.length === node.children.length) return { ...node, children: kept };
+
+	let scaledSizes: number[] | undefined;
+	if (node.sizes && sizes.length === kept.length) {
+		const total = node.sizes.reduce((a, b) => a + b, 0);
+		const keptTotal = sizes.reduce((a, b) => a + b, 0);
+		scaledSizes = keptTotal > 0 ? sizes.map(s => s * total / keptTotal) : undefined;
+	}
+	return { ...node, children: kept, sizes: scaledSizes };
+}
+
+/**
+ * Drop unselected tab groups from a tree.
+ *
+ * @returns The pruned tree, or null if no group in it was selected
+ */
+function pruneNode(
+	node: WorkspaceNodeState,
+	windowIndex: number,
+	path: number[],
+	selected: ReadonlySet<string>
+): WorkspaceNodeState | null {
+	if (node.type === 'tabs') {
+		return selected.has(tabGroupKey(windowIndex, path)) ? node : null;
+	}
+	return pruneSplit(node, node.children.map((child, i) => pruneNode(child, windowIndex, [...path, i], selected)));
+}
+
+function pruneWindow(state: WindowStateV2, windowIndex: number, selected: ReadonlySet<string>): WindowStateV2 | null {
+	const root = pruneNode(state.root, windowIndex, [], selected);
+	return root ? { ...state, root } : null;
+}
+
+/**
+ * Reduce an arrangement to the selected tab groups. Windows without any
+ * selected group are dropped, and the focused window index is remapped to
+ * the kept popouts (falling back to the main window, or the first popout
+ * when the main window is not part of the selection).
+ *
+ * @returns The partial arrangement, or null if nothing was selected
+ */
+export function selectFromArrangement(arr: WindowArrangementV2, selected: ReadonlySet<string>): PartialArrangement | null {
+	const main = pruneWindow(arr.main, MAIN_WINDOW_INDEX, selected);
+
+	const popouts: WindowStateV2[] = [];
+	const popoutIndexMap = new Map<number, number>();
+	arr.popouts.forEach((popout, i) => {
+		const pruned = pruneWindow(popout, i, selected);
+		if (!pruned) return;
+		popoutIndexMap.set(i, popouts.length);
+		popouts.push(pruned);
+	});
+
+	if (!main && popouts.length === 0) return null;
+
+	let focusedWindow = arr.focusedWindow === MAIN_WINDOW_INDEX
+		? MAIN_WINDOW_INDEX
+		: popoutIndexMap.get(arr.focusedWindow) ?? MAIN_WINDOW_INDEX;
+	if (focusedWindow === MAIN_WINDOW_INDEX && !main) focusedWindow = 0;
+
+	return {
+		arrangement: { ...arr, main: main ?? arr.main, popouts, focusedWindow },
+		includesMain: !!main,
+	};
+}
@@ -0,0 +1,180 @@
+// ============================================================================
+// Restore Reconciliation
+// ----------------------------------------------------------------------------
+// Pure planning helpers for the incremental ("diff-apply") restore. They
+// compare a capture of the current workspace with the target arrangement
+// and decide which windows and tabs can be kept as they are, which must be
+// created and which closed.
+//
+// Nothing here touches Obsidian — main.ts maps the plans onto live leaves.
+// A window is only patched in place when its split tree has the same shape
+// as the target; anything else is rebuilt like a normal restore. Sidebars
+// are patched the same way, matching panels by view type only. Leaves can
+// move between the tab groups of patched windows, and out of popouts that
+// are about to close.
+// ============================================================================
+
+import { TabState, WorkspaceNodeState } from '../types';
+
+// JSON with object keys sorted, so equal states give equal strings
+function stableJson(value: unknown): string {
+	if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`;
+	if (typeof value === 'object' && value !== null) {
+		const entries = Object.keys(value).sort()
+			.filter(key => (value as Record<string, unknown>)[key] !== undefined)
+			.map(key => `${JSON.stringify(key)}:${stableJson((value as Record<string, unknown>)[key])}`);
+		return `{${entries.join(',')}}`;
+	}
+	return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Identity of a tab for matching: files by path, non-file views by type and
+ * state (two graph views with different filters are different tabs). Two
+ * tabs with the same key are interchangeable — the open leaf is kept.
+ */
+export function tabKey(tab: Pick<TabState, 'path' | 'viewType' | 'viewState'>): string {
+	return tab.viewType ? `view:${tab.viewType}:${stableJson(tab.viewState ?? {})}` : `file:${tab.path}`;
+}
+
+/**
+ * Identity of a sidebar tab: panels by view type alone, so an open file
+ * explorer, search or outline is kept with its expanded folders, query and
+ * scroll position rather than reopened; file tabs by path.
+ */
+export function sidebarTabKey(tab: Pick<TabState, 'path' | 'viewType'>): string {
+	return tab.viewType ? `view:${tab.viewType}` : `file:${tab.path}`;
+}
+
+/**
+ * True when both trees have the same split structure: same directions and
+ * child counts at every level. Tab contents and sizes are not compared.
+ */
+export function sameShape(a: WorkspaceNodeState, b: WorkspaceNodeState): boolean {
+	if (a.type !== b.type) return false;
+	if (a.type === 'tabs' || b.type === 'tabs') return true;
+	if (a.direction !== b.direction || a.children.length !== b.children.length) return false;
+	return a.children.every((child, i) => sameShape(child, b.children[i]));
+}
+
+/** All tab keys in a tree, in depth-first order. */
+export function collectTabKeys(node: WorkspaceNodeState, out: string[] = []): string[] {
+	if (node.type === 'tabs') {
+		for (const tab of node.tabs) out.push(tabKey(tab));
+	} else {
+		for (const child of node.children) collectTabKeys(child, out);
+	}
+	return out;
+}
+
+/**
+ * Pair target windows with current windows by how many tabs they share.
+ * Greedy: the best-overlapping pair is taken first. Windows sharing no
+ * tabs are never paired.
+ *
+ * @returns For each target index, the matched current index or null
+ */
+export function matchWindows(current: WorkspaceNodeState[], target: WorkspaceNodeState[]): (number | null)[] {
+	const currentKeys = current.map(node => new Set(collectTabKeys(node)));
+	const candidates: { t: number; c: number; score: number }[] = [];
+
+	target.forEach((node, t) => {
+		const keys = new Set(collectTabKeys(node));
+		currentKeys.forEach((ck, c) => {
+			let score = 0;
+			for (const key of keys) if (ck.has(key)) score++;
+			if (score > 0) candidates.push({ t, c, score });
+		});
+	});
+
+	candidates.sort((a, b) => b.score - a.score || a.t - b.t || a.c - b.c);
+
+	const result: (number | null)[] = target.map(() => null);
+	const usedCurrent = new Set<number>();
+	for (const { t, c } of candidates) {
+		if (result[t] !== null || usedCurrent.has(c)) continue;
+		result[t] = c;
+		usedCurrent.add(c);
+	}
+	return result;
+}
+
+export interface TabGroupPlan {
+	/** For each target tab, the index of the current tab to keep, or null to create it. */
+	sources: (number | null)[];
+	/** Current tab indices that have no place in the target and should be closed. */
+	close: number[];
+}
+
+/**
+ * Plan one tab group: reuse current tabs whose key appears in the target
+ * (first unused match wins, so duplicates pair up in order), create the
+ * rest, close what is left over.
+ */
+export function planTabGroup(currentKeys: string[], targetKeys: string[]): TabGroupPlan {
+	const used = new Set<number>();
+	const sources = targetKeys.map(key => {
+		const idx = currentKeys.findIndex((k, i) => k === key && !used.has(i));
+		if (idx < 0) return null;
+		used.add(idx);
+		return idx;
+	});
+	const close = currentKeys.map((_, i) => i).filter(i => !used.has(i));
+	return { sources, close };
+}
+
+/** A tab in the current workspace: its tab group and position in the group. */
+export interface TabRef {
+	group: number;
+	index: number;
+}
+
+export interface TabGroupsPlan {
+	/**
+	 * Per target group, for each target tab, the current tab to keep (moved
+	 * over if it sits in another group) or null to create it.
+	 */
+	sources: (TabRef | null)[][];
+	/** Current tabs of the patched groups that have no place in the target. */
+	close: TabRef[];
+}
+
+/**
+ * Plan several tab groups at once. `current[i]` is the group that
+ * `target[i]` is restored into; current groups past the targets (say, of
+ * popouts about to close) only give up tabs and are never closed here.
+ *
+ * A target tab keeps a matching tab of its own group first (as in
+ * planTabGroup) and otherwise takes one from another group, so a leaf that
+ * only changed group or window is moved rather than reopened.
+ */
+export function planTabGroups(current: string[][], target: string[][]): TabGroupsPlan {
+	const used = current.map(() => new Set<number>());
+	const sources: (TabRef | null)[][] = target.map((keys, group) => {
+		const plan = planTabGroup(current[group] ?? [], keys);
+		return plan.sources.map(index => {
+			if (index === null) return null;
+			used[group].add(index);
+			return { group, index };
+		});
+	});
+
+	target.forEach((keys, t) => keys.forEach((key, i) => {
+		if (sources[t][i]) return;
+		for (let group = 0; group < current.length; group++) {
+			const index = current[group].findIndex((k, j) => k === key && !used[group].has(j));
+			if (index < 0) continue;
+			used[group].add(index);
+			sources[t][i] = { group, index };
+			return;
+		}
+	}));
+
+	const close: TabRef[] = [];
+	for (let group = 0; group < Math.min(current.length, target.length); group++) {
+		current[group].forEach((_, index) => {
+			if (!used[group].has(index)) close.push({ group, index });
+		});
+	}
+	return { sources, close };
+}
@@ -0,0 +1,391 @@
+// ============================================================================
+// Store Migration
+// ----------------------------------------------------------------------------
+// Moves arrangements between any two storage modes (frontmatter, JSON files,
+// IndexedDB) in either direction, one note at a time through ContextStore.
+//
+//   planMigration      dry run: per note, what moves and what would be lost
+//   executeMigration   carries out a plan and writes a rollback manifest
+//   rollbackMigration  puts both stores back the way the manifest found them
+//
+// What can be lost follows from the target's capabilities: single-slot
+// stores keep only the newest arrangement, stores without labels drop
+// names/descriptions/tags, and stores without workspaces collapse every
+// selected workspace into one.
+//
+// Rollback manifests are JSON files in <perspectaFolder>/migrations/, next
+// to the backups, so they survive a plugin reinstall.
+// ============================================================================
+
+import { App, TFile } from 'obsidian';
+import { ConflictPolicy } from '../storage/external-store';
+import { ContextStore } from '../storage/context-store';
+import { DEFAULT_WORKSPACE_ID, StorageMode, TimestampedArrangement, WorkspaceId } from '../types';
+import { Logger } from '../utils/logger';
+import { hasLabel } from './labels';
+
+const CONTEXT_EXTENSIONS = ['md', 'canvas', 'base'];
+
+export interface StoreMigrationConfig {
+	app: App;
+	/** Store holding a file's arrangements in a storage mode. */
+	storeFor: (mode: StorageMode, file: TFile) => ContextStore;
+	maxArrangementsPerNote: number;
+	/** Vault-relative path to the perspecta folder (no trailing slash). */
+	perspectaFolderPath: string;
+}
+
+export interface MigrationOptions {
+	from: StorageMode;
+	to: StorageMode;
+	/** Source workspaces to migrate; ignored for stores without workspaces. */
+	workspaces: WorkspaceId[];
+	/** What to do when the target already has arrangements for a note. */
+	policy: ConflictPolicy;
+	/** Per-note policy by path, overriding `policy`. */
+	overrides?: Record<string, ConflictPolicy>;
+}
+
+/** Source workspaces that end up in one target workspace. */
+export interface MigrationGroup {
+	from: WorkspaceId[];
+	to: WorkspaceId;
+	/** Source arrangements, newest first. */
+	items: TimestampedArrangement[];
+	/** Target arrangements before the migration. */
+	existing: TimestampedArrangement[];
+	/** Left alone because the target has arrangements and the policy is skip. */
+	skipped: boolean;
+}
+
+export interface NoteMigrationPlan {
+	path: string;
+	policy: ConflictPolicy;
+	groups: MigrationGroup[];
+	/** Arrangements in the selected source workspaces. */
+	sourceCount: number;
+	/** Arrangements the target already has. */
+	targetCount: number;
+	/** Arrangements the target will have afterwards. */
+	resultCount: number;
+	/** Source arrangements that won't make it into the target. */
+	lost: number;
+	/** Target arrangements removed by overwrite or pushed out by newer ones. */
+	replaced: number;
+	/** Migrated arrangements whose name, description or tags are dropped. */
+	labelsLost: number;
+}
+
+export interface MigrationPlan {
+	from: StorageMode;
+	to: StorageMode;
+	notes: NoteMigrationPlan[];
+}
+
+export interface RollbackSlot {
+	workspaceId: WorkspaceId;
+	arrangements: TimestampedArrangement[];
+}
+
+export interface RollbackEntry {
+	path: string;
+	/** Source arrangements removed by the migration. */
+	source: RollbackSlot[];
+	/** Target arrangements before the migration (empty if there were none). */
+	target: RollbackSlot[];
+}
+
+export interface RollbackManifest {
+	version: 1;
+	createdAt: string;
+	from: StorageMode;
+	to: StorageMode;
+	entries: RollbackEntry[];
+}
+
+function getMigrationFolderPath(perspectaFolderPath: string): string {
+	return `${perspectaFolderPath.replace(/\/+$/, '')}/migrations`;
+}
+
+/** Union by savedAt, newest first. */
+function union(...lists: TimestampedArrangement[][]): TimestampedArrangement[] {
+	const bySavedAt = new Map<number, TimestampedArrangement>();
+	for (const list of lists) {
+		for (const item of list) {
+			if (!bySavedAt.has(item.savedAt)) bySavedAt.set(item.savedAt, item);
+		}
+	}
+	return Array.from(bySavedAt.values()).sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/** What a group leaves in the target, newest first. */
+function resultOf(group: MigrationGroup, policy: ConflictPolicy, capacity: number): TimestampedArrangement[] {
+	if (group.skipped) return group.existing;
+	const candidates = policy === 'overwrite' ? group.items : union(group.existing, group.items);
+	return candidates.slice(0, capacity);
+}
+
+async function planNote(
+	file: TFile,
+	source: ContextStore,
+	target: ContextStore,
+	options: MigrationOptions,
+	maxArrangementsPerNote: number
+): Promise<NoteMigrationPlan | null> {
+	const sourceWorkspaces = source.capabilities.workspaces
+		? (await source.workspacesWith(file)).filter(ws => options.workspaces.includes(ws))
+		: [DEFAULT_WORKSPACE_ID];
+
+	const groups = new Map<WorkspaceId, MigrationGroup>();
+	for (const ws of sourceWorkspaces) {
+		const items = await source.getAll(file, ws);
+		if (items.length === 0) continue;
+		const to = target.capabilities.workspaces ? ws : DEFAULT_WORKSPACE_ID;
+		const group = groups.get(to);
+		if (group) {
+			group.from.push(ws);
+			group.items = union(group.items, items);
+		} else {
+			groups.set(to, { from: [ws], to, items, existing: [], skipped: false });
+		}
+	}
+	if (groups.size === 0) return null;
+
+	const policy = options.overrides?.[file.path] ?? options.policy;
+	const capacity = target.capabilities.multiple ? Math.max(1, maxArrangementsPerNote) : 1;
+	const plan: NoteMigrationPlan = {
+		path: file.path, policy, groups: Array.from(groups.values()),
+		sourceCount: 0, targetCount: 0, resultCount: 0, lost: 0, replaced: 0, labelsLost: 0,
+	};
+
+	for (const group of plan.groups) {
+		group.existing = await target.getAll(file, group.to);
+		group.skipped = policy === 'skip' && group.existing.length > 0;
+
+		const result = resultOf(group, policy, capacity);
+		const kept = new Set(result.map(r => r.savedAt));
+		plan.sourceCount += group.items.length;
+		plan.targetCount += group.existing.length;
+		plan.resultCount += result.length;
+		if (group.skipped) continue;
+		plan.lost += group.items.filter(i => !kept.has(i.savedAt)).length;
+		plan.replaced += group.existing.filter(e => !kept.has(e.savedAt)).length;
+		if (!target.capabilities.labels) {
+			plan.labelsLost += group.items.filter(i => kept.has(i.savedAt) && hasLabel(i)).length;
+		}
+	}
+	return plan;
+}
+
+function contextFiles(app: App): TFile[] {
+	return app.vault.getFiles().filter(f => CONTEXT_EXTENSIONS.includes(f.extension));
+}
+
+/**
+ * Dry run: work out, note by note, what a migration would move, keep and
+ * lose. Nothing is written.
+ */
+export async function planMigration(
+	cfg: Pick<StoreMigrationConfig, 'app' | 'storeFor' | 'maxArrangementsPerNote'>,
+	options: MigrationOptions
+): Promise<MigrationPlan> {
+	const { app, storeFor, maxArrangementsPerNote } = cfg;
+	const notes: NoteMigrationPlan[] = [];
+
+	for (const file of contextFiles(app)) {
+		const source = storeFor(options.from, file);
+		const target = storeFor(options.to, file);
+		if (source === target) continue;
+		try {
+			const plan = await planNote(file, source, target, options, maxArrangementsPerNote);
+			if (plan) notes.push(plan);
+		} catch (e) {
+			Logger.error(`Failed to read arrangements of ${file.path}:`, e);
+		}
+	}
+
+	return { from: options.from, to: options.to, notes };
+}
+
+/**
+ * Migrate arrangements from one storage mode to another. The plan is worked
+ * out again first so it matches the stores as they are now. Migrated source
+ * arrangements are removed; skipped notes stay where they are.
+ *
+ * The rollback manifest is written before returning; its path is empty when
+ * nothing was migrated.
+ */
+export async function executeMigration(
+	cfg: StoreMigrationConfig,
+	options: MigrationOptions
+): Promise<{ migrated: number; skipped: number; errors: number; manifestPath: string }> {
+	const { app, storeFor, maxArrangementsPerNote } = cfg;
+	const plan = await planMigration(cfg, options);
+	const files = new Map(contextFiles(app).map(f => [f.path, f]));
+	const entries: RollbackEntry[] = [];
+	let migrated = 0;
+	let skipped = 0;
+	let errors = 0;
+
+	for (const note of plan.notes) {
+		const file = files.get(note.path);
+		const groups = note.groups.filter(g => !g.skipped);
+		if (!file || groups.length === 0) {
+			skipped++;
+			continue;
+		}
+
+		const source = storeFor(options.from, file);
+		const target = storeFor(options.to, file);
+		const entry: RollbackEntry = { path: note.path, source: [], target: [] };
+		try {
+			for (const group of groups) {
+				if (group.to !== DEFAULT_WORKSPACE_ID) {
+					const info = source.listWorkspaces().find(w => w.id === group.to);
+					await target.ensureWorkspace(info?.displayName ?? group.to, group.to);
+				}
+				entry.target.push({ workspaceId: group.to, arrangements: group.existing });
+				if (note.policy === 'overwrite') await target.delete(file, group.to);
+				await target.merge(file, group.items, maxArrangementsPerNote, group.to);
+			}
+			for (const group of groups) {
+				for (const ws of group.from) {
+					entry.source.push({ workspaceId: ws, arrangements: await source.getAll(file, ws) });
+					await source.delete(file, ws);
+				}
+			}
+			migrated++;
+		} catch (e) {
+			Logger.error(`Failed to migrate ${note.path}:`, e);
+			errors++;
+		}
+		// Partly migrated notes are recorded too, so rollback can undo them
+		if (entry.target.length > 0) entries.push(entry);
+	}
+
+	const manifestPath = entries.length > 0
+		? await saveRollbackManifest(cfg, { version: 1, createdAt: new Date().toISOString(), from: options.from, to: options.to, entries })
+		: '';
+	return { migrated, skipped, errors, manifestPath };
+}
+
+async function saveRollbackManifest(
+	cfg: Pick<StoreMigrationConfig, 'app' | 'perspectaFolderPath'>,
+	manifest: RollbackManifest
+): Promise<string> {
+	const { app, perspectaFolderPath } = cfg;
+	const folder = getMigrationFolderPath(perspectaFolderPath);
+	if (!(await app.vault.adapter.exists(folder))) {
+		await app.vault.createFolder(folder);
+	}
+	const timestamp = manifest.createdAt.replace(/[:.]/g, '-').slice(0, 19);
+	const path = `${folder}/migration-${timestamp}-${manifest.from}-to-${manifest.to}.json`;
+	await app.vault.adapter.write(path, JSON.stringify(manifest, null, 2));
+	return path;
+}
+
+function isRollbackManifest(data: unknown): data is RollbackManifest {
+	return typeof data === 'object' && data !== null
+		&& (data as RollbackManifest).version === 1 && Array.isArray((data as RollbackManifest).entries);
+}
+
+/**
+ * List rollback manifests, newest first.
+ */
+export async function listRollbackManifests(
+	cfg: Pick<StoreMigrationConfig, 'app' | 'perspectaFolderPath'>
+): Promise<{ name: string; path: string; manifest: RollbackManifest }[]> {
+	const { app, perspectaFolderPath } = cfg;
+	const folder = getMigrationFolderPath(perspectaFolderPath);
+	if (!(await app.vault.adapter.exists(folder))) return [];
+
+	const manifests: { name: string; path: string; manifest: RollbackManifest }[] = [];
+	for (const path of (await app.vault.adapter.list(folder)).files) {
+		if (!path.endsWith('.json')) continue;
+		try {
+			const data: unknown = JSON.parse(await app.vault.adapter.read(path));
+			if (isRollbackManifest(data)) {
+				manifests.push({ name: path.split('/').pop() || path, path, manifest: data });
+			}
+		} catch (e) {
+			Logger.warn(`Skipping unreadable migration manifest ${path}:`, e);
+		}
+	}
+
+	manifests.sort((a, b) => b.manifest.createdAt.localeCompare(a.manifest.createdAt));
+	return manifests;
+}
+
+/**
+ * Undo a migration: the migrated arrangements leave the target and the
+ * source gets them back; the target gets back what it had before, next to
+ * anything saved in it since the migration. Arrangements saved since are
+ * kept wherever the store has room for them. The manifest is deleted once
+ * every note was rolled back.
+ */
+export async function rollbackMigration(
+	cfg: StoreMigrationConfig,
+	manifestPath: string
+): Promise<{ restored: number; missing: number; errors: number; manifest: RollbackManifest | null }> {
+	const { app, storeFor, maxArrangementsPerNote } = cfg;
+
+	let manifest: unknown;
+	try {
+		manifest = JSON.parse(await app.vault.adapter.read(manifestPath));
+	} catch (e) {
+		Logger.error('Failed to read migration manifest:', e);
+		return { restored: 0, missing: 0, errors: 1, manifest: null };
+	}
+	if (!isRollbackManifest(manifest)) {
+		return { restored: 0, missing: 0, errors: 1, manifest: null };
+	}
+
+	const files = new Map(contextFiles(app).map(f => [f.path, f]));
+	let restored = 0;
+	let missing = 0;
+	let errors = 0;
+
+	for (const entry of manifest.entries) {
+		const file = files.get(entry.path);
+		if (!file) {
+			Logger.warn(`Migrated note no longer exists: ${entry.path}`);
+			missing++;
+			continue;
+		}
+		const source = storeFor(manifest.from, file);
+		const target = storeFor(manifest.to, file);
+		try {
+			const migrated = new Set(entry.source.flatMap(slot => slot.arrangements.map(a => a.savedAt)));
+			for (const slot of entry.target) {
+				const before = new Set(slot.arrangements.map(a => a.savedAt));
+				let current = await target.getAll(file, slot.workspaceId);
+				for (const item of current) {
+					if (migrated.has(item.savedAt) && !before.has(item.savedAt)) {
+						await target.deleteArrangement(file, item.savedAt, slot.workspaceId);
+					}
+				}
+				current = await target.getAll(file, slot.workspaceId);
+				const room = Math.max(maxArrangementsPerNote, current.length + slot.arrangements.length);
+				await target.merge(file, slot.arrangements, room, slot.workspaceId);
+			}
+			for (const slot of entry.source) {
+				const current = await source.getAll(file, slot.workspaceId);
+				const room = Math.max(maxArrangementsPerNote, current.length + slot.arrangements.length);
+				await source.merge(file, slot.arrangements, room, slot.workspaceId);
+			}
+			restored++;
+		} catch (e) {
+			Logger.error(`Failed to roll back ${entry.path}:`, e);
+			errors++;
+		}
+	}
+
+	if (errors === 0) {
+		try {
+			await app.vault.adapter.remove(manifestPath);
+		} catch (e) {
+			Logger.warn('Could not remove migration manifest:', e);
+		}
+	}
+	return { restored, missing, errors, manifest };
+}
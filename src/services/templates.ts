@@ -0,0 +1,150 @@
+// ============================================================================
+// Layout Templates
+// ----------------------------------------------------------------------------
+// A template is a saved arrangement whose tabs are abstracted into slots, so
+// the same shape (editor left, two references right, outline popout) can be
+// reapplied to any note. Slots are listed in tab order: depth-first through
+// the main window, then each popout. Linked-note and backlink slots are
+// numbered per kind, so the first linked slot gets the note's first link.
+//
+// createTemplateSlots infers slots from a captured layout,
+// toTemplateArrangement strips the file-specific tab state, and fillTemplate
+// turns a template back into a normal arrangement for a given note. Slots
+// that can't be filled (no second backlink, ...) become empty tabs so the
+// layout keeps its shape.
+// ============================================================================
+
+import { TabState, WindowArrangementV2, WindowStateV2, WorkspaceNodeState } from '../types';
+
+export type TemplateSlot =
+	| { kind: 'active' }
+	| { kind: 'linked'; index: number }
+	| { kind: 'backlink'; index: number }
+	| { kind: 'file'; path: string }
+	| { kind: 'empty' }
+	/** Non-file view, kept as saved; followsActive re-links it (e.g. outline) to the note. */
+	| { kind: 'view'; followsActive?: boolean };
+
+export type TemplateSlotKind = TemplateSlot['kind'];
+
+export interface LayoutTemplate {
+	id: string;
+	name: string;
+	savedAt: number;
+	/** Arrangement with file tabs stripped to their layout state. */
+	arrangement: WindowArrangementV2;
+	/** One slot per tab, in tab order. */
+	slots: TemplateSlot[];
+}
+
+/** The note a template is applied to (or captured from), with its links. */
+export interface TemplateContext {
+	activePath: string;
+	/** Outgoing links, in document order. */
+	linkedPaths: string[];
+	backlinkPaths: string[];
+}
+
+/** All tabs of an arrangement in slot order. */
+export function templateTabs(arr: WindowArrangementV2): TabState[] {
+	const tabs: TabState[] = [];
+	const walk = (node: WorkspaceNodeState): void => {
+		if (node.type === 'tabs') tabs.push(...node.tabs);
+		else node.children.forEach(walk);
+	};
+	walk(arr.main.root);
+	arr.popouts.forEach(p => walk(p.root));
+	return tabs;
+}
+
+/** Rebuild an arrangement with every tab replaced, in slot order. */
+function mapTabs(arr: WindowArrangementV2, fn: (tab: TabState, index: number) => TabState): WindowArrangementV2 {
+	let index = 0;
+	const mapNode = (node: WorkspaceNodeState): WorkspaceNodeState => node.type === 'tabs'
+		? { ...node, tabs: node.tabs.map(tab => fn(tab, index++)) }
+		: { ...node, children: node.children.map(mapNode) };
+	const mapWindow = (win: WindowStateV2): WindowStateV2 => ({ ...win, root: mapNode(win.root) });
+	const main = mapWindow(arr.main);
+	return { ...arr, main, popouts: arr.popouts.map(mapWindow) };
+}
+
+/** Renumber linked/backlink slots so each kind counts up from 0 in tab order. */
+export function renumberSlots(slots: TemplateSlot[]): TemplateSlot[] {
+	let linked = 0;
+	let backlinks = 0;
+	return slots.map(slot => {
+		if (slot.kind === 'linked') return { kind: 'linked', index: linked++ };
+		if (slot.kind === 'backlink') return { kind: 'backlink', index: backlinks++ };
+		return slot;
+	});
+}
+
+/**
+ * Guess a slot for every tab of a captured layout: the note itself, one of
+ * its links or backlinks, a non-file view, or otherwise a fixed file.
+ */
+export function createTemplateSlots(arr: WindowArrangementV2, ctx: TemplateContext): TemplateSlot[] {
+	const slots = templateTabs(arr).map((tab): TemplateSlot => {
+		if (tab.viewType) {
+			if (tab.viewType === 'empty') return { kind: 'empty' };
+			return { kind: 'view', followsActive: !!ctx.activePath && tab.viewState?.file === ctx.activePath };
+		}
+		if (!tab.path) return { kind: 'empty' };
+		if (tab.path === ctx.activePath) return { kind: 'active' };
+		if (ctx.linkedPaths.includes(tab.path)) return { kind: 'linked', index: 0 };
+		if (ctx.backlinkPaths.includes(tab.path)) return { kind: 'backlink', index: 0 };
+		return { kind: 'file', path: tab.path };
+	});
+	return renumberSlots(slots);
+}
+
+/** Keep only the layout state of a file tab (no path, scroll or selections). */
+function layoutOnly(tab: TabState): TabState {
+	const stripped: TabState = { path: '', active: tab.active };
+	if (tab.pinned) stripped.pinned = true;
+	if (tab.group) stripped.group = tab.group;
+	if (tab.viewMode) stripped.viewMode = tab.viewMode;
+	return stripped;
+}
+
+/** Strip file-specific state from an arrangement's tabs; views are kept as saved. */
+export function toTemplateArrangement(arr: WindowArrangementV2): WindowArrangementV2 {
+	const template = mapTabs(arr, tab => tab.viewType ? tab : layoutOnly(tab));
+	delete template.wallpaper;
+	return template;
+}
+
+function fileName(path: string): string {
+	return (path.split('/').pop() ?? path).replace(/\.[^.]+$/, '');
+}
+
+function slotPath(slot: TemplateSlot | undefined, ctx: TemplateContext): string | undefined {
+	switch (slot?.kind) {
+		case 'active': return ctx.activePath || undefined;
+		case 'linked': return ctx.linkedPaths[slot.index];
+		case 'backlink': return ctx.backlinkPaths[slot.index];
+		case 'file': return slot.path;
+		default: return undefined;
+	}
+}
+
+/** Turn a template into an arrangement for the given note. */
+export function fillTemplate(template: LayoutTemplate, ctx: TemplateContext): WindowArrangementV2 {
+	const filled = mapTabs(template.arrangement, (tab, i) => {
+		const slot = template.slots[i];
+		if (tab.viewType) {
+			if (slot?.kind === 'view' && slot.followsActive && ctx.activePath) {
+				return { ...tab, viewState: { ...tab.viewState, file: ctx.activePath } };
+			}
+			return tab;
+		}
+		const path = slotPath(slot, ctx);
+		if (!path) {
+			const empty: TabState = { path: '', active: tab.active, viewType: 'empty' };
+			if (tab.pinned) empty.pinned = true;
+			return empty;
+		}
+		return { ...tab, path, name: fileName(path) };
+	});
+	return { ...filled, ts: Date.now() };
+}
@@ -7,12 +7,18 @@
 // ============================================================================
 
 import {
+	ArrangementLabel,
 	CompactArrangement,
 	CompactNode,
+	CompactSidebar,
 	CompactSplit,
 	CompactTab,
+	CompactTabExtras,
+	CompactViewTab,
 	CompactWindow,
 	FRONTMATTER_KEY,
+	MarkdownViewMode,
+	SidebarState,
 	SplitState,
 	TabState,
 	WindowArrangementV2,
@@ -23,10 +29,11 @@ import { decodeBase64, encodeBase64 } from '../utils/base64';
 import { Logger } from '../utils/logger';
 
 /**
- * Encode an arrangement as a frontmatter line: `perspecta-arrangement: "<base64>"`.
+ * Encode an arrangement (and its optional label) as a frontmatter line:
+ * `perspecta-arrangement: "<base64>"`.
  */
-export function encodeArrangement(arr: WindowArrangementV2): string {
-	const compact = createCompactArrangement(arr);
+export function encodeArrangement(arr: WindowArrangementV2, label?: ArrangementLabel): string {
+	const compact = createCompactArrangement(arr, label);
 	const json = JSON.stringify(compact);
 	const base64 = encodeBase64(json);
 	return `${FRONTMATTER_KEY}: "${base64}"`;
@@ -46,11 +53,24 @@ export function decodeArrangement(encoded: string): WindowArrangementV2 | null {
 	}
 }
 
+/**
+ * Decode just the label from a base64 blob. Returns an empty label on parse
+ * error or when the blob has none.
+ */
+export function decodeArrangementLabel(encoded: string): ArrangementLabel {
+	try {
+		const compact = JSON.parse(decodeBase64(encoded)) as CompactArrangement;
+		return expandCompactLabel(compact);
+	} catch {
+		return {};
+	}
+}
+
 // ---------------------------------------------------------------------------
 // Compaction
 // ---------------------------------------------------------------------------
 
-export function createCompactArrangement(arr: WindowArrangementV2): CompactArrangement {
+export function createCompactArrangement(arr: WindowArrangementV2, label?: ArrangementLabel): CompactArrangement {
 	const compact: CompactArrangement = {
 		v: arr.v,
 		ts: arr.ts,
@@ -63,13 +83,11 @@ export function createCompactArrangement(arr: WindowArrangementV2): CompactArran
 	}
 
 	if (arr.leftSidebar) {
-		compact.ls = { c: arr.leftSidebar.collapsed };
-		if (arr.leftSidebar.activeTab) compact.ls.t = arr.leftSidebar.activeTab;
+		compact.ls = compactSidebar(arr.leftSidebar);
 	}
 
 	if (arr.rightSidebar) {
-		compact.rs = { c: arr.rightSidebar.collapsed };
-		if (arr.rightSidebar.activeTab) compact.rs.t = arr.rightSidebar.activeTab;
+		compact.rs = compactSidebar(arr.rightSidebar);
 	}
 
 	if (arr.sourceScreen) {
@@ -81,6 +99,18 @@ export function createCompactArrangement(arr: WindowArrangementV2): CompactArran
 		compact.wp = arr.wallpaper;
 	}
 
+	if (label?.name) compact.n = label.name;
+	if (label?.description) compact.d = label.description;
+	if (label?.tags?.length) compact.tg = label.tags;
+
+	return compact;
+}
+
+function compactSidebar(sidebar: SidebarState): CompactSidebar {
+	const compact: CompactSidebar = { c: sidebar.collapsed };
+	if (sidebar.activeTab) compact.t = sidebar.activeTab;
+	if (sidebar.root) compact.r = compactNode(sidebar.root);
+	if (sidebar.width) compact.w = sidebar.width;
 	return compact;
 }
 
@@ -99,6 +129,21 @@ function compactWindow(win: WindowStateV2): CompactWindow {
 function compactNode(node: WorkspaceNodeState): CompactNode {
 	if (node.type === 'tabs') {
 		return node.tabs.map((tab): CompactTab => {
+			if (tab.viewType) {
+				// Non-file view: object form, distinguishable from string/array tabs
+				const viewTab: CompactViewTab = { t: tab.viewType };
+				if (tab.viewState && Object.keys(tab.viewState).length > 0) viewTab.s = tab.viewState;
+				if (tab.name) viewTab.n = tab.name;
+				if (tab.active) viewTab.a = 1;
+				if (tab.pinned) viewTab.p = 1;
+				if (tab.group) viewTab.g = tab.group;
+				return viewTab;
+			}
+			const extras = compactTabExtras(tab);
+			if (extras) {
+				// Extras at index 3 → active slot is always written
+				return [tab.path, tab.uid ?? null, tab.active ? 1 : 0, extras];
+			}
 			if (tab.active) {
 				// Active marker at index 2 → uid (or null placeholder) at index 1
 				return [tab.path, tab.uid ?? null, 1];
@@ -122,6 +167,23 @@ function compactNode(node: WorkspaceNodeState): CompactNode {
 	return split;
 }
 
+const VIEW_MODE_TO_COMPACT: Record<MarkdownViewMode, 's' | 'l' | 'r'> = { source: 's', live: 'l', reading: 'r' };
+const COMPACT_TO_VIEW_MODE: Record<string, MarkdownViewMode> = { s: 'source', l: 'live', r: 'reading' };
+
+function compactTabExtras(tab: TabState): CompactTabExtras | null {
+	const extras: CompactTabExtras = {};
+	if (tab.viewMode) extras.m = VIEW_MODE_TO_COMPACT[tab.viewMode];
+	if (tab.selections?.length) {
+		extras.c = tab.selections.map(sel => [sel.anchor.line, sel.anchor.ch, sel.head.line, sel.head.ch]);
+	}
+	if (tab.folds?.length) {
+		extras.fo = tab.folds.map(fold => [fold.from, fold.to]);
+	}
+	if (tab.pinned) extras.p = 1;
+	if (tab.group) extras.g = tab.group;
+	return Object.keys(extras).length > 0 ? extras : null;
+}
+
 // ---------------------------------------------------------------------------
 // Expansion
 // ---------------------------------------------------------------------------
@@ -136,11 +198,11 @@ export function expandCompactArrangement(compact: CompactArrangement): WindowArr
 	};
 
 	if (compact.ls) {
-		arr.leftSidebar = { collapsed: compact.ls.c, activeTab: compact.ls.t };
+		arr.leftSidebar = expandSidebar(compact.ls);
 	}
 
 	if (compact.rs) {
-		arr.rightSidebar = { collapsed: compact.rs.c, activeTab: compact.rs.t };
+		arr.rightSidebar = expandSidebar(compact.rs);
 	}
 
 	if (compact.ar) {
@@ -159,6 +221,21 @@ export function expandCompactArrangement(compact: CompactArrangement): WindowArr
 	return arr;
 }
 
+export function expandCompactLabel(compact: CompactArrangement): ArrangementLabel {
+	const label: ArrangementLabel = {};
+	if (compact.n) label.name = compact.n;
+	if (compact.d) label.description = compact.d;
+	if (compact.tg?.length) label.tags = compact.tg;
+	return label;
+}
+
+function expandSidebar(compact: CompactSidebar): SidebarState {
+	const sidebar: SidebarState = { collapsed: compact.c, activeTab: compact.t };
+	if (compact.r) sidebar.root = expandNode(compact.r);
+	if (compact.w) sidebar.width = compact.w;
+	return sidebar;
+}
+
 function expandWindow(compact: CompactWindow): WindowStateV2 {
 	const win: WindowStateV2 = {
 		root: expandNode(compact.r),
@@ -180,11 +257,31 @@ function expandNode(compact: CompactNode): WorkspaceNodeState {
 			if (typeof item === 'string') {
 				return { path: item, active: false, name: item.split('/').pop()?.replace(/\.md$/, '') };
 			}
-			// [path, uid|null, active?]
+			if (!Array.isArray(item)) {
+				// { t, s?, n?, a? } — non-file view
+				const tab: TabState = { path: '', active: item.a === 1, viewType: item.t };
+				if (item.s) tab.viewState = item.s;
+				if (item.n) tab.name = item.n;
+				if (item.p === 1) tab.pinned = true;
+				if (item.g) tab.group = item.g;
+				return tab;
+			}
+			// [path, uid|null, active?, extras?]
 			const path = item[0];
 			const uid = item[1] || undefined;
 			const active = item[2] === 1;
-			return { path, uid, active, name: path.split('/').pop()?.replace(/\.md$/, '') };
+			const tab: TabState = { path, uid, active, name: path.split('/').pop()?.replace(/\.md$/, '') };
+			const extras = item[3];
+			if (extras?.m && COMPACT_TO_VIEW_MODE[extras.m]) tab.viewMode = COMPACT_TO_VIEW_MODE[extras.m];
+			if (extras?.c?.length) {
+				tab.selections = extras.c.map(([al, ac, hl, hc]) => ({ anchor: { line: al, ch: ac }, head: { line: hl, ch: hc } }));
+			}
+			if (extras?.fo?.length) {
+				tab.folds = extras.fo.map(([from, to]) => ({ from, to }));
+			}
+			if (extras?.p === 1) tab.pinned = true;
+			if (extras?.g) tab.group = extras.g;
+			return tab;
 		});
 		return { type: 'tabs', tabs };
 	}
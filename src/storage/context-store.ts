@@ -0,0 +1,105 @@
+// ============================================================================
+// Context Store Interface
+// ----------------------------------------------------------------------------
+// The common surface of every place an arrangement can be kept:
+//
+//   InlineContextStore      note frontmatter, canvas JSON, base YAML
+//   JsonFileContextStore    JSON files in the plugin folder (external mode)
+//   IndexedDbContextStore   browser database, no files at all
+//
+// Stores are addressed by file. UID-keyed stores resolve the file's
+// perspecta-uid through a UidResolver supplied by the plugin. Stores without
+// workspace buckets report a single Default workspace that is always
+// active, so callers can treat every store alike.
+// ============================================================================
+
+import { TFile } from 'obsidian';
+import { ArrangementLabel, TimestampedArrangement, WindowArrangement, WindowArrangementV2, WorkspaceId, WorkspaceInfo } from '../types';
+import { searchLabels } from '../services/labels';
+
+export interface ContextStoreCapabilities {
+	/** Keeps several arrangements per note (up to maxArrangementsPerNote). */
+	multiple: boolean;
+	/** Keeps a name, description and tags with each arrangement. */
+	labels: boolean;
+	/** Keeps arrangements in per-workspace buckets. */
+	workspaces: boolean;
+}
+
+/** Finds, and on save creates, the perspecta-uid of a file. */
+export interface UidResolver {
+	get(file: TFile): Promise<string | undefined>;
+	ensure(file: TFile): Promise<string>;
+}
+
+/** What lists of context notes show before any arrangement is loaded. */
+export interface ContextSummary {
+	count: number;
+	/** savedAt of the newest arrangement. */
+	latestSavedAt: number;
+	/** Names and `#tags` of the arrangements. */
+	labels: string[];
+}
+
+/** Summary of arrangements already loaded; null if there are none. */
+export function summarizeArrangements(arrangements: TimestampedArrangement[]): ContextSummary | null {
+	if (arrangements.length === 0) return null;
+	return {
+		count: arrangements.length,
+		latestSavedAt: Math.max(...arrangements.map(a => a.savedAt)),
+		labels: searchLabels(arrangements),
+	};
+}
+
+export interface ContextStore {
+	readonly capabilities: ContextStoreCapabilities;
+
+	/** Arrangements of a note, newest first. */
+	getAll(file: TFile, workspaceId?: WorkspaceId): Promise<TimestampedArrangement[]>;
+	getLatest(file: TFile, workspaceId?: WorkspaceId): Promise<WindowArrangement | null>;
+	has(file: TFile, workspaceId?: WorkspaceId): Promise<boolean>;
+	/**
+	 * Count, date and labels of a note's arrangements, or null if it has
+	 * none. Stores with an index answer without loading the arrangements.
+	 */
+	summarize(file: TFile, workspaceId?: WorkspaceId): Promise<ContextSummary | null>;
+	/**
+	 * Add an arrangement to the active workspace, dropping the oldest beyond
+	 * maxArrangements. Single-slot stores replace what they have.
+	 */
+	set(file: TFile, arrangement: WindowArrangementV2, label: ArrangementLabel, maxArrangements: number): Promise<void>;
+	/**
+	 * Add arrangements keeping their savedAt, e.g. when moving them between
+	 * stores. Entries with a savedAt already present are skipped; the oldest
+	 * are dropped beyond maxArrangements. Single-slot stores keep the newest.
+	 *
+	 * @returns Number of arrangements added
+	 */
+	merge(file: TFile, items: TimestampedArrangement[], maxArrangements: number, workspaceId?: WorkspaceId): Promise<number>;
+	/**
+	 * Replace the layout of one arrangement in place, keeping its savedAt and
+	 * label. Other arrangements are left alone.
+	 *
+	 * @returns False if the note has no arrangement with this savedAt
+	 */
+	updateArrangement(file: TFile, savedAt: number, arrangement: WindowArrangementV2, workspaceId?: WorkspaceId): Promise<boolean>;
+	/** Replace the label of one arrangement; missing fields are cleared. */
+	updateLabel(file: TFile, savedAt: number, label: ArrangementLabel, workspaceId?: WorkspaceId): Promise<void>;
+	deleteArrangement(file: TFile, savedAt: number, workspaceId?: WorkspaceId): Promise<void>;
+	/** Remove all arrangements of a note. */
+	delete(file: TFile, workspaceId?: WorkspaceId): Promise<void>;
+	/** Keys of the notes with arrangements: UIDs, or paths for inline stores. */
+	list(workspaceId?: WorkspaceId): Promise<string[]>;
+
+	getActiveWorkspace(): WorkspaceId;
+	setActiveWorkspace(workspaceId: WorkspaceId): void;
+	listWorkspaces(): WorkspaceInfo[];
+	/**
+	 * Create a workspace bucket if the store doesn't have it yet.
+	 *
+	 * @returns True if a bucket was created
+	 */
+	ensureWorkspace(displayName: string, workspaceId: WorkspaceId): Promise<boolean>;
+	/** Workspaces holding arrangements for a note. */
+	workspacesWith(file: TFile): Promise<WorkspaceId[]>;
+}
@@ -6,16 +6,42 @@
 //
 //   <plugin-dir>/contexts/_workspaces.json     (manifest)
 //   <plugin-dir>/contexts/<workspace-id>/<uid>.json
+//   <plugin-dir>/contexts/<workspace-id>/_index.json
 //   <vault>/perspecta/workspaces/<workspace-id>/<uid>.json   (shared buckets)
 //
 // The `default` bucket is always present, never shareable, and used when no
 // Obsidian workspace is active.
+//
+// Only the per-bucket index (uid → count, latest savedAt, labels, path hint)
+// is read at startup; collections are read on first access. Membership queries
+// (has, getCount, workspacesWithUid, ...) answer from the index and stay
+// synchronous, everything that needs arrangements is async. The in-memory
+// index follows every change; flushDirty writes it after the collections.
+// UID files not in the index (first run, or synced in while Obsidian was
+// closed) are read and indexed at startup; entries whose file is gone are
+// dropped. A stale count or date corrects itself when the collection is
+// next read.
+//
+// Files are written atomically and carry a checksum (see integrity.ts).
+// Files that can't be read back are moved out of the way instead of being
+// skipped on every load:
+//
+//   <plugin-dir>/corrupt/<workspace-id>/<uid>.<timestamp>.json
+//
+// Conflict copies made by sync tools (see sync-conflicts.ts) are merged into
+// their original by savedAt on load and then deleted.
+//
+// Bucket files changed on disk by someone else (sync, a text editor) are
+// reloaded via handleFileChange. The store remembers a checksum of what it
+// last read or wrote per file, so its own writes are ignored and a file
+// changed since then is merged rather than overwritten on the next flush.
 // ============================================================================
 
 import { App, DataAdapter, PluginManifest } from 'obsidian';
 import {
 	WindowArrangementV2,
 	ArrangementCollection,
+	ArrangementLabel,
 	TimestampedArrangement,
 	WorkspaceId,
 	WorkspaceInfo,
@@ -27,15 +53,57 @@ import { PerfTimer } from '../utils/perf-timer';
 import { TIMING } from '../utils/constants';
 import { debounceAsync } from '../utils/async-utils';
 import { Logger } from '../utils/logger';
+import { checksum, openSealedJson, recoverTempFile, sealJson, TEMP_SUFFIX, writeAtomic } from './integrity';
+import { conflictCopyUid } from './sync-conflicts';
+import { ContextSummary } from './context-store';
+import { searchLabels } from '../services/labels';
 
 const CONTEXTS_FOLDER = 'contexts';
+const CORRUPT_FOLDER = 'corrupt';
 const MANIFEST_FILENAME = '_workspaces.json';
+const INDEX_FILENAME = '_index.json';
 
 export interface ExternalStoreConfig {
 	app: App;
 	manifest: PluginManifest;
 	/** Vault-relative folder for shared workspace buckets (no trailing slash). */
 	sharedLocation?: string;
+	/** Called after initialization if any files had to be quarantined. */
+	onQuarantine?: (files: QuarantinedFile[]) => void;
+	/** Called after initialization if sync conflict copies were merged. */
+	onSyncConflicts?: (merges: SyncConflictMerge[]) => void;
+	/** Called after collections were reloaded or merged because their files changed on disk. */
+	onExternalChange?: (changes: ExternalChange[]) => void;
+}
+
+/** A collection whose file was changed on disk by something other than this store. */
+export interface ExternalChange {
+	workspaceId: WorkspaceId;
+	uid: string;
+	/**
+	 * True if the store had unsaved changes for the UID (or was about to
+	 * overwrite the file); both versions were merged by savedAt.
+	 */
+	conflict: boolean;
+}
+
+/** Sync conflict copies of one context that were merged into it. */
+export interface SyncConflictMerge {
+	workspaceId: WorkspaceId;
+	uid: string;
+	/** Paths of the merged conflict copies (deleted once the merge is saved). */
+	copies: string[];
+	/** Arrangements that only existed in the copies. */
+	added: number;
+}
+
+/** A store file that couldn't be read and was moved to the corrupt folder. */
+export interface QuarantinedFile {
+	workspaceId: WorkspaceId;
+	/** UID of the collection, or null for the workspace manifest. */
+	uid: string | null;
+	/** Where the file lives now. */
+	path: string;
 }
 
 export type ConflictPolicy = 'merge' | 'overwrite' | 'skip';
@@ -46,10 +114,42 @@ export interface CopyResult {
 	overwritten: number;
 }
 
+/** Index entry for one UID in a bucket. Short keys: there is one per context. */
+interface BucketIndexEntry {
+	/** Number of arrangements. */
+	n: number;
+	/** Latest savedAt. */
+	ts: number;
+	/** Names and `#tags` of the arrangements, for search and filtering. */
+	l: string[];
+	/**
+	 * Last known path of the file owning the UID, for canvas and base files
+	 * whose UID can only be found by reading them. A hint, not a guarantee.
+	 */
+	p?: string;
+}
+
+interface BucketIndexFile {
+	v: 1;
+	entries: Record<string, BucketIndexEntry>;
+}
+
+function isBucketIndexFile(data: unknown): data is BucketIndexFile {
+	return typeof data === 'object' && data !== null && (data as BucketIndexFile).v === 1
+		&& typeof (data as BucketIndexFile).entries === 'object' && (data as BucketIndexFile).entries !== null;
+}
+
 function isArrangementCollection(data: unknown): data is ArrangementCollection {
 	return typeof data === 'object' && data !== null && 'arrangements' in data && Array.isArray((data as ArrangementCollection).arrangements);
 }
 
+/** A collection, or a legacy single arrangement (migrated on load). */
+function isLoadableContext(data: unknown): boolean {
+	if (isArrangementCollection(data)) return true;
+	const legacy = data as Partial<WindowArrangementV2> | null;
+	return typeof legacy === 'object' && legacy !== null && typeof legacy.main === 'object';
+}
+
 function isWorkspaceManifest(data: unknown): data is WorkspaceManifest {
 	return typeof data === 'object' && data !== null && (data as WorkspaceManifest).v === 1 && typeof (data as WorkspaceManifest).workspaces === 'object';
 }
@@ -73,8 +173,12 @@ export class ExternalContextStore {
 	private manifest: PluginManifest;
 	private sharedLocation: string;
 
-	// Workspace-keyed cache: workspaceId → uid → collection.
+	// Loaded collections: workspaceId → uid → collection (filled lazily).
 	private cache: Map<WorkspaceId, Map<string, ArrangementCollection>> = new Map();
+	// Bucket index: workspaceId → uid → entry, for every UID with arrangements.
+	private index: Map<WorkspaceId, Map<string, BucketIndexEntry>> = new Map();
+	// Buckets whose index file needs rewriting.
+	private indexDirty: Set<WorkspaceId> = new Set();
 	// Workspace-keyed dirty set: workspaceId → set of uids needing flush.
 	private dirty: Map<WorkspaceId, Set<string>> = new Map();
 	// Workspace manifest.
@@ -86,15 +190,33 @@ export class ExternalContextStore {
 	private saveTimeoutCleanup: (() => void) | null = null;
 	private initialized = false;
 	private debouncedFlush: () => Promise<void>;
+	private onQuarantine?: (files: QuarantinedFile[]) => void;
+	// Quarantined files not yet reported via onQuarantine.
+	private quarantinedPending: QuarantinedFile[] = [];
+	private onSyncConflicts?: (merges: SyncConflictMerge[]) => void;
+	// Conflict copies merged during the current initialization.
+	private conflictsOnLoad: SyncConflictMerge[] = [];
+	private onExternalChange?: (changes: ExternalChange[]) => void;
+	// File path → checksum of the content last read or written by this store.
+	private knownContent = new Map<string, string>();
+	// Paths reported by handleFileChange, processed after a short debounce.
+	private pendingChanges = new Set<string>();
+	private debouncedReload: () => Promise<void>;
 
 	constructor(config: ExternalStoreConfig) {
 		this.app = config.app;
 		this.manifest = config.manifest;
 		this.sharedLocation = (config.sharedLocation ?? 'perspecta/workspaces').replace(/\/+$/, '');
+		this.onQuarantine = config.onQuarantine;
+		this.onSyncConflicts = config.onSyncConflicts;
+		this.onExternalChange = config.onExternalChange;
 
 		this.debouncedFlush = debounceAsync(async () => {
 			await this.flushDirty();
 		}, TIMING.EXTERNAL_STORE_DEBOUNCE);
+		this.debouncedReload = debounceAsync(async () => {
+			await this.reloadChangedFiles();
+		}, TIMING.EXTERNAL_STORE_RELOAD_DEBOUNCE);
 	}
 
 	private get adapter(): DataAdapter {
@@ -110,6 +232,10 @@ export class ExternalContextStore {
 		return `${this.getContextsBasePath()}/${MANIFEST_FILENAME}`;
 	}
 
+	private getCorruptBasePath(): string {
+		return `${this.manifest.dir}/${CORRUPT_FOLDER}`;
+	}
+
 	/** Folder for a specific workspace bucket — plugin-dir or shared. */
 	private getWorkspaceFolder(workspaceId: WorkspaceId): string {
 		const info = this.workspaceManifest.workspaces[workspaceId];
@@ -132,6 +258,8 @@ export class ExternalContextStore {
 		if (this.initialized) return;
 
 		const contextsPath = this.getContextsBasePath();
+		this.quarantinedPending = [];
+		this.conflictsOnLoad = [];
 
 		try {
 			if (!await this.adapter.exists(contextsPath)) {
@@ -153,21 +281,36 @@ export class ExternalContextStore {
 				this.manifestDirty = true;
 			}
 
-			// Step 4: Load all workspace buckets.
+			// Step 4: Load all workspace bucket indexes.
 			for (const wsId of Object.keys(this.workspaceManifest.workspaces)) {
 				await this.loadWorkspaceBucket(wsId);
 			}
 
+			// Step 4b: Save merged sync conflict copies, then delete them.
+			if (this.conflictsOnLoad.length > 0) {
+				await this.removeMergedConflictCopies(this.conflictsOnLoad);
+			}
+
 			// Step 5: Flush manifest if it changed during init.
 			if (this.manifestDirty) {
 				await this.writeManifest();
 				this.manifestDirty = false;
 			}
 
+			// Step 6: Write indexes that were rebuilt or corrected.
+			if (this.indexDirty.size > 0) {
+				await this.flushDirty();
+			}
+
 			this.initialized = true;
+			this.reportQuarantined();
+			if (this.conflictsOnLoad.length > 0) {
+				this.onSyncConflicts?.(this.conflictsOnLoad);
+			}
 			if (PerfTimer.isEnabled()) {
-				const totalUids = Array.from(this.cache.values()).reduce((sum, m) => sum + m.size, 0);
-				Logger.info(`External store initialized: ${this.cache.size} workspace(s), ${totalUids} context(s)`);
+				const totalUids = Array.from(this.index.values()).reduce((sum, m) => sum + m.size, 0);
+				const loaded = Array.from(this.cache.values()).reduce((sum, m) => sum + m.size, 0);
+				Logger.info(`External store initialized: ${this.index.size} workspace(s), ${totalUids} context(s), ${loaded} read`);
 			}
 		} catch (e) {
 			Logger.error('Failed to initialize external store:', e);
@@ -177,14 +320,26 @@ export class ExternalContextStore {
 	private async loadManifest(): Promise<void> {
 		const manifestPath = this.getManifestPath();
 		try {
+			const tmpPath = `${manifestPath}${TEMP_SUFFIX}`;
+			if (await this.adapter.exists(tmpPath)) {
+				await recoverTempFile(this.adapter, tmpPath);
+			}
+
 			if (await this.adapter.exists(manifestPath)) {
 				const content = await this.adapter.read(manifestPath);
-				const parsed = JSON.parse(content);
-				if (isWorkspaceManifest(parsed)) {
-					this.workspaceManifest = parsed;
+				const { data, status } = openSealedJson(content);
+				if (status !== 'invalid' && isWorkspaceManifest(data)) {
+					this.workspaceManifest = data;
+					if (status === 'mismatch') {
+						Logger.info('Workspace manifest was edited outside Perspecta, resealing');
+						this.manifestDirty = true;
+					}
 				} else {
-					Logger.warn('Invalid workspace manifest, recreating');
-					this.workspaceManifest = { v: 1, workspaces: {} };
+					// Keep the broken file for inspection and rebuild the
+					// workspace list from the bucket folders on disk
+					Logger.warn(`Unreadable workspace manifest (${status}), rebuilding`);
+					await this.quarantine(manifestPath, DEFAULT_WORKSPACE_ID, null);
+					this.workspaceManifest = { v: 1, workspaces: await this.discoverWorkspaceFolders() };
 					this.manifestDirty = true;
 				}
 			} else {
@@ -204,7 +359,82 @@ export class ExternalContextStore {
 		if (!await this.adapter.exists(contextsPath)) {
 			await this.adapter.mkdir(contextsPath);
 		}
-		await this.adapter.write(manifestPath, JSON.stringify(this.workspaceManifest, null, 2));
+		await writeAtomic(this.adapter, manifestPath, sealJson(this.workspaceManifest, 2));
+	}
+
+	/**
+	 * Workspace entries for every bucket folder on disk (plugin-dir and
+	 * shared). Display names are lost with the manifest, so the folder id is
+	 * used instead.
+	 */
+	private async discoverWorkspaceFolders(): Promise<WorkspaceManifest['workspaces']> {
+		const workspaces: WorkspaceManifest['workspaces'] = {};
+		const add = async (base: string, shared: boolean) => {
+			if (!await this.adapter.exists(base)) return;
+			for (const folder of (await this.adapter.list(base)).folders) {
+				const id = folder.split('/').pop();
+				if (id && !workspaces[id]) workspaces[id] = { displayName: id, shared: shared && id !== DEFAULT_WORKSPACE_ID };
+			}
+		};
+		try {
+			await add(this.getContextsBasePath(), false);
+			await add(this.sharedLocation, true);
+		} catch (e) {
+			Logger.warn('Failed to scan workspace folders:', e);
+		}
+		return workspaces;
+	}
+
+	/**
+	 * Move an unreadable file to `<plugin-dir>/corrupt/<workspace>/` so it is
+	 * kept for repair but no longer loaded.
+	 */
+	private async quarantine(path: string, workspaceId: WorkspaceId, uid: string | null): Promise<void> {
+		const folder = `${this.getCorruptBasePath()}/${workspaceId}`;
+		const name = uid ?? MANIFEST_FILENAME.replace(/\.json$/, '');
+		const target = `${folder}/${name}.${Date.now()}.json`;
+		try {
+			if (!await this.adapter.exists(this.getCorruptBasePath())) {
+				await this.adapter.mkdir(this.getCorruptBasePath());
+			}
+			if (!await this.adapter.exists(folder)) {
+				await this.adapter.mkdir(folder);
+			}
+			await this.adapter.rename(path, target);
+			this.quarantinedPending.push({ workspaceId, uid, path: target });
+		} catch (e) {
+			Logger.error(`Failed to quarantine ${path}:`, e);
+		}
+	}
+
+	private reportQuarantined(): void {
+		if (this.quarantinedPending.length === 0) return;
+		const files = this.quarantinedPending.splice(0);
+		Logger.warn(`Quarantined ${files.length} unreadable context file(s)`);
+		this.onQuarantine?.(files);
+	}
+
+	/**
+	 * All quarantined collection files (not manifests), oldest first.
+	 */
+	async listQuarantined(): Promise<QuarantinedFile[]> {
+		const result: QuarantinedFile[] = [];
+		const base = this.getCorruptBasePath();
+		try {
+			if (!await this.adapter.exists(base)) return result;
+			for (const folder of (await this.adapter.list(base)).folders) {
+				const workspaceId = folder.split('/').pop();
+				if (!workspaceId) continue;
+				for (const file of (await this.adapter.list(folder)).files) {
+					const match = file.split('/').pop()?.match(/^(.+)\.(\d+)\.json$/);
+					if (!match || `${match[1]}.json` === MANIFEST_FILENAME) continue;
+					result.push({ workspaceId, uid: match[1], path: file });
+				}
+			}
+		} catch (e) {
+			Logger.warn('Failed to list quarantined files:', e);
+		}
+		return result;
 	}
 
 	/**
@@ -260,43 +490,237 @@ export class ExternalContextStore {
 
 	private async loadWorkspaceBucket(workspaceId: WorkspaceId): Promise<void> {
 		const folder = this.getWorkspaceFolder(workspaceId);
-		const bucket = new Map<string, ArrangementCollection>();
-		this.cache.set(workspaceId, bucket);
+		this.cache.set(workspaceId, new Map());
+		const entries = new Map<string, BucketIndexEntry>();
+		this.index.set(workspaceId, entries);
 
 		try {
 			if (!await this.adapter.exists(folder)) {
 				return; // Empty bucket, nothing to load.
 			}
 
+			// Finish writes interrupted between delete and rename
+			for (const file of (await this.adapter.list(folder)).files) {
+				if (!file.endsWith(`.json${TEMP_SUFFIX}`)) continue;
+				try {
+					await recoverTempFile(this.adapter, file);
+				} catch (e) {
+					Logger.warn(`Failed to recover ${file}:`, e);
+				}
+			}
+
 			const listing = await this.adapter.list(folder);
+			const saved = await this.readIndex(folder);
+			const unindexed: { uid: string; path: string }[] = [];
+			const conflictCopies: { uid: string; path: string }[] = [];
 			for (const file of listing.files) {
 				if (!file.endsWith('.json')) continue;
-				try {
-					const content = await this.adapter.read(file);
-					const data = JSON.parse(content);
-					const uid = file.split('/').pop()?.replace('.json', '');
-					if (!uid || !data) continue;
-
-					if (isArrangementCollection(data)) {
-						bucket.set(uid, data);
-					} else {
-						// Migrate legacy single-arrangement format.
-						const arrangement = data as WindowArrangementV2;
-						const collection: ArrangementCollection = {
-							arrangements: [{
-								arrangement,
-								savedAt: arrangement.ts || Date.now()
-							}]
-						};
-						bucket.set(uid, collection);
+				const fileName = file.split('/').pop() ?? '';
+				if (fileName === INDEX_FILENAME) continue;
+				const copyOf = conflictCopyUid(fileName);
+				if (copyOf) {
+					// Merged once all originals are indexed
+					conflictCopies.push({ uid: copyOf, path: file });
+					continue;
+				}
+				const uid = fileName.replace('.json', '');
+				if (!uid) continue;
+
+				const entry = saved?.get(uid);
+				// Entries written before labels were indexed are read once to add them
+				if (entry && Array.isArray(entry.l)) {
+					entries.set(uid, entry);
+				} else {
+					unindexed.push({ uid, path: file });
+				}
+			}
+
+			// Entries without a file were deleted while the plugin wasn't running
+			if (!saved || saved.size !== entries.size || unindexed.length > 0) {
+				this.indexDirty.add(workspaceId);
+			}
+			for (const { uid, path } of unindexed) {
+				await this.readFromDisk(workspaceId, uid, path);
+			}
+
+			for (const copy of conflictCopies) {
+				await this.mergeConflictCopy(workspaceId, copy.uid, copy.path, this.conflictsOnLoad);
+			}
+		} catch (e) {
+			Logger.warn(`Failed to list workspace bucket ${workspaceId}:`, e);
+		}
+	}
+
+	/** Read a bucket's index file, or null if missing or unreadable (it is rebuilt). */
+	private async readIndex(folder: string): Promise<Map<string, BucketIndexEntry> | null> {
+		const path = `${folder}/${INDEX_FILENAME}`;
+		try {
+			if (!await this.adapter.exists(path)) return null;
+			const { data, status } = openSealedJson(await this.adapter.read(path));
+			if ((status === 'ok' || status === 'unsealed') && isBucketIndexFile(data)) {
+				return new Map(Object.entries(data.entries));
+			}
+			Logger.warn(`Rebuilding unreadable context index (${status}): ${path}`);
+		} catch (e) {
+			Logger.warn(`Failed to read context index ${path}:`, e);
+		}
+		return null;
+	}
+
+	private async writeIndex(workspaceId: WorkspaceId): Promise<void> {
+		const entries = Object.fromEntries(this.index.get(workspaceId) ?? []);
+		const data: BucketIndexFile = { v: 1, entries };
+		await writeAtomic(this.adapter, `${this.getWorkspaceFolder(workspaceId)}/${INDEX_FILENAME}`, sealJson(data));
+	}
+
+	/**
+	 * Recompute a UID's index entry from its loaded collection (removing it
+	 * if the collection is gone or empty). The path hint is kept.
+	 */
+	private refreshIndexEntry(workspaceId: WorkspaceId, uid: string): void {
+		let entries = this.index.get(workspaceId);
+		if (!entries) {
+			entries = new Map();
+			this.index.set(workspaceId, entries);
+		}
+		const previous = entries.get(uid);
+		const collection = this.cache.get(workspaceId)?.get(uid);
+
+		if (!collection || collection.arrangements.length === 0) {
+			if (previous) {
+				entries.delete(uid);
+				this.indexDirty.add(workspaceId);
+			}
+			return;
+		}
+
+		const entry: BucketIndexEntry = {
+			n: collection.arrangements.length,
+			ts: Math.max(...collection.arrangements.map(a => a.savedAt)),
+			l: searchLabels(collection.arrangements),
+		};
+		if (previous?.p) entry.p = previous.p;
+		if (previous?.n !== entry.n || previous?.ts !== entry.ts || previous?.l?.join('\n') !== entry.l.join('\n')) {
+			entries.set(uid, entry);
+			this.indexDirty.add(workspaceId);
+		}
+	}
+
+	/**
+	 * The collection for a UID, reading it from disk on first access.
+	 * Undefined if the bucket has no arrangements for the UID.
+	 */
+	private async loadCollection(uid: string, workspaceId: WorkspaceId): Promise<ArrangementCollection | undefined> {
+		const cached = this.bucketFor(workspaceId).get(uid);
+		if (cached) return cached;
+		if (!this.index.get(workspaceId)?.has(uid)) return undefined;
+
+		const collection = await this.readFromDisk(workspaceId, uid, `${this.getWorkspaceFolder(workspaceId)}/${uid}.json`);
+		if (this.initialized) this.reportQuarantined();
+		return collection;
+	}
+
+	/** Read a UID file into the cache and bring its index entry up to date. */
+	private async readFromDisk(workspaceId: WorkspaceId, uid: string, path: string): Promise<ArrangementCollection | undefined> {
+		try {
+			if (await this.adapter.exists(path)) {
+				const content = await this.adapter.read(path);
+				const collection = await this.readCollection(path, content, workspaceId, uid);
+				if (collection) {
+					this.bucketFor(workspaceId).set(uid, collection.data);
+					this.knownContent.set(path, checksum(content));
+					if (collection.migrated || collection.edited) {
 						this.markDirty(workspaceId, uid);
+						this.scheduleSave();
 					}
-				} catch (e) {
-					Logger.warn(`Failed to load context file: ${file}`, e);
+					return collection.data;
 				}
 			}
 		} catch (e) {
-			Logger.warn(`Failed to list workspace bucket ${workspaceId}:`, e);
+			Logger.warn(`Failed to load context file: ${path}`, e);
+		} finally {
+			this.refreshIndexEntry(workspaceId, uid);
+		}
+		return undefined;
+	}
+
+	/**
+	 * Parse a context file, quarantining it if unreadable. Legacy
+	 * single-arrangement files are converted (migrated: true); files edited
+	 * by hand are taken as they are (edited: true) and need resealing.
+	 */
+	private async readCollection(
+		path: string,
+		content: string,
+		workspaceId: WorkspaceId,
+		uid: string
+	): Promise<{ data: ArrangementCollection; migrated: boolean; edited: boolean } | null> {
+		const { data, status } = openSealedJson(content);
+		if (status === 'invalid' || !isLoadableContext(data)) {
+			Logger.warn(`Unreadable context file (${status}): ${path}`);
+			await this.quarantine(path, workspaceId, uid);
+			return null;
+		}
+
+		const edited = status === 'mismatch';
+		if (edited) Logger.info(`Context file was edited outside Perspecta, resealing: ${path}`);
+		if (isArrangementCollection(data)) {
+			return { data, migrated: false, edited };
+		}
+		// Migrate legacy single-arrangement format.
+		const arrangement = data as WindowArrangementV2;
+		return {
+			data: { arrangements: [{ arrangement, savedAt: arrangement.ts || Date.now() }] },
+			migrated: true,
+			edited,
+		};
+	}
+
+	/**
+	 * Merge a sync conflict copy into its original by savedAt. Nothing is
+	 * trimmed here, so another device's saves are never dropped; the next
+	 * save of the note trims to the configured limit.
+	 */
+	private async mergeConflictCopy(workspaceId: WorkspaceId, uid: string, path: string, merges: SyncConflictMerge[]): Promise<void> {
+		try {
+			const copy = await this.readCollection(path, await this.adapter.read(path), workspaceId, uid);
+			if (!copy) return;
+
+			const existing = (await this.loadCollection(uid, workspaceId))?.arrangements.length ?? 0;
+			const max = existing + copy.data.arrangements.length;
+			const result = this.mergeIntoBucket(uid, copy.data.arrangements, workspaceId, 'merge', max);
+			// Mark dirty even when nothing was new, so the copy is only
+			// deleted after the original has been written
+			this.markDirty(workspaceId, uid);
+
+			let merge = merges.find(m => m.workspaceId === workspaceId && m.uid === uid);
+			if (!merge) {
+				merge = { workspaceId, uid, copies: [], added: 0 };
+				merges.push(merge);
+			}
+			merge.copies.push(path);
+			merge.added += result.copied;
+		} catch (e) {
+			Logger.warn(`Failed to merge sync conflict copy: ${path}`, e);
+		}
+	}
+
+	/** Write the merged originals, then delete the conflict copies that went into them. */
+	private async removeMergedConflictCopies(merges: SyncConflictMerge[]): Promise<void> {
+		await this.flushDirty();
+		for (const merge of merges) {
+			if (this.dirty.get(merge.workspaceId)?.has(merge.uid)) {
+				Logger.warn(`Keeping conflict copies of ${merge.workspaceId}/${merge.uid}: merged file not saved`);
+				continue;
+			}
+			for (const path of merge.copies) {
+				try {
+					await this.adapter.remove(path);
+				} catch (e) {
+					Logger.warn(`Failed to delete sync conflict copy: ${path}`, e);
+				}
+			}
+			Logger.info(`Merged ${merge.copies.length} sync conflict copy(ies) into ${merge.workspaceId}/${merge.uid} (+${merge.added})`);
 		}
 	}
 
@@ -329,7 +753,7 @@ export class ExternalContextStore {
 	 * Returns the (possibly suffixed) id actually used.
 	 */
 	async createWorkspaceBucket(displayName: string, requestedId?: WorkspaceId): Promise<WorkspaceId> {
-		let baseId = requestedId ?? slugifyWorkspaceName(displayName);
+		const baseId = requestedId ?? slugifyWorkspaceName(displayName);
 		let id = baseId;
 		let suffix = 2;
 		while (this.workspaceManifest.workspaces[id]) {
@@ -340,6 +764,7 @@ export class ExternalContextStore {
 		this.workspaceManifest.workspaces[id] = { displayName, shared: false };
 		this.manifestDirty = true;
 		this.cache.set(id, new Map());
+		this.index.set(id, new Map());
 
 		const folder = this.getWorkspaceFolder(id);
 		if (!await this.adapter.exists(folder)) {
@@ -392,6 +817,8 @@ export class ExternalContextStore {
 
 		delete this.workspaceManifest.workspaces[workspaceId];
 		this.cache.delete(workspaceId);
+		this.index.delete(workspaceId);
+		this.indexDirty.delete(workspaceId);
 		this.dirty.delete(workspaceId);
 		await this.writeManifest();
 	}
@@ -430,6 +857,8 @@ export class ExternalContextStore {
 					const content = await this.adapter.read(file);
 					await this.adapter.write(target, content);
 					await this.adapter.remove(file);
+					this.knownContent.delete(file);
+					this.knownContent.set(target, checksum(content));
 				}
 				try { await this.adapter.rmdir(oldFolder, false); } catch { /* non-fatal */ }
 			}
@@ -446,6 +875,8 @@ export class ExternalContextStore {
 	// =========================================================================
 	// Arrangement access — workspace-aware
 	// All public methods accept an optional workspaceId; default = active.
+	// Methods returning or changing arrangements are async because the
+	// collection may not have been read yet.
 	// =========================================================================
 
 	private bucketFor(workspaceId: WorkspaceId): Map<string, ArrangementCollection> {
@@ -457,6 +888,7 @@ export class ExternalContextStore {
 		return bucket;
 	}
 
+	/** Mark a changed collection for saving and update its index entry. */
 	private markDirty(workspaceId: WorkspaceId, uid: string): void {
 		let set = this.dirty.get(workspaceId);
 		if (!set) {
@@ -464,47 +896,97 @@ export class ExternalContextStore {
 			this.dirty.set(workspaceId, set);
 		}
 		set.add(uid);
+		this.refreshIndexEntry(workspaceId, uid);
 	}
 
 	/** Get all arrangements for a UID, sorted newest-first. */
-	get(uid: string, workspaceId: WorkspaceId = this.activeWorkspaceId): TimestampedArrangement[] | null {
-		const collection = this.bucketFor(workspaceId).get(uid);
+	async get(uid: string, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<TimestampedArrangement[] | null> {
+		const collection = await this.loadCollection(uid, workspaceId);
 		if (!collection || collection.arrangements.length === 0) return null;
 		return [...collection.arrangements].sort((a, b) => b.savedAt - a.savedAt);
 	}
 
-	getLatest(uid: string, workspaceId: WorkspaceId = this.activeWorkspaceId): WindowArrangementV2 | null {
-		const collection = this.bucketFor(workspaceId).get(uid);
+	async getLatest(uid: string, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<WindowArrangementV2 | null> {
+		const collection = await this.loadCollection(uid, workspaceId);
 		if (!collection || collection.arrangements.length === 0) return null;
 		const sorted = [...collection.arrangements].sort((a, b) => b.savedAt - a.savedAt);
 		return sorted[0].arrangement;
 	}
 
-	getAll(uid: string, workspaceId: WorkspaceId = this.activeWorkspaceId): TimestampedArrangement[] {
-		const collection = this.bucketFor(workspaceId).get(uid);
+	async getAll(uid: string, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<TimestampedArrangement[]> {
+		const collection = await this.loadCollection(uid, workspaceId);
 		if (!collection) return [];
 		return [...collection.arrangements].sort((a, b) => b.savedAt - a.savedAt);
 	}
 
 	getCount(uid: string, workspaceId: WorkspaceId = this.activeWorkspaceId): number {
-		return this.bucketFor(workspaceId).get(uid)?.arrangements.length ?? 0;
+		return this.index.get(workspaceId)?.get(uid)?.n ?? 0;
+	}
+
+	/** savedAt of the newest arrangement, or null if there is none. */
+	getLatestSavedAt(uid: string, workspaceId: WorkspaceId = this.activeWorkspaceId): number | null {
+		return this.index.get(workspaceId)?.get(uid)?.ts ?? null;
+	}
+
+	/** Count, latest savedAt and labels from the index, without loading the collection. */
+	getSummary(uid: string, workspaceId: WorkspaceId = this.activeWorkspaceId): ContextSummary | null {
+		const entry = this.index.get(workspaceId)?.get(uid);
+		return entry ? { count: entry.n, latestSavedAt: entry.ts, labels: entry.l ?? [] } : null;
 	}
 
 	has(uid: string, workspaceId: WorkspaceId = this.activeWorkspaceId): boolean {
-		const collection = this.bucketFor(workspaceId).get(uid);
-		return collection !== undefined && collection.arrangements.length > 0;
+		return this.index.get(workspaceId)?.has(uid) ?? false;
 	}
 
-	set(uid: string, context: WindowArrangementV2, maxArrangements = 1, workspaceId: WorkspaceId = this.activeWorkspaceId): void {
+	/**
+	 * Remember which file owns a UID, for file types whose UID can only be
+	 * found by reading the file (canvas, base). Stored in every bucket that
+	 * has the UID.
+	 */
+	setPathHint(uid: string, path: string): void {
+		let changed = false;
+		for (const [wsId, entries] of this.index) {
+			const entry = entries.get(uid);
+			if (!entry || entry.p === path) continue;
+			entries.set(uid, { ...entry, p: path });
+			this.indexDirty.add(wsId);
+			changed = true;
+		}
+		if (changed) this.scheduleSave();
+	}
+
+	/** The UID whose path hint is `path`, if any bucket has one. */
+	getPathHint(path: string): string | undefined {
+		for (const entries of this.index.values()) {
+			for (const [uid, entry] of entries) {
+				if (entry.p === path) return uid;
+			}
+		}
+		return undefined;
+	}
+
+	/** Path → UID for all path hints across buckets. */
+	getPathHints(): Map<string, string> {
+		const hints = new Map<string, string>();
+		for (const entries of this.index.values()) {
+			for (const [uid, entry] of entries) {
+				if (entry.p) hints.set(entry.p, uid);
+			}
+		}
+		return hints;
+	}
+
+	async set(uid: string, context: WindowArrangementV2, maxArrangements = 1, workspaceId: WorkspaceId = this.activeWorkspaceId, label: ArrangementLabel = {}): Promise<void> {
 		const bucket = this.bucketFor(workspaceId);
-		let collection = bucket.get(uid);
+		let collection = await this.loadCollection(uid, workspaceId);
 		if (!collection) {
 			collection = { arrangements: [] };
 		}
 
 		const timestamped: TimestampedArrangement = {
 			arrangement: context,
-			savedAt: Date.now()
+			savedAt: Date.now(),
+			...label
 		};
 		collection.arrangements.push(timestamped);
 		collection.arrangements.sort((a, b) => a.savedAt - b.savedAt);
@@ -518,9 +1000,44 @@ export class ExternalContextStore {
 		this.scheduleSave();
 	}
 
-	deleteArrangement(uid: string, savedAt: number, workspaceId: WorkspaceId = this.activeWorkspaceId): void {
+	/**
+	 * Replace the layout of one arrangement, keeping its savedAt and label.
+	 *
+	 * @returns False if the UID has no arrangement with this savedAt
+	 */
+	async updateArrangement(uid: string, savedAt: number, context: WindowArrangementV2, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<boolean> {
+		const collection = await this.loadCollection(uid, workspaceId);
+		const index = collection?.arrangements.findIndex(a => a.savedAt === savedAt) ?? -1;
+		if (!collection || index < 0) return false;
+
+		// Replace rather than mutate: copied arrangements share entry objects
+		collection.arrangements[index] = { ...collection.arrangements[index], arrangement: context };
+
+		this.markDirty(workspaceId, uid);
+		this.scheduleSave();
+		return true;
+	}
+
+	/**
+	 * Replace the label (name, description, tags) of one arrangement. Fields
+	 * missing from `label` are cleared.
+	 */
+	async updateLabel(uid: string, savedAt: number, label: ArrangementLabel, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<void> {
+		const collection = await this.loadCollection(uid, workspaceId);
+		const index = collection?.arrangements.findIndex(a => a.savedAt === savedAt) ?? -1;
+		if (!collection || index < 0) return;
+
+		// Replace rather than mutate: copied arrangements share entry objects
+		const { arrangement } = collection.arrangements[index];
+		collection.arrangements[index] = { arrangement, savedAt, ...label };
+
+		this.markDirty(workspaceId, uid);
+		this.scheduleSave();
+	}
+
+	async deleteArrangement(uid: string, savedAt: number, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<void> {
 		const bucket = this.bucketFor(workspaceId);
-		const collection = bucket.get(uid);
+		const collection = await this.loadCollection(uid, workspaceId);
 		if (!collection) return;
 
 		collection.arrangements = collection.arrangements.filter(a => a.savedAt !== savedAt);
@@ -539,8 +1056,11 @@ export class ExternalContextStore {
 		const bucket = this.bucketFor(workspaceId);
 		bucket.delete(uid);
 		this.dirty.get(workspaceId)?.delete(uid);
+		this.refreshIndexEntry(workspaceId, uid);
+		if (this.indexDirty.has(workspaceId)) this.scheduleSave();
 
 		const filePath = `${this.getWorkspaceFolder(workspaceId)}/${uid}.json`;
+		this.knownContent.delete(filePath);
 		try {
 			if (await this.adapter.exists(filePath)) {
 				await this.adapter.remove(filePath);
@@ -550,9 +1070,23 @@ export class ExternalContextStore {
 		}
 	}
 
-	clearUid(uid: string, workspaceId: WorkspaceId = this.activeWorkspaceId): void {
+	/**
+	 * Merge arrangements into a UID's collection, keeping their savedAt
+	 * timestamps. Entries already present (same savedAt) are skipped; the
+	 * oldest are dropped beyond maxArrangements.
+	 *
+	 * @returns Number of arrangements added
+	 */
+	async mergeArrangements(uid: string, items: TimestampedArrangement[], maxArrangements: number, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<number> {
+		await this.loadCollection(uid, workspaceId);
+		const result = this.mergeIntoBucket(uid, items, workspaceId, 'merge', maxArrangements);
+		if (result.copied > 0) this.scheduleSave();
+		return result.copied;
+	}
+
+	async clearUid(uid: string, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<void> {
 		const bucket = this.bucketFor(workspaceId);
-		const collection = bucket.get(uid);
+		const collection = await this.loadCollection(uid, workspaceId);
 		if (collection) {
 			collection.arrangements = [];
 			bucket.set(uid, collection);
@@ -565,27 +1099,25 @@ export class ExternalContextStore {
 	 * overwrite mode.
 	 */
 	async clearAll(): Promise<void> {
-		for (const wsId of Array.from(this.cache.keys())) {
-			const bucket = this.cache.get(wsId);
-			if (!bucket) continue;
-			for (const uid of Array.from(bucket.keys())) {
+		for (const wsId of Array.from(this.index.keys())) {
+			for (const uid of this.getAllUids(wsId)) {
 				await this.delete(uid, wsId);
 			}
-			bucket.clear();
+			this.cache.get(wsId)?.clear();
 			this.dirty.delete(wsId);
 		}
 	}
 
 	/** All UIDs in the active workspace. */
 	getAllUids(workspaceId: WorkspaceId = this.activeWorkspaceId): string[] {
-		return Array.from(this.bucketFor(workspaceId).keys());
+		return Array.from(this.index.get(workspaceId)?.keys() ?? []);
 	}
 
 	/** All UIDs across the listed workspaces (union; deduplicated). */
 	getAllUidsAcross(workspaceIds: WorkspaceId[]): string[] {
 		const set = new Set<string>();
 		for (const wsId of workspaceIds) {
-			for (const uid of this.bucketFor(wsId).keys()) {
+			for (const uid of this.getAllUids(wsId)) {
 				set.add(uid);
 			}
 		}
@@ -597,9 +1129,8 @@ export class ExternalContextStore {
 	 */
 	workspacesWithUid(uid: string): WorkspaceId[] {
 		const result: WorkspaceId[] = [];
-		for (const [wsId, bucket] of this.cache.entries()) {
-			const c = bucket.get(uid);
-			if (c && c.arrangements.length > 0) result.push(wsId);
+		for (const [wsId, entries] of this.index.entries()) {
+			if (entries.has(uid)) result.push(wsId);
 		}
 		return result;
 	}
@@ -611,19 +1142,33 @@ export class ExternalContextStore {
 	/**
 	 * Copy all arrangements for a UID from one workspace to another.
 	 */
-	copyArrangements(uid: string, fromWs: WorkspaceId, toWs: WorkspaceId, policy: ConflictPolicy, maxArrangements: number): CopyResult {
+	async copyArrangements(uid: string, fromWs: WorkspaceId, toWs: WorkspaceId, policy: ConflictPolicy, maxArrangements: number): Promise<CopyResult> {
 		const result: CopyResult = { copied: 0, skipped: 0, overwritten: 0 };
 		if (fromWs === toWs) return result;
 
-		const source = this.bucketFor(fromWs).get(uid);
+		const source = await this.loadCollection(uid, fromWs);
 		if (!source || source.arrangements.length === 0) return result;
+		await this.loadCollection(uid, toWs);
 
-		const targetBucket = this.bucketFor(toWs);
+		const merged = this.mergeIntoBucket(uid, source.arrangements, toWs, policy, maxArrangements);
+		this.scheduleSave();
+		return merged;
+	}
+
+	/**
+	 * Apply a conflict policy to incoming arrangements for a UID: skip if the
+	 * UID already has any, replace them, or merge (dedupe by savedAt, keep
+	 * the newest maxArrangements). Marks the UID dirty but doesn't schedule
+	 * a save. The target collection must already be loaded.
+	 */
+	private mergeIntoBucket(uid: string, items: TimestampedArrangement[], workspaceId: WorkspaceId, policy: ConflictPolicy, maxArrangements: number): CopyResult {
+		const result: CopyResult = { copied: 0, skipped: 0, overwritten: 0 };
+		const targetBucket = this.bucketFor(workspaceId);
 		const existing = targetBucket.get(uid);
 
 		if (existing && existing.arrangements.length > 0) {
 			if (policy === 'skip') {
-				result.skipped = source.arrangements.length;
+				result.skipped = items.length;
 				return result;
 			}
 			if (policy === 'overwrite') {
@@ -634,7 +1179,7 @@ export class ExternalContextStore {
 
 		// Merge (or now-empty after overwrite): append, dedupe by savedAt, prune.
 		const merged = [...(targetBucket.get(uid)?.arrangements ?? [])];
-		for (const ts of source.arrangements) {
+		for (const ts of items) {
 			if (!merged.some(m => m.savedAt === ts.savedAt)) {
 				merged.push(ts);
 				result.copied++;
@@ -642,18 +1187,19 @@ export class ExternalContextStore {
 				result.skipped++;
 			}
 		}
+		if (result.copied === 0 && result.overwritten === 0) return result;
+
 		merged.sort((a, b) => a.savedAt - b.savedAt);
 		while (merged.length > maxArrangements) {
 			merged.shift();
 		}
 		targetBucket.set(uid, { arrangements: merged });
-		this.markDirty(toWs, uid);
-		this.scheduleSave();
+		this.markDirty(workspaceId, uid);
 		return result;
 	}
 
-	moveArrangements(uid: string, fromWs: WorkspaceId, toWs: WorkspaceId, policy: ConflictPolicy, maxArrangements: number): CopyResult {
-		const result = this.copyArrangements(uid, fromWs, toWs, policy, maxArrangements);
+	async moveArrangements(uid: string, fromWs: WorkspaceId, toWs: WorkspaceId, policy: ConflictPolicy, maxArrangements: number): Promise<CopyResult> {
+		const result = await this.copyArrangements(uid, fromWs, toWs, policy, maxArrangements);
 		if (fromWs !== toWs && (result.copied > 0 || result.overwritten > 0)) {
 			// Remove from source.
 			const sourceBucket = this.bucketFor(fromWs);
@@ -667,11 +1213,10 @@ export class ExternalContextStore {
 	/**
 	 * Bulk copy/move: every UID in fromWs → toWs.
 	 */
-	bulkCopy(fromWs: WorkspaceId, toWs: WorkspaceId, policy: ConflictPolicy, maxArrangements: number): { uids: number; copied: number; skipped: number; overwritten: number } {
+	async bulkCopy(fromWs: WorkspaceId, toWs: WorkspaceId, policy: ConflictPolicy, maxArrangements: number): Promise<{ uids: number; copied: number; skipped: number; overwritten: number }> {
 		const stats = { uids: 0, copied: 0, skipped: 0, overwritten: 0 };
-		const sourceBucket = this.bucketFor(fromWs);
-		for (const uid of Array.from(sourceBucket.keys())) {
-			const r = this.copyArrangements(uid, fromWs, toWs, policy, maxArrangements);
+		for (const uid of this.getAllUids(fromWs)) {
+			const r = await this.copyArrangements(uid, fromWs, toWs, policy, maxArrangements);
 			stats.uids++;
 			stats.copied += r.copied;
 			stats.skipped += r.skipped;
@@ -680,11 +1225,10 @@ export class ExternalContextStore {
 		return stats;
 	}
 
-	bulkMove(fromWs: WorkspaceId, toWs: WorkspaceId, policy: ConflictPolicy, maxArrangements: number): { uids: number; copied: number; skipped: number; overwritten: number } {
+	async bulkMove(fromWs: WorkspaceId, toWs: WorkspaceId, policy: ConflictPolicy, maxArrangements: number): Promise<{ uids: number; copied: number; skipped: number; overwritten: number }> {
 		const stats = { uids: 0, copied: 0, skipped: 0, overwritten: 0 };
-		const sourceBucket = this.bucketFor(fromWs);
-		for (const uid of Array.from(sourceBucket.keys())) {
-			const r = this.moveArrangements(uid, fromWs, toWs, policy, maxArrangements);
+		for (const uid of this.getAllUids(fromWs)) {
+			const r = await this.moveArrangements(uid, fromWs, toWs, policy, maxArrangements);
 			stats.uids++;
 			stats.copied += r.copied;
 			stats.skipped += r.skipped;
@@ -708,7 +1252,7 @@ export class ExternalContextStore {
 	}
 
 	async flushDirty(): Promise<void> {
-		if (this.dirty.size === 0 && !this.manifestDirty) return;
+		if (this.dirty.size === 0 && this.indexDirty.size === 0 && !this.manifestDirty) return;
 
 		if (this.manifestDirty) {
 			try {
@@ -720,7 +1264,10 @@ export class ExternalContextStore {
 		}
 
 		let totalSaved = 0;
-		for (const [wsId, uidSet] of Array.from(this.dirty.entries())) {
+		const conflicts: ExternalChange[] = [];
+		const workspaces = new Set([...this.dirty.keys(), ...this.indexDirty]);
+		for (const wsId of workspaces) {
+			const uidSet = this.dirty.get(wsId) ?? new Set<string>();
 			const folder = this.getWorkspaceFolder(wsId);
 			try {
 				if (!await this.adapter.exists(folder)) {
@@ -744,14 +1291,20 @@ export class ExternalContextStore {
 
 				if (collection && collection.arrangements.length > 0) {
 					try {
-						const json = JSON.stringify(collection);
-						await this.adapter.write(filePath, json);
+						if (await this.mergeExternalEdits(wsId, uid, filePath)) {
+							conflicts.push({ workspaceId: wsId, uid, conflict: true });
+							uidSet.delete(uid); // Re-marked by the merge, written now
+						}
+						const content = sealJson(this.bucketFor(wsId).get(uid) ?? collection);
+						await writeAtomic(this.adapter, filePath, content);
+						this.knownContent.set(filePath, checksum(content));
 						totalSaved++;
 					} catch (e) {
 						Logger.error(`Failed to save context: ${wsId}/${uid}`, e);
 						uidSet.add(uid);
 					}
 				} else {
+					this.knownContent.delete(filePath);
 					try {
 						if (await this.adapter.exists(filePath)) {
 							await this.adapter.remove(filePath);
@@ -765,11 +1318,165 @@ export class ExternalContextStore {
 			if (uidSet.size === 0) {
 				this.dirty.delete(wsId);
 			}
+
+			// Index last: a crash before this leaves it stale, never ahead
+			if (this.indexDirty.has(wsId)) {
+				try {
+					await this.writeIndex(wsId);
+					this.indexDirty.delete(wsId);
+				} catch (e) {
+					Logger.error(`Failed to save context index: ${wsId}`, e);
+				}
+			}
 		}
 
 		if (PerfTimer.isEnabled()) {
 			Logger.info(`Saved ${totalSaved} context(s) to disk`);
 		}
+		if (conflicts.length > 0) {
+			this.onExternalChange?.(conflicts);
+		}
+	}
+
+	/**
+	 * Before overwriting a file, check whether it changed on disk since the
+	 * store last read or wrote it (or appeared without the store having seen
+	 * it). If so, merge the disk version into the cached collection by
+	 * savedAt instead of silently replacing it.
+	 *
+	 * @returns True if the file had changed externally
+	 */
+	private async mergeExternalEdits(workspaceId: WorkspaceId, uid: string, filePath: string): Promise<boolean> {
+		if (!await this.adapter.exists(filePath)) return false;
+
+		const content = await this.adapter.read(filePath);
+		if (checksum(content) === this.knownContent.get(filePath)) return false;
+
+		const { data, status } = openSealedJson(content);
+		if (status !== 'invalid' && isArrangementCollection(data)) {
+			const local = this.bucketFor(workspaceId).get(uid)?.arrangements.length ?? 0;
+			this.mergeIntoBucket(uid, data.arrangements, workspaceId, 'merge', local + data.arrangements.length);
+		}
+		Logger.warn(`Context file changed on disk before saving, merged: ${filePath}`);
+		return true;
+	}
+
+	// =========================================================================
+	// Live reload
+	// =========================================================================
+
+	/**
+	 * Report a file-system change (any path). Changes to bucket files are
+	 * reloaded after a short debounce; everything else is ignored.
+	 */
+	handleFileChange(path: string): void {
+		if (!this.initialized || !this.workspaceForPath(path)) return;
+		// The index follows the UID files, which report their own changes
+		if (path.endsWith(`/${INDEX_FILENAME}`)) return;
+		this.pendingChanges.add(path);
+		this.debouncedReload().catch(error => {
+			Logger.error('Failed to reload changed context files:', error);
+		});
+	}
+
+	/** The workspace whose bucket folder directly contains `path`, if any. */
+	private workspaceForPath(path: string): WorkspaceId | null {
+		if (!path.endsWith('.json')) return null;
+		const folder = path.substring(0, path.lastIndexOf('/'));
+		for (const wsId of Object.keys(this.workspaceManifest.workspaces)) {
+			if (this.getWorkspaceFolder(wsId) === folder) return wsId;
+		}
+		return null;
+	}
+
+	/** Process the paths collected by handleFileChange. */
+	async reloadChangedFiles(): Promise<void> {
+		const paths = Array.from(this.pendingChanges);
+		this.pendingChanges.clear();
+
+		const changes: ExternalChange[] = [];
+		const merges: SyncConflictMerge[] = [];
+		for (const path of paths) {
+			const workspaceId = this.workspaceForPath(path);
+			if (!workspaceId) continue;
+			const fileName = path.split('/').pop() ?? '';
+
+			try {
+				const copyOf = conflictCopyUid(fileName);
+				if (copyOf) {
+					if (await this.adapter.exists(path)) {
+						await this.mergeConflictCopy(workspaceId, copyOf, path, merges);
+					}
+					continue;
+				}
+
+				const change = await this.reloadFile(workspaceId, fileName.replace('.json', ''), path);
+				if (change) changes.push(change);
+			} catch (e) {
+				Logger.warn(`Failed to reload context file: ${path}`, e);
+			}
+		}
+
+		if (merges.length > 0) {
+			await this.removeMergedConflictCopies(merges);
+			this.onSyncConflicts?.(merges);
+			for (const merge of merges) {
+				changes.push({ workspaceId: merge.workspaceId, uid: merge.uid, conflict: false });
+			}
+		}
+		if (changes.length > 0) {
+			this.onExternalChange?.(changes);
+		}
+	}
+
+	/**
+	 * Bring one cached collection in line with its file. Unsaved local
+	 * changes are merged with the disk version rather than discarded.
+	 */
+	private async reloadFile(workspaceId: WorkspaceId, uid: string, path: string): Promise<ExternalChange | null> {
+		const bucket = this.bucketFor(workspaceId);
+		const dirty = this.dirty.get(workspaceId)?.has(uid) ?? false;
+
+		if (!await this.adapter.exists(path)) {
+			// Deleted elsewhere. Files this store deleted are already forgotten.
+			if (!this.knownContent.has(path) && !this.has(uid, workspaceId)) return null;
+			this.knownContent.delete(path);
+			if (dirty) return null; // The pending save recreates it
+			bucket.delete(uid);
+			this.refreshIndexEntry(workspaceId, uid);
+			this.scheduleSave();
+			return { workspaceId, uid, conflict: false };
+		}
+
+		const content = await this.adapter.read(path);
+		const sum = checksum(content);
+		if (this.knownContent.get(path) === sum) return null; // Our own write
+
+		const { data, status } = openSealedJson(content);
+		if (status === 'invalid' || !isArrangementCollection(data)) {
+			// Possibly still being written by a sync tool; the next change
+			// event (or restart) picks it up
+			Logger.warn(`Ignoring unreadable change to ${path} (${status})`);
+			return null;
+		}
+
+		this.knownContent.set(path, sum);
+		if (dirty) {
+			const local = bucket.get(uid)?.arrangements.length ?? 0;
+			this.mergeIntoBucket(uid, data.arrangements, workspaceId, 'merge', local + data.arrangements.length);
+			this.scheduleSave();
+			return { workspaceId, uid, conflict: true };
+		}
+		bucket.set(uid, data);
+		if (status === 'mismatch') {
+			// Edited by hand: take the edit and write it back sealed
+			this.markDirty(workspaceId, uid);
+			this.scheduleSave();
+		} else {
+			this.refreshIndexEntry(workspaceId, uid);
+			if (this.indexDirty.has(workspaceId)) this.scheduleSave();
+		}
+		return { workspaceId, uid, conflict: false };
 	}
 
 	async cleanup(): Promise<void> {
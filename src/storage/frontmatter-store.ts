@@ -11,8 +11,8 @@
 // ============================================================================
 
 import { App, TFile } from 'obsidian';
-import { FRONTMATTER_KEY, WindowArrangement, WindowArrangementV2 } from '../types';
-import { decodeArrangement, encodeArrangement } from './codec';
+import { ArrangementLabel, FRONTMATTER_KEY, WindowArrangement, WindowArrangementV2 } from '../types';
+import { decodeArrangement, decodeArrangementLabel, encodeArrangement } from './codec';
 import { Logger } from '../utils/logger';
 import { PerfTimer } from '../utils/perf-timer';
 
@@ -35,13 +35,23 @@ export function getContextFromFrontmatter(app: App, file: TFile): WindowArrangem
 	return rawValue as WindowArrangement;
 }
 
+/**
+ * Read the label (name, description, tags) stored with a note's frontmatter
+ * arrangement. Empty if there is none; the legacy YAML format has no label.
+ */
+export function getLabelFromFrontmatter(app: App, file: TFile): ArrangementLabel {
+	const rawValue = app.metadataCache.getFileCache(file)?.frontmatter?.[FRONTMATTER_KEY];
+	return typeof rawValue === 'string' ? decodeArrangementLabel(rawValue) : {};
+}
+
 /**
  * Save an arrangement into a note's frontmatter (replacing any existing one).
  */
 export async function saveContextToFrontmatter(
 	app: App,
 	file: TFile,
-	arrangement: WindowArrangementV2
+	arrangement: WindowArrangementV2,
+	label?: ArrangementLabel
 ): Promise<void> {
 	const readStart = performance.now();
 	const content = await app.vault.read(file);
@@ -50,7 +60,7 @@ export async function saveContextToFrontmatter(
 	}
 
 	const fmStart = performance.now();
-	const newContent = updateFrontmatter(content, arrangement);
+	const newContent = updateFrontmatter(content, arrangement, label);
 	if (PerfTimer.isEnabled()) {
 		Logger.debug(`  ✓ updateFrontmatter: ${(performance.now() - fmStart).toFixed(1)}ms`);
 	}
@@ -109,9 +119,9 @@ export async function removeContextFromFrontmatter(app: App, file: TFile): Promi
  * Splice an encoded arrangement into the file's frontmatter, replacing any
  * existing entry. Used by saveContextToFrontmatter.
  */
-function updateFrontmatter(content: string, arrangement: WindowArrangementV2): string {
+function updateFrontmatter(content: string, arrangement: WindowArrangementV2, label?: ArrangementLabel): string {
 	const match = content.match(FRONTMATTER_REGEX);
-	const encoded = encodeArrangement(arrangement);
+	const encoded = encodeArrangement(arrangement, label);
 
 	if (match) {
 		// Strip any existing perspecta-arrangement entry, then append the new one.
@@ -0,0 +1,108 @@
+// ============================================================================
+// Arrangement History Store
+// ----------------------------------------------------------------------------
+// Append-only version history per note, separate from the "live" slots in
+// frontmatter or the external store: every save adds a version here, and
+// trimming the live slots never touches it. Only the retention policy
+// (count and age, see services/history) removes versions.
+//
+//   <plugin-dir>/history/<note-key>.json
+//
+// The note key is the note's UID when it has one, otherwise its path. A
+// path-keyed history is moved with rekey() when the note is renamed or gets
+// a UID. Files are read on first access and cached.
+// ============================================================================
+
+import { App, PluginManifest } from 'obsidian';
+import { TimestampedArrangement } from '../types';
+import { applyRetention, RetentionPolicy } from '../services/history';
+import { PluginDataFile } from './plugin-data-file';
+
+const HISTORY_FOLDER = 'history';
+
+export interface HistoryStoreConfig {
+	app: App;
+	manifest: PluginManifest;
+	retention: RetentionPolicy;
+}
+
+/**
+ * File name for a note key. Paths contain slashes and other characters that
+ * aren't safe in file names, so the key is percent-encoded.
+ */
+export function historyFileName(noteKey: string): string {
+	const encoded = encodeURIComponent(noteKey).replace(/[!'()*~]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+	return `${encoded}.json`;
+}
+
+export class ArrangementHistoryStore {
+	private app: App;
+	private manifest: PluginManifest;
+	private retention: RetentionPolicy;
+	// Note key → versions, oldest first.
+	private cache = new Map<string, TimestampedArrangement[]>();
+
+	constructor(config: HistoryStoreConfig) {
+		this.app = config.app;
+		this.manifest = config.manifest;
+		this.retention = config.retention;
+	}
+
+	private fileFor(noteKey: string): PluginDataFile<{ versions: TimestampedArrangement[] }> {
+		return new PluginDataFile({
+			app: this.app,
+			manifest: this.manifest,
+			name: `${HISTORY_FOLDER}/${historyFileName(noteKey)}`,
+			description: `history of ${noteKey}`,
+			isValid: data => Array.isArray(data.versions),
+		});
+	}
+
+	/** Change the retention policy; applied the next time a note's history is written. */
+	setRetention(retention: RetentionPolicy): void {
+		this.retention = retention;
+	}
+
+	private async load(noteKey: string): Promise<TimestampedArrangement[]> {
+		const cached = this.cache.get(noteKey);
+		if (cached) return cached;
+
+		const versions = (await this.fileFor(noteKey).read())?.versions ?? [];
+		this.cache.set(noteKey, versions);
+		return versions;
+	}
+
+	/** All versions of a note, newest first. */
+	async list(noteKey: string): Promise<TimestampedArrangement[]> {
+		return [...await this.load(noteKey)].sort((a, b) => b.savedAt - a.savedAt);
+	}
+
+	/** Add a version and apply the retention policy. */
+	async append(noteKey: string, version: TimestampedArrangement): Promise<void> {
+		if (this.retention.maxVersions <= 0) return;
+		const versions = applyRetention([...await this.load(noteKey), version], this.retention);
+		this.cache.set(noteKey, versions);
+		await this.fileFor(noteKey).write({ versions });
+	}
+
+	/**
+	 * Move a note's history to a new key, merging it into any versions
+	 * already there. Does nothing if there is no history under the old key.
+	 */
+	async rekey(fromKey: string, toKey: string): Promise<void> {
+		if (fromKey === toKey) return;
+		const moving = await this.load(fromKey);
+		if (moving.length === 0) return;
+
+		const bySavedAt = new Map<number, TimestampedArrangement>();
+		for (const version of [...moving, ...await this.load(toKey)]) {
+			bySavedAt.set(version.savedAt, version);
+		}
+		const merged = [...bySavedAt.values()].sort((a, b) => a.savedAt - b.savedAt);
+		const versions = this.retention.maxVersions > 0 ? applyRetention(merged, this.retention) : merged;
+		this.cache.set(toKey, versions);
+		this.cache.set(fromKey, []);
+		await this.fileFor(toKey).write({ versions });
+		await this.fileFor(fromKey).remove();
+	}
+}
@@ -23,4 +23,12 @@ export {
 } from './base';
 
 export { ExternalContextStore } from './external-store';
-export type { ExternalStoreConfig } from './external-store';
+export type { ExternalChange, ExternalStoreConfig, QuarantinedFile, SyncConflictMerge } from './external-store';
+
+export type { ContextStore, ContextStoreCapabilities, UidResolver } from './context-store';
+export { InlineContextStore } from './inline-context-store';
+export type { InlineKind } from './inline-context-store';
+export { JsonFileContextStore } from './json-context-store';
+export type { JsonFileStoreConfig } from './json-context-store';
+export { IndexedDbContextStore } from './indexeddb-store';
+export type { IndexedDbStoreConfig } from './indexeddb-store';
@@ -0,0 +1,299 @@
+// ============================================================================
+// IndexedDB Context Store
+// ----------------------------------------------------------------------------
+// ContextStore kept in the app's IndexedDB, for users who want no context
+// files at all. Apart from the perspecta-uid that identifies a note, nothing
+// is written to the vault or the plugin folder. The database belongs to
+// this device and is not synced.
+//
+//   database       perspecta-<app id>
+//   arrangements   { ws, uid, arrangements }   key [ws, uid]
+//   workspaces     { id, displayName }         key id
+//
+// The database is read into memory on first use; every change is written
+// through right away. If it can't be opened, the store reads as empty and
+// saves fail.
+// ============================================================================
+
+import { App, TFile } from 'obsidian';
+import {
+	ArrangementLabel,
+	DEFAULT_WORKSPACE_DISPLAY_NAME,
+	DEFAULT_WORKSPACE_ID,
+	TimestampedArrangement,
+	WindowArrangement,
+	WindowArrangementV2,
+	WorkspaceId,
+	WorkspaceInfo,
+} from '../types';
+import { ExtendedApp } from '../types/obsidian-internal';
+import { Logger } from '../utils/logger';
+import { ContextStore, ContextStoreCapabilities, ContextSummary, summarizeArrangements, UidResolver } from './context-store';
+
+const DB_VERSION = 1;
+const ARRANGEMENTS_STORE = 'arrangements';
+const WORKSPACES_STORE = 'workspaces';
+
+interface ArrangementRecord {
+	ws: WorkspaceId;
+	uid: string;
+	arrangements: TimestampedArrangement[];
+}
+
+interface WorkspaceRecord {
+	id: WorkspaceId;
+	displayName: string;
+}
+
+export interface IndexedDbStoreConfig {
+	app: App;
+	uids: UidResolver;
+	/** Defaults to the window's indexedDB. */
+	factory?: IDBFactory;
+}
+
+/** Database name for a vault. Obsidian shares one IndexedDB origin across vaults. */
+export function indexedDbName(app: App): string {
+	return `perspecta-${(app as ExtendedApp).appId ?? app.vault.getName()}`;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error);
+	});
+}
+
+export class IndexedDbContextStore implements ContextStore {
+	readonly capabilities: ContextStoreCapabilities = { multiple: true, labels: true, workspaces: true };
+	private app: App;
+	private uids: UidResolver;
+	private factory: IDBFactory | undefined;
+	private db: IDBDatabase | null = null;
+	private loading: Promise<void> | null = null;
+	// Workspace → UID → arrangements, oldest first.
+	private buckets = new Map<WorkspaceId, Map<string, TimestampedArrangement[]>>();
+	private workspaceNames = new Map<WorkspaceId, string>();
+	private activeWorkspaceId: WorkspaceId = DEFAULT_WORKSPACE_ID;
+
+	constructor(config: IndexedDbStoreConfig) {
+		this.app = config.app;
+		this.uids = config.uids;
+		this.factory = config.factory ?? (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+	}
+
+	/** Open the database and read it into memory, once. */
+	ensureLoaded(): Promise<void> {
+		if (!this.loading) this.loading = this.load();
+		return this.loading;
+	}
+
+	private async load(): Promise<void> {
+		try {
+			const db = await this.open();
+			const tx = db.transaction([ARRANGEMENTS_STORE, WORKSPACES_STORE], 'readonly');
+			const [records, workspaces] = await Promise.all([
+				requestResult(tx.objectStore(ARRANGEMENTS_STORE).getAll() as IDBRequest<ArrangementRecord[]>),
+				requestResult(tx.objectStore(WORKSPACES_STORE).getAll() as IDBRequest<WorkspaceRecord[]>),
+			]);
+			for (const record of records) {
+				this.bucketFor(record.ws).set(record.uid, record.arrangements);
+			}
+			for (const ws of workspaces) {
+				this.workspaceNames.set(ws.id, ws.displayName);
+			}
+			this.db = db;
+		} catch (e) {
+			Logger.error('Could not open the IndexedDB context store:', e);
+		}
+	}
+
+	private open(): Promise<IDBDatabase> {
+		if (!this.factory) return Promise.reject(new Error('IndexedDB is not available'));
+		const request = this.factory.open(indexedDbName(this.app), DB_VERSION);
+		request.onupgradeneeded = () => {
+			const db = request.result;
+			if (!db.objectStoreNames.contains(ARRANGEMENTS_STORE)) {
+				db.createObjectStore(ARRANGEMENTS_STORE, { keyPath: ['ws', 'uid'] });
+			}
+			if (!db.objectStoreNames.contains(WORKSPACES_STORE)) {
+				db.createObjectStore(WORKSPACES_STORE, { keyPath: 'id' });
+			}
+		};
+		return requestResult(request);
+	}
+
+	/** Close the database; the next call reopens it. */
+	close(): void {
+		this.db?.close();
+		this.db = null;
+		this.loading = null;
+		this.buckets.clear();
+		this.workspaceNames.clear();
+	}
+
+	private bucketFor(workspaceId: WorkspaceId): Map<string, TimestampedArrangement[]> {
+		let bucket = this.buckets.get(workspaceId);
+		if (!bucket) {
+			bucket = new Map();
+			this.buckets.set(workspaceId, bucket);
+		}
+		return bucket;
+	}
+
+	/** Write a UID's arrangements, or remove its record when there are none. */
+	private async persist(workspaceId: WorkspaceId, uid: string, arrangements: TimestampedArrangement[]): Promise<void> {
+		if (!this.db) throw new Error('IndexedDB context store is not open');
+		const tx = this.db.transaction(ARRANGEMENTS_STORE, 'readwrite');
+		const store = tx.objectStore(ARRANGEMENTS_STORE);
+		if (arrangements.length > 0) {
+			const record: ArrangementRecord = { ws: workspaceId, uid, arrangements };
+			store.put(record);
+		} else {
+			store.delete([workspaceId, uid]);
+		}
+		await transactionDone(tx);
+	}
+
+	/** UID and loaded arrangements (oldest first) of a note in a workspace. */
+	private async lookup(file: TFile, workspaceId: WorkspaceId): Promise<{ uid: string | undefined; arrangements: TimestampedArrangement[] }> {
+		await this.ensureLoaded();
+		const uid = await this.uids.get(file);
+		return { uid, arrangements: (uid && this.buckets.get(workspaceId)?.get(uid)) || [] };
+	}
+
+	/** Persist a UID's arrangements, then cache them; a failed write leaves the cache as it was. */
+	private async replace(workspaceId: WorkspaceId, uid: string, arrangements: TimestampedArrangement[]): Promise<void> {
+		await this.persist(workspaceId, uid, arrangements);
+		const bucket = this.bucketFor(workspaceId);
+		if (arrangements.length > 0) {
+			bucket.set(uid, arrangements);
+		} else {
+			bucket.delete(uid);
+		}
+	}
+
+	async getAll(file: TFile, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<TimestampedArrangement[]> {
+		const { arrangements } = await this.lookup(file, workspaceId);
+		return [...arrangements].sort((a, b) => b.savedAt - a.savedAt);
+	}
+
+	async getLatest(file: TFile, workspaceId?: WorkspaceId): Promise<WindowArrangement | null> {
+		return (await this.getAll(file, workspaceId))[0]?.arrangement ?? null;
+	}
+
+	async has(file: TFile, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<boolean> {
+		const { arrangements } = await this.lookup(file, workspaceId);
+		return arrangements.length > 0;
+	}
+
+	async summarize(file: TFile, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<ContextSummary | null> {
+		const { arrangements } = await this.lookup(file, workspaceId);
+		return summarizeArrangements(arrangements);
+	}
+
+	async set(file: TFile, arrangement: WindowArrangementV2, label: ArrangementLabel, maxArrangements: number): Promise<void> {
+		await this.ensureLoaded();
+		const uid = await this.uids.ensure(file);
+		const workspaceId = this.activeWorkspaceId;
+		const arrangements = [...this.buckets.get(workspaceId)?.get(uid) ?? [], { arrangement, savedAt: Date.now(), ...label }]
+			.sort((a, b) => a.savedAt - b.savedAt);
+		await this.replace(workspaceId, uid, arrangements.slice(-Math.max(1, maxArrangements)));
+	}
+
+	async merge(file: TFile, items: TimestampedArrangement[], maxArrangements: number, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<number> {
+		if (items.length === 0) return 0;
+		await this.ensureLoaded();
+		const uid = await this.uids.ensure(file);
+		const merged = [...this.buckets.get(workspaceId)?.get(uid) ?? []];
+		let added = 0;
+		for (const item of items) {
+			if (merged.some(m => m.savedAt === item.savedAt)) continue;
+			merged.push(item);
+			added++;
+		}
+		if (added === 0) return 0;
+		merged.sort((a, b) => a.savedAt - b.savedAt);
+		await this.replace(workspaceId, uid, merged.slice(-Math.max(1, maxArrangements)));
+		return added;
+	}
+
+	async updateArrangement(file: TFile, savedAt: number, arrangement: WindowArrangementV2, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<boolean> {
+		const { uid, arrangements } = await this.lookup(file, workspaceId);
+		if (!uid || !arrangements.some(a => a.savedAt === savedAt)) return false;
+		await this.replace(workspaceId, uid, arrangements.map(a => a.savedAt === savedAt ? { ...a, arrangement } : a));
+		return true;
+	}
+
+	async updateLabel(file: TFile, savedAt: number, label: ArrangementLabel, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<void> {
+		const { uid, arrangements } = await this.lookup(file, workspaceId);
+		if (!uid || !arrangements.some(a => a.savedAt === savedAt)) return;
+		await this.replace(workspaceId, uid, arrangements.map(a => a.savedAt === savedAt ? { arrangement: a.arrangement, savedAt, ...label } : a));
+	}
+
+	async deleteArrangement(file: TFile, savedAt: number, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<void> {
+		const { uid, arrangements } = await this.lookup(file, workspaceId);
+		if (!uid || !arrangements.some(a => a.savedAt === savedAt)) return;
+		await this.replace(workspaceId, uid, arrangements.filter(a => a.savedAt !== savedAt));
+	}
+
+	async delete(file: TFile, workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<void> {
+		const { uid, arrangements } = await this.lookup(file, workspaceId);
+		if (!uid || arrangements.length === 0) return;
+		await this.replace(workspaceId, uid, []);
+	}
+
+	async list(workspaceId: WorkspaceId = this.activeWorkspaceId): Promise<string[]> {
+		await this.ensureLoaded();
+		return Array.from(this.buckets.get(workspaceId)?.keys() ?? []);
+	}
+
+	getActiveWorkspace(): WorkspaceId {
+		return this.activeWorkspaceId;
+	}
+
+	setActiveWorkspace(workspaceId: WorkspaceId): void {
+		this.activeWorkspaceId = workspaceId;
+	}
+
+	/** Default first, then named workspaces and any bucket without a name. */
+	listWorkspaces(): WorkspaceInfo[] {
+		const ids = new Set<WorkspaceId>([DEFAULT_WORKSPACE_ID, ...this.workspaceNames.keys(), ...this.buckets.keys()]);
+		return Array.from(ids, id => ({
+			id,
+			displayName: id === DEFAULT_WORKSPACE_ID ? DEFAULT_WORKSPACE_DISPLAY_NAME : this.workspaceNames.get(id) ?? id,
+			shared: false,
+		}));
+	}
+
+	async ensureWorkspace(displayName: string, workspaceId: WorkspaceId): Promise<boolean> {
+		await this.ensureLoaded();
+		if (workspaceId === DEFAULT_WORKSPACE_ID || this.workspaceNames.has(workspaceId)) return false;
+		if (!this.db) throw new Error('IndexedDB context store is not open');
+		this.workspaceNames.set(workspaceId, displayName);
+		const tx = this.db.transaction(WORKSPACES_STORE, 'readwrite');
+		const record: WorkspaceRecord = { id: workspaceId, displayName };
+		tx.objectStore(WORKSPACES_STORE).put(record);
+		await transactionDone(tx);
+		return true;
+	}
+
+	async workspacesWith(file: TFile): Promise<WorkspaceId[]> {
+		await this.ensureLoaded();
+		const uid = await this.uids.get(file);
+		if (!uid) return [];
+		const result: WorkspaceId[] = [];
+		for (const [wsId, bucket] of this.buckets) {
+			if (bucket.get(uid)?.length) result.push(wsId);
+		}
+		return result;
+	}
+}
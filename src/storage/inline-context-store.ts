@@ -0,0 +1,195 @@
+// ============================================================================
+// Inline Context Store
+// ----------------------------------------------------------------------------
+// ContextStore over storage inside the note itself: markdown frontmatter,
+// the JSON of a canvas, the YAML of a base. One arrangement per note, no
+// workspaces. The arrangement's own `ts` stands in for savedAt.
+// ============================================================================
+
+import { App, TFile } from 'obsidian';
+import {
+	ArrangementLabel,
+	DEFAULT_WORKSPACE_DISPLAY_NAME,
+	DEFAULT_WORKSPACE_ID,
+	TimestampedArrangement,
+	WindowArrangement,
+	WindowArrangementV2,
+	WorkspaceId,
+	WorkspaceInfo,
+} from '../types';
+import { ContextStore, ContextStoreCapabilities, ContextSummary, summarizeArrangements } from './context-store';
+import {
+	getContextFromFrontmatter,
+	getLabelFromFrontmatter,
+	hasContextInFrontmatter,
+	removeContextFromFrontmatter,
+	saveContextToFrontmatter,
+} from './frontmatter-store';
+import { canvasHasContext, getContextFromCanvas, removeContextFromCanvas, saveContextToCanvas } from './canvas';
+import { baseHasContext, getContextFromBase, removeContextFromBase, saveContextToBase } from './base';
+import { normalizeToV2 } from '../services/migrations';
+import { labelOf } from '../services/labels';
+
+/** Read/write/remove for one kind of inline storage. */
+interface InlineFormat {
+	extension: string;
+	labels: boolean;
+	read(app: App, file: TFile): Promise<WindowArrangement | null>;
+	readLabel(app: App, file: TFile): ArrangementLabel;
+	write(app: App, file: TFile, arrangement: WindowArrangementV2, label: ArrangementLabel): Promise<void>;
+	remove(app: App, file: TFile): Promise<boolean>;
+	has(app: App, file: TFile): Promise<boolean>;
+}
+
+export type InlineKind = 'frontmatter' | 'canvas' | 'base';
+
+const FRONTMATTER_FORMAT: InlineFormat = {
+	extension: 'md',
+	labels: true,
+	read: async (app, file) => getContextFromFrontmatter(app, file),
+	readLabel: getLabelFromFrontmatter,
+	write: saveContextToFrontmatter,
+	remove: removeContextFromFrontmatter,
+	has: async (app, file) => hasContextInFrontmatter(app, file),
+};
+
+const CANVAS_FORMAT: InlineFormat = {
+	extension: 'canvas',
+	labels: false,
+	read: getContextFromCanvas,
+	readLabel: () => ({}),
+	write: (app, file, arrangement) => saveContextToCanvas(app, file, arrangement),
+	remove: removeContextFromCanvas,
+	has: canvasHasContext,
+};
+
+const BASE_FORMAT: InlineFormat = {
+	extension: 'base',
+	labels: false,
+	read: getContextFromBase,
+	readLabel: () => ({}),
+	write: (app, file, arrangement) => saveContextToBase(app, file, arrangement),
+	remove: removeContextFromBase,
+	has: baseHasContext,
+};
+
+const FORMATS: Record<InlineKind, InlineFormat> = {
+	frontmatter: FRONTMATTER_FORMAT,
+	canvas: CANVAS_FORMAT,
+	base: BASE_FORMAT,
+};
+
+const DEFAULT_WORKSPACE: WorkspaceInfo = { id: DEFAULT_WORKSPACE_ID, displayName: DEFAULT_WORKSPACE_DISPLAY_NAME, shared: false };
+
+export class InlineContextStore implements ContextStore {
+	readonly capabilities: ContextStoreCapabilities;
+	private app: App;
+	private format: InlineFormat;
+
+	constructor(app: App, kind: InlineKind) {
+		this.app = app;
+		this.format = FORMATS[kind];
+		this.capabilities = { multiple: false, labels: this.format.labels, workspaces: false };
+	}
+
+	private handles(file: TFile, workspaceId: WorkspaceId = DEFAULT_WORKSPACE_ID): boolean {
+		return file.extension === this.format.extension && workspaceId === DEFAULT_WORKSPACE_ID;
+	}
+
+	private async read(file: TFile, workspaceId?: WorkspaceId): Promise<TimestampedArrangement | null> {
+		if (!this.handles(file, workspaceId)) return null;
+		const stored = await this.format.read(this.app, file);
+		if (!stored) return null;
+		const arrangement = normalizeToV2(stored);
+		return { arrangement, savedAt: arrangement.ts, ...this.format.readLabel(this.app, file) };
+	}
+
+	async getAll(file: TFile, workspaceId?: WorkspaceId): Promise<TimestampedArrangement[]> {
+		const entry = await this.read(file, workspaceId);
+		return entry ? [entry] : [];
+	}
+
+	async getLatest(file: TFile, workspaceId?: WorkspaceId): Promise<WindowArrangement | null> {
+		if (!this.handles(file, workspaceId)) return null;
+		return this.format.read(this.app, file);
+	}
+
+	async has(file: TFile, workspaceId?: WorkspaceId): Promise<boolean> {
+		return this.handles(file, workspaceId) && this.format.has(this.app, file);
+	}
+
+	async summarize(file: TFile, workspaceId?: WorkspaceId): Promise<ContextSummary | null> {
+		return summarizeArrangements(await this.getAll(file, workspaceId));
+	}
+
+	async set(file: TFile, arrangement: WindowArrangementV2, label: ArrangementLabel): Promise<void> {
+		if (!this.handles(file)) return;
+		await this.format.write(this.app, file, arrangement, label);
+	}
+
+	async merge(file: TFile, items: TimestampedArrangement[], _maxArrangements: number, workspaceId?: WorkspaceId): Promise<number> {
+		if (!this.handles(file, workspaceId) || items.length === 0) return 0;
+		const newest = items.reduce((a, b) => b.savedAt > a.savedAt ? b : a);
+		const existing = await this.read(file);
+		if (existing && existing.savedAt >= newest.savedAt) return 0;
+		await this.format.write(this.app, file, newest.arrangement, labelOf(newest));
+		return 1;
+	}
+
+	async updateArrangement(file: TFile, savedAt: number, arrangement: WindowArrangementV2, workspaceId?: WorkspaceId): Promise<boolean> {
+		const entry = await this.read(file, workspaceId);
+		if (entry?.savedAt !== savedAt) return false;
+		// savedAt is the arrangement's own ts here
+		await this.format.write(this.app, file, { ...arrangement, ts: savedAt }, labelOf(entry));
+		return true;
+	}
+
+	async updateLabel(file: TFile, savedAt: number, label: ArrangementLabel, workspaceId?: WorkspaceId): Promise<void> {
+		if (!this.format.labels) return;
+		const entry = await this.read(file, workspaceId);
+		if (entry?.savedAt !== savedAt) return;
+		await this.format.write(this.app, file, entry.arrangement, label);
+	}
+
+	async deleteArrangement(file: TFile, savedAt: number, workspaceId?: WorkspaceId): Promise<void> {
+		const entry = await this.read(file, workspaceId);
+		if (entry?.savedAt !== savedAt) return;
+		await this.format.remove(this.app, file);
+	}
+
+	async delete(file: TFile, workspaceId?: WorkspaceId): Promise<void> {
+		if (!this.handles(file, workspaceId)) return;
+		await this.format.remove(this.app, file);
+	}
+
+	async list(workspaceId: WorkspaceId = DEFAULT_WORKSPACE_ID): Promise<string[]> {
+		if (workspaceId !== DEFAULT_WORKSPACE_ID) return [];
+		const paths: string[] = [];
+		for (const file of this.app.vault.getFiles()) {
+			if (file.extension === this.format.extension && await this.format.has(this.app, file)) {
+				paths.push(file.path);
+			}
+		}
+		return paths;
+	}
+
+	getActiveWorkspace(): WorkspaceId {
+		return DEFAULT_WORKSPACE_ID;
+	}
+
+	setActiveWorkspace(): void {
+		// Inline storage is the same in every workspace
+	}
+
+	listWorkspaces(): WorkspaceInfo[] {
+		return [DEFAULT_WORKSPACE];
+	}
+
+	async ensureWorkspace(): Promise<boolean> {
+		return false;
+	}
+
+	async workspacesWith(file: TFile): Promise<WorkspaceId[]> {
+		return await this.has(file) ? [DEFAULT_WORKSPACE_ID] : [];
+	}
+}
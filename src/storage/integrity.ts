@@ -0,0 +1,97 @@
+// ============================================================================
+// Store File Integrity
+// ----------------------------------------------------------------------------
+// Crash-safe writes and checksums for the external store's JSON files.
+//
+// writeAtomic writes to `<file>.tmp` and only then replaces the real file,
+// so a crash mid-write leaves the previous version intact. If the crash
+// happens between removing the old file and renaming the new one, the
+// complete `.tmp` is picked up by recoverTempFile on the next load.
+//
+// Sealed files carry a `checksum` key over the rest of the object. Files
+// written before checksums existed have none and are accepted as they are.
+// A file that still parses but no longer matches its checksum was edited
+// outside the plugin; the store takes the edit and reseals the file.
+// Only files that no longer parse are treated as damaged.
+// ============================================================================
+
+import { DataAdapter } from 'obsidian';
+
+export const TEMP_SUFFIX = '.tmp';
+
+/** 32-bit FNV-1a hash of a string, as 8 hex digits. */
+export function checksum(text: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Serialize an object with a checksum over its other keys. The checksum is
+ * taken over the compact JSON, so `space` only affects the file's layout.
+ */
+export function sealJson(data: object, space?: number): string {
+	return JSON.stringify({ ...data, checksum: checksum(JSON.stringify(data)) }, null, space);
+}
+
+/**
+ * - ok: checksum matches
+ * - unsealed: valid JSON object without a checksum (older file)
+ * - mismatch: valid JSON object whose checksum doesn't match (edited by hand)
+ * - invalid: not a JSON object (truncated, conflict markers, ...)
+ */
+export type SealStatus = 'ok' | 'unsealed' | 'mismatch' | 'invalid';
+
+/**
+ * Parse a sealed file. The checksum key is removed from the returned data.
+ */
+export function openSealedJson(text: string): { data: unknown; status: SealStatus } {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return { data: null, status: 'invalid' };
+	}
+	if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+		return { data: null, status: 'invalid' };
+	}
+
+	const { checksum: sum, ...data } = parsed as Record<string, unknown>;
+	if (sum === undefined) return { data, status: 'unsealed' };
+	return { data, status: sum === checksum(JSON.stringify(data)) ? 'ok' : 'mismatch' };
+}
+
+/** Write a file via `<path>.tmp` and a rename, never truncating the old copy in place. */
+export async function writeAtomic(adapter: DataAdapter, path: string, content: string): Promise<void> {
+	const tmp = `${path}${TEMP_SUFFIX}`;
+	await adapter.write(tmp, content);
+	if (await adapter.exists(path)) {
+		await adapter.remove(path);
+	}
+	await adapter.rename(tmp, path);
+}
+
+/**
+ * Deal with a `.tmp` file left behind by an interrupted writeAtomic: a
+ * complete one (valid checksum) replaces the real file, anything else is
+ * discarded.
+ *
+ * @param tmpPath Path of the `.tmp` file
+ * @returns True if the temp file was promoted to the real file
+ */
+export async function recoverTempFile(adapter: DataAdapter, tmpPath: string): Promise<boolean> {
+	const path = tmpPath.slice(0, -TEMP_SUFFIX.length);
+	const { status } = openSealedJson(await adapter.read(tmpPath));
+	if (status !== 'ok') {
+		await adapter.remove(tmpPath);
+		return false;
+	}
+	if (await adapter.exists(path)) {
+		await adapter.remove(path);
+	}
+	await adapter.rename(tmpPath, path);
+	return true;
+}
@@ -0,0 +1,124 @@
+// ============================================================================
+// JSON File Context Store
+// ----------------------------------------------------------------------------
+// ContextStore over the external store's per-workspace JSON files (the
+// "external" storage mode). Files are found by perspecta-uid; canvas and
+// base files, whose UID sits inside the file, are looked up through the
+// external store's path hints first so they aren't read on every scan.
+// ============================================================================
+
+import { TFile } from 'obsidian';
+import { ArrangementLabel, TimestampedArrangement, WindowArrangement, WindowArrangementV2, WorkspaceId, WorkspaceInfo } from '../types';
+import { ContextStore, ContextStoreCapabilities, ContextSummary, UidResolver } from './context-store';
+import { ExternalContextStore } from './external-store';
+
+export interface JsonFileStoreConfig {
+	store: ExternalContextStore;
+	uids: UidResolver;
+}
+
+export class JsonFileContextStore implements ContextStore {
+	readonly capabilities: ContextStoreCapabilities = { multiple: true, labels: true, workspaces: true };
+	private store: ExternalContextStore;
+	private uids: UidResolver;
+
+	constructor(config: JsonFileStoreConfig) {
+		this.store = config.store;
+		this.uids = config.uids;
+	}
+
+	private async uidFor(file: TFile): Promise<string | undefined> {
+		await this.store.ensureInitialized();
+		if (file.extension === 'md') return this.uids.get(file);
+		return this.store.getPathHint(file.path) ?? await this.uids.get(file);
+	}
+
+	async getAll(file: TFile, workspaceId?: WorkspaceId): Promise<TimestampedArrangement[]> {
+		const uid = await this.uidFor(file);
+		return uid ? this.store.getAll(uid, workspaceId) : [];
+	}
+
+	async getLatest(file: TFile, workspaceId?: WorkspaceId): Promise<WindowArrangement | null> {
+		const uid = await this.uidFor(file);
+		return uid ? this.store.getLatest(uid, workspaceId) : null;
+	}
+
+	async has(file: TFile, workspaceId?: WorkspaceId): Promise<boolean> {
+		const uid = await this.uidFor(file);
+		return !!uid && this.store.has(uid, workspaceId);
+	}
+
+	async summarize(file: TFile, workspaceId?: WorkspaceId): Promise<ContextSummary | null> {
+		const uid = await this.uidFor(file);
+		return uid ? this.store.getSummary(uid, workspaceId) : null;
+	}
+
+	async set(file: TFile, arrangement: WindowArrangementV2, label: ArrangementLabel, maxArrangements: number): Promise<void> {
+		const uid = await this.uids.ensure(file);
+		await this.store.ensureInitialized();
+		await this.store.set(uid, arrangement, maxArrangements, undefined, label);
+		if (file.extension !== 'md') this.store.setPathHint(uid, file.path);
+	}
+
+	async merge(file: TFile, items: TimestampedArrangement[], maxArrangements: number, workspaceId?: WorkspaceId): Promise<number> {
+		if (items.length === 0) return 0;
+		const uid = await this.uids.ensure(file);
+		await this.store.ensureInitialized();
+		const added = await this.store.mergeArrangements(uid, items, maxArrangements, workspaceId);
+		if (file.extension !== 'md') this.store.setPathHint(uid, file.path);
+		return added;
+	}
+
+	async updateArrangement(file: TFile, savedAt: number, arrangement: WindowArrangementV2, workspaceId?: WorkspaceId): Promise<boolean> {
+		const uid = await this.uidFor(file);
+		return !!uid && this.store.updateArrangement(uid, savedAt, arrangement, workspaceId);
+	}
+
+	async updateLabel(file: TFile, savedAt: number, label: ArrangementLabel, workspaceId?: WorkspaceId): Promise<void> {
+		const uid = await this.uidFor(file);
+		if (uid) await this.store.updateLabel(uid, savedAt, label, workspaceId);
+	}
+
+	async deleteArrangement(file: TFile, savedAt: number, workspaceId?: WorkspaceId): Promise<void> {
+		const uid = await this.uidFor(file);
+		if (uid) await this.store.deleteArrangement(uid, savedAt, workspaceId);
+	}
+
+	async delete(file: TFile, workspaceId?: WorkspaceId): Promise<void> {
+		const uid = await this.uidFor(file);
+		if (uid) await this.store.delete(uid, workspaceId);
+	}
+
+	async list(workspaceId?: WorkspaceId): Promise<string[]> {
+		await this.store.ensureInitialized();
+		return this.store.getAllUids(workspaceId);
+	}
+
+	getActiveWorkspace(): WorkspaceId {
+		return this.store.getActiveWorkspace();
+	}
+
+	setActiveWorkspace(workspaceId: WorkspaceId): void {
+		this.store.setActiveWorkspace(workspaceId);
+	}
+
+	listWorkspaces(): WorkspaceInfo[] {
+		return this.store.listWorkspaces();
+	}
+
+	async ensureWorkspace(displayName: string, workspaceId: WorkspaceId): Promise<boolean> {
+		// Buckets are created once the store has loaded its manifest
+		if (!this.store.isInitialized() || this.store.hasWorkspace(workspaceId)) return false;
+		await this.store.createWorkspaceBucket(displayName, workspaceId);
+		return true;
+	}
+
+	async workspacesWith(file: TFile): Promise<WorkspaceId[]> {
+		const uid = await this.uidFor(file);
+		if (!uid) return [];
+		const workspaces = this.store.workspacesWithUid(uid);
+		// Remember where a canvas/base UID was found for the next lookup
+		if (workspaces.length > 0 && file.extension !== 'md') this.store.setPathHint(uid, file.path);
+		return workspaces;
+	}
+}
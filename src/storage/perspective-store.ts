@@ -0,0 +1,129 @@
+// ============================================================================
+// Perspective Store
+// ----------------------------------------------------------------------------
+// Named arrangements that don't belong to any note ("Morning review",
+// "Writing sprint"). They live in their own file, separate from the per-UID
+// context buckets, so saving one never needs a note or a UID:
+//
+//   <plugin-dir>/perspectives.json
+//
+// Names are unique (case-insensitive): saving under an existing name
+// replaces that perspective and keeps its id.
+// ============================================================================
+
+import { App, PluginManifest } from 'obsidian';
+import { ArrangementLabel, TimestampedArrangement, WindowArrangementV2 } from '../types';
+import { generateUid } from '../utils/uid';
+import { PluginDataFile } from './plugin-data-file';
+
+const PERSPECTIVES_FILENAME = 'perspectives.json';
+
+export interface Perspective extends TimestampedArrangement {
+	id: string;
+	name: string;
+}
+
+export interface PerspectiveStoreConfig {
+	app: App;
+	manifest: PluginManifest;
+}
+
+function sameName(a: string, b: string): boolean {
+	return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export class PerspectiveStore {
+	private file: PluginDataFile<{ perspectives: Perspective[] }>;
+	private perspectives: Perspective[] = [];
+
+	constructor(config: PerspectiveStoreConfig) {
+		this.file = new PluginDataFile({
+			...config,
+			name: PERSPECTIVES_FILENAME,
+			description: 'perspectives',
+			isValid: data => Array.isArray(data.perspectives),
+			space: 2,
+		});
+	}
+
+	get size(): number {
+		return this.perspectives.length;
+	}
+
+	async load(): Promise<void> {
+		const data = await this.file.read();
+		if (data) this.perspectives = data.perspectives;
+	}
+
+	/** All perspectives, sorted by name. */
+	list(): Perspective[] {
+		return [...this.perspectives].sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	get(id: string): Perspective | null {
+		return this.perspectives.find(p => p.id === id) ?? null;
+	}
+
+	findByName(name: string): Perspective | null {
+		return this.perspectives.find(p => sameName(p.name, name)) ?? null;
+	}
+
+	/**
+	 * Save an arrangement as a perspective. An existing perspective with the
+	 * same name is replaced (same id, new arrangement and label).
+	 */
+	async save(arrangement: WindowArrangementV2, label: ArrangementLabel & { name: string }): Promise<Perspective> {
+		const existing = this.findByName(label.name);
+		const perspective: Perspective = {
+			...label,
+			id: existing?.id ?? generateUid(),
+			arrangement,
+			savedAt: Date.now(),
+		};
+
+		if (existing) {
+			this.perspectives = this.perspectives.map(p => p.id === existing.id ? perspective : p);
+		} else {
+			this.perspectives.push(perspective);
+		}
+		await this.persist();
+		return perspective;
+	}
+
+	/**
+	 * Change name, description and tags. A label without a name keeps the
+	 * current name.
+	 *
+	 * @returns False if the perspective doesn't exist or the new name is taken
+	 */
+	async updateLabel(id: string, label: ArrangementLabel): Promise<boolean> {
+		const current = this.get(id);
+		if (!current) return false;
+		const name = label.name ?? current.name;
+		if (this.perspectives.some(p => p.id !== id && sameName(p.name, name))) return false;
+
+		const updated: Perspective = { id, name, arrangement: current.arrangement, savedAt: current.savedAt };
+		if (label.description) updated.description = label.description;
+		if (label.tags?.length) updated.tags = label.tags;
+		this.perspectives = this.perspectives.map(p => p.id === id ? updated : p);
+		await this.persist();
+		return true;
+	}
+
+	/** Replace the stored arrangement (e.g. after path corrections), keeping the label. */
+	async updateArrangement(id: string, arrangement: WindowArrangementV2): Promise<void> {
+		if (!this.get(id)) return;
+		this.perspectives = this.perspectives.map(p => p.id === id ? { ...p, arrangement } : p);
+		await this.persist();
+	}
+
+	async delete(id: string): Promise<void> {
+		const before = this.perspectives.length;
+		this.perspectives = this.perspectives.filter(p => p.id !== id);
+		if (this.perspectives.length !== before) await this.persist();
+	}
+
+	private async persist(): Promise<void> {
+		await this.file.write({ perspectives: this.perspectives });
+	}
+}
@@ -0,0 +1,107 @@
+// ============================================================================
+// Plugin Data File
+// ----------------------------------------------------------------------------
+// One small versioned JSON file in the plugin folder, next to data.json:
+// perspectives, layout templates, undo snapshots, session state and the
+// per-note history files are all built on it.
+//
+//   <plugin-dir>/<name>      { "v": 1, ...payload, "checksum": "…" }
+//
+// Files are written sealed through writeAtomic (see integrity.ts), so a
+// crash mid-write keeps the previous version. Files from before sealing,
+// and files edited by hand, are read as they are; anything that doesn't
+// parse, or isn't version 1 of the expected shape, reads as missing.
+//
+// Reads and writes never throw: failures are logged and the store carries
+// on with what it has in memory.
+// ============================================================================
+
+import { App, DataAdapter, PluginManifest } from 'obsidian';
+import { openSealedJson, recoverTempFile, sealJson, TEMP_SUFFIX, writeAtomic } from './integrity';
+import { Logger } from '../utils/logger';
+
+export interface PluginDataFileConfig {
+	app: App;
+	manifest: PluginManifest;
+	/** Path inside the plugin folder, e.g. `perspectives.json`. */
+	name: string;
+	/** What the file holds, for log messages ("perspectives"). */
+	description: string;
+	/** Shape check on a version 1 file; its payload is the T read() returns. */
+	isValid: (data: Record<string, unknown>) => boolean;
+	/** Indentation of the written JSON; compact if omitted. */
+	space?: number;
+}
+
+export class PluginDataFile<T extends object> {
+	private app: App;
+	private manifest: PluginManifest;
+	private name: string;
+	private description: string;
+	private isValid: (data: Record<string, unknown>) => boolean;
+	private space?: number;
+
+	constructor(config: PluginDataFileConfig) {
+		this.app = config.app;
+		this.manifest = config.manifest;
+		this.name = config.name;
+		this.description = config.description;
+		this.isValid = config.isValid;
+		this.space = config.space;
+	}
+
+	private get adapter(): DataAdapter {
+		return this.app.vault.adapter;
+	}
+
+	get path(): string {
+		return `${this.manifest.dir}/${this.name}`;
+	}
+
+	/** The file's payload, or null if it is missing or unreadable. */
+	async read(): Promise<T | null> {
+		try {
+			const tmpPath = `${this.path}${TEMP_SUFFIX}`;
+			if (await this.adapter.exists(tmpPath)) {
+				await recoverTempFile(this.adapter, tmpPath);
+			}
+			if (!await this.adapter.exists(this.path)) return null;
+
+			const { data, status } = openSealedJson(await this.adapter.read(this.path));
+			const record = data as Record<string, unknown> | null;
+			if (status === 'invalid' || record?.v !== 1 || !this.isValid(record)) {
+				Logger.warn(`Invalid ${this.description} file (${status}), ignoring`);
+				return null;
+			}
+			const { v: _version, ...payload } = record;
+			return payload as T;
+		} catch (e) {
+			Logger.warn(`Could not load ${this.description}:`, e);
+			return null;
+		}
+	}
+
+	/** Write the payload sealed; creates the folder if needed. */
+	async write(payload: T): Promise<void> {
+		try {
+			const folder = this.path.slice(0, this.path.lastIndexOf('/'));
+			if (folder && !await this.adapter.exists(folder)) {
+				await this.adapter.mkdir(folder);
+			}
+			await writeAtomic(this.adapter, this.path, sealJson({ v: 1, ...payload }, this.space));
+		} catch (e) {
+			Logger.error(`Could not save ${this.description}:`, e);
+		}
+	}
+
+	/** Delete the file if it exists. */
+	async remove(): Promise<void> {
+		try {
+			if (await this.adapter.exists(this.path)) {
+				await this.adapter.remove(this.path);
+			}
+		} catch (e) {
+			Logger.error(`Could not remove ${this.description}:`, e);
+		}
+	}
+}
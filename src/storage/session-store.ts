@@ -0,0 +1,71 @@
+// ============================================================================
+// Session Store
+// ----------------------------------------------------------------------------
+// The context note last restored or saved in each workspace bucket, so the
+// next start of Obsidian can offer to bring that context back.
+//
+//   <plugin-dir>/session.json
+//
+// Like the undo snapshots, the file only carries the state across a
+// restart: a failed read or write is logged and otherwise ignored.
+// ============================================================================
+
+import { App, PluginManifest } from 'obsidian';
+import { WorkspaceId } from '../types';
+import { PluginDataFile } from './plugin-data-file';
+
+const SESSION_FILENAME = 'session.json';
+
+export interface LastContextNote {
+	path: string;
+	/** perspecta-uid of the note, to find it after a rename. */
+	uid?: string;
+	/** When the context was last restored or saved. */
+	at: number;
+}
+
+export interface SessionStoreConfig {
+	app: App;
+	manifest: PluginManifest;
+}
+
+export class SessionStore {
+	private file: PluginDataFile<{ lastContext: Record<WorkspaceId, LastContextNote> }>;
+	private lastContext: Record<WorkspaceId, LastContextNote> = {};
+
+	constructor(config: SessionStoreConfig) {
+		this.file = new PluginDataFile({
+			...config,
+			name: SESSION_FILENAME,
+			description: 'session state',
+			isValid: data => typeof data.lastContext === 'object' && data.lastContext !== null,
+		});
+	}
+
+	async load(): Promise<void> {
+		const data = await this.file.read();
+		if (data) this.lastContext = data.lastContext;
+	}
+
+	/** Context note last used in a workspace bucket. */
+	getLastContext(workspaceId: WorkspaceId): LastContextNote | undefined {
+		return this.lastContext[workspaceId];
+	}
+
+	async setLastContext(workspaceId: WorkspaceId, note: LastContextNote): Promise<void> {
+		const current = this.lastContext[workspaceId];
+		if (current && current.path === note.path && current.uid === note.uid && current.at === note.at) return;
+		this.lastContext[workspaceId] = note;
+		await this.persist();
+	}
+
+	async clearLastContext(workspaceId: WorkspaceId): Promise<void> {
+		if (!(workspaceId in this.lastContext)) return;
+		delete this.lastContext[workspaceId];
+		await this.persist();
+	}
+
+	private async persist(): Promise<void> {
+		await this.file.write({ lastContext: this.lastContext });
+	}
+}
@@ -0,0 +1,36 @@
+// ============================================================================
+// Sync Conflict Copies
+// ----------------------------------------------------------------------------
+// Shared workspace buckets live in the vault and travel via Obsidian Sync,
+// Syncthing, Dropbox and the like. When two devices change the same context
+// file, those tools keep both versions by writing a conflict copy next to
+// the original:
+//
+//   <uid> (conflict 2026-10-01).json                    Obsidian Sync
+//   <uid> (conflict 2026-10-01 123456).json
+//   <uid>.sync-conflict-20261001-123456-ABCDEF7.json    Syncthing
+//   <uid> (Jane's conflicted copy 2026-10-01).json      Dropbox
+//
+// The external store merges these into the original by savedAt and then
+// deletes them (see ExternalContextStore.loadWorkspaceBucket).
+// ============================================================================
+
+const CONFLICT_PATTERNS: RegExp[] = [
+	/^(.+?) \(conflict[^)]*\)\.json$/i,
+	/^(.+?)\.sync-conflict-[^.]*\.json$/i,
+	/^(.+?) \([^)]*conflicted copy[^)]*\)\.json$/i,
+];
+
+/**
+ * The UID a conflict copy belongs to, or null if the file name isn't a
+ * conflict copy.
+ *
+ * @param fileName File name without folder, e.g. `abc (conflict 2026-10-01).json`
+ */
+export function conflictCopyUid(fileName: string): string | null {
+	for (const pattern of CONFLICT_PATTERNS) {
+		const match = fileName.match(pattern);
+		if (match) return match[1];
+	}
+	return null;
+}
@@ -0,0 +1,81 @@
+// ============================================================================
+// Layout Template Store
+// ----------------------------------------------------------------------------
+// Saved layout templates (see services/templates), kept apart from contexts
+// and perspectives because they hold slots rather than concrete files:
+//
+//   <plugin-dir>/templates.json
+//
+// Like perspectives, names are unique (case-insensitive) and saving under an
+// existing name replaces that template.
+// ============================================================================
+
+import { App, PluginManifest } from 'obsidian';
+import { LayoutTemplate } from '../services/templates';
+import { generateUid } from '../utils/uid';
+import { PluginDataFile } from './plugin-data-file';
+
+const TEMPLATES_FILENAME = 'templates.json';
+
+export interface TemplateStoreConfig {
+	app: App;
+	manifest: PluginManifest;
+}
+
+export class TemplateStore {
+	private file: PluginDataFile<{ templates: LayoutTemplate[] }>;
+	private templates: LayoutTemplate[] = [];
+
+	constructor(config: TemplateStoreConfig) {
+		this.file = new PluginDataFile({
+			...config,
+			name: TEMPLATES_FILENAME,
+			description: 'layout templates',
+			isValid: data => Array.isArray(data.templates),
+			space: 2,
+		});
+	}
+
+	get size(): number {
+		return this.templates.length;
+	}
+
+	async load(): Promise<void> {
+		const data = await this.file.read();
+		if (data) this.templates = data.templates;
+	}
+
+	/** All templates, sorted by name. */
+	list(): LayoutTemplate[] {
+		return [...this.templates].sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	findByName(name: string): LayoutTemplate | null {
+		const key = name.trim().toLowerCase();
+		return this.templates.find(t => t.name.trim().toLowerCase() === key) ?? null;
+	}
+
+	/** Save a template, replacing one with the same name (keeping its id). */
+	async save(template: Omit<LayoutTemplate, 'id' | 'savedAt'>): Promise<LayoutTemplate> {
+		const existing = this.findByName(template.name);
+		const saved: LayoutTemplate = { ...template, id: existing?.id ?? generateUid(), savedAt: Date.now() };
+
+		if (existing) {
+			this.templates = this.templates.map(t => t.id === existing.id ? saved : t);
+		} else {
+			this.templates.push(saved);
+		}
+		await this.persist();
+		return saved;
+	}
+
+	async delete(id: string): Promise<void> {
+		const before = this.templates.length;
+		this.templates = this.templates.filter(t => t.id !== id);
+		if (this.templates.length !== before) await this.persist();
+	}
+
+	private async persist(): Promise<void> {
+		await this.file.write({ templates: this.templates });
+	}
+}
@@ -0,0 +1,95 @@
+// ============================================================================
+// Undo Snapshot Store
+// ----------------------------------------------------------------------------
+// A small ring of workspace snapshots, each taken right before a restore
+// replaced the layout, so "Undo last restore" can bring it back. Newest
+// snapshot last; the oldest is dropped once the ring is full.
+//
+//   <plugin-dir>/undo-snapshots.json
+//
+// The file only makes an undo survive a reload. The in-memory ring is the
+// source of truth: a failed read or write is logged and otherwise ignored.
+// ============================================================================
+
+import { App, PluginManifest } from 'obsidian';
+import { WindowArrangementV2 } from '../types';
+import { PluginDataFile } from './plugin-data-file';
+
+const UNDO_FILENAME = 'undo-snapshots.json';
+
+export interface UndoSnapshot {
+	arrangement: WindowArrangementV2;
+	takenAt: number;
+	/** Note whose context was restored over this snapshot. */
+	contextNotePath?: string;
+}
+
+export interface UndoStoreConfig {
+	app: App;
+	manifest: PluginManifest;
+	/** Number of snapshots to keep (0 disables undo). */
+	capacity: number;
+}
+
+export class UndoSnapshotStore {
+	private file: PluginDataFile<{ snapshots: UndoSnapshot[] }>;
+	private capacity: number;
+	private snapshots: UndoSnapshot[] = [];
+
+	constructor(config: UndoStoreConfig) {
+		this.file = new PluginDataFile({
+			app: config.app,
+			manifest: config.manifest,
+			name: UNDO_FILENAME,
+			description: 'undo snapshots',
+			isValid: data => Array.isArray(data.snapshots),
+		});
+		this.capacity = Math.max(0, config.capacity);
+	}
+
+	/** Number of snapshots that can currently be undone. */
+	get size(): number {
+		return this.snapshots.length;
+	}
+
+	/** Load persisted snapshots (trimmed to the current capacity). */
+	async load(): Promise<void> {
+		const data = await this.file.read();
+		if (data) this.snapshots = this.capacity > 0 ? data.snapshots.slice(-this.capacity) : [];
+	}
+
+	/** Change the ring size; drops the oldest snapshots if it shrinks. */
+	async setCapacity(capacity: number): Promise<void> {
+		this.capacity = Math.max(0, capacity);
+		if (this.snapshots.length > this.capacity) {
+			this.snapshots = this.capacity > 0 ? this.snapshots.slice(-this.capacity) : [];
+			await this.persist();
+		}
+	}
+
+	/** Add a snapshot, dropping the oldest once the ring is full. */
+	async push(snapshot: UndoSnapshot): Promise<void> {
+		if (this.capacity === 0) return;
+		this.snapshots.push(snapshot);
+		if (this.snapshots.length > this.capacity) {
+			this.snapshots = this.snapshots.slice(-this.capacity);
+		}
+		await this.persist();
+	}
+
+	/** The newest snapshot, without removing it. */
+	peek(): UndoSnapshot | null {
+		return this.snapshots[this.snapshots.length - 1] ?? null;
+	}
+
+	/** Remove and return the newest snapshot. */
+	async pop(): Promise<UndoSnapshot | null> {
+		const snapshot = this.snapshots.pop() ?? null;
+		if (snapshot) await this.persist();
+		return snapshot;
+	}
+
+	private async persist(): Promise<void> {
+		await this.file.write({ snapshots: this.snapshots });
+	}
+}
@@ -39,6 +39,21 @@ export function err<T>(error: string): Result<T> {
 	return { success: false, error };
 }
 
+/** Editing mode of a markdown tab. */
+export type MarkdownViewMode = 'source' | 'live' | 'reading';
+
+/** A cursor or selection in a markdown editor (0-based line/ch, like Obsidian's EditorSelection). */
+export interface EditorRangeState {
+	anchor: { line: number; ch: number };
+	head: { line: number; ch: number };
+}
+
+/** A folded line range in a markdown editor (matches Obsidian's fold info). */
+export interface FoldRangeState {
+	from: number;
+	to: number;
+}
+
 export interface TabState {
 	path: string;
 	active: boolean;
@@ -46,12 +61,22 @@ export interface TabState {
 	name?: string;  // Filename without extension (fallback for search)
 	scroll?: number; // Scroll position (from view.currentMode.getScroll())
 	propertiesCollapsed?: boolean; // Whether Properties (frontmatter) section is collapsed in Live Preview
+	viewMode?: MarkdownViewMode; // Markdown tabs only: source / live preview / reading view
+	selections?: EditorRangeState[]; // Editor cursor + selection ranges (omitted when just a caret at 0:0)
+	folds?: FoldRangeState[]; // Folded headings / list items
+	pinned?: boolean; // Tab is pinned
+	group?: string; // Linked-pane group label ('g1', 'g2', ...); tabs sharing a label are linked, across tab groups and windows
 	// Canvas viewport state
 	canvasViewport?: {
 		tx: number;    // Horizontal pan position
 		ty: number;    // Vertical pan position
 		zoom: number;  // Zoom level
 	};
+	// Non-file views (graph, search, backlinks, outline, web viewer, ...).
+	// When set, `path` is empty and the tab is recreated via setViewState()
+	// instead of being resolved as a file.
+	viewType?: string;  // View type id from leaf.getViewState()
+	viewState?: Record<string, unknown>;  // View-specific state payload (query, url, linked file, ...)
 }
 
 export interface SplitState {
@@ -88,6 +113,8 @@ export interface WindowStateV1 {
 export interface SidebarState {
 	collapsed: boolean;
 	activeTab?: string;
+	root?: WorkspaceNodeState;  // Full panel tree (tab groups, order, split sizes); absent in older captures
+	width?: number;             // Sidebar width in px
 }
 
 export interface ScreenInfo {
@@ -128,9 +155,34 @@ export type WindowArrangement = WindowArrangementV1 | WindowArrangementV2;
 // break — bump `v` and write a migration if you do.
 // ============================================================================
 
-/** Tab in compact form: just a path string, or [path, uid|null, active?]. */
-export type CompactTabArray = [string] | [string, string | null] | [string, string | null, 1];
-export type CompactTab = string | CompactTabArray;
+/** Optional per-tab extras, appended as a 4th array element (added in v0.2.2). */
+export interface CompactTabExtras {
+	m?: 's' | 'l' | 'r';         // view mode: source / live preview / reading
+	c?: [number, number, number, number][]; // selections: [anchorLine, anchorCh, headLine, headCh]
+	fo?: [number, number][];     // folds: [from, to]
+	p?: 1;                       // pinned
+	g?: string;                  // linked-pane group label
+}
+
+/**
+ * Tab in compact form: just a path string, or [path, uid|null, active?, extras?].
+ * When extras are present the active slot is always written (0 or 1).
+ */
+export type CompactTabArray =
+	| [string]
+	| [string, string | null]
+	| [string, string | null, 1]
+	| [string, string | null, 0 | 1, CompactTabExtras];
+/** Non-file view tab (added in v0.2.2; older blobs never contain it). */
+export interface CompactViewTab {
+	t: string;                   // viewType
+	s?: Record<string, unknown>; // viewState
+	n?: string;                  // display name
+	a?: 1;                       // active marker
+	p?: 1;                       // pinned
+	g?: string;                  // linked-pane group label
+}
+export type CompactTab = string | CompactTabArray | CompactViewTab;
 
 export interface CompactSplit {
 	d: 'h' | 'v';                // direction
@@ -149,6 +201,8 @@ export interface CompactWindow {
 export interface CompactSidebar {
 	c: boolean;                  // collapsed
 	t?: string;                  // activeTab id
+	r?: CompactNode;             // panel tree (added in v0.2.2)
+	w?: number;                  // width in px (added in v0.2.2)
 }
 
 export interface CompactArrangement {
@@ -161,9 +215,16 @@ export interface CompactArrangement {
 	rs?: CompactSidebar;         // right sidebar
 	ar?: number;                 // sourceScreen aspect ratio
 	wp?: string;                 // wallpaper path
+	n?: string;                  // label name (added in v0.2.2)
+	d?: string;                  // label description (added in v0.2.2)
+	tg?: string[];               // label tags (added in v0.2.2)
 }
 
-export type StorageMode = 'frontmatter' | 'external';
+export type StorageMode = 'frontmatter' | 'external' | 'indexeddb';
+
+// Where "open alongside" puts a saved main window tree: a new popout window,
+// or a new split next to the current main window content
+export type AlongsideTarget = 'popout' | 'split';
 
 // ============================================================================
 // Workspace types
@@ -202,9 +263,16 @@ export interface PerspectaSettings {
 	enableDebugLogging: boolean;
 	focusTintDuration: number;
 	autoGenerateUids: boolean;
+	captureSidebarLayout: boolean;  // Save the full sidebar panel layout (not just collapsed + active tab)
+	alongsideIncludePopouts: boolean;  // "Open alongside" also opens the saved popouts (off = main window tree only)
+	undoHistorySize: number;  // Layouts kept for "Undo last restore" (0 = disabled)
+	showMissingFilesReport: boolean;  // After restore, list tabs whose file could not be found
+	promptForArrangementLabel: boolean;  // Ask for a name, description and tags on every save
 	storageMode: StorageMode;
 	maxArrangementsPerNote: number;
 	autoConfirmOverwrite: boolean;
+	historyMaxVersions: number;  // Versions kept in each note's history (0 = history off)
+	historyMaxAgeDays: number;  // Versions older than this are dropped (0 = no age limit)
 	// Experimental features
 	enableProxyWindows: boolean;
 	proxyPreviewScale: number;  // Scale factor for proxy window preview (0.1 to 1.0)
@@ -213,13 +281,36 @@ export interface PerspectaSettings {
 	storeWallpapersLocally: boolean;  // Copy wallpapers to perspecta/wallpapers folder
 	// Performance settings
 	enableParallelPopoutCreation: boolean;  // Create popout windows in parallel for faster restoration
+	enableIncrementalRestore: boolean;  // Reuse already-open leaves and windows instead of rebuilding on restore
 	// Workspace integration
 	workspaceFallbackToDefault: boolean;    // On restore, fall back to `default` bucket if active workspace has no arrangement
 	workspaceCrossSelector: boolean;        // In arrangement selector, show arrangements from other workspaces too
 	workspaceSharedLocation: string;        // Vault-relative folder for shared workspace buckets
 	enableWorkspaceStatusBar: boolean;      // Show the active workspace in the status bar (ignored when core plugin disabled)
+	// Auto-restore on open
+	enableAutoRestore: boolean;  // Restore a note's context when it is opened and matches a rule
+	autoRestoreFolders: string[];  // Folder globs, e.g. "Projects/**"
+	autoRestoreTags: string[];  // Tags without "#"; nested tags match their parent
+	autoRestoreArrangement: AutoRestoreArrangement;  // Which arrangement folder/tag rules restore
+	autoRestoreConfirm: boolean;  // Ask before each auto-restore
+	// Autosave of the current context note
+	enableAutoSave: boolean;  // Save layout changes to the note restored last
+	autoSaveDelaySeconds: number;  // Quiet time after a layout change before saving
+	autoSaveNotes: AutoSaveNotes;  // Which restored notes are autosaved
+	// Session restore on startup
+	sessionRestore: SessionRestore;  // Bring back the last context note of the workspace
 }
 
+// Arrangement restored by folder and tag rules: the newest, or pick from the selector
+export type AutoRestoreArrangement = 'latest' | 'ask';
+
+// Notes autosave writes to: any restored note, those matching the auto-restore
+// rules, or only those with "perspecta-autosave: true"
+export type AutoSaveNotes = 'all' | 'auto-restore' | 'flagged';
+
+// On startup: leave Obsidian's layout, offer the last context note, or restore it
+export type SessionRestore = 'off' | 'ask' | 'auto';
+
 export const DEFAULT_SETTINGS: PerspectaSettings = {
 	enableVisualMapping: true,
 	enableAutomation: true,
@@ -230,9 +321,16 @@ export const DEFAULT_SETTINGS: PerspectaSettings = {
 	enableDebugLogging: false,
 	focusTintDuration: 8,
 	autoGenerateUids: true,
+	captureSidebarLayout: true,
+	alongsideIncludePopouts: true,
+	undoHistorySize: 5,
+	showMissingFilesReport: true,
+	promptForArrangementLabel: false,
 	storageMode: 'frontmatter',
 	maxArrangementsPerNote: 1,
 	autoConfirmOverwrite: false,
+	historyMaxVersions: 20,
+	historyMaxAgeDays: 90,
 	// Experimental features
 	enableProxyWindows: false,
 	proxyPreviewScale: 0.35,
@@ -241,15 +339,35 @@ export const DEFAULT_SETTINGS: PerspectaSettings = {
 	storeWallpapersLocally: true,  // Default to local storage for portability
 	// Performance settings
 	enableParallelPopoutCreation: false,  // Default to sequential for safety
+	enableIncrementalRestore: false,
 	// Workspace integration
 	workspaceFallbackToDefault: true,
 	workspaceCrossSelector: false,
 	workspaceSharedLocation: 'perspecta/workspaces',
-	enableWorkspaceStatusBar: true
+	enableWorkspaceStatusBar: true,
+	// Auto-restore on open
+	enableAutoRestore: false,
+	autoRestoreFolders: [],
+	autoRestoreTags: [],
+	autoRestoreArrangement: 'latest',
+	autoRestoreConfirm: true,
+	// Autosave of the current context note
+	enableAutoSave: false,
+	autoSaveDelaySeconds: 10,
+	autoSaveNotes: 'all',
+	// Session restore on startup
+	sessionRestore: 'off'
 };
 
+// User-given label of a saved arrangement, to tell several apart (added in v0.2.2)
+export interface ArrangementLabel {
+	name?: string;
+	description?: string;
+	tags?: string[];
+}
+
 // Timestamped arrangement for multi-arrangement storage
-export interface TimestampedArrangement {
+export interface TimestampedArrangement extends ArrangementLabel {
 	arrangement: WindowArrangementV2;
 	savedAt: number;  // Unix timestamp when saved
 }
@@ -261,6 +379,10 @@ export interface ArrangementCollection {
 
 export const FRONTMATTER_KEY = 'perspecta-arrangement';
 export const UID_FRONTMATTER_KEY = 'perspecta-uid';
+export const AUTO_RESTORE_FRONTMATTER_KEY = 'perspecta-auto-restore';
+export const AUTOSAVE_FRONTMATTER_KEY = 'perspecta-autosave';
+// Name of the arrangement autosave keeps next to the saved ones
+export const AUTOSAVE_ARRANGEMENT_NAME = 'Autosave';
 
 // Physical screen interface for coordinate system
 export interface PhysicalScreen {
@@ -15,7 +15,8 @@
  * @module types/obsidian-internal
  */
 
-import type { App, WorkspaceLeaf, View } from 'obsidian';
+import type { App, EventRef, WorkspaceLeaf, View } from 'obsidian';
+import type { EditorRangeState, FoldRangeState, MarkdownViewMode } from '../types';
 
 // ============================================================================
 // Workspace Internal Types
@@ -168,6 +169,16 @@ export interface WorkspaceTabContainer {
 	 * Select a tab by index.
 	 */
 	selectTab?: (index: number) => void;
+
+	/**
+	 * Remove a leaf from this container (without detaching its view).
+	 */
+	removeChild?: (child: WorkspaceLeaf) => void;
+
+	/**
+	 * Insert a leaf at the given index.
+	 */
+	insertChild?: (index: number, child: WorkspaceLeaf) => void;
 }
 
 /**
@@ -209,6 +220,23 @@ export interface WorkspaceSidebarSplit extends WorkspaceSplit {
 	activeTabGroup?: {
 		currentTab?: WorkspaceLeaf;
 	};
+
+	/**
+	 * Sidebar width in px.
+	 */
+	size?: number;
+
+	/**
+	 * Set the sidebar width in px.
+	 *
+	 * @param size - New width
+	 */
+	setSize?: (size: number) => void;
+
+	/**
+	 * Root element of the sidebar.
+	 */
+	containerEl?: HTMLElement;
 }
 
 // ============================================================================
@@ -239,6 +267,11 @@ export interface ExtendedView extends View {
 	 * Canvas object for canvas views.
 	 */
 	canvas?: CanvasViewport;
+
+	/**
+	 * Editor (for markdown views).
+	 */
+	editor?: SelectionEditor;
 }
 
 /**
@@ -258,6 +291,40 @@ export interface ViewMode {
 	 * @param position - Scroll position to apply
 	 */
 	applyScroll?: (position: number) => void;
+
+	/**
+	 * Get folded ranges (markdown editing and reading modes).
+	 */
+	getFoldInfo?: () => FoldInfo | null;
+
+	/**
+	 * Apply folded ranges.
+	 *
+	 * @param info - Fold info as returned by getFoldInfo
+	 */
+	applyFoldInfo?: (info: FoldInfo) => void;
+}
+
+/**
+ * Fold state of a markdown view (what Obsidian's fold manager persists).
+ *
+ * @internal
+ */
+export interface FoldInfo {
+	folds: FoldRangeState[];
+	lines: number;
+}
+
+/**
+ * The subset of Obsidian's Editor used for cursor/selection restore.
+ *
+ * @internal
+ */
+export interface SelectionEditor {
+	listSelections: () => EditorRangeState[];
+	setSelections: (ranges: EditorRangeState[], main?: number) => void;
+	lineCount: () => number;
+	getLine: (line: number) => string;
 }
 
 /**
@@ -372,6 +439,14 @@ export interface PropertyType {
  * @internal
  */
 export interface ExtendedApp extends App {
+	/**
+	 * Id of the open vault, unique on this device.
+	 *
+	 * @availability Present in all recent Obsidian versions
+	 * @fallback Use the vault name
+	 */
+	appId?: string;
+
 	/**
 	 * Metadata type manager for property configuration.
 	 */
@@ -432,6 +507,37 @@ export function getWorkspacesInstance(app: App): WorkspacesInstance | null {
 	return plugin.instance;
 }
 
+// ============================================================================
+// Vault Internal Events
+// ============================================================================
+
+/**
+ * Vault with the internal `raw` event.
+ *
+ * @internal
+ */
+export interface ExtendedVault {
+	/**
+	 * Fires with the vault-relative path of every file-system change,
+	 * including files under the config folder that the public
+	 * create/modify/delete events skip.
+	 *
+	 * @availability Present in all recent Obsidian versions
+	 * @fallback Without it, external changes are picked up on next load
+	 */
+	on(name: 'raw', callback: (path: string) => void): EventRef;
+}
+
+/**
+ * Subscribe to raw file-system changes, or return null if the vault
+ * doesn't emit them.
+ */
+export function onRawVaultChange(app: App, callback: (path: string) => void): EventRef | null {
+	const vault = app.vault as unknown as ExtendedVault;
+	if (typeof vault.on !== 'function') return null;
+	return vault.on('raw', callback);
+}
+
 /**
  * Hotkey manager interface.
  *
@@ -486,6 +592,11 @@ export interface ExtendedWorkspaceLeaf {
 	 * Extended view with internal properties.
 	 */
 	view: ExtendedView;
+
+	/**
+	 * Linked-pane group id, shared by all leaves in the group.
+	 */
+	group?: string | null;
 }
 
 /**
@@ -660,6 +771,85 @@ export function applyScrollPosition(view: unknown, position: number): boolean {
 	return false;
 }
 
+/**
+ * Type guard to check if a view has an editor with selection access.
+ *
+ * @param view - View to check
+ * @returns true if view has a usable editor
+ */
+export function hasSelectionEditor(view: unknown): view is ExtendedView & { editor: SelectionEditor } {
+	if (view === null || typeof view !== 'object') return false;
+	const editor = (view as Record<string, unknown>).editor as Record<string, unknown> | undefined;
+	if (!editor || typeof editor !== 'object') return false;
+	return typeof editor.listSelections === 'function' &&
+		typeof editor.setSelections === 'function' &&
+		typeof editor.lineCount === 'function' &&
+		typeof editor.getLine === 'function';
+}
+
+/**
+ * Safely get the cursor/selection ranges from a view.
+ *
+ * @param view - View to check
+ * @returns Selection ranges, or undefined when unavailable
+ */
+export function getEditorSelections(view: unknown): EditorRangeState[] | undefined {
+	if (!hasSelectionEditor(view)) return undefined;
+	return view.editor.listSelections().map(sel => ({
+		anchor: { line: sel.anchor.line, ch: sel.anchor.ch },
+		head: { line: sel.head.line, ch: sel.head.ch },
+	}));
+}
+
+/**
+ * Safely apply cursor/selection ranges to a view. Positions are clamped to
+ * the current document, since the note may have changed since capture.
+ *
+ * @param view - View to modify
+ * @param selections - Ranges to apply
+ * @returns true if selections were applied
+ */
+export function applyEditorSelections(view: unknown, selections: EditorRangeState[]): boolean {
+	if (!hasSelectionEditor(view) || selections.length === 0) return false;
+	const editor = view.editor;
+	const lastLine = Math.max(0, editor.lineCount() - 1);
+	const clamp = (pos: { line: number; ch: number }) => {
+		const line = Math.min(Math.max(0, pos.line), lastLine);
+		const ch = Math.min(Math.max(0, pos.ch), editor.getLine(line).length);
+		return { line, ch };
+	};
+	editor.setSelections(selections.map(sel => ({ anchor: clamp(sel.anchor), head: clamp(sel.head) })));
+	return true;
+}
+
+/**
+ * Safely get folded ranges from a view.
+ *
+ * @param view - View to check
+ * @returns Folded ranges, or undefined when unavailable
+ */
+export function getFoldedRanges(view: unknown): FoldRangeState[] | undefined {
+	const mode = (view as ExtendedView | null)?.currentMode;
+	if (typeof mode?.getFoldInfo !== 'function') return undefined;
+	const info = mode.getFoldInfo();
+	return info?.folds?.map(f => ({ from: f.from, to: f.to }));
+}
+
+/**
+ * Safely apply folded ranges to a view.
+ *
+ * @param view - View to modify
+ * @param folds - Ranges to fold
+ * @returns true if folds were applied
+ */
+export function applyFoldedRanges(view: unknown, folds: FoldRangeState[]): boolean {
+	const mode = (view as ExtendedView | null)?.currentMode;
+	if (typeof mode?.applyFoldInfo !== 'function') return false;
+	const lines = hasSelectionEditor(view) ? view.editor.lineCount() : 0;
+	mode.applyFoldInfo({ folds, lines });
+	return true;
+}
+
 /**
  * Safely get canvas viewport from a view.
  *
@@ -823,3 +1013,144 @@ export function getLeafFilePath(leaf: { view: unknown }): string | undefined {
 export function asExtendedWorkspace(workspace: unknown): ExtendedWorkspace {
 	return workspace as ExtendedWorkspace;
 }
+
+/**
+ * Core views that carry a `file` for the note they follow (local graph,
+ * backlinks, outgoing links, outline) but are not file views themselves.
+ * Reopening their file with `openFile()` would replace them with the note,
+ * so they are captured as non-file views instead.
+ *
+ * @internal
+ */
+export const LINKED_FILE_VIEW_TYPES: ReadonlySet<string> = new Set([
+	'localgraph',
+	'backlink',
+	'outgoing-link',
+	'outline',
+]);
+
+/**
+ * Check whether a leaf's view should be captured as a non-file view
+ * (recreated from its view state rather than by reopening a file).
+ *
+ * @param view - View to check
+ * @returns true if the view is a restorable non-file view
+ */
+export function isNonFileView(view: unknown): boolean {
+	if (view === null || typeof view !== 'object') return false;
+	const getViewType = (view as { getViewType?: () => string }).getViewType;
+	if (typeof getViewType !== 'function') return false;
+	const viewType = getViewType.call(view);
+	if (!viewType || viewType === 'empty') return false;
+	return !hasFile(view) || LINKED_FILE_VIEW_TYPES.has(viewType);
+}
+
+/**
+ * Read the editing mode of a markdown leaf from its view state.
+ * Obsidian stores it as `mode` ('source' | 'preview') plus `source`
+ * (true = source mode, false = Live Preview) while editing.
+ *
+ * @param leaf - Leaf to check
+ * @returns View mode, or undefined for non-markdown leaves
+ */
+export function getMarkdownViewMode(leaf: WorkspaceLeaf): MarkdownViewMode | undefined {
+	const viewState = leaf.getViewState();
+	if (viewState.type !== 'markdown') return undefined;
+	const state = viewState.state ?? {};
+	if (state.mode === 'preview') return 'reading';
+	if (state.mode === 'source') return state.source === true ? 'source' : 'live';
+	return undefined;
+}
+
+/**
+ * Build the markdown view-state fragment that opens a leaf in a given mode.
+ * Pass it as `openFile(file, { state })`.
+ *
+ * @param mode - Mode to open in
+ * @returns Partial markdown view state
+ */
+export function markdownViewModeState(mode: MarkdownViewMode): Record<string, unknown> {
+	if (mode === 'reading') return { mode: 'preview' };
+	return { mode: 'source', source: mode === 'source' };
+}
+
+/**
+ * Safely get the linked-pane group id of a leaf.
+ *
+ * @param leaf - Leaf to check
+ * @returns Group id, or null if the leaf is not linked
+ */
+export function getLeafGroup(leaf: WorkspaceLeaf): string | null {
+	const group = (leaf as unknown as ExtendedWorkspaceLeaf).group;
+	return typeof group === 'string' && group.length > 0 ? group : null;
+}
+
+/**
+ * Safely get the width of a sidebar.
+ *
+ * @param sidebar - Sidebar to check
+ * @returns Width in px, or undefined when unknown
+ */
+export function getSidebarWidth(sidebar: WorkspaceSidebarSplit): number | undefined {
+	if (typeof sidebar.size === 'number' && sidebar.size > 0) {
+		return Math.round(sidebar.size);
+	}
+	const width = sidebar.containerEl?.offsetWidth;
+	return width && width > 0 ? width : undefined;
+}
+
+/**
+ * Safely set the width of a sidebar.
+ *
+ * @param sidebar - Sidebar to resize
+ * @param width - Width in px
+ * @returns true if the width was applied
+ */
+export function setSidebarWidth(sidebar: WorkspaceSidebarSplit, width: number): boolean {
+	if (typeof sidebar.setSize === 'function') {
+		sidebar.setSize(width);
+		return true;
+	}
+	if (sidebar.containerEl) {
+		sidebar.containerEl.style.width = `${width}px`;
+		sidebar.size = width;
+		return true;
+	}
+	return false;
+}
+
+/**
+ * Move a leaf to a new position within its tab container.
+ *
+ * @param container - Tab container holding the leaf
+ * @param leaf - Leaf to move
+ * @param index - Target index
+ * @returns true if the leaf is now at the index
+ */
+export function moveChildToIndex(container: WorkspaceTabContainer, leaf: WorkspaceLeaf, index: number): boolean {
+	const current = container.children.indexOf(leaf);
+	if (current < 0) return false;
+	if (current === index) return true;
+	if (typeof container.removeChild !== 'function' || typeof container.insertChild !== 'function') return false;
+	container.removeChild(leaf);
+	container.insertChild(index, leaf);
+	return true;
+}
+
+/**
+ * Move a leaf into another tab container, possibly in another window,
+ * without reopening its view.
+ *
+ * @param leaf - Leaf to move
+ * @param container - Tab container to move it into
+ * @param index - Target index in the container
+ * @returns true if the leaf is now in the container
+ */
+export function moveLeafToContainer(leaf: WorkspaceLeaf, container: WorkspaceTabContainer, index: number): boolean {
+	const source = leaf.parent as unknown as WorkspaceTabContainer | undefined;
+	if (source === container) return moveChildToIndex(container, leaf, index);
+	if (typeof source?.removeChild !== 'function' || typeof container.insertChild !== 'function') return false;
+	source.removeChild(leaf);
+	container.insertChild(Math.min(index, container.children.length), leaf);
+	return true;
+}
@@ -0,0 +1,51 @@
+/**
+ * Arrangement Palette - fuzzy search over named arrangements
+ *
+ * Lists note-independent arrangements such as perspectives and layout
+ * templates. The same palette is used to open, apply, rename and delete
+ * them; the caller decides what choosing an item does.
+ *
+ * @module ui/arrangement-palette
+ */
+
+import { App, FuzzyMatch, FuzzySuggestModal } from 'obsidian';
+import { TimestampedArrangement } from '../types';
+import { getArrangementSummary } from './modals';
+
+export type NamedArrangement = TimestampedArrangement & { name: string };
+
+export class NamedArrangementSuggestModal<T extends NamedArrangement> extends FuzzySuggestModal<T> {
+	private items: T[];
+	private onChoose: (item: T) => void;
+
+	constructor(app: App, items: T[], placeholder: string, onChoose: (item: T) => void) {
+		super(app);
+		this.items = items;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+		this.emptyStateText = 'No matches';
+	}
+
+	getItems(): T[] {
+		return this.items;
+	}
+
+	// Tags are part of the searchable text so `#writing` finds tagged items
+	getItemText(item: T): string {
+		const tags = (item.tags ?? []).map(t => `#${t}`).join(' ');
+		return tags ? `${item.name} ${tags}` : item.name;
+	}
+
+	renderSuggestion(match: FuzzyMatch<T>, el: HTMLElement): void {
+		super.renderSuggestion(match, el);
+		const item = match.item;
+		const details = item.description
+			? `${item.description} · ${getArrangementSummary(item)}`
+			: getArrangementSummary(item);
+		el.createDiv({ cls: 'perspecta-arrangement-suggestion-details', text: details });
+	}
+
+	onChooseItem(item: T): void {
+		this.onChoose(item);
+	}
+}
@@ -0,0 +1,140 @@
+/**
+ * Context Switcher - jump to any note with a saved context
+ *
+ * Lists the context notes of the active workspace bucket (Tab switches to
+ * every bucket) with a preview of their latest arrangement. Note names and
+ * arrangement labels are fuzzy-matched. The caller builds the entries and
+ * decides what choosing one does.
+ *
+ * @module ui/context-switcher
+ */
+
+import { App, Keymap, prepareFuzzySearch, renderMatches, SearchResult, SuggestModal, TFile } from 'obsidian';
+import { TimestampedArrangement, WorkspaceId } from '../types';
+import { formatTimestamp, generateArrangementPreview, getArrangementSummary } from './modals';
+
+export interface ContextSwitchEntry {
+	file: TFile;
+	workspaceId: WorkspaceId;
+	/** Badge text; empty for the active bucket. */
+	workspaceLabel: string;
+	/** savedAt of the newest arrangement in this bucket. */
+	latestSavedAt: number;
+	/** Number of arrangements in this bucket. */
+	count: number;
+	/** Names and tags of the arrangements, for search. */
+	labels: string[];
+	/** Newest arrangement in this bucket; loaded only for rows that are shown. */
+	loadLatest: () => Promise<TimestampedArrangement | null>;
+}
+
+export interface ContextSwitcherOptions {
+	/** Entries of the active bucket, or of every bucket. */
+	load: (allWorkspaces: boolean) => Promise<ContextSwitchEntry[]>;
+	allWorkspaces: boolean;
+	/** `pick` is true when the user asked to choose among the arrangements. */
+	onChoose: (entry: ContextSwitchEntry, pick: boolean) => void;
+}
+
+interface RankedEntry {
+	entry: ContextSwitchEntry;
+	/** Match on the note name, for highlighting. */
+	nameMatch: SearchResult | null;
+	score: number;
+}
+
+export class ContextSwitcherModal extends SuggestModal<RankedEntry> {
+	private options: ContextSwitcherOptions;
+	private allWorkspaces: boolean;
+	private entries: ContextSwitchEntry[] = [];
+
+	constructor(app: App, options: ContextSwitcherOptions) {
+		super(app);
+		this.options = options;
+		this.allWorkspaces = options.allWorkspaces;
+		this.emptyStateText = 'No notes with a saved context';
+		this.modalEl.addClass('perspecta-context-switcher');
+		this.updatePlaceholder();
+		this.setInstructions([
+			{ command: '↵', purpose: 'restore latest' },
+			{ command: 'mod ↵', purpose: 'choose arrangement' },
+			{ command: 'tab', purpose: 'active / all workspaces' },
+			{ command: 'esc', purpose: 'dismiss' },
+		]);
+
+		this.scope.register(['Mod'], 'Enter', (evt) => {
+			this.selectActiveSuggestion(evt);
+			return false;
+		});
+		this.scope.register([], 'Tab', () => {
+			this.allWorkspaces = !this.allWorkspaces;
+			this.updatePlaceholder();
+			void this.reload();
+			return false;
+		});
+	}
+
+	onOpen(): void {
+		super.onOpen();
+		void this.reload();
+	}
+
+	private updatePlaceholder(): void {
+		this.setPlaceholder(this.allWorkspaces ? 'Switch context (all workspaces)…' : 'Switch context…');
+	}
+
+	private async reload(): Promise<void> {
+		this.entries = await this.options.load(this.allWorkspaces);
+		// Re-run the query against the new entries
+		this.inputEl.dispatchEvent(new Event('input'));
+	}
+
+	getSuggestions(query: string): RankedEntry[] {
+		const q = query.trim();
+		if (!q) {
+			return this.entries
+				.map(entry => ({ entry, nameMatch: null, score: 0 }))
+				.sort((a, b) => b.entry.latestSavedAt - a.entry.latestSavedAt);
+		}
+
+		const search = prepareFuzzySearch(q);
+		const ranked: RankedEntry[] = [];
+		for (const entry of this.entries) {
+			const nameMatch = search(entry.file.basename);
+			const labelMatch = entry.labels.length ? search(entry.labels.join(' ')) : null;
+			if (!nameMatch && !labelMatch) continue;
+			ranked.push({ entry, nameMatch, score: Math.max(nameMatch?.score ?? -Infinity, labelMatch?.score ?? -Infinity) });
+		}
+		return ranked.sort((a, b) => b.score - a.score || b.entry.latestSavedAt - a.entry.latestSavedAt);
+	}
+
+	renderSuggestion({ entry, nameMatch }: RankedEntry, el: HTMLElement): void {
+		el.addClass('perspecta-context-suggestion');
+		const previewContainer = el.createDiv({ cls: 'perspecta-context-suggestion-preview' });
+
+		const info = el.createDiv({ cls: 'perspecta-context-suggestion-info' });
+		const title = info.createDiv({ cls: 'perspecta-context-suggestion-title' });
+		renderMatches(title, entry.file.basename, nameMatch?.matches ?? null);
+		if (entry.workspaceLabel) {
+			title.createSpan({ cls: 'perspecta-arrangement-badge perspecta-arrangement-ws-badge', text: entry.workspaceLabel });
+		}
+
+		const details = [formatTimestamp(entry.latestSavedAt)];
+		if (entry.count > 1) details.push(`${entry.count} arrangements`);
+		const detailsEl = info.createDiv({ cls: 'perspecta-arrangement-suggestion-details', text: details.join(' · ') });
+
+		void entry.loadLatest().then(latest => {
+			if (!latest) return;
+			previewContainer.appendChild(generateArrangementPreview(latest, 64, 40));
+			details.splice(1, 0, getArrangementSummary(latest));
+			detailsEl.setText(details.join(' · '));
+			if (latest.name) {
+				info.createDiv({ cls: 'perspecta-arrangement-suggestion-details', text: latest.name });
+			}
+		});
+	}
+
+	onChooseSuggestion({ entry }: RankedEntry, evt: MouseEvent | KeyboardEvent): void {
+		this.options.onChoose(entry, Keymap.isModEvent(evt) !== false);
+	}
+}
@@ -0,0 +1,256 @@
+/**
+ * Contexts View - sidebar overview of every saved context
+ *
+ * Lists the notes with saved arrangements, grouped by workspace bucket, with
+ * a thumbnail of the latest arrangement, the count and the last-saved time.
+ * Entries can be sorted and filtered by folder, tag and age; each carries
+ * actions to restore, rename, delete, copy or move it and to open the note.
+ *
+ * The view only renders. The plugin supplies the entries and carries out
+ * the actions through a ContextsViewHost, and calls refresh() when contexts
+ * change. Entries carry only counts, dates and labels; a row loads its
+ * arrangement for the thumbnail once it scrolls into view.
+ *
+ * @module ui/contexts-view
+ */
+
+import { ItemView, Notice, WorkspaceLeaf, setIcon } from 'obsidian';
+import { WorkspaceId } from '../types';
+import { groupOverviewEntries, OverviewAge, OverviewFilter, overviewFacets, OverviewSort } from '../services/context-overview';
+import { ContextSwitchEntry } from './context-switcher';
+import { formatTimestamp, generateArrangementPreview } from './modals';
+import { Logger } from '../utils/logger';
+
+export const CONTEXTS_VIEW_TYPE = 'perspecta-contexts-view';
+
+export type ContextsViewEntry = ContextSwitchEntry & {
+	/** Tags of the note and of its arrangements, without `#`. */
+	tags: string[];
+};
+
+export interface ContextsViewHost {
+	/** Entries of every workspace bucket. */
+	listEntries(): Promise<ContextsViewEntry[]>;
+	/** Buckets in display order, active first. */
+	listWorkspaces(): { id: WorkspaceId; displayName: string; active: boolean }[];
+	/** Whether arrangements can be copied or moved between buckets. */
+	canCopyOrMove(): boolean;
+	/** `pick` opens the arrangement selector instead of restoring the latest. */
+	restore(entry: ContextsViewEntry, pick: boolean): void;
+	/** Asks which arrangement to rename when there are several. */
+	rename(entry: ContextsViewEntry): Promise<void>;
+	delete(entry: ContextsViewEntry): Promise<void>;
+	copyOrMove(entry: ContextsViewEntry, action: 'copy' | 'move'): Promise<void>;
+	open(entry: ContextsViewEntry): void;
+}
+
+const SORT_OPTIONS: Record<OverviewSort, string> = {
+	recent: 'Recently saved',
+	oldest: 'Oldest first',
+	name: 'Name',
+	count: 'Most arrangements',
+};
+
+const AGE_OPTIONS: Record<OverviewAge, string> = {
+	any: 'Any time',
+	day: 'Last 24 hours',
+	week: 'Last 7 days',
+	month: 'Last 30 days',
+	stale: 'Older than 30 days',
+};
+
+export class ContextsView extends ItemView {
+	private host: ContextsViewHost;
+	private entries: ContextsViewEntry[] = [];
+	private sort: OverviewSort = 'recent';
+	private filter: OverviewFilter = { folder: '', tag: '', age: 'any' };
+	private toolbarEl: HTMLElement | null = null;
+	private listEl: HTMLElement | null = null;
+	private loadGeneration = 0;
+	private previewObserver: IntersectionObserver | null = null;
+	// Preview element → loads and draws its thumbnail
+	private pendingPreviews = new Map<Element, () => void>();
+
+	constructor(leaf: WorkspaceLeaf, host: ContextsViewHost) {
+		super(leaf);
+		this.host = host;
+	}
+
+	getViewType(): string {
+		return CONTEXTS_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Contexts';
+	}
+
+	getIcon(): string {
+		return 'layout-grid';
+	}
+
+	async onOpen(): Promise<void> {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass('perspecta-contexts-view');
+		this.toolbarEl = container.createDiv({ cls: 'perspecta-contexts-toolbar' });
+		this.listEl = container.createDiv({ cls: 'perspecta-contexts-list' });
+		await this.refresh();
+	}
+
+	async onClose(): Promise<void> {
+		this.resetPreviews();
+		this.toolbarEl = null;
+		this.listEl = null;
+	}
+
+	/** Reload the entries from the plugin and render them again. */
+	async refresh(): Promise<void> {
+		if (!this.listEl) return;
+		// A slower earlier load must not overwrite a newer one
+		const generation = ++this.loadGeneration;
+		const entries = await this.host.listEntries();
+		if (generation !== this.loadGeneration) return;
+		this.entries = entries;
+		this.renderToolbar();
+		this.renderList();
+	}
+
+	private renderToolbar(): void {
+		const toolbar = this.toolbarEl;
+		if (!toolbar) return;
+		toolbar.empty();
+
+		const { folders, tags } = overviewFacets(this.entries);
+		// Keep a chosen filter selectable even when nothing matches it any more
+		if (this.filter.folder && !folders.includes(this.filter.folder)) folders.push(this.filter.folder);
+		if (this.filter.tag && !tags.includes(this.filter.tag)) tags.push(this.filter.tag);
+
+		this.addSelect(toolbar, 'Sort', SORT_OPTIONS, this.sort, v => { this.sort = v as OverviewSort; });
+		this.addSelect(toolbar, 'Folder', { '': 'All folders', ...Object.fromEntries(folders.map(f => [f, f])) }, this.filter.folder, v => { this.filter.folder = v; });
+		this.addSelect(toolbar, 'Tag', { '': 'All tags', ...Object.fromEntries(tags.map(t => [t, `#${t}`])) }, this.filter.tag, v => { this.filter.tag = v; });
+		this.addSelect(toolbar, 'Saved', AGE_OPTIONS, this.filter.age, v => { this.filter.age = v as OverviewAge; });
+	}
+
+	private addSelect(parent: HTMLElement, label: string, options: Record<string, string>, value: string, onChange: (value: string) => void): void {
+		const select = parent.createEl('select', { cls: 'dropdown perspecta-contexts-filter', attr: { 'aria-label': label } });
+		for (const [key, text] of Object.entries(options)) {
+			select.createEl('option', { value: key, text });
+		}
+		select.value = value;
+		select.addEventListener('change', () => {
+			onChange(select.value);
+			this.renderList();
+		});
+	}
+
+	private resetPreviews(): void {
+		this.previewObserver?.disconnect();
+		this.previewObserver = null;
+		this.pendingPreviews.clear();
+	}
+
+	private observePreview(el: HTMLElement, load: () => void): void {
+		if (!this.previewObserver) {
+			this.previewObserver = new IntersectionObserver(records => {
+				for (const record of records) {
+					if (!record.isIntersecting) continue;
+					this.previewObserver?.unobserve(record.target);
+					this.pendingPreviews.get(record.target)?.();
+					this.pendingPreviews.delete(record.target);
+				}
+			});
+		}
+		this.pendingPreviews.set(el, load);
+		this.previewObserver.observe(el);
+	}
+
+	private renderList(): void {
+		const list = this.listEl;
+		if (!list) return;
+		list.empty();
+		this.resetPreviews();
+
+		if (this.entries.length === 0) {
+			list.createDiv({ cls: 'perspecta-contexts-empty', text: 'No saved contexts yet. Save a context to a note to see it here.' });
+			return;
+		}
+
+		const workspaces = this.host.listWorkspaces();
+		const groups = groupOverviewEntries(this.entries, workspaces.map(w => w.id), this.sort, this.filter);
+		if (groups.length === 0) {
+			list.createDiv({ cls: 'perspecta-contexts-empty', text: 'No contexts match the filters.' });
+			return;
+		}
+
+		for (const group of groups) {
+			const ws = workspaces.find(w => w.id === group.workspaceId);
+			const header = list.createDiv({ cls: 'perspecta-contexts-group-header' });
+			header.createSpan({ text: ws?.displayName ?? group.workspaceId });
+			if (ws?.active && workspaces.length > 1) {
+				header.createSpan({ cls: 'perspecta-arrangement-badge', text: 'Active' });
+			}
+			header.createSpan({ cls: 'perspecta-contexts-group-count', text: String(group.entries.length) });
+
+			for (const entry of group.entries) {
+				this.renderEntry(list, entry);
+			}
+		}
+	}
+
+	private renderEntry(parent: HTMLElement, entry: ContextsViewEntry): void {
+		const row = parent.createDiv({ cls: 'perspecta-contexts-entry' });
+		const preview = row.createDiv({ cls: 'perspecta-contexts-entry-preview', attr: { 'aria-label': 'Restore' } });
+		preview.addEventListener('click', () => this.host.restore(entry, false));
+
+		const info = row.createDiv({ cls: 'perspecta-contexts-entry-info' });
+		const title = info.createDiv({ cls: 'perspecta-contexts-entry-title', text: entry.file.basename, attr: { 'aria-label': entry.file.path } });
+		title.addEventListener('click', () => this.host.open(entry));
+		const details = [formatTimestamp(entry.latestSavedAt)];
+		details.push(entry.count === 1 ? '1 arrangement' : `${entry.count} arrangements`);
+		info.createDiv({ cls: 'perspecta-contexts-entry-details', text: details.join(' · ') });
+
+		this.observePreview(preview, () => {
+			void entry.loadLatest().then(latest => {
+				if (!latest) return;
+				preview.appendChild(generateArrangementPreview(latest, 56, 35));
+				if (latest.name) {
+					info.createDiv({ cls: 'perspecta-contexts-entry-details', text: latest.name });
+				}
+			});
+		});
+
+		const actions = row.createDiv({ cls: 'perspecta-contexts-entry-actions' });
+		this.addEntryAction(actions, 'layout-grid', 'Restore latest', () => this.host.restore(entry, false));
+		if (entry.count > 1) {
+			this.addEntryAction(actions, 'list', 'Choose arrangement…', () => this.host.restore(entry, true));
+		}
+		this.addEntryAction(actions, 'pencil', entry.count > 1 ? 'Rename arrangement…' : 'Rename arrangement', () => this.runAndRefresh(this.host.rename(entry)));
+		if (this.host.canCopyOrMove()) {
+			this.addEntryAction(actions, 'copy', 'Copy to workspace…', () => this.runAndRefresh(this.host.copyOrMove(entry, 'copy')));
+			this.addEntryAction(actions, 'arrow-right', 'Move to workspace…', () => this.runAndRefresh(this.host.copyOrMove(entry, 'move')));
+		}
+		this.addEntryAction(actions, 'file-text', 'Open note', () => this.host.open(entry));
+		this.addEntryAction(actions, 'trash-2', 'Delete context', () => this.runAndRefresh(this.host.delete(entry)));
+	}
+
+	private addEntryAction(parent: HTMLElement, icon: string, label: string, onClick: () => void): void {
+		const btn = parent.createEl('button', { cls: 'clickable-icon perspecta-contexts-action', attr: { 'aria-label': label } });
+		setIcon(btn, icon);
+		btn.addEventListener('click', (evt) => {
+			evt.stopPropagation();
+			onClick();
+		});
+	}
+
+	// Label edits don't change which notes have contexts, so the plugin
+	// doesn't signal them; reload after every action to be sure, also after
+	// one that failed part-way.
+	private runAndRefresh(action: Promise<void>): void {
+		void action
+			.catch((e: unknown) => {
+				Logger.error('Contexts view action failed:', e);
+				new Notice('Error in Contexts view: ' + (e as Error).message, 4000);
+			})
+			.then(() => this.refresh());
+	}
+}
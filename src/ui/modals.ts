@@ -3,7 +3,13 @@
 // ============================================================================
 
 import { setIcon } from 'obsidian';
-import { TimestampedArrangement, WindowStateV2, WorkspaceNodeState, WorkspaceInfo, WorkspaceId } from '../types';
+import { ArrangementLabel, AUTOSAVE_ARRANGEMENT_NAME, StorageMode, TabState, TimestampedArrangement, WindowStateV2, WorkspaceNodeState, WorkspaceInfo, WorkspaceId } from '../types';
+import type { ConflictPolicy } from '../storage/external-store';
+import { MAIN_WINDOW_INDEX, arrangementTabGroupKeys, tabGroupKey } from '../services/partial-restore';
+import { labelOf, normalizeLabel, parseTags } from '../services/labels';
+import { renumberSlots, TemplateSlot, TemplateSlotKind } from '../services/templates';
+import { ArrangementDiff, diffArrangements, isEmptyDiff, WindowGeometry } from '../services/history';
+import type { MigrationOptions, MigrationPlan, NoteMigrationPlan } from '../services/store-migration';
 
 // SVG namespace
 const SVG_NS = 'http://www.w3.org/2000/svg';
@@ -18,7 +24,7 @@ interface Rect {
 /**
  * Generate an SVG preview showing windows on a virtual screen (miniature view)
  */
-function generateArrangementPreview(arrangement: TimestampedArrangement, width: number, height: number): SVGElement {
+export function generateArrangementPreview(arrangement: TimestampedArrangement, width: number, height: number): SVGElement {
 	const arr = arrangement.arrangement;
 	const svg = document.createElementNS(SVG_NS, 'svg');
 	svg.setAttribute('width', String(width));
@@ -54,16 +60,16 @@ function generateArrangementPreview(arrangement: TimestampedArrangement, width:
 	svg.appendChild(screenRect);
 
 	// Collect all windows
-	const windows: { state: WindowStateV2; isMain: boolean }[] = [];
+	const windows: { state: WindowStateV2; isMain: boolean; index: number }[] = [];
 	if (arr.main) {
-		windows.push({ state: arr.main, isMain: true });
+		windows.push({ state: arr.main, isMain: true, index: MAIN_WINDOW_INDEX });
 	}
 	if (arr.popouts) {
-		arr.popouts.forEach(p => windows.push({ state: p, isMain: false }));
+		arr.popouts.forEach((p, i) => windows.push({ state: p, isMain: false, index: i }));
 	}
 
 	// Draw each window at its actual position (scaled)
-	windows.forEach(({ state, isMain }) => {
+	windows.forEach(({ state, isMain, index }) => {
 		const x = state.x ?? 0;
 		const y = state.y ?? 0;
 		const w = state.width ?? 800;
@@ -118,7 +124,7 @@ function generateArrangementPreview(arrangement: TimestampedArrangement, width:
 		// Draw splits inside the window as dotted lines and tab areas with tooltips
 		if (state.root) {
 			drawSplitLines(svg, state.root, winRect);
-			drawTabAreas(svg, state.root, winRect);
+			drawTabAreas(svg, state.root, winRect, index, []);
 		}
 	});
 
@@ -285,9 +291,21 @@ function drawFocusHighlight(svg: SVGElement, node: WorkspaceNodeState, bounds: R
 }
 
 /**
- * Recursively draw transparent interactive areas for tab groups with tooltips
+ * Display name of a saved tab: its name if available, otherwise the file name from its path
  */
-function drawTabAreas(svg: SVGElement, node: WorkspaceNodeState, bounds: Rect): void {
+function tabDisplayName(tab: TabState): string {
+	if (tab.name) return tab.name;
+	const path = tab.path || '';
+	const fileName = path.split('/').pop() || path;
+	return fileName.replace(/\.md$/, '');
+}
+
+/**
+ * Recursively draw transparent interactive areas for tab groups with tooltips.
+ * Each area carries its tab group key (see services/partial-restore) so
+ * pickers can map clicks back to groups.
+ */
+function drawTabAreas(svg: SVGElement, node: WorkspaceNodeState, bounds: Rect, windowIndex: number, path: number[]): void {
 	if (!node) return;
 
 	if (node.type === 'tabs') {
@@ -296,13 +314,7 @@ function drawTabAreas(svg: SVGElement, node: WorkspaceNodeState, bounds: Rect):
 		if (tabs.length === 0) return;
 
 		// Get note names for tooltip
-		const noteNames = tabs.map(tab => {
-			// Use name if available, otherwise extract from path
-			if (tab.name) return tab.name;
-			const path = tab.path || '';
-			const fileName = path.split('/').pop() || path;
-			return fileName.replace(/\.md$/, '');
-		});
+		const noteNames = tabs.map(tabDisplayName);
 
 		// Build tooltip text
 		const activeIndex = tabs.findIndex(t => t.active);
@@ -325,6 +337,7 @@ function drawTabAreas(svg: SVGElement, node: WorkspaceNodeState, bounds: Rect):
 		area.setAttribute('fill', 'transparent');
 		area.setAttribute('class', 'perspecta-preview-tab-area');
 		area.setAttribute('data-tooltip', tooltipText);
+		area.setAttribute('data-group', tabGroupKey(windowIndex, path));
 
 		svg.appendChild(area);
 		return;
@@ -363,7 +376,7 @@ function drawTabAreas(svg: SVGElement, node: WorkspaceNodeState, bounds: Rect):
 				};
 			}
 
-			drawTabAreas(svg, child, childBounds);
+			drawTabAreas(svg, child, childBounds, windowIndex, [...path, i]);
 			offset += size;
 		});
 	}
@@ -452,7 +465,7 @@ function createRect(rect: Rect, fill: string, stroke: string, rx: number): SVGRe
 }
 
 // Format timestamp for display
-function formatTimestamp(ts: number): string {
+export function formatTimestamp(ts: number): string {
 	const date = new Date(ts);
 	const now = new Date();
 	const isToday = date.toDateString() === now.toDateString();
@@ -480,7 +493,7 @@ function formatTimestamp(ts: number): string {
 }
 
 // Get arrangement summary (number of windows and tabs)
-function getArrangementSummary(arrangement: TimestampedArrangement): string {
+export function getArrangementSummary(arrangement: TimestampedArrangement): string {
 	const arr = arrangement.arrangement;
 	const windowCount = 1 + (arr.popouts?.length ?? 0);
 
@@ -520,6 +533,8 @@ export interface ArrangementSelectorOptions {
 	onDelete?: (savedAt: number, workspaceId?: WorkspaceId) => void;
 	/** Optional callback to find which workspace an entry came from (used for delete). */
 	getWorkspaceId?: (savedAt: number) => WorkspaceId | undefined;
+	/** Optional callback to store an edited name/description/tags; enables the edit button. */
+	onEditLabel?: (savedAt: number, label: ArrangementLabel, workspaceId?: WorkspaceId) => void;
 }
 
 /**
@@ -538,6 +553,7 @@ export function showArrangementSelector(
 	const deleteFn = opts.onDelete;
 	const labelFn = opts.getWorkspaceLabel;
 	const wsIdFn = opts.getWorkspaceId;
+	const editLabelFn = opts.onEditLabel;
 	return new Promise((resolve) => {
 		const doc = targetWindow.document;
 
@@ -592,7 +608,12 @@ export function showArrangementSelector(
 				// Add tooltip handlers for tab areas
 				setupPreviewTooltips(previewContainer, doc);
 
+				const label = editedLabels.get(arr.savedAt) ?? labelOf(arr);
 				const info = item.createDiv({ cls: 'perspecta-arrangement-info' });
+				// Named arrangements show the name above the time
+				if (label.name) {
+					info.createDiv({ cls: 'perspecta-arrangement-name', text: label.name });
+				}
 				const timeLabel = info.createDiv({ cls: 'perspecta-arrangement-time' });
 				timeLabel.setText(formatTimestamp(arr.savedAt));
 
@@ -611,6 +632,32 @@ export function showArrangementSelector(
 				const summary = info.createDiv({ cls: 'perspecta-arrangement-summary' });
 				summary.setText(getArrangementSummary(arr));
 
+				if (label.description) {
+					info.createDiv({ cls: 'perspecta-arrangement-description', text: label.description });
+				}
+				if (label.tags?.length) {
+					const tagRow = info.createDiv({ cls: 'perspecta-arrangement-tags' });
+					for (const tag of label.tags) {
+						tagRow.createSpan({ cls: 'perspecta-arrangement-tag', text: `#${tag}` });
+					}
+				}
+
+				if (editLabelFn) {
+					const editBtn = item.createDiv({ cls: 'perspecta-arrangement-edit' });
+					setIcon(editBtn, 'pencil');
+					editBtn.setAttribute('aria-label', 'Rename or edit arrangement');
+
+					editBtn.addEventListener('click', (e) => {
+						e.stopPropagation();
+						void showArrangementLabelEditor(label, fileName, targetWindow, 'Edit Arrangement').then(result => {
+							if (result.cancelled) return;
+							editedLabels.set(arr.savedAt, result.label);
+							editLabelFn(arr.savedAt, result.label, wsIdFn?.(arr.savedAt));
+							renderList();
+						});
+					});
+				}
+
 				// Delete button - use setIcon for safe SVG rendering
 				const deleteBtn = item.createDiv({ cls: 'perspecta-arrangement-delete' });
 				setIcon(deleteBtn, 'x-circle');
@@ -633,6 +680,7 @@ export function showArrangementSelector(
 		};
 
 		const deletedTimestamps = new Set<number>();
+		const editedLabels = new Map<number, ArrangementLabel>();
 		renderList();
 
 		const buttonRow = modal.createDiv({ cls: 'perspecta-modal-buttons' });
@@ -656,6 +704,695 @@ export function showArrangementSelector(
 	});
 }
 
+export interface ArrangementLabelResult {
+	label: ArrangementLabel;
+	cancelled: boolean;
+}
+
+/**
+ * Show a modal to enter the name, description and tags of an arrangement.
+ * All fields are optional; the returned label only holds non-empty ones.
+ * An empty fileName leaves the title without a note name.
+ */
+export function showArrangementLabelEditor(
+	initial: ArrangementLabel,
+	fileName: string,
+	targetWindow: Window = window,
+	titleText = 'Save Arrangement',
+	reservedNames: string[] = [AUTOSAVE_ARRANGEMENT_NAME]
+): Promise<ArrangementLabelResult> {
+	return new Promise((resolve) => {
+		const doc = targetWindow.document;
+
+		const overlay = doc.createElement('div');
+		overlay.className = 'perspecta-debug-overlay';
+
+		const modal = doc.createElement('div');
+		modal.className = 'perspecta-label-modal';
+
+		const title = modal.createDiv({ cls: 'perspecta-modal-title' });
+		title.setText(fileName ? `${titleText} - ${fileName}` : titleText);
+
+		const subtitle = modal.createDiv({ cls: 'perspecta-modal-subtitle' });
+		subtitle.setText('All fields are optional.');
+
+		const form = modal.createDiv({ cls: 'perspecta-label-form' });
+
+		form.createEl('label', { cls: 'perspecta-label-field-title', text: 'Name' });
+		const nameInput = form.createEl('input', {
+			type: 'text',
+			cls: 'perspecta-label-input',
+			attr: { placeholder: 'e.g. Writing setup' }
+		});
+		nameInput.value = initial.name ?? '';
+		// The autosave is told apart from saved arrangements by its name; an
+		// entry that already has a reserved name may keep it
+		const isReserved = () => {
+			const name = nameInput.value.trim();
+			return name !== initial.name && reservedNames.includes(name);
+		};
+		const nameHint = form.createDiv({ cls: 'perspecta-label-hint' });
+		const checkName = () => {
+			nameInput.classList.toggle('is-invalid', isReserved());
+			nameHint.setText(isReserved() ? `"${nameInput.value.trim()}" is reserved, choose another name` : '');
+		};
+		nameInput.addEventListener('input', checkName);
+		checkName();
+
+		form.createEl('label', { cls: 'perspecta-label-field-title', text: 'Description' });
+		const descriptionInput = form.createEl('textarea', {
+			cls: 'perspecta-label-input',
+			attr: { rows: '3' }
+		});
+		descriptionInput.value = initial.description ?? '';
+
+		form.createEl('label', { cls: 'perspecta-label-field-title', text: 'Tags' });
+		const tagsInput = form.createEl('input', {
+			type: 'text',
+			cls: 'perspecta-label-input',
+			attr: { placeholder: 'Comma- or space-separated' }
+		});
+		tagsInput.value = (initial.tags ?? []).join(', ');
+
+		const buttonRow = modal.createDiv({ cls: 'perspecta-modal-buttons' });
+
+		const cancelBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-secondary',
+			text: 'Cancel'
+		});
+
+		const saveBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-primary',
+			text: 'Save'
+		});
+
+		const cleanup = () => {
+			modal.remove();
+			overlay.remove();
+		};
+
+		const submit = () => {
+			if (isReserved()) {
+				nameInput.focus();
+				return;
+			}
+			const label = normalizeLabel({
+				name: nameInput.value,
+				description: descriptionInput.value,
+				tags: parseTags(tagsInput.value)
+			});
+			cleanup();
+			resolve({ label, cancelled: false });
+		};
+
+		overlay.onclick = () => {
+			cleanup();
+			resolve({ label: initial, cancelled: true });
+		};
+
+		cancelBtn.addEventListener('click', () => {
+			cleanup();
+			resolve({ label: initial, cancelled: true });
+		});
+
+		saveBtn.addEventListener('click', submit);
+
+		// Enter in a single-line field saves; the description keeps newlines
+		for (const input of [nameInput, tagsInput]) {
+			input.addEventListener('keydown', (e) => {
+				if (e.key === 'Enter') {
+					e.preventDefault();
+					submit();
+				}
+			});
+		}
+
+		doc.body.appendChild(overlay);
+		doc.body.appendChild(modal);
+
+		nameInput.focus();
+	});
+}
+
+export interface PartialRestoreResult {
+	/** Tab group keys (see services/partial-restore) chosen for restore. */
+	selected: Set<string>;
+	cancelled: boolean;
+}
+
+/**
+ * Show a modal to pick which windows and tab groups of an arrangement to
+ * restore. Groups can be toggled in the preview or in the list below it;
+ * a window row toggles all of its groups at once. Everything starts selected.
+ */
+export function showPartialRestoreSelector(
+	arrangement: TimestampedArrangement,
+	fileName: string,
+	targetWindow: Window = window
+): Promise<PartialRestoreResult> {
+	return new Promise((resolve) => {
+		const doc = targetWindow.document;
+		const arr = arrangement.arrangement;
+
+		const overlay = doc.createElement('div');
+		overlay.className = 'perspecta-debug-overlay';
+
+		const modal = doc.createElement('div');
+		modal.className = 'perspecta-partial-restore-modal';
+
+		const title = modal.createDiv({ cls: 'perspecta-modal-title' });
+		title.setText(`Restore Part of Context - ${fileName}`);
+
+		const subtitle = modal.createDiv({ cls: 'perspecta-modal-subtitle' });
+		subtitle.setText('Click tab groups in the preview or tick them below');
+
+		const previewContainer = modal.createDiv({ cls: 'perspecta-arrangement-preview-container perspecta-partial-restore-preview' });
+		previewContainer.appendChild(generateArrangementPreview(arrangement, 400, 240));
+		setupPreviewTooltips(previewContainer, doc);
+
+		// Windows and their tab groups, main window first
+		const windows: { label: string; groups: { key: string; tabs: TabState[] }[] }[] = [];
+		const collectGroups = (windowIndex: number, state: WindowStateV2) => {
+			const groups: { key: string; tabs: TabState[] }[] = [];
+			const walk = (node: WorkspaceNodeState, path: number[]) => {
+				if (node.type === 'tabs') {
+					groups.push({ key: tabGroupKey(windowIndex, path), tabs: node.tabs });
+				} else {
+					node.children.forEach((child, i) => walk(child, [...path, i]));
+				}
+			};
+			walk(state.root, []);
+			return groups;
+		};
+		windows.push({ label: 'Main window', groups: collectGroups(MAIN_WINDOW_INDEX, arr.main) });
+		arr.popouts.forEach((popout, i) => {
+			windows.push({ label: `Popout ${i + 1}`, groups: collectGroups(i, popout) });
+		});
+
+		const selected = new Set<string>(arrangementTabGroupKeys(arr));
+
+		const list = modal.createDiv({ cls: 'perspecta-partial-restore-list' });
+		const groupCheckboxes = new Map<string, HTMLInputElement>();
+		const windowCheckboxes: { checkbox: HTMLInputElement; keys: string[] }[] = [];
+
+		for (const win of windows) {
+			const windowRow = list.createEl('label', { cls: 'perspecta-partial-restore-window' });
+			const windowCheckbox = windowRow.createEl('input', { type: 'checkbox' });
+			windowRow.createSpan({ text: win.label });
+			const keys = win.groups.map(g => g.key);
+			windowCheckboxes.push({ checkbox: windowCheckbox, keys });
+
+			windowCheckbox.addEventListener('change', () => {
+				for (const key of keys) {
+					if (windowCheckbox.checked) selected.add(key); else selected.delete(key);
+				}
+				refresh();
+			});
+
+			// A window with a single tab group is fully described by its own row
+			if (win.groups.length < 2) continue;
+
+			for (const group of win.groups) {
+				const groupRow = list.createEl('label', { cls: 'perspecta-partial-restore-group' });
+				const groupCheckbox = groupRow.createEl('input', { type: 'checkbox' });
+				groupRow.createSpan({ text: group.tabs.map(tabDisplayName).join(', ') });
+				groupCheckboxes.set(group.key, groupCheckbox);
+
+				groupCheckbox.addEventListener('change', () => {
+					toggleGroup(group.key, groupCheckbox.checked);
+				});
+			}
+		}
+
+		const buttonRow = modal.createDiv({ cls: 'perspecta-modal-buttons' });
+
+		const cancelBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-secondary',
+			text: 'Cancel'
+		});
+
+		const restoreBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-primary',
+			text: 'Restore'
+		});
+
+		const toggleGroup = (key: string, on: boolean) => {
+			if (on) selected.add(key); else selected.delete(key);
+			refresh();
+		};
+
+		const refresh = () => {
+			groupCheckboxes.forEach((checkbox, key) => { checkbox.checked = selected.has(key); });
+			for (const { checkbox, keys } of windowCheckboxes) {
+				const count = keys.filter(key => selected.has(key)).length;
+				checkbox.checked = count === keys.length && count > 0;
+				checkbox.indeterminate = count > 0 && count < keys.length;
+			}
+			previewContainer.querySelectorAll('.perspecta-preview-tab-area').forEach(area => {
+				area.classList.toggle('is-selected', selected.has(area.getAttribute('data-group') ?? ''));
+			});
+			restoreBtn.disabled = selected.size === 0;
+		};
+
+		previewContainer.addEventListener('click', (e) => {
+			const key = (e.target as Element).getAttribute('data-group');
+			if (key) toggleGroup(key, !selected.has(key));
+		});
+
+		refresh();
+
+		const cleanup = () => {
+			modal.remove();
+			overlay.remove();
+		};
+
+		overlay.onclick = () => {
+			cleanup();
+			resolve({ selected, cancelled: true });
+		};
+
+		cancelBtn.addEventListener('click', () => {
+			cleanup();
+			resolve({ selected, cancelled: true });
+		});
+
+		restoreBtn.addEventListener('click', () => {
+			cleanup();
+			resolve({ selected, cancelled: false });
+		});
+
+		doc.body.appendChild(overlay);
+		doc.body.appendChild(modal);
+
+		restoreBtn.focus();
+	});
+}
+
+export type MissingFileChoice =
+	| { action: 'keep' }
+	| { action: 'drop' }
+	| { action: 'replace'; path: string };
+
+export interface MissingFilesResult {
+	/** Choice per missing tab, keyed by its saved path. */
+	choices: Map<string, MissingFileChoice>;
+	cancelled: boolean;
+}
+
+/**
+ * Show the post-restore report of tabs whose file could not be found (by
+ * path, UID or name). For each one the user can keep it in the saved
+ * context, drop it, or pick a replacement from the vault.
+ */
+export function showMissingFilesReport(
+	missing: TabState[],
+	candidatePaths: string[],
+	fileName: string,
+	targetWindow: Window = window
+): Promise<MissingFilesResult> {
+	return new Promise((resolve) => {
+		const doc = targetWindow.document;
+
+		const overlay = doc.createElement('div');
+		overlay.className = 'perspecta-debug-overlay';
+
+		const modal = doc.createElement('div');
+		modal.className = 'perspecta-missing-files-modal';
+
+		const title = modal.createDiv({ cls: 'perspecta-modal-title' });
+		title.setText(`Missing Files - ${fileName}`);
+
+		const subtitle = modal.createDiv({ cls: 'perspecta-modal-subtitle' });
+		subtitle.setText(`${missing.length} tab${missing.length > 1 ? 's' : ''} could not be opened. Choose what to save for the next restore.`);
+
+		const list = modal.createDiv({ cls: 'perspecta-missing-files-list' });
+		const candidates = new Set(candidatePaths);
+		const readers: { path: string; read: () => MissingFileChoice }[] = [];
+
+		missing.forEach((tab, index) => {
+			const item = list.createDiv({ cls: 'perspecta-missing-file' });
+			item.createDiv({ cls: 'perspecta-missing-file-name', text: tabDisplayName(tab) });
+
+			const details = item.createDiv({ cls: 'perspecta-missing-file-details' });
+			details.createDiv({ text: `Last path: ${tab.path}` });
+			if (tab.uid) details.createDiv({ text: `UID: ${tab.uid}` });
+
+			const controls = item.createDiv({ cls: 'perspecta-missing-file-controls' });
+			const select = controls.createEl('select', { cls: 'dropdown' });
+			select.createEl('option', { value: 'keep', text: 'Keep in context' });
+			select.createEl('option', { value: 'drop', text: 'Remove from context' });
+			select.createEl('option', { value: 'replace', text: 'Replace with…' });
+
+			// Offer files of the same type as the missing one
+			const ext = tab.path.split('.').pop() || 'md';
+			const listId = `perspecta-missing-file-candidates-${index}`;
+			const dataList = controls.createEl('datalist', { attr: { id: listId } });
+			for (const path of candidatePaths) {
+				if (path.endsWith(`.${ext}`)) dataList.createEl('option', { value: path });
+			}
+			const input = controls.createEl('input', {
+				type: 'text',
+				cls: 'perspecta-missing-file-input',
+				attr: { list: listId, placeholder: 'Path of replacement file' }
+			});
+			input.style.display = 'none';
+
+			select.addEventListener('change', () => {
+				input.style.display = select.value === 'replace' ? '' : 'none';
+				if (select.value === 'replace') input.focus();
+			});
+			input.addEventListener('input', () => {
+				input.classList.toggle('is-invalid', input.value !== '' && !candidates.has(input.value));
+			});
+
+			readers.push({
+				path: tab.path,
+				read: () => {
+					if (select.value === 'drop') return { action: 'drop' };
+					// A replacement that isn't a vault file is ignored (tab kept)
+					if (select.value === 'replace' && candidates.has(input.value)) return { action: 'replace', path: input.value };
+					return { action: 'keep' };
+				}
+			});
+		});
+
+		const buttonRow = modal.createDiv({ cls: 'perspecta-modal-buttons' });
+
+		const keepAllBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-secondary',
+			text: 'Keep all'
+		});
+
+		const applyBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-primary',
+			text: 'Apply'
+		});
+
+		const cleanup = () => {
+			modal.remove();
+			overlay.remove();
+		};
+
+		overlay.onclick = () => {
+			cleanup();
+			resolve({ choices: new Map(), cancelled: true });
+		};
+
+		keepAllBtn.addEventListener('click', () => {
+			cleanup();
+			resolve({ choices: new Map(), cancelled: true });
+		});
+
+		applyBtn.addEventListener('click', () => {
+			const choices = new Map<string, MissingFileChoice>();
+			for (const { path, read } of readers) choices.set(path, read());
+			cleanup();
+			resolve({ choices, cancelled: false });
+		});
+
+		doc.body.appendChild(overlay);
+		doc.body.appendChild(modal);
+
+		applyBtn.focus();
+	});
+}
+
+export type HistoryAction = 'restore' | 'promote';
+
+export interface HistoryResult {
+	action?: HistoryAction;
+	version?: TimestampedArrangement;
+	cancelled: boolean;
+}
+
+function formatGeometry(g: WindowGeometry): string {
+	return `${g.width ?? '?'}×${g.height ?? '?'} at ${g.x ?? '?'},${g.y ?? '?'}`;
+}
+
+function formatSizes(sizes: number[]): string {
+	return sizes.map(s => Math.round(s)).join(' / ');
+}
+
+/** Render a structural diff as a list of change lines. */
+function renderDiff(container: HTMLElement, diff: ArrangementDiff): void {
+	container.empty();
+	if (isEmptyDiff(diff)) {
+		container.createDiv({ cls: 'perspecta-history-diff-empty', text: 'No structural changes' });
+		return;
+	}
+
+	const line = (cls: string, text: string) => container.createDiv({ cls: `perspecta-history-diff-line ${cls}`, text });
+	for (const w of diff.addedWindows) line('is-added', `+ ${w}`);
+	for (const w of diff.removedWindows) line('is-removed', `− ${w}`);
+	for (const tab of diff.addedTabs) line('is-added', `+ ${tab.name} (${tab.window})`);
+	for (const tab of diff.removedTabs) line('is-removed', `− ${tab.name} (${tab.window})`);
+	for (const move of diff.movedWindows) {
+		line('is-changed', `${move.window} moved: ${formatGeometry(move.from)} → ${formatGeometry(move.to)}`);
+	}
+	for (const resize of diff.resizedSplits) {
+		const where = resize.path.length > 0 ? ` (split ${resize.path.map(i => i + 1).join('.')})` : '';
+		line('is-changed', `${resize.window}${where} sizes: ${formatSizes(resize.from)} → ${formatSizes(resize.to)}`);
+	}
+}
+
+/**
+ * Show the saved versions of a note's context with a structural diff
+ * between any two of them. Each version can be restored (layout only) or
+ * promoted (saved again as the note's current context).
+ */
+export function showHistoryModal(
+	versions: TimestampedArrangement[],
+	fileName: string,
+	targetWindow: Window = window
+): Promise<HistoryResult> {
+	return new Promise((resolve) => {
+		const doc = targetWindow.document;
+
+		const overlay = doc.createElement('div');
+		overlay.className = 'perspecta-debug-overlay';
+
+		const modal = doc.createElement('div');
+		modal.className = 'perspecta-history-modal';
+
+		const title = modal.createDiv({ cls: 'perspecta-modal-title' });
+		title.setText(`Context History - ${fileName}`);
+
+		const subtitle = modal.createDiv({ cls: 'perspecta-modal-subtitle' });
+		subtitle.setText(`${versions.length} version${versions.length !== 1 ? 's' : ''}`);
+
+		const cleanup = () => {
+			modal.remove();
+			overlay.remove();
+		};
+
+		const finish = (result: HistoryResult) => {
+			cleanup();
+			resolve(result);
+		};
+
+		// Newest first; "from" defaults to the previous version, "to" to the newest
+		const sorted = [...versions].sort((a, b) => b.savedAt - a.savedAt);
+		const versionText = (v: TimestampedArrangement) => v.name ? `${v.name} (${formatTimestamp(v.savedAt)})` : formatTimestamp(v.savedAt);
+
+		if (sorted.length > 1) {
+			const compare = modal.createDiv({ cls: 'perspecta-history-compare' });
+			compare.createSpan({ text: 'Compare' });
+			const fromSelect = compare.createEl('select', { cls: 'dropdown' });
+			compare.createSpan({ text: 'with' });
+			const toSelect = compare.createEl('select', { cls: 'dropdown' });
+			sorted.forEach((v, i) => {
+				fromSelect.createEl('option', { value: String(i), text: versionText(v) });
+				toSelect.createEl('option', { value: String(i), text: versionText(v) });
+			});
+			fromSelect.value = '1';
+			toSelect.value = '0';
+
+			const diffContainer = modal.createDiv({ cls: 'perspecta-history-diff' });
+			const updateDiff = () => {
+				const from = sorted[parseInt(fromSelect.value)];
+				const to = sorted[parseInt(toSelect.value)];
+				renderDiff(diffContainer, diffArrangements(from.arrangement, to.arrangement));
+			};
+			fromSelect.addEventListener('change', updateDiff);
+			toSelect.addEventListener('change', updateDiff);
+			updateDiff();
+		}
+
+		const list = modal.createDiv({ cls: 'perspecta-arrangement-list' });
+		sorted.forEach((version, index) => {
+			const item = list.createDiv({ cls: 'perspecta-arrangement-item perspecta-history-item' });
+
+			const previewContainer = item.createDiv({ cls: 'perspecta-arrangement-preview-container' });
+			previewContainer.appendChild(generateArrangementPreview(version, 80, 50));
+			setupPreviewTooltips(previewContainer, doc);
+
+			const info = item.createDiv({ cls: 'perspecta-arrangement-info' });
+			if (version.name) {
+				info.createDiv({ cls: 'perspecta-arrangement-name', text: version.name });
+			}
+			const timeLabel = info.createDiv({ cls: 'perspecta-arrangement-time' });
+			timeLabel.setText(formatTimestamp(version.savedAt));
+			if (index === 0) {
+				timeLabel.createSpan({ cls: 'perspecta-arrangement-badge', text: 'Latest' });
+			}
+			info.createDiv({ cls: 'perspecta-arrangement-summary', text: getArrangementSummary(version) });
+
+			const actions = item.createDiv({ cls: 'perspecta-history-actions' });
+			const restoreBtn = actions.createEl('button', { cls: 'perspecta-modal-button perspecta-modal-button-secondary', text: 'Restore' });
+			restoreBtn.setAttribute('aria-label', 'Open this version without changing the saved context');
+			restoreBtn.addEventListener('click', () => finish({ action: 'restore', version, cancelled: false }));
+
+			if (index > 0) {
+				const promoteBtn = actions.createEl('button', { cls: 'perspecta-modal-button perspecta-modal-button-secondary', text: 'Make current' });
+				promoteBtn.setAttribute('aria-label', 'Save this version as the note\'s current context');
+				promoteBtn.addEventListener('click', () => finish({ action: 'promote', version, cancelled: false }));
+			}
+		});
+
+		const buttonRow = modal.createDiv({ cls: 'perspecta-modal-buttons' });
+		const closeBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-secondary',
+			text: 'Close'
+		});
+
+		overlay.onclick = () => finish({ cancelled: true });
+		closeBtn.addEventListener('click', () => finish({ cancelled: true }));
+
+		doc.body.appendChild(overlay);
+		doc.body.appendChild(modal);
+	});
+}
+
+export interface TemplateEditorResult {
+	name: string;
+	slots: TemplateSlot[];
+	cancelled: boolean;
+}
+
+const TEMPLATE_SLOT_OPTIONS: { kind: TemplateSlotKind; text: string }[] = [
+	{ kind: 'active', text: 'The note it is applied to' },
+	{ kind: 'linked', text: 'Next linked note' },
+	{ kind: 'backlink', text: 'Next backlink' },
+	{ kind: 'file', text: 'Always this file' },
+	{ kind: 'empty', text: 'Empty tab' },
+];
+
+/**
+ * Show a modal to name a layout template and choose what fills each tab
+ * when it is applied. Non-file views are listed but kept as saved.
+ */
+export function showTemplateEditor(
+	tabs: TabState[],
+	slots: TemplateSlot[],
+	initialName: string,
+	targetWindow: Window = window
+): Promise<TemplateEditorResult> {
+	return new Promise((resolve) => {
+		const doc = targetWindow.document;
+
+		const overlay = doc.createElement('div');
+		overlay.className = 'perspecta-debug-overlay';
+
+		const modal = doc.createElement('div');
+		modal.className = 'perspecta-template-modal';
+
+		const title = modal.createDiv({ cls: 'perspecta-modal-title' });
+		title.setText('Save Layout Template');
+
+		const subtitle = modal.createDiv({ cls: 'perspecta-modal-subtitle' });
+		subtitle.setText('Choose what each tab shows when the template is applied to a note.');
+
+		const nameInput = modal.createEl('input', {
+			type: 'text',
+			cls: 'perspecta-label-input',
+			attr: { placeholder: 'Template name' }
+		});
+		nameInput.value = initialName;
+
+		const list = modal.createDiv({ cls: 'perspecta-template-slots' });
+		const readers: (() => TemplateSlot)[] = [];
+
+		tabs.forEach((tab, i) => {
+			const slot = slots[i];
+			const row = list.createDiv({ cls: 'perspecta-template-slot' });
+			const tabName = tab.viewType ? (tab.viewType === 'empty' ? 'New tab' : `${tab.viewType} view`) : tabDisplayName(tab);
+			row.createDiv({ cls: 'perspecta-template-slot-name', text: tabName });
+
+			if (slot.kind === 'view') {
+				row.createDiv({
+					cls: 'perspecta-template-slot-fixed',
+					text: slot.followsActive ? 'View, linked to the note' : 'View, kept as saved'
+				});
+				readers.push(() => slot);
+				return;
+			}
+
+			const select = row.createEl('select', { cls: 'dropdown' });
+			for (const option of TEMPLATE_SLOT_OPTIONS) {
+				// A fixed file needs a file to begin with
+				if (option.kind === 'file' && !tab.path) continue;
+				select.createEl('option', { value: option.kind, text: option.text });
+			}
+			select.value = slot.kind;
+
+			readers.push(() => {
+				switch (select.value as TemplateSlotKind) {
+					case 'active': return { kind: 'active' };
+					case 'linked': return { kind: 'linked', index: 0 };
+					case 'backlink': return { kind: 'backlink', index: 0 };
+					case 'file': return { kind: 'file', path: tab.path };
+					default: return { kind: 'empty' };
+				}
+			});
+		});
+
+		const buttonRow = modal.createDiv({ cls: 'perspecta-modal-buttons' });
+
+		const cancelBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-secondary',
+			text: 'Cancel'
+		});
+
+		const saveBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-primary',
+			text: 'Save template'
+		});
+
+		const updateSaveButton = () => {
+			saveBtn.disabled = nameInput.value.trim() === '';
+		};
+		nameInput.addEventListener('input', updateSaveButton);
+		updateSaveButton();
+
+		const cleanup = () => {
+			modal.remove();
+			overlay.remove();
+		};
+
+		overlay.onclick = () => {
+			cleanup();
+			resolve({ name: initialName, slots, cancelled: true });
+		};
+
+		cancelBtn.addEventListener('click', () => {
+			cleanup();
+			resolve({ name: initialName, slots, cancelled: true });
+		});
+
+		saveBtn.addEventListener('click', () => {
+			const name = nameInput.value.trim();
+			if (!name) return;
+			cleanup();
+			resolve({ name, slots: renumberSlots(readers.map(read => read())), cancelled: false });
+		});
+
+		doc.body.appendChild(overlay);
+		doc.body.appendChild(modal);
+
+		nameInput.focus();
+	});
+}
+
 export interface ConfirmOverwriteResult {
 	confirmed: boolean;
 }
@@ -797,6 +1534,9 @@ export function showConfirmOverwrite(
 		setupPreviewTooltips(previewContainer, doc);
 
 		const infoText = existingInfo.createDiv({ cls: 'perspecta-existing-info-text' });
+		if (existingArrangement.name) {
+			infoText.createDiv({ cls: 'perspecta-arrangement-name', text: existingArrangement.name });
+		}
 		infoText.createDiv({
 			cls: 'perspecta-arrangement-time',
 			text: formatTimestamp(existingArrangement.savedAt)
@@ -851,6 +1591,74 @@ export function showConfirmOverwrite(
 	});
 }
 
+export interface AutoRestorePromptResult {
+	restore: boolean;
+	/** Keep this answer for the note until Obsidian restarts. */
+	remember: boolean;
+}
+
+/**
+ * Ask whether to restore the saved context of a note that was just opened
+ * and matches an auto-restore rule.
+ */
+export function showAutoRestorePrompt(
+	fileName: string,
+	reason: string,
+	targetWindow: Window = window
+): Promise<AutoRestorePromptResult> {
+	return new Promise((resolve) => {
+		const doc = targetWindow.document;
+
+		const overlay = doc.createElement('div');
+		overlay.className = 'perspecta-debug-overlay';
+
+		const modal = doc.createElement('div');
+		modal.className = 'perspecta-confirm-modal';
+
+		const title = modal.createDiv({ cls: 'perspecta-modal-title' });
+		title.setText('Restore Context?');
+
+		const content = modal.createDiv({ cls: 'perspecta-confirm-content' });
+		content.createDiv({ text: `"${fileName}" has a saved context and ${reason}.` });
+
+		const rememberLabel = content.createEl('label', { cls: 'perspecta-auto-restore-remember' });
+		const rememberCheckbox = rememberLabel.createEl('input', { type: 'checkbox' });
+		rememberLabel.createSpan({ text: 'Don\'t ask again for this note until Obsidian restarts' });
+
+		const buttonRow = modal.createDiv({ cls: 'perspecta-modal-buttons' });
+
+		const skipBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-secondary',
+			text: 'Not now'
+		});
+
+		const restoreBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-primary',
+			text: 'Restore'
+		});
+
+		const finish = (restore: boolean) => {
+			modal.remove();
+			overlay.remove();
+			resolve({ restore, remember: rememberCheckbox.checked });
+		};
+
+		// Clicking outside is a "not now" that is never remembered
+		overlay.onclick = () => {
+			modal.remove();
+			overlay.remove();
+			resolve({ restore: false, remember: false });
+		};
+		skipBtn.addEventListener('click', () => finish(false));
+		restoreBtn.addEventListener('click', () => finish(true));
+
+		doc.body.appendChild(overlay);
+		doc.body.appendChild(modal);
+
+		restoreBtn.focus();
+	});
+}
+
 // ============================================================================
 // Workspace picker (copy/move target selection)
 // ============================================================================
@@ -1165,3 +1973,259 @@ export function showWorkspaceDeleteDialog(
 		doc.body.appendChild(modal);
 	});
 }
+
+// ============================================================================
+// Storage migration dialog
+// ----------------------------------------------------------------------------
+// Pick source and target storage, the workspaces to take along and what to
+// do when the target already has arrangements for a note. The dry-run
+// preview is redrawn on every change and can override the policy per note.
+// ============================================================================
+
+export interface StorageMigrationDialogOptions {
+	modes: { mode: StorageMode; label: string }[];
+	current: StorageMode;
+	/** Workspaces a storage mode keeps arrangements in. */
+	workspacesOf: (mode: StorageMode) => WorkspaceInfo[];
+	preview: (options: MigrationOptions) => Promise<MigrationPlan>;
+}
+
+export interface StorageMigrationDialogResult {
+	options?: MigrationOptions;
+	cancelled: boolean;
+}
+
+const POLICY_LABELS: Record<ConflictPolicy, string> = {
+	merge: 'Merge',
+	overwrite: 'Overwrite',
+	skip: 'Skip',
+};
+
+function describeNotePlan(note: NoteMigrationPlan): string {
+	if (note.groups.every(g => g.skipped)) return `${note.sourceCount} kept in source (target has ${note.targetCount})`;
+	const parts = [`${note.sourceCount} → ${note.resultCount}`];
+	if (note.targetCount > 0) parts.push(`target had ${note.targetCount}`);
+	if (note.lost > 0) parts.push(`${note.lost} lost`);
+	if (note.replaced > 0) parts.push(`${note.replaced} replaced`);
+	if (note.labelsLost > 0) parts.push(`${note.labelsLost} label${note.labelsLost === 1 ? '' : 's'} dropped`);
+	return parts.join(' · ');
+}
+
+export function showStorageMigrationDialog(
+	dialog: StorageMigrationDialogOptions,
+	targetWindow: Window = window
+): Promise<StorageMigrationDialogResult> {
+	return new Promise((resolve) => {
+		const doc = targetWindow.document;
+
+		const overlay = doc.createElement('div');
+		overlay.className = 'perspecta-debug-overlay';
+
+		const modal = doc.createElement('div');
+		modal.className = 'perspecta-migration-modal';
+
+		const title = modal.createDiv({ cls: 'perspecta-modal-title' });
+		title.setText('Migrate contexts');
+
+		const subtitle = modal.createDiv({ cls: 'perspecta-modal-subtitle' });
+		subtitle.setText('Move saved arrangements to another storage. Nothing is changed until you click Migrate, and a migration can be undone from the settings.');
+
+		const controls = modal.createDiv({ cls: 'perspecta-migration-controls' });
+		const addSelect = (label: string) => {
+			const row = controls.createDiv({ cls: 'perspecta-migration-control' });
+			row.createSpan({ text: label });
+			return row.createEl('select', { cls: 'dropdown' });
+		};
+
+		const fromSelect = addSelect('From');
+		const toSelect = addSelect('To');
+		for (const { mode, label } of dialog.modes) {
+			fromSelect.createEl('option', { value: mode, text: label });
+			toSelect.createEl('option', { value: mode, text: label });
+		}
+		fromSelect.value = dialog.current;
+		toSelect.value = dialog.modes.find(m => m.mode !== dialog.current)?.mode ?? dialog.current;
+
+		const policySelect = addSelect('When the target has arrangements');
+		for (const [policy, label] of Object.entries(POLICY_LABELS)) {
+			policySelect.createEl('option', { value: policy, text: label });
+		}
+
+		const workspaceList = modal.createDiv({ cls: 'perspecta-migration-workspaces' });
+		const selectedWorkspaces = new Set<WorkspaceId>();
+		const renderWorkspaces = () => {
+			workspaceList.empty();
+			selectedWorkspaces.clear();
+			const workspaces = dialog.workspacesOf(fromSelect.value as StorageMode);
+			if (workspaces.length <= 1) {
+				for (const ws of workspaces) selectedWorkspaces.add(ws.id);
+				return;
+			}
+			workspaceList.createDiv({ cls: 'perspecta-migration-heading', text: 'Workspaces' });
+			for (const ws of workspaces) {
+				selectedWorkspaces.add(ws.id);
+				const label = workspaceList.createEl('label', { cls: 'perspecta-migration-workspace' });
+				const checkbox = label.createEl('input', { type: 'checkbox' });
+				checkbox.checked = true;
+				label.createSpan({ text: ws.displayName });
+				checkbox.addEventListener('change', () => {
+					if (checkbox.checked) selectedWorkspaces.add(ws.id);
+					else selectedWorkspaces.delete(ws.id);
+					void refresh();
+				});
+			}
+		};
+
+		const summary = modal.createDiv({ cls: 'perspecta-migration-summary' });
+		const list = modal.createDiv({ cls: 'perspecta-migration-list' });
+		const overrides: Record<string, ConflictPolicy> = {};
+
+		const buttonRow = modal.createDiv({ cls: 'perspecta-modal-buttons' });
+		const cancelBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-secondary',
+			text: 'Cancel'
+		});
+		const migrateBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-primary',
+			text: 'Migrate'
+		});
+
+		const currentOptions = (): MigrationOptions => ({
+			from: fromSelect.value as StorageMode,
+			to: toSelect.value as StorageMode,
+			workspaces: Array.from(selectedWorkspaces),
+			policy: policySelect.value as ConflictPolicy,
+			overrides: { ...overrides },
+		});
+
+		// Previews can finish out of order; only the latest one is drawn
+		let generation = 0;
+		const refresh = async () => {
+			const current = ++generation;
+			const options = currentOptions();
+			list.empty();
+			migrateBtn.disabled = true;
+			if (options.from === options.to) {
+				summary.setText('Pick two different storages.');
+				return;
+			}
+			summary.setText('Looking for saved arrangements…');
+			const plan = await dialog.preview(options);
+			if (current !== generation) return;
+
+			const moving = plan.notes.filter(n => n.groups.some(g => !g.skipped));
+			const lost = plan.notes.reduce((sum, n) => sum + n.lost + n.replaced, 0);
+			summary.setText(plan.notes.length === 0
+				? 'No arrangements to migrate.'
+				: `${moving.length} of ${plan.notes.length} note${plan.notes.length === 1 ? '' : 's'} will be migrated`
+					+ (lost > 0 ? `, ${lost} arrangement${lost === 1 ? '' : 's'} lost.` : ', nothing lost.'));
+			summary.classList.toggle('is-lossy', lost > 0);
+			migrateBtn.disabled = moving.length === 0;
+
+			for (const note of plan.notes) {
+				const item = list.createDiv({ cls: 'perspecta-migration-note' });
+				const info = item.createDiv({ cls: 'perspecta-migration-note-info' });
+				info.createDiv({ cls: 'perspecta-migration-note-path', text: note.path });
+				const details = info.createDiv({ cls: 'perspecta-migration-note-details', text: describeNotePlan(note) });
+				details.classList.toggle('is-lossy', note.lost + note.replaced + note.labelsLost > 0);
+
+				const select = item.createEl('select', { cls: 'dropdown' });
+				for (const [policy, label] of Object.entries(POLICY_LABELS)) {
+					select.createEl('option', { value: policy, text: label });
+				}
+				select.value = note.policy;
+				select.addEventListener('change', () => {
+					overrides[note.path] = select.value as ConflictPolicy;
+					void refresh();
+				});
+			}
+		};
+
+		fromSelect.addEventListener('change', () => { renderWorkspaces(); void refresh(); });
+		toSelect.addEventListener('change', () => void refresh());
+		policySelect.addEventListener('change', () => {
+			// A new default replaces the per-note choices
+			for (const path of Object.keys(overrides)) delete overrides[path];
+			void refresh();
+		});
+
+		const cleanup = () => {
+			modal.remove();
+			overlay.remove();
+		};
+		const cancel = () => {
+			cleanup();
+			resolve({ cancelled: true });
+		};
+
+		overlay.onclick = cancel;
+		cancelBtn.addEventListener('click', cancel);
+		migrateBtn.addEventListener('click', () => {
+			const options = currentOptions();
+			cleanup();
+			resolve({ options, cancelled: false });
+		});
+
+		doc.body.appendChild(overlay);
+		doc.body.appendChild(modal);
+
+		renderWorkspaces();
+		void refresh();
+	});
+}
+
+/**
+ * Ask whether to switch to the new storage mode after a migration that
+ * failed for some notes. Those notes still have their arrangements in the
+ * old mode, the migrated ones only in the new one.
+ */
+export function showMigrationErrorsPrompt(
+	result: { migrated: number; errors: number },
+	from: string,
+	to: string,
+	targetWindow: Window = window
+): Promise<{ switchMode: boolean }> {
+	return new Promise((resolve) => {
+		const doc = targetWindow.document;
+
+		const overlay = doc.createElement('div');
+		overlay.className = 'perspecta-debug-overlay';
+
+		const modal = doc.createElement('div');
+		modal.className = 'perspecta-confirm-modal';
+
+		const title = modal.createDiv({ cls: 'perspecta-modal-title' });
+		title.setText('Migration Incomplete');
+
+		const content = modal.createDiv({ cls: 'perspecta-confirm-content' });
+		content.createDiv({ text: `${result.migrated} contexts were moved to ${to}; ${result.errors} could not be migrated and are still in ${from}.` });
+		content.createDiv({ text: 'Whichever storage you use, the other contexts stay hidden until you migrate again or roll back the migration in the settings.' });
+
+		const buttonRow = modal.createDiv({ cls: 'perspecta-modal-buttons' });
+
+		const stayBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-secondary',
+			text: `Keep using ${from}`
+		});
+
+		const switchBtn = buttonRow.createEl('button', {
+			cls: 'perspecta-modal-button perspecta-modal-button-primary',
+			text: `Switch to ${to}`
+		});
+
+		const finish = (switchMode: boolean) => {
+			modal.remove();
+			overlay.remove();
+			resolve({ switchMode });
+		};
+
+		overlay.onclick = () => finish(false);
+		stayBtn.addEventListener('click', () => finish(false));
+		switchBtn.addEventListener('click', () => finish(true));
+
+		doc.body.appendChild(overlay);
+		doc.body.appendChild(modal);
+
+		stayBtn.focus();
+	});
+}
@@ -18,10 +18,18 @@ import type PerspectaPlugin from '../main';
 import { renderChangelogToContainer } from '../changelog';
 import { getWallpaperPlatformNotes } from '../utils/wallpaper';
 import { ExtendedApp, getWorkspacesInstance } from '../types/obsidian-internal';
-import { DEFAULT_WORKSPACE_ID } from '../types';
+import { AutoRestoreArrangement, AutoSaveNotes, DEFAULT_WORKSPACE_ID, SessionRestore, StorageMode } from '../types';
+import { parseTags } from '../services/labels';
 import { slugifyWorkspaceName } from '../storage/external-store';
 import { showWorkspaceDeleteDialog } from './modals';
 
+/** How the storage modes are named in the UI. */
+export const STORAGE_MODE_LABELS: Record<StorageMode, string> = {
+	frontmatter: 'Frontmatter',
+	external: 'JSON files',
+	indexeddb: 'IndexedDB',
+};
+
 type SettingsTab = 'changelog' | 'context' | 'storage' | 'workspaces' | 'backup' | 'experimental' | 'debug';
 
 export class PerspectaSettingTab extends PluginSettingTab {
@@ -131,6 +139,156 @@ export class PerspectaSettingTab extends PluginSettingTab {
 			.addToggle(t => t.setValue(this.plugin.settings.autoGenerateUids).onChange(async v => {
 				this.plugin.settings.autoGenerateUids = v; await this.plugin.saveSettings();
 			}));
+
+		new Setting(containerEl).setName('Save sidebar layout')
+			.setDesc('Save which sidebar panels are open, their order, split sizes and the sidebar width. When off, only the collapsed state and active panel are saved.')
+			.addToggle(t => t.setValue(this.plugin.settings.captureSidebarLayout).onChange(async v => {
+				this.plugin.settings.captureSidebarLayout = v; await this.plugin.saveSettings();
+			}));
+
+		new Setting(containerEl).setName('Open alongside includes popouts')
+			.setDesc('When opening a context alongside the current layout, also open its saved popout windows. When off, only the main window layout is opened.')
+			.addToggle(t => t.setValue(this.plugin.settings.alongsideIncludePopouts).onChange(async v => {
+				this.plugin.settings.alongsideIncludePopouts = v; await this.plugin.saveSettings();
+			}));
+
+		new Setting(containerEl).setName('Report missing files after restore')
+			.setDesc('List tabs whose file could not be found, with options to pick a replacement or remove them from the saved context.')
+			.addToggle(t => t.setValue(this.plugin.settings.showMissingFilesReport).onChange(async v => {
+				this.plugin.settings.showMissingFilesReport = v; await this.plugin.saveSettings();
+			}));
+
+		new Setting(containerEl).setName('Ask for a name when saving')
+			.setDesc('Prompt for a name, description and tags every time a context is saved. The "Save context as…" command always asks.')
+			.addToggle(t => t.setValue(this.plugin.settings.promptForArrangementLabel).onChange(async v => {
+				this.plugin.settings.promptForArrangementLabel = v; await this.plugin.saveSettings();
+			}));
+
+		new Setting(containerEl).setName('Undo history')
+			.setDesc('How many layouts to keep for "Undo last restore". The current layout is saved just before each restore.')
+			.addDropdown(d => d
+				.addOptions({
+					'0': 'Off',
+					'1': '1',
+					'3': '3',
+					'5': '5',
+					'10': '10'
+				})
+				.setValue(String(this.plugin.settings.undoHistorySize))
+				.onChange(async v => {
+					this.plugin.settings.undoHistorySize = parseInt(v);
+					await this.plugin.saveSettings();
+					await this.plugin.undoStore.setCapacity(this.plugin.settings.undoHistorySize);
+				}));
+
+		containerEl.createEl('h4', { text: 'Autosave' });
+
+		new Setting(containerEl).setName('Save layout changes to the current context note')
+			.setDesc('After a context is restored, keep saving the layout to that note when it changes, when a popout window closes and when Obsidian quits. Unchanged layouts are not saved again. Notes with several arrangements keep one named "Autosave", which does not count toward the arrangement limit; in frontmatter, canvas and base storage the note\'s one arrangement is updated.')
+			.addToggle(t => t.setValue(this.plugin.settings.enableAutoSave).onChange(async v => {
+				this.plugin.settings.enableAutoSave = v; await this.plugin.saveSettings();
+				if (!v) this.plugin.autoSave.track(null);
+				this.display();
+			}));
+
+		if (this.plugin.settings.enableAutoSave) {
+			new Setting(containerEl).setName('Save after')
+				.setDesc('How long the layout has to stay unchanged before it is saved.')
+				.addDropdown(d => d
+					.addOptions({
+						'5': '5 seconds',
+						'10': '10 seconds',
+						'30': '30 seconds',
+						'60': '1 minute',
+						'300': '5 minutes'
+					})
+					.setValue(String(this.plugin.settings.autoSaveDelaySeconds))
+					.onChange(async v => {
+						this.plugin.settings.autoSaveDelaySeconds = parseInt(v);
+						await this.plugin.saveSettings();
+						this.plugin.autoSave.setDelay(this.plugin.settings.autoSaveDelaySeconds * 1000);
+					}));
+
+			new Setting(containerEl).setName('Notes to autosave')
+				.setDesc('"perspecta-autosave: false" in a note\'s frontmatter always opts it out. Applies from the next restore.')
+				.addDropdown(d => d
+					.addOptions({
+						all: 'Every restored note',
+						'auto-restore': 'Notes matching the auto-restore rules',
+						flagged: 'Only notes with "perspecta-autosave: true"'
+					})
+					.setValue(this.plugin.settings.autoSaveNotes)
+					.onChange(async v => {
+						this.plugin.settings.autoSaveNotes = v as AutoSaveNotes;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		containerEl.createEl('h4', { text: 'Auto-restore' });
+
+		new Setting(containerEl).setName('Restore context when a note is opened')
+			.setDesc('Restore the saved context of notes that match a rule below, or that have "perspecta-auto-restore: true" in their frontmatter (or the name of an arrangement). "perspecta-auto-restore: false" opts a note out.')
+			.addToggle(t => t.setValue(this.plugin.settings.enableAutoRestore).onChange(async v => {
+				this.plugin.settings.enableAutoRestore = v; await this.plugin.saveSettings();
+				this.display();
+			}));
+
+		if (this.plugin.settings.enableAutoRestore) {
+			new Setting(containerEl).setName('Folders')
+				.setDesc('One folder or glob per line, e.g. "Projects" or "Projects/**/*.md".')
+				.addTextArea(t => t
+					.setPlaceholder('Projects/**')
+					.setValue(this.plugin.settings.autoRestoreFolders.join('\n'))
+					.onChange(async v => {
+						this.plugin.settings.autoRestoreFolders = v.split('\n').map(f => f.trim()).filter(Boolean);
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl).setName('Tags')
+				.setDesc('Comma-separated tags. A tag also matches its nested tags.')
+				.addText(t => t
+					.setPlaceholder('project, review')
+					.setValue(this.plugin.settings.autoRestoreTags.join(', '))
+					.onChange(async v => {
+						this.plugin.settings.autoRestoreTags = parseTags(v);
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl).setName('Arrangement to restore')
+				.setDesc('For notes with several arrangements. A name in the frontmatter flag always picks that arrangement.')
+				.addDropdown(d => d
+					.addOptions({
+						latest: 'Most recent',
+						ask: 'Ask each time'
+					})
+					.setValue(this.plugin.settings.autoRestoreArrangement)
+					.onChange(async v => {
+						this.plugin.settings.autoRestoreArrangement = v as AutoRestoreArrangement;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl).setName('Ask before restoring')
+				.setDesc('Confirm each auto-restore. The prompt can remember the answer for a note until Obsidian restarts.')
+				.addToggle(t => t.setValue(this.plugin.settings.autoRestoreConfirm).onChange(async v => {
+					this.plugin.settings.autoRestoreConfirm = v; await this.plugin.saveSettings();
+				}));
+		}
+
+		containerEl.createEl('h4', { text: 'Session restore' });
+
+		new Setting(containerEl).setName('On startup')
+			.setDesc('Bring back the context note last restored or saved in the active workspace. Restoring replaces the layout Obsidian reopened with; with autosave on, the context is the one you left.')
+			.addDropdown(d => d
+				.addOptions({
+					off: 'Keep Obsidian\'s layout',
+					ask: 'Offer to restore',
+					auto: 'Restore automatically'
+				})
+				.setValue(this.plugin.settings.sessionRestore)
+				.onChange(async v => {
+					this.plugin.settings.sessionRestore = v as SessionRestore;
+					await this.plugin.saveSettings();
+				}));
 	}
 
 	private displayStorageSettings(containerEl: HTMLElement): void {
@@ -154,21 +312,24 @@ export class PerspectaSettingTab extends PluginSettingTab {
 			text: 'To sync window arrangements across devices, enable "Sync all other types" in Settings → Sync → Selective sync. This allows JSON context files to sync between your devices.'
 		});
 
-		new Setting(containerEl).setName('Store window arrangements in frontmatter')
-			.setDesc('When enabled, context data is stored in note frontmatter (syncs with note). When disabled, context is stored externally in the plugin folder (keeps notes cleaner, requires perspecta-uid in frontmatter).')
-			.addToggle(t => t.setValue(this.plugin.settings.storageMode === 'frontmatter').onChange(async v => {
-				this.plugin.settings.storageMode = v ? 'frontmatter' : 'external';
-				await this.plugin.saveSettings();
-				// Initialize external store if switching to external mode
-				if (!v) {
-					await this.plugin.externalStore.initialize();
-				}
-				// Refresh display to update button visibility
-				this.display();
-			}));
+		new Setting(containerEl).setName('Store window arrangements in')
+			.setDesc('Frontmatter: in the note itself (syncs with the note). JSON files: in the plugin folder (keeps notes cleaner, requires perspecta-uid in frontmatter). IndexedDB: in the app\'s database, no files at all — arrangements stay on this device. Switching does not move existing arrangements; use Migrate contexts below.')
+			.addDropdown(d => d
+				.addOptions(STORAGE_MODE_LABELS)
+				.setValue(this.plugin.settings.storageMode)
+				.onChange(async v => {
+					this.plugin.settings.storageMode = v as StorageMode;
+					await this.plugin.saveSettings();
+					// Initialize external store if switching to external mode
+					if (v === 'external') {
+						await this.plugin.externalStore.initialize();
+					}
+					// Refresh display to update button visibility
+					this.display();
+				}));
 
-		// Multi-arrangement settings (only shown for external storage mode)
-		if (this.plugin.settings.storageMode === 'external') {
+		// Multi-arrangement settings (only shown for the external storage modes)
+		if (this.plugin.settings.storageMode !== 'frontmatter') {
 			new Setting(containerEl).setName('Maximum arrangements per note')
 				.setDesc('How many window arrangements to store per note. Older arrangements are automatically removed when the limit is reached.')
 				.addDropdown(d => d
@@ -198,48 +359,91 @@ export class PerspectaSettingTab extends PluginSettingTab {
 			}
 		}
 
-		// Migration buttons - show based on current storage mode
-		if (this.plugin.settings.storageMode === 'frontmatter') {
-			new Setting(containerEl)
-				.setName('Migrate to external storage')
-				.setDesc('Move all context data from note frontmatter to the plugin folder. This cleans up your notes by removing perspecta-arrangement properties.')
-				.addButton(btn => btn
-					.setButtonText('Migrate to external')
-					.setCta()
-					.onClick(async () => {
-						btn.setDisabled(true);
-						btn.setButtonText('Migrating...');
-						try {
-							const result = await this.plugin.migrateToExternalStorage();
-							new Notice(`Migration complete: ${result.migrated} contexts moved${result.errors > 0 ? `, ${result.errors} errors` : ''}`, 4000);
-							this.display(); // Refresh to show updated state
-						} catch (e) {
-							new Notice('Migration failed: ' + (e as Error).message, 4000);
-							btn.setDisabled(false);
-							btn.setButtonText('Migrate to external');
-						}
-					}));
-		} else {
-			new Setting(containerEl)
-				.setName('Migrate to frontmatter')
-				.setDesc('Move all context data from the plugin folder into note frontmatter. This makes contexts portable with your notes.')
-				.addButton(btn => btn
-					.setButtonText('Migrate to frontmatter')
-					.setCta()
-					.onClick(async () => {
-						btn.setDisabled(true);
-						btn.setButtonText('Migrating...');
-						try {
-							const result = await this.plugin.migrateToFrontmatter();
-							new Notice(`Migration complete: ${result.migrated} contexts moved${result.errors > 0 ? `, ${result.errors} errors` : ''}`, 4000);
-							this.display(); // Refresh to show updated state
-						} catch (e) {
-							new Notice('Migration failed: ' + (e as Error).message, 4000);
-							btn.setDisabled(false);
-							btn.setButtonText('Migrate to frontmatter');
-						}
-					}));
-		}
+		new Setting(containerEl).setName('Versions in context history')
+			.setDesc('Every save is also kept in a per-note history (see "Show context history"), separate from the arrangements above. 0 turns history off.')
+			.addDropdown(d => d
+				.addOptions({
+					'0': 'Off',
+					'5': '5',
+					'10': '10',
+					'20': '20',
+					'50': '50',
+					'100': '100'
+				})
+				.setValue(String(this.plugin.settings.historyMaxVersions))
+				.onChange(async v => {
+					this.plugin.settings.historyMaxVersions = parseInt(v);
+					await this.plugin.saveSettings();
+					this.plugin.historyStore.setRetention({ maxVersions: this.plugin.settings.historyMaxVersions, maxAgeDays: this.plugin.settings.historyMaxAgeDays });
+				}));
+
+		new Setting(containerEl).setName('Keep history for')
+			.setDesc('Older versions are removed the next time the note is saved. The newest version is always kept.')
+			.addDropdown(d => d
+				.addOptions({
+					'7': '1 week',
+					'30': '1 month',
+					'90': '3 months',
+					'365': '1 year',
+					'0': 'Forever'
+				})
+				.setValue(String(this.plugin.settings.historyMaxAgeDays))
+				.onChange(async v => {
+					this.plugin.settings.historyMaxAgeDays = parseInt(v);
+					await this.plugin.saveSettings();
+					this.plugin.historyStore.setRetention({ maxVersions: this.plugin.settings.historyMaxVersions, maxAgeDays: this.plugin.settings.historyMaxAgeDays });
+				}));
+
+		new Setting(containerEl)
+			.setName('Migrate contexts')
+			.setDesc('Move saved arrangements between frontmatter, JSON files and IndexedDB. A preview shows what each note keeps and loses before anything is changed; afterwards the target becomes the storage mode, unless nothing was migrated. If some notes fail, you choose which storage to keep using.')
+			.addButton(btn => btn
+				.setButtonText('Migrate…')
+				.setCta()
+				.onClick(async () => {
+					try {
+						await this.plugin.migrateStorage();
+						this.display(); // Refresh to show updated state
+					} catch (e) {
+						new Notice('Migration failed: ' + (e as Error).message, 4000);
+					}
+				}));
+
+		// Past migrations that can still be undone
+		const migrationListContainer = containerEl.createDiv({ cls: 'perspecta-backup-list-container' });
+		this.plugin.listStorageMigrations().then(migrations => {
+			for (const { name, path, manifest } of migrations) {
+				const item = migrationListContainer.createDiv({ cls: 'perspecta-backup-item' });
+
+				const info = item.createDiv({ cls: 'perspecta-backup-info' });
+				info.createDiv({ cls: 'perspecta-backup-name', text: `${STORAGE_MODE_LABELS[manifest.from]} → ${STORAGE_MODE_LABELS[manifest.to]}, ${manifest.entries.length} note${manifest.entries.length === 1 ? '' : 's'}` });
+				info.createDiv({
+					cls: 'perspecta-backup-date',
+					text: `${new Date(manifest.createdAt).toLocaleString()} · ${name}`
+				});
+
+				const undoBtn = item.createEl('button', {
+					cls: 'perspecta-backup-restore-btn',
+					text: 'Undo'
+				});
+
+				undoBtn.addEventListener('click', async () => {
+					undoBtn.disabled = true;
+					undoBtn.textContent = 'Undoing...';
+					try {
+						const result = await this.plugin.rollbackStorageMigration(path);
+						new Notice(`Migration undone: ${result.restored} contexts restored`
+							+ (result.missing > 0 ? `, ${result.missing} notes missing` : '')
+							+ (result.errors > 0 ? `, ${result.errors} errors` : ''), 4000);
+						this.display();
+					} catch (e) {
+						new Notice('Undo failed: ' + (e as Error).message, 4000);
+						undoBtn.disabled = false;
+						undoBtn.textContent = 'Undo';
+					}
+				});
+			}
+		});
 
 		new Setting(containerEl)
 			.setName('Clean up old uid properties')
@@ -426,7 +630,7 @@ export class PerspectaSettingTab extends PluginSettingTab {
 									await this.plugin.externalStore.createWorkspaceBucket(trimmed, targetSlug);
 								}
 								const max = this.plugin.settings.maxArrangementsPerNote;
-								const stats = this.plugin.externalStore.bulkMove(bucket.id, targetSlug, 'merge', max);
+								const stats = await this.plugin.externalStore.bulkMove(bucket.id, targetSlug, 'merge', max);
 								await this.plugin.externalStore.deleteWorkspaceBucket(bucket.id);
 								if (obsidianInstance && !obsidianInstance.workspaces[trimmed]) {
 									try { obsidianInstance.saveWorkspace(trimmed); } catch { /* ignore */ }
@@ -467,7 +671,7 @@ export class PerspectaSettingTab extends PluginSettingTab {
 							try {
 								if (result.action === 'move' && result.targetWorkspaceId) {
 									const max = this.plugin.settings.maxArrangementsPerNote;
-									const stats = this.plugin.externalStore.bulkMove(bucket.id, result.targetWorkspaceId, 'merge', max);
+									const stats = await this.plugin.externalStore.bulkMove(bucket.id, result.targetWorkspaceId, 'merge', max);
 									await this.plugin.externalStore.deleteWorkspaceBucket(bucket.id);
 									const targetName = buckets.find(w => w.id === result.targetWorkspaceId)?.displayName ?? result.targetWorkspaceId;
 									new Notice(`Moved ${stats.uids} arrangement${stats.uids === 1 ? '' : 's'} to "${targetName}"; deleted "${bucket.displayName}"`);
@@ -576,6 +780,14 @@ export class PerspectaSettingTab extends PluginSettingTab {
 				await this.plugin.saveSettings();
 			}));
 
+		new Setting(containerEl)
+			.setName('Incremental restore')
+			.setDesc('Keep tabs and windows that are already open, moving tabs between tab groups and windows as needed, and only open or close what differs. Avoids flicker and keeps editor undo history. Windows whose split layout differs are still rebuilt.')
+			.addToggle(t => t.setValue(this.plugin.settings.enableIncrementalRestore).onChange(async v => {
+				this.plugin.settings.enableIncrementalRestore = v;
+				await this.plugin.saveSettings();
+			}));
+
 		// Proxy windows section
 		containerEl.createEl('h4', { text: 'Proxy windows' });
 
@@ -10,6 +10,9 @@ export const TIMING = {
 	
 	// External store debounce delay (in ms)
 	EXTERNAL_STORE_DEBOUNCE: 2000,
+
+	// Delay before reloading context files changed on disk (in ms)
+	EXTERNAL_STORE_RELOAD_DEBOUNCE: 500,
 	
 	// UI delays (in ms)
 	INDICATORS_REFRESH_DELAY: 500,
@@ -21,6 +24,16 @@ export const TIMING = {
 	// Window restore delays (in ms)
 	RESTORE_PAUSE_SHORT: 100,
 	RESTORE_PAUSE_LONG: 200,
+
+	// Auto-restore: quiet period after a restore, and how long the undo toast stays (in ms)
+	AUTO_RESTORE_COOLDOWN: 3000,
+	AUTO_RESTORE_TOAST_DURATION: 8000,
+
+	// Autosave after a popout closed, once the close has settled (in ms)
+	AUTOSAVE_WINDOW_CLOSE_DELAY: 300,
+
+	// Session restore: how long the startup offer stays (in ms)
+	SESSION_RESTORE_TOAST_DURATION: 15000,
 } as const;
 
 export const LIMITS = {
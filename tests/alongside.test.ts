@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { placeAlongsideSplit } from '../src/services/alongside';
+import { WorkspaceNodeState } from '../src/types';
+
+function tabs(...paths: string[]): WorkspaceNodeState {
+	return { type: 'tabs', tabs: paths.map((path, i) => ({ path, active: i === 0 })) };
+}
+
+function columns(sizes: number[] | undefined, ...children: WorkspaceNodeState[]): WorkspaceNodeState {
+	return { type: 'split', direction: 'vertical', sizes, children };
+}
+
+describe('open alongside placement', () => {
+	it('halves the only tab group', () => {
+		expect(placeAlongsideSplit(tabs('a.md'), [])).toEqual({ anchor: [] });
+		expect(placeAlongsideSplit(tabs('a.md'), null)).toEqual({ anchor: [] });
+	});
+
+	it('adds a last column taking an equal share from every column', () => {
+		const placement = placeAlongsideSplit(columns([30, 70], tabs('a.md'), tabs('b.md')), [0]);
+		expect(placement.anchor).toEqual([1]);
+		expect(placement.sizes).toEqual([20, 70 * 2 / 3, 100 / 3]);
+		expect(placement.sizes?.reduce((a, b) => a + b, 0)).toBeCloseTo(100);
+	});
+
+	it('treats columns without saved sizes as equal', () => {
+		expect(placeAlongsideSplit(columns(undefined, tabs('a.md'), tabs('b.md'), tabs('c.md')), null))
+			.toEqual({ anchor: [2], sizes: [0.75, 0.75, 0.75, 0.75] });
+		expect(placeAlongsideSplit(columns([50], tabs('a.md'), tabs('b.md')), null).sizes).toEqual([2 / 3, 2 / 3, 2 / 3]);
+	});
+
+	it('halves the most recent group when the last column is split', () => {
+		const root = columns([50, 50], tabs('a.md'), { type: 'split', direction: 'horizontal', children: [tabs('b.md'), tabs('c.md')] });
+		expect(placeAlongsideSplit(root, [0])).toEqual({ anchor: [0] });
+		expect(placeAlongsideSplit(root, null)).toEqual({ anchor: [1, 1] });
+	});
+
+	it('halves the most recent group when the root is split into rows', () => {
+		const root: WorkspaceNodeState = { type: 'split', direction: 'horizontal', sizes: [50, 50], children: [tabs('a.md'), tabs('b.md')] };
+		expect(placeAlongsideSplit(root, [1])).toEqual({ anchor: [1] });
+		expect(placeAlongsideSplit(root, null)).toEqual({ anchor: [1] });
+	});
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { AutoRestoreGuard, globToRegExp, matchAutoRestoreRule } from '../src/services/auto-restore';
+
+const NO_RULES = { folders: [], tags: [] };
+
+describe('globToRegExp', () => {
+	it('matches a plain folder and everything below it', () => {
+		const re = globToRegExp('Projects/');
+		expect(re.test('Projects/a.md')).toBe(true);
+		expect(re.test('Projects/sub/b.md')).toBe(true);
+		expect(re.test('Projects.md')).toBe(false);
+		expect(re.test('Other/Projects/a.md')).toBe(false);
+	});
+
+	it('keeps * and ? within one folder and lets ** cross folders', () => {
+		expect(globToRegExp('Daily/*.md').test('Daily/2024-01-01.md')).toBe(true);
+		expect(globToRegExp('Daily/*.md').test('Daily/2024/01.md')).toBe(false);
+		expect(globToRegExp('Daily/????.md').test('Daily/2024.md')).toBe(true);
+		expect(globToRegExp('Projects/**').test('Projects/a/b/c.canvas')).toBe(true);
+		expect(globToRegExp('**/Review.md').test('Review.md')).toBe(true);
+		expect(globToRegExp('**/Review.md').test('a/b/Review.md')).toBe(true);
+	});
+});
+
+describe('matchAutoRestoreRule', () => {
+	it('follows the frontmatter flag first', () => {
+		const rules = { folders: ['Projects'], tags: ['project'] };
+		expect(matchAutoRestoreRule('Inbox/a.md', true, [], NO_RULES)).toEqual({ reason: 'frontmatter' });
+		expect(matchAutoRestoreRule('Inbox/a.md', ' Review ', [], NO_RULES)).toEqual({ reason: 'frontmatter', arrangementName: 'Review' });
+		expect(matchAutoRestoreRule('Projects/a.md', false, ['#project'], rules)).toBeNull();
+	});
+
+	it('matches folder globs and tags, including nested tags', () => {
+		const rules = { folders: ['Projects/**'], tags: ['#Project'] };
+		expect(matchAutoRestoreRule('Projects/a.md', undefined, [], rules)).toEqual({ reason: 'folder' });
+		expect(matchAutoRestoreRule('Inbox/a.md', undefined, ['#project/alpha'], rules)).toEqual({ reason: 'tag' });
+		expect(matchAutoRestoreRule('Inbox/a.md', undefined, ['#projects'], rules)).toBeNull();
+		expect(matchAutoRestoreRule('Inbox/a.md', undefined, [], rules)).toBeNull();
+	});
+});
+
+describe('AutoRestoreGuard', () => {
+	it('holds off restores while one settles and never repeats the last note', () => {
+		const guard = new AutoRestoreGuard({ cooldownMs: 1000 });
+		expect(guard.mayRestore('a.md', 0)).toBe(true);
+
+		guard.restored('a.md', 0);
+		expect(guard.mayRestore('b.md', 500)).toBe(false);
+		expect(guard.mayRestore('b.md', 1000)).toBe(true);
+		expect(guard.mayRestore('a.md', 5000)).toBe(false);
+
+		guard.hold(2000);
+		expect(guard.mayRestore('b.md', 2500)).toBe(false);
+		expect(guard.mayRestore('b.md', 3000)).toBe(true);
+	});
+
+	it('restores a note again after another note was opened (A → B → A)', () => {
+		const guard = new AutoRestoreGuard({ cooldownMs: 1000 });
+		guard.restored('a.md', 0);
+		guard.opened('a.md', 1500);
+		expect(guard.mayRestore('a.md', 1500)).toBe(false);
+
+		guard.opened('b.md', 2000);
+		expect(guard.mayRestore('b.md', 2000)).toBe(true);
+		guard.opened('a.md', 3000);
+		expect(guard.mayRestore('a.md', 3000)).toBe(true);
+	});
+
+	it('ignores notes opened while a restore settles', () => {
+		const guard = new AutoRestoreGuard({ cooldownMs: 1000 });
+		guard.restored('a.md', 0);
+		guard.opened('b.md', 500);
+		expect(guard.mayRestore('a.md', 1500)).toBe(false);
+	});
+
+	it('remembers answers per note', () => {
+		const guard = new AutoRestoreGuard({ cooldownMs: 1000 });
+		guard.remember('a.md', 'skip');
+		expect(guard.decisionFor('a.md')).toBe('skip');
+		expect(guard.decisionFor('b.md')).toBeUndefined();
+	});
+});
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { App, TFile } from 'obsidian';
+import { arrangementsToEvict, AutoSaveScheduler, layoutFingerprint, writeAutosave } from '../src/services/autosave';
+import { IndexedDbContextStore } from '../src/storage/indexeddb-store';
+import { InlineContextStore } from '../src/storage/inline-context-store';
+import { AUTOSAVE_ARRANGEMENT_NAME, WindowArrangementV2 } from '../src/types';
+import { FakeIndexedDb } from './stubs/indexeddb';
+import { makeMockApp, makeUids } from './stubs/vault';
+
+function layout(ts: number, path = 'a.md'): WindowArrangementV2 {
+	return { v: 2, ts, main: { root: { type: 'tabs', tabs: [{ path, active: true }] } }, popouts: [], focusedWindow: -1 };
+}
+
+describe('layoutFingerprint', () => {
+	it('ignores the capture time', () => {
+		expect(layoutFingerprint(layout(1))).toBe(layoutFingerprint(layout(2)));
+		expect(layoutFingerprint(layout(1))).not.toBe(layoutFingerprint(layout(1, 'b.md')));
+	});
+});
+
+describe('AutoSaveScheduler', () => {
+	let current: WindowArrangementV2;
+	let save: ReturnType<typeof vi.fn>;
+	let scheduler: AutoSaveScheduler;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		current = layout(1);
+		save = vi.fn(async () => {});
+		scheduler = new AutoSaveScheduler({ delayMs: 1000, capture: () => current, save });
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('does nothing until a note is tracked', async () => {
+		scheduler.schedule();
+		expect(scheduler.pending).toBe(false);
+		expect(await scheduler.flush()).toBe(false);
+		expect(save).not.toHaveBeenCalled();
+	});
+
+	it('debounces layout changes into one save', async () => {
+		scheduler.track('note.md', layout(1));
+		current = layout(2, 'b.md');
+
+		scheduler.schedule();
+		await vi.advanceTimersByTimeAsync(600);
+		scheduler.schedule();
+		await vi.advanceTimersByTimeAsync(600);
+		expect(save).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(400);
+		expect(save).toHaveBeenCalledTimes(1);
+		expect(save).toHaveBeenCalledWith('note.md', current);
+	});
+
+	it('skips layouts identical to the last saved or restored one', async () => {
+		scheduler.track('note.md', layout(1));
+		current = layout(5);
+		expect(await scheduler.flush()).toBe(false);
+
+		current = layout(6, 'b.md');
+		expect(await scheduler.flush()).toBe(true);
+		current = layout(7, 'b.md');
+		expect(await scheduler.flush()).toBe(false);
+		expect(save).toHaveBeenCalledTimes(1);
+	});
+
+	it('drops a pending save when tracking stops', async () => {
+		scheduler.track('note.md', layout(1));
+		current = layout(2, 'b.md');
+		scheduler.schedule();
+		scheduler.track(null);
+
+		await vi.advanceTimersByTimeAsync(2000);
+		expect(save).not.toHaveBeenCalled();
+	});
+
+	it('keeps the baseline when a save fails', async () => {
+		scheduler.track('note.md', layout(1));
+		current = layout(2, 'b.md');
+		save.mockRejectedValueOnce(new Error('disk full'));
+
+		expect(await scheduler.flush()).toBe(false);
+		expect(await scheduler.flush()).toBe(true);
+		expect(save).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('writeAutosave', () => {
+	let store: IndexedDbContextStore;
+	let note: TFile;
+	let now = 1_700_000_000_000;
+
+	const tick = () => {
+		now += 1000;
+		vi.setSystemTime(now);
+	};
+
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		const app = makeMockApp({ 'Note.md': '# Note' });
+		store = new IndexedDbContextStore({ app: app as unknown as App, uids: makeUids(), factory: new FakeIndexedDb() as unknown as IDBFactory });
+		note = app.fileFor('Note.md');
+	});
+
+	afterEach(() => {
+		store.close();
+		vi.useRealTimers();
+	});
+
+	it('never pushes out a saved arrangement, even at a limit of one', async () => {
+		tick();
+		const saved = layout(now);
+		await store.set(note, saved, { name: 'Writing' }, 1);
+
+		tick();
+		await writeAutosave(store, note, layout(now, 'b.md'));
+		tick();
+		const latest = layout(now, 'c.md');
+		await writeAutosave(store, note, latest);
+
+		const all = await store.getAll(note);
+		expect(all.map(e => e.name)).toEqual([AUTOSAVE_ARRANGEMENT_NAME, 'Writing']);
+		expect(all[0].arrangement).toEqual(latest);
+		expect(all[1].arrangement).toEqual(saved);
+	});
+
+	it('is not counted by a manual save', async () => {
+		tick();
+		await store.set(note, layout(now), { name: 'First' }, 2);
+		tick();
+		await writeAutosave(store, note, layout(now, 'b.md'));
+		tick();
+		await store.set(note, layout(now, 'c.md'), { name: 'Second' }, 3);
+
+		const existing = await store.getAll(note);
+		expect(arrangementsToEvict(existing, 2).map(e => e.name)).toEqual(['First']);
+		expect(arrangementsToEvict(existing, 3)).toEqual([]);
+	});
+
+	it('updates the one arrangement of a single-slot store and keeps its label', async () => {
+		const app = makeMockApp({ 'Note.md': '# Note' });
+		const inline = new InlineContextStore(app as unknown as App, 'frontmatter');
+		const file = app.fileFor('Note.md');
+		await inline.set(file, layout(1), { name: 'Writing' }, 1);
+
+		await writeAutosave(inline, file, layout(2, 'b.md'));
+
+		const all = await inline.getAll(file);
+		expect(all).toHaveLength(1);
+		expect(all[0].name).toBe('Writing');
+		expect(all[0].savedAt).toBe(2);
+	});
+});
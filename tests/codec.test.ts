@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest';
 import {
 	createCompactArrangement,
 	decodeArrangement,
+	decodeArrangementLabel,
 	encodeArrangement,
 	expandCompactArrangement,
 } from '../src/storage/codec';
@@ -145,6 +146,128 @@ describe('codec', () => {
 			expect(back.main.root.tabs[2].uid).toBeUndefined();
 		});
 
+		it('preserves non-file views alongside file tabs', () => {
+			const arr: WindowArrangementV2 = {
+				...makeMinimalV2(),
+				main: {
+					root: {
+						type: 'tabs',
+						tabs: [
+							{ path: 'a.md', active: false, name: 'a' },
+							{
+								path: '',
+								active: true,
+								name: 'Search',
+								viewType: 'search',
+								viewState: { query: 'tag:#research', sortOrder: 'alphabetical' },
+							},
+							{ path: '', active: false, name: 'Graph view', viewType: 'graph' },
+						],
+					},
+				},
+			};
+			const back = roundTrip(arr);
+			if (back.main.root.type !== 'tabs') throw new Error('expected tabs');
+			expect(back.main.root.tabs[0]).toMatchObject({ path: 'a.md', active: false });
+			expect(back.main.root.tabs[0].viewType).toBeUndefined();
+			expect(back.main.root.tabs[1]).toEqual({
+				path: '',
+				active: true,
+				name: 'Search',
+				viewType: 'search',
+				viewState: { query: 'tag:#research', sortOrder: 'alphabetical' },
+			});
+			expect(back.main.root.tabs[2]).toEqual({ path: '', active: false, name: 'Graph view', viewType: 'graph' });
+		});
+
+		it('preserves per-tab view mode', () => {
+			const arr: WindowArrangementV2 = {
+				...makeMinimalV2(),
+				main: {
+					root: {
+						type: 'tabs',
+						tabs: [
+							{ path: 'a.md', active: false, name: 'a', viewMode: 'reading' },
+							{ path: 'b.md', active: true, name: 'b', uid: 'uid-b', viewMode: 'source' },
+							{ path: 'c.md', active: false, name: 'c', viewMode: 'live' },
+							{ path: 'd.md', active: false, name: 'd' },
+						],
+					},
+				},
+			};
+			const back = roundTrip(arr);
+			if (back.main.root.type !== 'tabs') throw new Error('expected tabs');
+			expect(back.main.root.tabs[0]).toMatchObject({ path: 'a.md', active: false, viewMode: 'reading' });
+			expect(back.main.root.tabs[1]).toMatchObject({ path: 'b.md', uid: 'uid-b', active: true, viewMode: 'source' });
+			expect(back.main.root.tabs[2]).toMatchObject({ path: 'c.md', active: false, viewMode: 'live' });
+			expect(back.main.root.tabs[3].viewMode).toBeUndefined();
+		});
+
+		it('preserves cursor selections and folds', () => {
+			const arr: WindowArrangementV2 = {
+				...makeMinimalV2(),
+				main: {
+					root: {
+						type: 'tabs',
+						tabs: [
+							{
+								path: 'a.md',
+								active: true,
+								name: 'a',
+								selections: [
+									{ anchor: { line: 12, ch: 4 }, head: { line: 12, ch: 4 } },
+									{ anchor: { line: 20, ch: 0 }, head: { line: 22, ch: 7 } },
+								],
+								folds: [{ from: 3, to: 9 }],
+							},
+						],
+					},
+				},
+			};
+			const back = roundTrip(arr);
+			if (back.main.root.type !== 'tabs') throw new Error('expected tabs');
+			expect(back.main.root.tabs[0].selections).toEqual([
+				{ anchor: { line: 12, ch: 4 }, head: { line: 12, ch: 4 } },
+				{ anchor: { line: 20, ch: 0 }, head: { line: 22, ch: 7 } },
+			]);
+			expect(back.main.root.tabs[0].folds).toEqual([{ from: 3, to: 9 }]);
+			expect(back.main.root.tabs[0].active).toBe(true);
+		});
+
+		it('preserves pinned tabs and linked-pane groups', () => {
+			const arr: WindowArrangementV2 = {
+				...makeMinimalV2(),
+				main: {
+					root: {
+						type: 'split',
+						direction: 'vertical',
+						sizes: [70, 30],
+						children: [
+							{
+								type: 'tabs',
+								tabs: [
+									{ path: 'a.md', active: true, name: 'a', pinned: true, group: 'g1' },
+									{ path: 'b.md', active: false, name: 'b', pinned: true },
+								],
+							},
+							{
+								type: 'tabs',
+								tabs: [{ path: '', active: true, name: 'Outline', viewType: 'outline', group: 'g1', pinned: true }],
+							},
+						],
+					},
+				},
+			};
+			const back = roundTrip(arr);
+			if (back.main.root.type !== 'split') throw new Error('expected split');
+			const [left, right] = back.main.root.children;
+			if (left.type !== 'tabs' || right.type !== 'tabs') throw new Error('expected tabs');
+			expect(left.tabs[0]).toMatchObject({ path: 'a.md', active: true, pinned: true, group: 'g1' });
+			expect(left.tabs[1]).toMatchObject({ path: 'b.md', active: false, pinned: true });
+			expect(left.tabs[1].group).toBeUndefined();
+			expect(right.tabs[0]).toMatchObject({ viewType: 'outline', active: true, pinned: true, group: 'g1' });
+		});
+
 		it('preserves popouts with their own splits and geometry', () => {
 			const arr: WindowArrangementV2 = {
 				...makeMinimalV2(),
@@ -195,6 +318,49 @@ describe('codec', () => {
 		});
 	});
 
+	describe('sidebar layout', () => {
+		it('preserves the full sidebar panel tree and width', () => {
+			const arr: WindowArrangementV2 = {
+				...makeMinimalV2(),
+				leftSidebar: {
+					collapsed: false,
+					activeTab: 'search',
+					width: 320,
+					root: {
+						type: 'split',
+						direction: 'vertical',
+						sizes: [60, 40],
+						children: [
+							{
+								type: 'tabs',
+								tabs: [
+									{ path: '', active: false, name: 'Files', viewType: 'file-explorer', viewState: { sortOrder: 'alphabetical' } },
+									{ path: '', active: true, name: 'Search', viewType: 'search', viewState: { query: 'todo' } },
+								],
+							},
+							{ type: 'tabs', tabs: [{ path: '', active: true, name: 'Tags', viewType: 'tag' }] },
+						],
+					},
+				},
+				rightSidebar: { collapsed: true, activeTab: 'backlink' },
+			};
+			const back = roundTrip(arr);
+			expect(back.leftSidebar).toEqual(arr.leftSidebar);
+			expect(back.rightSidebar).toEqual({ collapsed: true, activeTab: 'backlink' });
+		});
+
+		it('decodes legacy sidebars without a panel tree', () => {
+			const arr = expandCompactArrangement({
+				v: 2,
+				ts: 1700000000000,
+				f: 0,
+				m: { r: ['a.md'] },
+				ls: { c: false, t: 'file-explorer' },
+			});
+			expect(arr.leftSidebar).toEqual({ collapsed: false, activeTab: 'file-explorer' });
+		});
+	});
+
 	describe('compaction shape', () => {
 		// The wire format uses short keys to keep the encoded blob tiny.
 		// Pin the keys here so a future rename is a deliberate, reviewed
@@ -243,6 +409,34 @@ describe('codec', () => {
 		});
 	});
 
+	describe('labels', () => {
+		function blob(line: string): string {
+			const match = line.match(/^perspecta-arrangement: "(.+)"$/);
+			if (!match) throw new Error(`unexpected encoded line shape: ${line}`);
+			return match[1];
+		}
+
+		it('round-trips name, description and tags', () => {
+			const label = { name: 'Writing', description: 'Draft + outline', tags: ['work', 'focus'] };
+			const encoded = blob(encodeArrangement(makeMinimalV2(), label));
+			expect(decodeArrangementLabel(encoded)).toEqual(label);
+			// The arrangement itself is unaffected by the label
+			expect(decodeArrangement(encoded)).toEqual(roundTrip(makeMinimalV2()));
+		});
+
+		it('omits label keys when there is no label', () => {
+			const compact = createCompactArrangement(makeMinimalV2(), {});
+			expect(compact).not.toHaveProperty('n');
+			expect(compact).not.toHaveProperty('d');
+			expect(compact).not.toHaveProperty('tg');
+			expect(decodeArrangementLabel(blob(encodeArrangement(makeMinimalV2())))).toEqual({});
+		});
+
+		it('returns an empty label on garbage input', () => {
+			expect(decodeArrangementLabel('not-base64-at-all!@#$')).toEqual({});
+		});
+	});
+
 	describe('decodeArrangement', () => {
 		it('returns null on garbage input', () => {
 			expect(decodeArrangement('not-base64-at-all!@#$')).toBeNull();
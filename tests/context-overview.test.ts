@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { folderOf, groupOverviewEntries, matchesOverviewFilter, OverviewEntry, OverviewFilter, overviewFacets, sortOverviewEntries } from '../src/services/context-overview';
+import { DEFAULT_WORKSPACE_ID } from '../src/types';
+
+const NOW = 1_700_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+const ANY: OverviewFilter = { folder: '', tag: '', age: 'any' };
+
+function entry(path: string, savedAt: number, extra: Partial<OverviewEntry> = {}): OverviewEntry {
+	const basename = path.split('/').pop()?.replace(/\.[^.]+$/, '') ?? path;
+	return { file: { path, basename }, workspaceId: DEFAULT_WORKSPACE_ID, latestSavedAt: savedAt, count: 1, tags: [], ...extra };
+}
+
+describe('context overview', () => {
+	it('filters by folder, nested tag and age', () => {
+		const plan = entry('Projects/Alpha/Plan.md', NOW - 2 * DAY, { tags: ['project/alpha'] });
+		const old = entry('Archive/Old.md', NOW - 60 * DAY, { tags: ['archive'] });
+
+		expect(folderOf(plan.file.path)).toBe('Projects/Alpha');
+		expect(matchesOverviewFilter(plan, { ...ANY, folder: 'Projects' }, NOW)).toBe(true);
+		expect(matchesOverviewFilter(plan, { ...ANY, folder: 'Proj' }, NOW)).toBe(false);
+		expect(matchesOverviewFilter(plan, { ...ANY, tag: 'Project' }, NOW)).toBe(true);
+		expect(matchesOverviewFilter(old, { ...ANY, tag: 'project' }, NOW)).toBe(false);
+		expect(matchesOverviewFilter(plan, { ...ANY, age: 'week' }, NOW)).toBe(true);
+		expect(matchesOverviewFilter(plan, { ...ANY, age: 'day' }, NOW)).toBe(false);
+		expect(matchesOverviewFilter(old, { ...ANY, age: 'stale' }, NOW)).toBe(true);
+		expect(matchesOverviewFilter(plan, { ...ANY, age: 'stale' }, NOW)).toBe(false);
+	});
+
+	it('sorts by time, name and count', () => {
+		const a = entry('b/Alpha.md', NOW - 3 * DAY, { count: 2 });
+		const b = entry('a/Beta.md', NOW - DAY, { count: 5 });
+		const c = entry('Gamma.md', NOW - 2 * DAY, { count: 2 });
+
+		expect(sortOverviewEntries([a, b, c], 'recent')).toEqual([b, c, a]);
+		expect(sortOverviewEntries([a, b, c], 'oldest')).toEqual([a, c, b]);
+		expect(sortOverviewEntries([c, b, a], 'name')).toEqual([a, b, c]);
+		expect(sortOverviewEntries([c, b, a], 'count')).toEqual([b, a, c]);
+	});
+
+	it('groups by bucket in the given order and drops empty buckets', () => {
+		const home = entry('Home.md', NOW, { workspaceId: 'home' });
+		const work = entry('Work.md', NOW - 2 * DAY, { workspaceId: 'work' });
+		const shared = entry('Shared.md', NOW, { workspaceId: DEFAULT_WORKSPACE_ID });
+		const stray = entry('Stray.md', NOW, { workspaceId: 'unlisted' });
+
+		const groups = groupOverviewEntries([home, work, shared, stray], ['work', 'empty', DEFAULT_WORKSPACE_ID, 'home'], 'recent', ANY, NOW);
+
+		expect(groups.map(g => g.workspaceId)).toEqual(['work', DEFAULT_WORKSPACE_ID, 'home', 'unlisted']);
+		expect(groupOverviewEntries([home, work], ['home', 'work'], 'recent', { ...ANY, age: 'day' }, NOW).map(g => g.workspaceId)).toEqual(['home']);
+	});
+
+	it('lists folders with their parents and tags for the filter menus', () => {
+		const facets = overviewFacets([
+			entry('Projects/Alpha/Plan.md', NOW, { tags: ['project', 'review'] }),
+			entry('Daily/Today.md', NOW, { tags: ['project'] }),
+			entry('Root.md', NOW),
+		]);
+
+		expect(facets).toEqual({ folders: ['Daily', 'Projects', 'Projects/Alpha'], tags: ['project', 'review'] });
+	});
+});
@@ -0,0 +1,265 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { App, PluginManifest, TFile } from 'obsidian';
+import { ContextStore } from '../src/storage/context-store';
+import { ExternalContextStore } from '../src/storage/external-store';
+import { IndexedDbContextStore } from '../src/storage/indexeddb-store';
+import { InlineContextStore } from '../src/storage/inline-context-store';
+import { JsonFileContextStore } from '../src/storage/json-context-store';
+import { DEFAULT_WORKSPACE_ID } from '../src/types';
+import { FakeIndexedDb } from './stubs/indexeddb';
+import { arrangement, makeMockApp, makeUids } from './stubs/vault';
+
+interface Backend {
+	store: ContextStore;
+	file: TFile;
+	/** What list() reports for the file. */
+	key: string;
+	cleanup?: () => void;
+}
+
+const VAULT = {
+	'Note.md': '# Note',
+	'Board.canvas': '{"nodes":[],"edges":[]}',
+	'Tasks.base': '{"views":[]}',
+};
+
+const backends: [string, () => Promise<Backend>][] = [
+	['frontmatter', async () => {
+		const app = makeMockApp({ ...VAULT });
+		return { store: new InlineContextStore(app as unknown as App, 'frontmatter'), file: app.fileFor('Note.md'), key: 'Note.md' };
+	}],
+	['inline canvas', async () => {
+		const app = makeMockApp({ ...VAULT });
+		return { store: new InlineContextStore(app as unknown as App, 'canvas'), file: app.fileFor('Board.canvas'), key: 'Board.canvas' };
+	}],
+	['inline base', async () => {
+		const app = makeMockApp({ ...VAULT });
+		return { store: new InlineContextStore(app as unknown as App, 'base'), file: app.fileFor('Tasks.base'), key: 'Tasks.base' };
+	}],
+	['JSON files', async () => {
+		const app = makeMockApp({ ...VAULT });
+		const external = new ExternalContextStore({ app: app as unknown as App, manifest: { dir: 'plugin' } as PluginManifest });
+		await external.initialize();
+		const store = new JsonFileContextStore({ store: external, uids: makeUids() });
+		return { store, file: app.fileFor('Note.md'), key: 'uid-1', cleanup: () => void external.cleanup() };
+	}],
+	['IndexedDB', async () => {
+		const app = makeMockApp({ ...VAULT });
+		const factory = new FakeIndexedDb() as unknown as IDBFactory;
+		const store = new IndexedDbContextStore({ app: app as unknown as App, uids: makeUids(), factory });
+		return { store, file: app.fileFor('Note.md'), key: 'uid-1', cleanup: () => store.close() };
+	}],
+];
+
+describe.each(backends)('ContextStore conformance: %s', (_name, create) => {
+	let backend: Backend;
+	let now = 1_700_000_000_000;
+
+	// Each save gets its own timestamp, as savedAt or as the arrangement's ts
+	const next = () => {
+		now += 1000;
+		vi.setSystemTime(now);
+		return arrangement(now);
+	};
+
+	beforeEach(async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		backend = await create();
+	});
+
+	afterEach(() => {
+		backend.cleanup?.();
+		vi.useRealTimers();
+	});
+
+	it('has nothing for a note that was never saved', async () => {
+		const { store, file } = backend;
+		expect(await store.getAll(file)).toEqual([]);
+		expect(await store.getLatest(file)).toBeNull();
+		expect(await store.has(file)).toBe(false);
+		expect(await store.workspacesWith(file)).toEqual([]);
+		expect(await store.list()).toEqual([]);
+	});
+
+	it('reads back what was saved', async () => {
+		const { store, file, key } = backend;
+		const saved = next();
+		await store.set(file, saved, {}, 5);
+
+		expect(await store.getLatest(file)).toEqual(saved);
+		expect(await store.has(file)).toBe(true);
+		expect(await store.workspacesWith(file)).toEqual([store.getActiveWorkspace()]);
+		expect(await store.list()).toEqual([key]);
+	});
+
+	it('keeps as many arrangements as it supports, newest first', async () => {
+		const { store, file } = backend;
+		await store.set(file, next(), {}, 2);
+		const second = next();
+		await store.set(file, second, {}, 2);
+		const third = next();
+		await store.set(file, third, {}, 2);
+
+		const all = (await store.getAll(file)).map(e => e.arrangement);
+		expect(all).toEqual(store.capabilities.multiple ? [third, second] : [third]);
+		expect(await store.getLatest(file)).toEqual(third);
+	});
+
+	it('keeps labels when it supports them', async () => {
+		const { store, file } = backend;
+		await store.set(file, next(), { name: 'Writing', tags: ['draft'] }, 5);
+		const [entry] = await store.getAll(file);
+
+		if (store.capabilities.labels) {
+			expect(entry).toMatchObject({ name: 'Writing', tags: ['draft'] });
+			await store.updateLabel(file, entry.savedAt, { name: 'Editing' });
+			const [updated] = await store.getAll(file);
+			expect(updated.name).toBe('Editing');
+			expect(updated.tags).toBeUndefined();
+			expect(updated.arrangement).toEqual(entry.arrangement);
+		} else {
+			expect(entry.name).toBeUndefined();
+		}
+	});
+
+	it('summarizes what was saved', async () => {
+		const { store, file } = backend;
+		expect(await store.summarize(file)).toBeNull();
+		await store.set(file, next(), { name: 'Writing', tags: ['draft'] }, 5);
+		await store.set(file, next(), {}, 5);
+
+		const all = await store.getAll(file);
+		expect(await store.summarize(file)).toEqual({
+			count: all.length,
+			latestSavedAt: all[0].savedAt,
+			labels: store.capabilities.multiple ? ['Writing', '#draft'] : [],
+		});
+	});
+
+	it('replaces one arrangement in place', async () => {
+		const { store, file } = backend;
+		await store.set(file, next(), {}, 5);
+		await store.set(file, next(), { name: 'Writing' }, 5);
+		const before = await store.getAll(file);
+		const replacement = { ...arrangement(before[0].arrangement.ts), focusedWindow: 0 };
+
+		expect(await store.updateArrangement(file, before[0].savedAt + 1, replacement)).toBe(false);
+		expect(await store.updateArrangement(file, before[0].savedAt, replacement)).toBe(true);
+
+		const after = await store.getAll(file);
+		expect(after.map(e => e.savedAt)).toEqual(before.map(e => e.savedAt));
+		expect(after[0].arrangement).toEqual(replacement);
+		expect(after[0].name).toBe(before[0].name);
+		expect(after.slice(1)).toEqual(before.slice(1));
+	});
+
+	it('merges arrangements by savedAt, keeping the newest', async () => {
+		const { store, file } = backend;
+		await store.set(file, next(), {}, 5);
+		const [saved] = await store.getAll(file);
+		const older = { arrangement: arrangement(1), savedAt: saved.savedAt - 5000 };
+		const newer = { arrangement: arrangement(2), savedAt: saved.savedAt + 5000, name: 'Moved' };
+
+		expect(await store.merge(file, [saved], 5)).toBe(0);
+		const added = await store.merge(file, [older, newer], 5);
+
+		const all = await store.getAll(file);
+		if (store.capabilities.multiple) {
+			expect(added).toBe(2);
+			expect(all.map(e => e.savedAt)).toEqual([newer.savedAt, saved.savedAt, older.savedAt]);
+			expect(all[0].name).toBe('Moved');
+		} else {
+			expect(added).toBe(1);
+			expect(all.map(e => e.arrangement)).toEqual([newer.arrangement]);
+		}
+	});
+
+	it('deletes one arrangement by savedAt', async () => {
+		const { store, file } = backend;
+		await store.set(file, next(), {}, 5);
+		const [entry] = await store.getAll(file);
+
+		await store.deleteArrangement(file, entry.savedAt + 1);
+		expect(await store.has(file)).toBe(true);
+
+		await store.deleteArrangement(file, entry.savedAt);
+		expect(await store.has(file)).toBe(false);
+		expect(await store.getAll(file)).toEqual([]);
+	});
+
+	it('deletes all arrangements of a note', async () => {
+		const { store, file } = backend;
+		await store.set(file, next(), {}, 5);
+		await store.set(file, next(), {}, 5);
+
+		await store.delete(file);
+		expect(await store.has(file)).toBe(false);
+		expect(await store.getLatest(file)).toBeNull();
+		expect(await store.list()).toEqual([]);
+	});
+
+	it('scopes arrangements to workspaces when it has them', async () => {
+		const { store, file } = backend;
+		expect(store.listWorkspaces().map(w => w.id)).toContain(DEFAULT_WORKSPACE_ID);
+
+		if (!store.capabilities.workspaces) {
+			expect(await store.ensureWorkspace('Work', 'work')).toBe(false);
+			expect(store.listWorkspaces().map(w => w.id)).toEqual([DEFAULT_WORKSPACE_ID]);
+			return;
+		}
+
+		expect(await store.ensureWorkspace('Work', 'work')).toBe(true);
+		expect(await store.ensureWorkspace('Work', 'work')).toBe(false);
+		expect(store.listWorkspaces()).toContainEqual({ id: 'work', displayName: 'Work', shared: false });
+
+		store.setActiveWorkspace('work');
+		const saved = next();
+		await store.set(file, saved, {}, 5);
+
+		expect(store.getActiveWorkspace()).toBe('work');
+		expect(await store.workspacesWith(file)).toEqual(['work']);
+		expect(await store.getLatest(file)).toEqual(saved);
+		expect(await store.getAll(file, DEFAULT_WORKSPACE_ID)).toEqual([]);
+		expect(await store.list(DEFAULT_WORKSPACE_ID)).toEqual([]);
+	});
+});
+
+describe('IndexedDbContextStore', () => {
+	it('reads saved arrangements back after reopening', async () => {
+		const app = makeMockApp({ ...VAULT });
+		const factory = new FakeIndexedDb() as unknown as IDBFactory;
+		const uids = makeUids();
+		const file = app.fileFor('Note.md');
+		const first = new IndexedDbContextStore({ app: app as unknown as App, uids, factory });
+		await first.ensureWorkspace('Work', 'work');
+		await first.set(file, arrangement(1), { name: 'Kept' }, 5);
+		first.close();
+
+		const second = new IndexedDbContextStore({ app: app as unknown as App, uids, factory });
+		expect(await second.getAll(file)).toMatchObject([{ arrangement: arrangement(1), name: 'Kept' }]);
+		expect(second.listWorkspaces().map(w => w.displayName)).toEqual(['Default', 'Work']);
+	});
+
+	it('keeps what is stored when a write fails', async () => {
+		const app = makeMockApp({ ...VAULT });
+		const fake = new FakeIndexedDb();
+		const store = new IndexedDbContextStore({ app: app as unknown as App, uids: makeUids(), factory: fake as unknown as IDBFactory });
+		const file = app.fileFor('Note.md');
+		await store.set(file, arrangement(1), {}, 5);
+
+		const db = [...fake.databases.values()][0];
+		vi.spyOn(db, 'transaction').mockImplementationOnce(() => { throw new Error('Quota exceeded'); });
+		await expect(store.set(file, arrangement(2), {}, 5)).rejects.toThrow('Quota exceeded');
+		expect(await store.getAll(file)).toMatchObject([{ arrangement: arrangement(1) }]);
+		store.close();
+	});
+
+	it('reads as empty and refuses saves without IndexedDB', async () => {
+		const app = makeMockApp({ ...VAULT });
+		const store = new IndexedDbContextStore({ app: app as unknown as App, uids: makeUids() });
+		const file = app.fileFor('Note.md');
+
+		expect(await store.getAll(file)).toEqual([]);
+		await expect(store.set(file, arrangement(1), {}, 5)).rejects.toThrow();
+	});
+});
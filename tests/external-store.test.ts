@@ -0,0 +1,301 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { App } from 'obsidian';
+import { ExternalContextStore } from '../src/storage/external-store';
+import { openSealedJson, sealJson } from '../src/storage/integrity';
+import { arrangement, makeMockApp, manifest } from './stubs/vault';
+
+const collection = (ts: number) => ({ arrangements: [{ arrangement: arrangement(ts), savedAt: ts }] });
+
+describe('ExternalContextStore integrity', () => {
+	it('writes sealed files and reads them back', async () => {
+		const files: Record<string, string> = {};
+		const store = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await store.initialize();
+		await store.set('uid-1', arrangement(1));
+		await store.flushDirty();
+
+		expect(JSON.parse(files['plugin/contexts/default/uid-1.json']).checksum).toMatch(/^[0-9a-f]{8}$/);
+		expect(Object.keys(files).some(f => f.endsWith('.tmp'))).toBe(false);
+
+		const reloaded = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await reloaded.initialize();
+		expect(await reloaded.getAll('uid-1')).toHaveLength(1);
+	});
+
+	it('quarantines unreadable files and reports them', async () => {
+		const files: Record<string, string> = {
+			'plugin/contexts/default/good.json': sealJson(collection(1)),
+			'plugin/contexts/default/legacy.json': JSON.stringify(collection(2)),
+			'plugin/contexts/default/truncated.json': '{"arrangements":[{"arr',
+			'plugin/contexts/default/garbled.json': sealJson({ arrangements: 'none' }),
+		};
+		const onQuarantine = vi.fn();
+		const store = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest, onQuarantine });
+		await store.initialize();
+
+		expect(store.getAllUids().sort()).toEqual(['good', 'legacy']);
+		expect(onQuarantine).toHaveBeenCalledOnce();
+		expect(onQuarantine.mock.calls[0][0].map((f: { uid: string }) => f.uid).sort()).toEqual(['garbled', 'truncated']);
+		expect(files['plugin/contexts/default/truncated.json']).toBeUndefined();
+
+		const quarantined = await store.listQuarantined();
+		expect(quarantined.map(f => f.uid).sort()).toEqual(['garbled', 'truncated']);
+		expect(quarantined[0].path).toMatch(/^plugin\/corrupt\/default\//);
+	});
+
+	it('takes hand edits to sealed files and reseals them', async () => {
+		const path = 'plugin/contexts/default/edited.json';
+		const files: Record<string, string> = {
+			[path]: sealJson(collection(3), 2).replace('"savedAt": 3', '"savedAt": 4'),
+		};
+		const onQuarantine = vi.fn();
+		const store = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest, onQuarantine });
+		await store.initialize();
+
+		expect((await store.getAll('edited')).map(a => a.savedAt)).toEqual([4]);
+		expect(onQuarantine).not.toHaveBeenCalled();
+		await store.flushDirty();
+		expect(openSealedJson(files[path])).toMatchObject({ status: 'ok', data: { arrangements: [{ savedAt: 4 }] } });
+	});
+
+	it('finishes an interrupted write from its temp file', async () => {
+		const files: Record<string, string> = {
+			'plugin/contexts/default/uid-1.json.tmp': sealJson(collection(5)),
+		};
+		const store = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await store.initialize();
+		expect((await store.getAll('uid-1')).map(a => a.savedAt)).toEqual([5]);
+	});
+
+	it('rebuilds a corrupt manifest from the bucket folders', async () => {
+		const files: Record<string, string> = {
+			'plugin/contexts/_workspaces.json': '{"v":1,"works',
+			'plugin/contexts/research/uid-1.json': sealJson(collection(1)),
+		};
+		const store = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await store.initialize();
+		expect(store.hasWorkspace('research')).toBe(true);
+		expect(await store.getAll('uid-1', 'research')).toHaveLength(1);
+		expect(Object.keys(files).some(f => f.startsWith('plugin/corrupt/default/_workspaces.'))).toBe(true);
+	});
+
+	it('merges sync conflict copies by savedAt and deletes them', async () => {
+		const both = { arrangements: [...collection(1).arrangements, ...collection(2).arrangements] };
+		const files: Record<string, string> = {
+			'plugin/contexts/default/uid-1.json': sealJson(collection(1)),
+			'plugin/contexts/default/uid-1 (conflict 2026-10-01).json': sealJson(both),
+			'plugin/contexts/default/uid-1.sync-conflict-20261001-120000-ABC.json': sealJson(collection(3)),
+			'plugin/contexts/default/uid-2 (conflict 2026-10-01).json': sealJson(collection(4)),
+		};
+		const onSyncConflicts = vi.fn();
+		const store = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest, onSyncConflicts });
+		await store.initialize();
+
+		expect((await store.getAll('uid-1')).map(a => a.savedAt).sort()).toEqual([1, 2, 3]);
+		expect((await store.getAll('uid-2')).map(a => a.savedAt)).toEqual([4]);
+		expect(Object.keys(files).filter(f => f.startsWith('plugin/contexts/default/')).sort()).toEqual([
+			'plugin/contexts/default/_index.json',
+			'plugin/contexts/default/uid-1.json',
+			'plugin/contexts/default/uid-2.json',
+		]);
+		expect(onSyncConflicts).toHaveBeenCalledWith([
+			expect.objectContaining({ uid: 'uid-1', added: 2, copies: expect.arrayContaining([expect.any(String), expect.any(String)]) }),
+			expect.objectContaining({ uid: 'uid-2', added: 1 }),
+		]);
+	});
+
+	it('merges arrangements keeping their timestamps', async () => {
+		const store = new ExternalContextStore({ app: makeMockApp({}) as unknown as App, manifest });
+		await store.initialize();
+		await store.set('uid-1', arrangement(1));
+		const existing = (await store.getAll('uid-1'))[0].savedAt;
+		const added = await store.mergeArrangements('uid-1', [
+			{ arrangement: arrangement(2), savedAt: 2 },
+			{ arrangement: arrangement(1), savedAt: existing },
+		], 5);
+		expect(added).toBe(1);
+		expect((await store.getAll('uid-1')).map(a => a.savedAt).sort((a, b) => a - b)).toEqual([2, existing]);
+		await store.cleanup();
+	});
+});
+
+describe('ExternalContextStore index', () => {
+	const uidFile = (uid: string) => `plugin/contexts/default/${uid}.json`;
+
+	it('builds the index on first load and reads collections lazily afterwards', async () => {
+		const files: Record<string, string> = {
+			[uidFile('uid-1')]: sealJson({ arrangements: [...collection(1).arrangements, ...collection(5).arrangements] }),
+			[uidFile('uid-2')]: sealJson(collection(2)),
+		};
+		const first = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await first.initialize();
+		const index = JSON.parse(files['plugin/contexts/default/_index.json']);
+		expect(index.entries).toEqual({ 'uid-1': { n: 2, ts: 5, l: [] }, 'uid-2': { n: 1, ts: 2, l: [] } });
+
+		const app = makeMockApp(files) as unknown as App;
+		const second = new ExternalContextStore({ app, manifest });
+		await second.initialize();
+		const read = vi.mocked(app.vault.adapter.read);
+		expect(read.mock.calls.map(c => c[0]).filter(p => p.includes('uid-'))).toEqual([]);
+
+		expect(second.getAllUids().sort()).toEqual(['uid-1', 'uid-2']);
+		expect(second.getCount('uid-1')).toBe(2);
+		expect(second.getLatestSavedAt('uid-1')).toBe(5);
+		expect(second.workspacesWithUid('uid-2')).toEqual(['default']);
+
+		expect((await second.getAll('uid-2')).map(a => a.savedAt)).toEqual([2]);
+		expect(read.mock.calls.map(c => c[0]).filter(p => p.includes('uid-'))).toEqual([uidFile('uid-2')]);
+	});
+
+	it('updates the index incrementally when saving and deleting', async () => {
+		const files: Record<string, string> = { [uidFile('uid-1')]: sealJson(collection(1)) };
+		const store = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await store.initialize();
+
+		await store.set('uid-2', arrangement(2), 5);
+		expect(store.has('uid-2')).toBe(true);
+		await store.delete('uid-1');
+		expect(store.has('uid-1')).toBe(false);
+		await store.flushDirty();
+
+		const entries = JSON.parse(files['plugin/contexts/default/_index.json']).entries;
+		expect(Object.keys(entries)).toEqual(['uid-2']);
+		expect(entries['uid-2'].n).toBe(1);
+	});
+
+	it('summarizes collections from the index, labels included', async () => {
+		const files: Record<string, string> = {};
+		const first = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await first.initialize();
+		await first.set('uid-1', arrangement(1), 5, undefined, { name: 'Writing', tags: ['draft'] });
+		await first.set('uid-1', arrangement(2), 5);
+		await first.flushDirty();
+
+		const app = makeMockApp(files) as unknown as App;
+		const second = new ExternalContextStore({ app, manifest });
+		await second.initialize();
+		const summary = second.getSummary('uid-1');
+		expect(summary).toMatchObject({ count: 2, labels: ['Writing', '#draft'] });
+		expect(summary?.latestSavedAt).toBe(second.getLatestSavedAt('uid-1'));
+		expect(second.getSummary('uid-2')).toBeNull();
+		const read = vi.mocked(app.vault.adapter.read);
+		expect(read.mock.calls.map(c => c[0]).filter(p => p.includes('uid-'))).toEqual([]);
+	});
+
+	it('reads collections once whose index entry has no labels yet', async () => {
+		const files: Record<string, string> = {
+			[uidFile('uid-1')]: sealJson({ arrangements: [{ ...collection(1).arrangements[0], name: 'Old' }] }),
+			'plugin/contexts/default/_index.json': sealJson({ v: 1, entries: { 'uid-1': { n: 1, ts: 1 } } }),
+		};
+		const store = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await store.initialize();
+		expect(store.getSummary('uid-1')).toEqual({ count: 1, latestSavedAt: 1, labels: ['Old'] });
+		await store.flushDirty();
+		expect(JSON.parse(files['plugin/contexts/default/_index.json']).entries['uid-1'].l).toEqual(['Old']);
+	});
+
+	it('indexes files added and drops files removed while not running', async () => {
+		const files: Record<string, string> = { [uidFile('uid-1')]: sealJson(collection(1)) };
+		await new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest }).initialize();
+
+		delete files[uidFile('uid-1')];
+		files[uidFile('uid-3')] = sealJson(collection(3));
+		const store = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await store.initialize();
+
+		expect(store.getAllUids()).toEqual(['uid-3']);
+		expect(Object.keys(JSON.parse(files['plugin/contexts/default/_index.json']).entries)).toEqual(['uid-3']);
+	});
+
+	it('keeps path hints for canvas and base owners', async () => {
+		const files: Record<string, string> = { [uidFile('uid-1')]: sealJson(collection(1)) };
+		const store = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await store.initialize();
+		store.setPathHint('uid-1', 'Boards/Plan.canvas');
+		await store.set('uid-1', arrangement(2), 5);
+		await store.flushDirty();
+
+		const reloaded = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await reloaded.initialize();
+		expect(reloaded.getPathHints()).toEqual(new Map([['Boards/Plan.canvas', 'uid-1']]));
+	});
+});
+
+describe('ExternalContextStore live reload', () => {
+	const path = 'plugin/contexts/default/uid-1.json';
+	const savedAts = async (store: ExternalContextStore) => (await store.getAll('uid-1')).map(a => a.savedAt).sort((a, b) => a - b);
+
+	async function setup() {
+		const files: Record<string, string> = { [path]: sealJson(collection(1)) };
+		const onExternalChange = vi.fn();
+		const store = new ExternalContextStore({ app: makeMockApp(files) as unknown as App, manifest, onExternalChange });
+		await store.initialize();
+		return { files, store, onExternalChange };
+	}
+
+	it('reloads a collection changed on disk and ignores its own writes', async () => {
+		const { files, store, onExternalChange } = await setup();
+		files[path] = sealJson(collection(2));
+		store.handleFileChange(path);
+		store.handleFileChange('plugin/data.json');
+		await store.reloadChangedFiles();
+
+		expect(await savedAts(store)).toEqual([2]);
+		expect(onExternalChange).toHaveBeenCalledWith([{ workspaceId: 'default', uid: 'uid-1', conflict: false }]);
+
+		await store.set('uid-1', arrangement(3), 5);
+		await store.flushDirty();
+		store.handleFileChange(path);
+		await store.reloadChangedFiles();
+		expect(onExternalChange).toHaveBeenCalledTimes(1);
+		await store.cleanup();
+	});
+
+	it('reloads a sealed file edited by hand and reseals it', async () => {
+		const { files, store, onExternalChange } = await setup();
+		files[path] = files[path].replace('"savedAt":1', '"savedAt":2');
+		store.handleFileChange(path);
+		await store.reloadChangedFiles();
+
+		expect(await savedAts(store)).toEqual([2]);
+		expect(onExternalChange).toHaveBeenCalledWith([{ workspaceId: 'default', uid: 'uid-1', conflict: false }]);
+		await store.flushDirty();
+		expect(openSealedJson(files[path]).status).toBe('ok');
+		await store.cleanup();
+	});
+
+	it('merges a change on disk with unsaved local changes', async () => {
+		const { files, store, onExternalChange } = await setup();
+		await store.set('uid-1', arrangement(3), 5);
+		const local = await savedAts(store);
+		files[path] = sealJson(collection(2));
+		store.handleFileChange(path);
+		await store.reloadChangedFiles();
+
+		expect(await savedAts(store)).toEqual([...local, 2].sort((a, b) => a - b));
+		expect(onExternalChange).toHaveBeenCalledWith([{ workspaceId: 'default', uid: 'uid-1', conflict: true }]);
+		await store.cleanup();
+	});
+
+	it('merges instead of overwriting a file that changed since it was read', async () => {
+		const { files, store, onExternalChange } = await setup();
+		await store.set('uid-1', arrangement(3), 5);
+		files[path] = sealJson(collection(2));
+		await store.flushDirty();
+
+		const written = JSON.parse(files[path]).arrangements.map((a: { savedAt: number }) => a.savedAt);
+		expect(written).toContain(1);
+		expect(written).toContain(2);
+		expect(written).toHaveLength(3);
+		expect(onExternalChange).toHaveBeenCalledWith([{ workspaceId: 'default', uid: 'uid-1', conflict: true }]);
+		await store.cleanup();
+	});
+
+	it('drops a collection whose file was deleted elsewhere', async () => {
+		const { files, store } = await setup();
+		delete files[path];
+		store.handleFileChange(path);
+		await store.reloadChangedFiles();
+		expect(await store.getAll('uid-1')).toEqual([]);
+	});
+});
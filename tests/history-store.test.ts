@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { App } from 'obsidian';
+import { ArrangementHistoryStore, historyFileName } from '../src/storage/history-store';
+import { arrangement, makeMockApp, manifest } from './stubs/vault';
+
+describe('historyFileName', () => {
+	it('encodes paths into safe file names', () => {
+		expect(historyFileName('Projects/Plan (draft).md')).toBe('Projects%2FPlan%20%28draft%29.md.json');
+		expect(historyFileName('a1b2-c3')).toBe('a1b2-c3.json');
+	});
+});
+
+describe('ArrangementHistoryStore', () => {
+	it('appends versions, lists them newest first and keeps them across a reload', async () => {
+		const files: Record<string, string> = {};
+		const first = new ArrangementHistoryStore({ app: makeMockApp(files) as unknown as App, manifest, retention: { maxVersions: 10, maxAgeDays: 0 } });
+		await first.append('uid-1', { arrangement: arrangement(1), savedAt: 1, name: 'First' });
+		await first.append('uid-1', { arrangement: arrangement(2), savedAt: 2 });
+
+		const second = new ArrangementHistoryStore({ app: makeMockApp(files) as unknown as App, manifest, retention: { maxVersions: 10, maxAgeDays: 0 } });
+		const versions = await second.list('uid-1');
+		expect(versions.map(v => v.savedAt)).toEqual([2, 1]);
+		expect(versions[1].name).toBe('First');
+		expect(await second.list('uid-2')).toEqual([]);
+	});
+
+	it('applies the retention policy on append', async () => {
+		const store = new ArrangementHistoryStore({ app: makeMockApp() as unknown as App, manifest, retention: { maxVersions: 2, maxAgeDays: 0 } });
+		for (let i = 1; i <= 3; i++) {
+			await store.append('note.md', { arrangement: arrangement(i), savedAt: i });
+		}
+		expect((await store.list('note.md')).map(v => v.savedAt)).toEqual([3, 2]);
+
+		store.setRetention({ maxVersions: 0, maxAgeDays: 0 });
+		await store.append('note.md', { arrangement: arrangement(4), savedAt: 4 });
+		expect(await store.list('note.md')).toHaveLength(2);
+	});
+
+	it('moves a history to a new key, merging it with versions already there', async () => {
+		const files: Record<string, string> = {};
+		const store = new ArrangementHistoryStore({ app: makeMockApp(files) as unknown as App, manifest, retention: { maxVersions: 3, maxAgeDays: 0 } });
+		await store.append('Old.md', { arrangement: arrangement(1), savedAt: 1 });
+		await store.append('Old.md', { arrangement: arrangement(3), savedAt: 3 });
+		await store.append('uid-1', { arrangement: arrangement(2), savedAt: 2 });
+		await store.append('uid-1', { arrangement: arrangement(4), savedAt: 4 });
+
+		await store.rekey('Old.md', 'uid-1');
+		expect((await store.list('uid-1')).map(v => v.savedAt)).toEqual([4, 3, 2]);
+		expect(await store.list('Old.md')).toEqual([]);
+		expect(Object.keys(files)).toEqual([`plugin/history/${historyFileName('uid-1')}`]);
+
+		const reloaded = new ArrangementHistoryStore({ app: makeMockApp(files) as unknown as App, manifest, retention: { maxVersions: 3, maxAgeDays: 0 } });
+		expect((await reloaded.list('uid-1')).map(v => v.savedAt)).toEqual([4, 3, 2]);
+	});
+
+	it('leaves the target alone when there is nothing to move', async () => {
+		const files: Record<string, string> = {};
+		const store = new ArrangementHistoryStore({ app: makeMockApp(files) as unknown as App, manifest, retention: { maxVersions: 3, maxAgeDays: 0 } });
+		await store.append('New.md', { arrangement: arrangement(1), savedAt: 1 });
+		await store.rekey('Missing.md', 'New.md');
+		expect((await store.list('New.md')).map(v => v.savedAt)).toEqual([1]);
+		expect(Object.keys(files)).toEqual([`plugin/history/${historyFileName('New.md')}`]);
+	});
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { applyRetention, diffArrangements, isEmptyDiff } from '../src/services/history';
+import { TimestampedArrangement, WindowArrangementV2 } from '../src/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function arrangement(): WindowArrangementV2 {
+	return {
+		v: 2,
+		ts: 1,
+		main: {
+			x: 0, y: 0, width: 1200, height: 800,
+			root: {
+				type: 'split',
+				direction: 'vertical',
+				sizes: [50, 50],
+				children: [
+					{ type: 'tabs', tabs: [{ path: 'a.md', name: 'a', active: true }] },
+					{ type: 'tabs', tabs: [{ path: 'b.md', name: 'b', active: true }] },
+				],
+			},
+		},
+		popouts: [
+			{ x: 100, y: 100, width: 400, height: 300, root: { type: 'tabs', tabs: [{ path: 'p1.md', name: 'p1', active: true }] } },
+			{ x: 600, y: 100, width: 400, height: 300, root: { type: 'tabs', tabs: [{ path: 'p2.md', name: 'p2', active: true }] } },
+		],
+		focusedWindow: -1,
+	};
+}
+
+function version(savedAt: number): TimestampedArrangement {
+	return { arrangement: arrangement(), savedAt };
+}
+
+describe('applyRetention', () => {
+	const now = 100 * DAY;
+
+	it('keeps the newest versions up to the limit, oldest first', () => {
+		const kept = applyRetention([version(3), version(1), version(2)], { maxVersions: 2, maxAgeDays: 0 }, now);
+		expect(kept.map(v => v.savedAt)).toEqual([2, 3]);
+	});
+
+	it('drops versions past the age limit but always keeps the newest', () => {
+		const versions = [version(now - 40 * DAY), version(now - 20 * DAY), version(now - DAY)];
+		expect(applyRetention(versions, { maxVersions: 10, maxAgeDays: 30 }, now).map(v => v.savedAt))
+			.toEqual([now - 20 * DAY, now - DAY]);
+		expect(applyRetention([version(now - 400 * DAY)], { maxVersions: 10, maxAgeDays: 30 }, now)).toHaveLength(1);
+	});
+
+	it('keeps nothing when history is off', () => {
+		expect(applyRetention([version(1)], { maxVersions: 0, maxAgeDays: 0 }, now)).toEqual([]);
+	});
+});
+
+describe('diffArrangements', () => {
+	it('reports nothing for identical versions', () => {
+		expect(isEmptyDiff(diffArrangements(arrangement(), arrangement()))).toBe(true);
+	});
+
+	it('reports added and removed tabs with their window', () => {
+		const b = arrangement();
+		if (b.main.root.type !== 'split' || b.main.root.children[1].type !== 'tabs') throw new Error('unexpected shape');
+		b.main.root.children[1].tabs = [{ path: 'c.md', name: 'c', active: true }];
+
+		const diff = diffArrangements(arrangement(), b);
+		expect(diff.addedTabs).toEqual([{ window: 'Main window', name: 'c', key: 'file:c.md' }]);
+		expect(diff.removedTabs).toEqual([{ window: 'Main window', name: 'b', key: 'file:b.md' }]);
+	});
+
+	it('pairs reordered popouts and reports moves and removed windows', () => {
+		const b = arrangement();
+		b.popouts = [{ ...b.popouts[1], x: 700 }];
+
+		const diff = diffArrangements(arrangement(), b);
+		expect(diff.movedWindows).toEqual([{
+			window: 'Popout 1',
+			from: { x: 600, y: 100, width: 400, height: 300 },
+			to: { x: 700, y: 100, width: 400, height: 300 },
+		}]);
+		expect(diff.removedWindows).toEqual(['Popout 1']);
+		expect(diff.addedWindows).toEqual([]);
+		expect(diff.removedTabs.map(t => t.name)).toEqual(['p1']);
+	});
+
+	it('reports changed split sizes', () => {
+		const b = arrangement();
+		if (b.main.root.type !== 'split') throw new Error('unexpected shape');
+		b.main.root.sizes = [30, 70];
+
+		expect(diffArrangements(arrangement(), b).resizedSplits).toEqual([
+			{ window: 'Main window', path: [], from: [50, 50], to: [30, 70] },
+		]);
+	});
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { DataAdapter } from 'obsidian';
+import { checksum, openSealedJson, recoverTempFile, sealJson, writeAtomic } from '../src/storage/integrity';
+import { makeMockApp } from './stubs/vault';
+
+const makeMockAdapter = (files: Record<string, string>) => makeMockApp(files).vault.adapter as unknown as DataAdapter;
+
+describe('checksum', () => {
+	it('is stable and sensitive to changes', () => {
+		expect(checksum('abc')).toBe(checksum('abc'));
+		expect(checksum('abc')).not.toBe(checksum('abd'));
+		expect(checksum('')).toMatch(/^[0-9a-f]{8}$/);
+	});
+});
+
+describe('sealJson / openSealedJson', () => {
+	const data = { v: 1, arrangements: [{ savedAt: 1 }] };
+
+	it('round-trips regardless of indentation', () => {
+		expect(openSealedJson(sealJson(data))).toEqual({ data, status: 'ok' });
+		expect(openSealedJson(sealJson(data, 2))).toEqual({ data, status: 'ok' });
+	});
+
+	it('accepts files written before checksums', () => {
+		expect(openSealedJson(JSON.stringify(data))).toEqual({ data, status: 'unsealed' });
+	});
+
+	it('detects edits and damaged files', () => {
+		const tampered = sealJson(data).replace('"savedAt":1', '"savedAt":2');
+		expect(openSealedJson(tampered).status).toBe('mismatch');
+		expect(openSealedJson(sealJson(data).slice(0, 20)).status).toBe('invalid');
+		expect(openSealedJson('<<<<<<< HEAD').status).toBe('invalid');
+		expect(openSealedJson('[1, 2]').status).toBe('invalid');
+	});
+});
+
+describe('writeAtomic', () => {
+	it('replaces an existing file and leaves no temp file', async () => {
+		const files: Record<string, string> = { 'a.json': 'old' };
+		await writeAtomic(makeMockAdapter(files), 'a.json', 'new');
+		expect(files).toEqual({ 'a.json': 'new' });
+	});
+
+	it('keeps the old file when the write fails', async () => {
+		const files: Record<string, string> = { 'a.json': 'old' };
+		const adapter = makeMockAdapter(files);
+		vi.mocked(adapter.write).mockRejectedValueOnce(new Error('disk full'));
+		await expect(writeAtomic(adapter, 'a.json', 'new')).rejects.toThrow('disk full');
+		expect(files['a.json']).toBe('old');
+	});
+});
+
+describe('recoverTempFile', () => {
+	it('promotes a complete temp file', async () => {
+		const files: Record<string, string> = { 'a.json.tmp': sealJson({ v: 1 }) };
+		expect(await recoverTempFile(makeMockAdapter(files), 'a.json.tmp')).toBe(true);
+		expect(Object.keys(files)).toEqual(['a.json']);
+	});
+
+	it('discards a truncated temp file and keeps the real one', async () => {
+		const files: Record<string, string> = { 'a.json': 'old', 'a.json.tmp': '{"v":1,"arr' };
+		expect(await recoverTempFile(makeMockAdapter(files), 'a.json.tmp')).toBe(false);
+		expect(files).toEqual({ 'a.json': 'old' });
+	});
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { hasLabel, labelOf, normalizeLabel, parseTags } from '../src/services/labels';
+
+describe('parseTags', () => {
+	it('splits on commas and whitespace and strips leading #', () => {
+		expect(parseTags('#work, deep-focus  reading,,#work')).toEqual(['work', 'deep-focus', 'reading']);
+	});
+
+	it('returns an empty list for blank input', () => {
+		expect(parseTags('  , ')).toEqual([]);
+	});
+});
+
+describe('normalizeLabel', () => {
+	it('trims fields and drops empty ones', () => {
+		expect(normalizeLabel({ name: '  Writing ', description: ' ', tags: ['#a', '', 'a'] }))
+			.toEqual({ name: 'Writing', tags: ['a'] });
+	});
+});
+
+describe('labelOf / hasLabel', () => {
+	it('copies only label fields from an entry', () => {
+		const entry = { savedAt: 1, name: 'Review', tags: ['x'], arrangement: {} };
+		expect(labelOf(entry)).toEqual({ name: 'Review', tags: ['x'] });
+		expect(hasLabel(labelOf(entry))).toBe(true);
+		expect(hasLabel({})).toBe(false);
+	});
+});
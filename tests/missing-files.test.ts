@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { App } from 'obsidian';
+import { patchArrangement, PathCorrection, saveCorrectedArrangement, savedTabGroupOf } from '../src/services/missing-files';
+import { IndexedDbContextStore } from '../src/storage/indexeddb-store';
+import { DEFAULT_WORKSPACE_ID, WindowArrangementV2 } from '../src/types';
+import { FakeIndexedDb } from './stubs/indexeddb';
+import { makeMockApp, makeUids } from './stubs/vault';
+
+function arrangement(): WindowArrangementV2 {
+	return {
+		v: 2,
+		ts: 1,
+		main: {
+			root: {
+				type: 'split',
+				direction: 'vertical',
+				sizes: [40, 60],
+				children: [
+					{ type: 'tabs', tabs: [{ path: 'old/a.md', name: 'a', uid: 'uid-a', active: true }, { path: 'gone.md', name: 'gone' }] },
+					{ type: 'tabs', tabs: [{ path: 'lost.md', name: 'lost', uid: 'uid-lost' }] },
+				],
+			},
+		},
+		popouts: [
+			{ root: { type: 'tabs', tabs: [{ path: 'gone.md', name: 'gone' }] } },
+			{ root: { type: 'tabs', tabs: [{ path: 'kept.md', name: 'kept' }, { path: '', viewType: 'graph' }] } },
+		],
+		focusedWindow: 1,
+	};
+}
+
+describe('patchArrangement', () => {
+	it('rewrites corrected paths and keeps the UID for fallback matches', () => {
+		const corrections = new Map<string, PathCorrection>([['old/a.md', { newPath: 'new/a.md', newName: 'a' }]]);
+		const result = patchArrangement(arrangement(), corrections);
+		const root = result.main.root;
+		if (root.type !== 'split' || root.children[0].type !== 'tabs') throw new Error('unexpected shape');
+		expect(root.children[0].tabs[0]).toEqual({ path: 'new/a.md', name: 'a', uid: 'uid-a', active: true });
+	});
+
+	it('replaces or clears the UID for user-picked replacements', () => {
+		const corrections = new Map<string, PathCorrection>([
+			['old/a.md', { newPath: 'b.md', newName: 'b', newUid: 'uid-b' }],
+			['lost.md', { newPath: 'found.md', newName: 'found', newUid: null }],
+		]);
+		const root = patchArrangement(arrangement(), corrections).main.root;
+		if (root.type !== 'split' || root.children[0].type !== 'tabs' || root.children[1].type !== 'tabs') throw new Error('unexpected shape');
+		expect(root.children[0].tabs[0].uid).toBe('uid-b');
+		expect(root.children[1].tabs[0]).toEqual({ path: 'found.md', name: 'found' });
+	});
+
+	it('drops tabs, prunes emptied groups and windows, and remaps focus', () => {
+		const result = patchArrangement(arrangement(), new Map(), new Set(['gone.md', 'lost.md']));
+		expect(result.main.root).toEqual({
+			type: 'tabs',
+			tabs: [{ path: 'old/a.md', name: 'a', uid: 'uid-a', active: true }],
+		});
+		expect(result.popouts).toHaveLength(1);
+		expect(result.popouts[0].root).toEqual(arrangement().popouts[1].root);
+		expect(result.focusedWindow).toBe(0);
+	});
+
+	it('patches sidebar file tabs and keeps a sidebar emptied of them', () => {
+		const arr: WindowArrangementV2 = {
+			...arrangement(),
+			leftSidebar: { collapsed: false, width: 300, root: { type: 'tabs', tabs: [{ path: '', viewType: 'file-explorer', active: true }, { path: 'old/a.md', name: 'a' }] } },
+			rightSidebar: { collapsed: true, root: { type: 'tabs', tabs: [{ path: 'gone.md', name: 'gone', active: true }] } },
+		};
+		const corrections = new Map<string, PathCorrection>([['old/a.md', { newPath: 'new/a.md', newName: 'a' }]]);
+		const result = patchArrangement(arr, corrections, new Set(['gone.md']));
+		expect(result.leftSidebar).toEqual({
+			collapsed: false,
+			width: 300,
+			root: { type: 'tabs', tabs: [{ path: '', viewType: 'file-explorer', active: true }, { path: 'new/a.md', name: 'a' }] },
+		});
+		expect(result.rightSidebar).toEqual({ collapsed: true });
+		expect(patchArrangement(arrangement(), corrections)).not.toHaveProperty('leftSidebar');
+	});
+
+	it('leaves non-file views alone', () => {
+		const result = patchArrangement(arrangement(), new Map(), new Set(['']));
+		expect(result.popouts[1].root).toEqual(arrangement().popouts[1].root);
+	});
+});
+
+describe('savedTabGroupOf', () => {
+	it('finds the first group holding a file tab, sidebars included', () => {
+		const arr: WindowArrangementV2 = {
+			...arrangement(),
+			rightSidebar: { collapsed: false, root: { type: 'tabs', tabs: [{ path: 'side.md', name: 'side' }] } },
+		};
+		expect(savedTabGroupOf(arr, 'gone.md')?.map(tab => tab.path)).toEqual(['old/a.md', 'gone.md']);
+		expect(savedTabGroupOf(arr, 'kept.md')?.map(tab => tab.path)).toEqual(['kept.md', '']);
+		expect(savedTabGroupOf(arr, 'side.md')?.map(tab => tab.path)).toEqual(['side.md']);
+		expect(savedTabGroupOf(arr, '')).toBeNull();
+	});
+});
+
+describe('saveCorrectedArrangement', () => {
+	const corrections = new Map<string, PathCorrection>([['old/a.md', { newPath: 'new/a.md', newName: 'a' }]]);
+	let store: IndexedDbContextStore;
+	let app: ReturnType<typeof makeMockApp>;
+
+	const save = async (ts: number, name: string) => {
+		vi.setSystemTime(ts * 1000);
+		await store.set(app.fileFor('Note.md'), { ...arrangement(), ts }, { name }, 5);
+	};
+
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		app = makeMockApp({ 'Note.md': '# Note' });
+		store = new IndexedDbContextStore({ app: app as unknown as App, uids: makeUids(), factory: new FakeIndexedDb() as unknown as IDBFactory });
+	});
+
+	afterEach(() => {
+		store.close();
+		vi.useRealTimers();
+	});
+
+	it('patches the restored arrangement and keeps the others', async () => {
+		const file = app.fileFor('Note.md');
+		await save(1, 'First');
+		await save(2, 'Second');
+		await save(3, 'Third');
+		const before = await store.getAll(file);
+
+		const corrected = patchArrangement({ ...arrangement(), ts: 2 }, corrections);
+		expect(await saveCorrectedArrangement(store, file, corrected)).toBe(true);
+
+		const after = await store.getAll(file);
+		expect(after).toHaveLength(3);
+		expect(after.map(e => [e.savedAt, e.name])).toEqual(before.map(e => [e.savedAt, e.name]));
+		expect(after[1].arrangement).toEqual(corrected);
+		expect(after[0]).toEqual(before[0]);
+		expect(after[2]).toEqual(before[2]);
+	});
+
+	it('finds an arrangement restored from another workspace', async () => {
+		const file = app.fileFor('Note.md');
+		await store.ensureWorkspace('Work', 'work');
+		store.setActiveWorkspace('work');
+		await save(1, 'Work');
+		store.setActiveWorkspace(DEFAULT_WORKSPACE_ID);
+		await save(2, 'Home');
+
+		const corrected = patchArrangement({ ...arrangement(), ts: 1 }, corrections);
+		expect(await saveCorrectedArrangement(store, file, corrected)).toBe(true);
+		expect((await store.getAll(file, 'work'))[0].arrangement).toEqual(corrected);
+		expect((await store.getAll(file))[0].arrangement.ts).toBe(2);
+	});
+
+	it('reports an arrangement that is no longer stored', async () => {
+		const file = app.fileFor('Note.md');
+		await save(1, 'First');
+		const corrected = patchArrangement({ ...arrangement(), ts: 9 }, corrections);
+		expect(await saveCorrectedArrangement(store, file, corrected)).toBe(false);
+		expect(await store.getAll(file)).toHaveLength(1);
+	});
+});
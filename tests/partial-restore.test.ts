@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { arrangementTabGroupKeys, selectFromArrangement } from '../src/services/partial-restore';
+import { WindowArrangementV2, WorkspaceNodeState } from '../src/types';
+
+function tabs(...paths: string[]): WorkspaceNodeState {
+	return { type: 'tabs', tabs: paths.map((path, i) => ({ path, active: i === 0 })) };
+}
+
+function arrangement(): WindowArrangementV2 {
+	return {
+		v: 2,
+		ts: 1,
+		main: {
+			root: {
+				type: 'split',
+				direction: 'vertical',
+				sizes: [20, 30, 50],
+				children: [
+					tabs('a.md'),
+					tabs('b.md'),
+					{ type: 'split', direction: 'horizontal', sizes: [50, 50], children: [tabs('c.md'), tabs('d.md')] },
+				],
+			},
+			x: 0, y: 0, width: 1000, height: 800,
+		},
+		popouts: [
+			{ root: tabs('p1.md') },
+			{ root: tabs('p2.md') },
+		],
+		focusedWindow: 1,
+	};
+}
+
+describe('partial restore', () => {
+	it('lists every tab group, main window first', () => {
+		expect(arrangementTabGroupKeys(arrangement())).toEqual(['-1:0', '-1:1', '-1:2.0', '-1:2.1', '0:', '1:']);
+	});
+
+	it('keeps everything when everything is selected', () => {
+		const arr = arrangement();
+		const result = selectFromArrangement(arr, new Set(arrangementTabGroupKeys(arr)));
+		expect(result?.includesMain).toBe(true);
+		expect(result?.arrangement.main.root).toEqual(arr.main.root);
+		expect(result?.arrangement.popouts).toHaveLength(2);
+		expect(result?.arrangement.focusedWindow).toBe(1);
+	});
+
+	it('prunes groups, collapses single-child splits and rescales sizes', () => {
+		const result = selectFromArrangement(arrangement(), new Set(['-1:0', '-1:2.1']));
+		expect(result?.arrangement.main.root).toEqual({
+			type: 'split',
+			direction: 'vertical',
+			sizes: [100 * 20 / 70, 100 * 50 / 70],
+			children: [tabs('a.md'), tabs('d.md')],
+		});
+		expect(result?.arrangement.popouts).toEqual([]);
+		// Focused popout was dropped → main window
+		expect(result?.arrangement.focusedWindow).toBe(-1);
+	});
+
+	it('remaps the focused popout and flags a missing main window', () => {
+		const result = selectFromArrangement(arrangement(), new Set(['1:']));
+		expect(result?.includesMain).toBe(false);
+		expect(result?.arrangement.popouts).toEqual([{ root: tabs('p2.md') }]);
+		expect(result?.arrangement.focusedWindow).toBe(0);
+	});
+
+	it('returns null when nothing is selected', () => {
+		expect(selectFromArrangement(arrangement(), new Set())).toBeNull();
+	});
+});
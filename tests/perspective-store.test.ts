@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { App } from 'obsidian';
+import { PerspectiveStore } from '../src/storage/perspective-store';
+import { arrangement, makeMockApp, manifest } from './stubs/vault';
+
+describe('PerspectiveStore', () => {
+	it('lists perspectives by name and persists them across a reload', async () => {
+		const files: Record<string, string> = {};
+		const first = new PerspectiveStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await first.save(arrangement(1), { name: 'Writing sprint', tags: ['work'] });
+		await first.save(arrangement(2), { name: 'Morning review' });
+
+		const second = new PerspectiveStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await second.load();
+		expect(second.list().map(p => p.name)).toEqual(['Morning review', 'Writing sprint']);
+		expect(second.findByName('writing SPRINT')?.tags).toEqual(['work']);
+	});
+
+	it('replaces a perspective saved under an existing name and keeps its id', async () => {
+		const store = new PerspectiveStore({ app: makeMockApp() as unknown as App, manifest });
+		const original = await store.save(arrangement(1), { name: 'Review' });
+		const replaced = await store.save(arrangement(2), { name: 'review ' });
+
+		expect(store.size).toBe(1);
+		expect(replaced.id).toBe(original.id);
+		expect(store.get(original.id)?.arrangement.ts).toBe(2);
+	});
+
+	it('renames, refusing names that are already taken', async () => {
+		const store = new PerspectiveStore({ app: makeMockApp() as unknown as App, manifest });
+		const a = await store.save(arrangement(1), { name: 'A', description: 'old' });
+		await store.save(arrangement(2), { name: 'B' });
+
+		expect(await store.updateLabel(a.id, { name: 'b' })).toBe(false);
+		expect(await store.updateLabel(a.id, { name: 'C', tags: ['x'] })).toBe(true);
+		expect(store.get(a.id)).toMatchObject({ name: 'C', tags: ['x'] });
+		expect(store.get(a.id)?.description).toBeUndefined();
+	});
+
+	it('deletes and ignores a malformed file', async () => {
+		const store = new PerspectiveStore({ app: makeMockApp() as unknown as App, manifest });
+		const a = await store.save(arrangement(1), { name: 'A' });
+		await store.delete(a.id);
+		expect(store.size).toBe(0);
+
+		const broken = new PerspectiveStore({
+			app: makeMockApp({ 'plugin/perspectives.json': '{"v":1,' }) as unknown as App,
+			manifest,
+		});
+		await broken.load();
+		expect(broken.size).toBe(0);
+	});
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { App } from 'obsidian';
+import { openSealedJson, sealJson } from '../src/storage/integrity';
+import { PluginDataFile } from '../src/storage/plugin-data-file';
+import { makeMockApp, manifest } from './stubs/vault';
+
+function makeFile(files: Record<string, string>, name = 'items.json') {
+	return new PluginDataFile<{ items: number[] }>({
+		app: makeMockApp(files) as unknown as App,
+		manifest,
+		name,
+		description: 'items',
+		isValid: data => Array.isArray(data.items),
+	});
+}
+
+describe('PluginDataFile', () => {
+	it('writes a sealed file atomically and reads it back', async () => {
+		const files: Record<string, string> = {};
+		await makeFile(files, 'nested/items.json').write({ items: [1, 2] });
+
+		expect(Object.keys(files)).toEqual(['plugin/nested/items.json']);
+		expect(openSealedJson(files['plugin/nested/items.json'])).toEqual({ data: { v: 1, items: [1, 2] }, status: 'ok' });
+		expect(await makeFile(files, 'nested/items.json').read()).toEqual({ items: [1, 2] });
+	});
+
+	it('reads files written before sealing and files edited by hand', async () => {
+		expect(await makeFile({ 'plugin/items.json': '{"v":1,"items":[3]}' }).read()).toEqual({ items: [3] });
+		const edited = sealJson({ v: 1, items: [4] }).replace('[4]', '[5]');
+		expect(await makeFile({ 'plugin/items.json': edited }).read()).toEqual({ items: [5] });
+	});
+
+	it('reads a missing, damaged or foreign file as nothing', async () => {
+		expect(await makeFile({}).read()).toBeNull();
+		expect(await makeFile({ 'plugin/items.json': '{"v":1,"ite' }).read()).toBeNull();
+		expect(await makeFile({ 'plugin/items.json': '{"v":2,"items":[]}' }).read()).toBeNull();
+		expect(await makeFile({ 'plugin/items.json': '{"v":1,"items":{}}' }).read()).toBeNull();
+	});
+
+	it('finishes an interrupted write from its temp file', async () => {
+		const files: Record<string, string> = { 'plugin/items.json.tmp': sealJson({ v: 1, items: [6] }) };
+		expect(await makeFile(files).read()).toEqual({ items: [6] });
+		expect(Object.keys(files)).toEqual(['plugin/items.json']);
+	});
+});
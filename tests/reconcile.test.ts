@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { matchWindows, planTabGroup, planTabGroups, sameShape, sidebarTabKey, tabKey } from '../src/services/reconcile';
+import { TabState, WorkspaceNodeState } from '../src/types';
+
+function tabs(...paths: string[]): WorkspaceNodeState {
+	return { type: 'tabs', tabs: paths.map((path, i) => ({ path, active: i === 0 })) };
+}
+
+describe('reconcile', () => {
+	describe('tabKey', () => {
+		it('keys files by path and views by type and state', () => {
+			expect(tabKey({ path: 'a.md' })).toBe('file:a.md');
+			expect(tabKey({ path: '', viewType: 'graph' })).toBe(tabKey({ path: '', viewType: 'graph', viewState: {} }));
+			expect(tabKey({ path: '', viewType: 'graph', viewState: { query: 'a' } }))
+				.not.toBe(tabKey({ path: '', viewType: 'graph', viewState: { query: 'b' } }));
+		});
+
+		it('ignores the key order of view states', () => {
+			expect(tabKey({ path: '', viewType: 'search', viewState: { query: 'x', sort: 'alpha' } }))
+				.toBe(tabKey({ path: '', viewType: 'search', viewState: { sort: 'alpha', query: 'x' } }));
+		});
+	});
+
+	describe('sameShape', () => {
+		it('ignores tab contents and sizes', () => {
+			const a: WorkspaceNodeState = { type: 'split', direction: 'vertical', sizes: [50, 50], children: [tabs('a.md'), tabs('b.md')] };
+			const b: WorkspaceNodeState = { type: 'split', direction: 'vertical', sizes: [20, 80], children: [tabs('x.md', 'y.md'), tabs('z.md')] };
+			expect(sameShape(a, b)).toBe(true);
+		});
+
+		it('detects direction, child count and nesting differences', () => {
+			const base: WorkspaceNodeState = { type: 'split', direction: 'vertical', children: [tabs('a.md'), tabs('b.md')] };
+			expect(sameShape(base, { ...base, direction: 'horizontal' })).toBe(false);
+			expect(sameShape(base, { ...base, children: [tabs('a.md'), tabs('b.md'), tabs('c.md')] })).toBe(false);
+			expect(sameShape(base, tabs('a.md'))).toBe(false);
+			expect(sameShape(base, {
+				type: 'split',
+				direction: 'vertical',
+				children: [tabs('a.md'), { type: 'split', direction: 'horizontal', children: [tabs('b.md'), tabs('c.md')] }],
+			})).toBe(false);
+		});
+	});
+
+	describe('matchWindows', () => {
+		it('pairs windows by shared tabs, best overlap first', () => {
+			const current = [tabs('a.md', 'b.md'), tabs('c.md'), tabs('unrelated.md')];
+			const target = [tabs('c.md', 'd.md'), tabs('a.md', 'b.md', 'e.md'), tabs('new.md')];
+			expect(matchWindows(current, target)).toEqual([1, 0, null]);
+		});
+
+		it('never pairs one current window with two targets', () => {
+			const current = [tabs('a.md', 'b.md')];
+			const target = [tabs('a.md'), tabs('a.md', 'b.md')];
+			expect(matchWindows(current, target)).toEqual([null, 0]);
+		});
+	});
+
+	describe('planTabGroup', () => {
+		it('keeps matching tabs, creates missing ones and closes leftovers', () => {
+			const graph = tabKey({ path: '', viewType: 'graph' });
+			const plan = planTabGroup(['file:a.md', 'file:old.md', graph], [graph, 'file:a.md', 'file:new.md']);
+			expect(plan.sources).toEqual([2, 0, null]);
+			expect(plan.close).toEqual([1]);
+		});
+
+		it('pairs duplicate tabs in order', () => {
+			const plan = planTabGroup(['file:a.md', 'file:a.md'], ['file:a.md', 'file:b.md', 'file:a.md']);
+			expect(plan.sources).toEqual([0, null, 1]);
+			expect(plan.close).toEqual([]);
+		});
+	});
+
+	describe('planTabGroups', () => {
+		it('moves a tab to another group instead of reopening it', () => {
+			const plan = planTabGroups(
+				[['file:a.md', 'file:b.md'], ['file:c.md']],
+				[['file:a.md'], ['file:c.md', 'file:b.md']]
+			);
+			expect(plan.sources).toEqual([
+				[{ group: 0, index: 0 }],
+				[{ group: 1, index: 0 }, { group: 0, index: 1 }],
+			]);
+			expect(plan.close).toEqual([]);
+		});
+
+		it('prefers a match in its own group over one elsewhere', () => {
+			const plan = planTabGroups(
+				[['file:a.md'], ['file:a.md', 'file:x.md']],
+				[['file:a.md'], ['file:a.md']]
+			);
+			expect(plan.sources).toEqual([[{ group: 0, index: 0 }], [{ group: 1, index: 0 }]]);
+			expect(plan.close).toEqual([{ group: 1, index: 1 }]);
+		});
+
+		it('takes tabs from donor groups without closing their leftovers', () => {
+			const plan = planTabGroups(
+				[['file:a.md', 'file:old.md'], ['file:popout.md', 'file:gone.md']],
+				[['file:popout.md', 'file:a.md', 'file:new.md']]
+			);
+			expect(plan.sources).toEqual([[{ group: 1, index: 0 }, { group: 0, index: 0 }, null]]);
+			expect(plan.close).toEqual([{ group: 0, index: 1 }]);
+		});
+	});
+
+	describe('sidebar panels', () => {
+		const panel = (viewType: string, viewState?: Record<string, unknown>): TabState => ({ path: '', viewType, viewState, active: false });
+
+		it('keeps open panels whatever their state, and only opens or closes what differs', () => {
+			const current = [[panel('file-explorer', { sort: 'alphabetical' }), panel('search', { query: 'todo' }), panel('tag')]];
+			const target = [[panel('file-explorer'), panel('bookmarks'), panel('search', { query: '' })]];
+			const plan = planTabGroups(current.map(g => g.map(sidebarTabKey)), target.map(g => g.map(sidebarTabKey)));
+			expect(plan.sources).toEqual([[{ group: 0, index: 0 }, null, { group: 0, index: 1 }]]);
+			expect(plan.close).toEqual([{ group: 0, index: 2 }]);
+		});
+
+		it('moves a panel between the sidebar tab groups instead of reopening it', () => {
+			const current = [[panel('file-explorer'), panel('outline')], [panel('backlink')]];
+			const target = [[panel('file-explorer')], [panel('backlink'), panel('outline')]];
+			const plan = planTabGroups(current.map(g => g.map(sidebarTabKey)), target.map(g => g.map(sidebarTabKey)));
+			expect(plan.sources).toEqual([[{ group: 0, index: 0 }], [{ group: 1, index: 0 }, { group: 0, index: 1 }]]);
+			expect(plan.close).toEqual([]);
+		});
+
+		it('keys file tabs in a sidebar by path', () => {
+			expect(sidebarTabKey({ path: 'a.md' })).toBe(tabKey({ path: 'a.md' }));
+		});
+	});
+});
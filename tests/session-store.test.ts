@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { App } from 'obsidian';
+import { openSealedJson } from '../src/storage/integrity';
+import { SessionStore } from '../src/storage/session-store';
+import { DEFAULT_WORKSPACE_ID } from '../src/types';
+import { makeMockApp, manifest } from './stubs/vault';
+
+const FILE = 'plugin/session.json';
+
+describe('SessionStore', () => {
+	it('keeps the last context note per workspace across a reload', async () => {
+		const files: Record<string, string> = {};
+		const store = new SessionStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await store.setLastContext(DEFAULT_WORKSPACE_ID, { path: 'Home.md', at: 1 });
+		await store.setLastContext('work', { path: 'Projects/Plan.md', uid: 'abc', at: 2 });
+		await store.setLastContext(DEFAULT_WORKSPACE_ID, { path: 'Later.md', at: 3 });
+
+		const reloaded = new SessionStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await reloaded.load();
+
+		expect(reloaded.getLastContext(DEFAULT_WORKSPACE_ID)).toEqual({ path: 'Later.md', at: 3 });
+		expect(reloaded.getLastContext('work')).toEqual({ path: 'Projects/Plan.md', uid: 'abc', at: 2 });
+		expect(reloaded.getLastContext('home')).toBeUndefined();
+	});
+
+	it('forgets a workspace entry', async () => {
+		const files: Record<string, string> = {};
+		const store = new SessionStore({ app: makeMockApp(files) as unknown as App, manifest });
+		await store.setLastContext('work', { path: 'Plan.md', at: 1 });
+		await store.clearLastContext('work');
+
+		expect(store.getLastContext('work')).toBeUndefined();
+		expect(openSealedJson(files[FILE])).toEqual({ data: { v: 1, lastContext: {} }, status: 'ok' });
+	});
+
+	it('starts empty when the file is unreadable', async () => {
+		const store = new SessionStore({ app: makeMockApp({ [FILE]: '{not json' }) as unknown as App, manifest });
+		await store.load();
+		expect(store.getLastContext(DEFAULT_WORKSPACE_ID)).toBeUndefined();
+	});
+});
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { App, PluginManifest, TFile } from 'obsidian';
+import { ContextStore } from '../src/storage/context-store';
+import { ExternalContextStore } from '../src/storage/external-store';
+import { IndexedDbContextStore } from '../src/storage/indexeddb-store';
+import { InlineContextStore } from '../src/storage/inline-context-store';
+import { JsonFileContextStore } from '../src/storage/json-context-store';
+import { executeMigration, listRollbackManifests, planMigration, rollbackMigration, StoreMigrationConfig } from '../src/services/store-migration';
+import { DEFAULT_WORKSPACE_ID, StorageMode } from '../src/types';
+import { FakeIndexedDb } from './stubs/indexeddb';
+import { arrangement, makeMockApp, makeUids } from './stubs/vault';
+
+describe('store migration', () => {
+	let app: ReturnType<typeof makeMockApp>;
+	let external: ExternalContextStore;
+	let stores: Record<StorageMode, ContextStore>;
+	let cfg: StoreMigrationConfig;
+	let note: TFile;
+	let other: TFile;
+	let now = 1_700_000_000_000;
+
+	const next = () => {
+		now += 1000;
+		vi.setSystemTime(now);
+		return arrangement(now);
+	};
+
+	beforeEach(async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		app = makeMockApp({ 'Note.md': '# Note', 'Other.md': '# Other' });
+		const uids = makeUids();
+		external = new ExternalContextStore({ app: app as unknown as App, manifest: { dir: 'plugin' } as PluginManifest });
+		await external.initialize();
+		stores = {
+			frontmatter: new InlineContextStore(app as unknown as App, 'frontmatter'),
+			external: new JsonFileContextStore({ store: external, uids }),
+			indexeddb: new IndexedDbContextStore({ app: app as unknown as App, uids, factory: new FakeIndexedDb() as unknown as IDBFactory }),
+		};
+		cfg = {
+			app: app as unknown as App,
+			storeFor: (mode) => stores[mode],
+			maxArrangementsPerNote: 5,
+			perspectaFolderPath: 'perspecta',
+		};
+		note = app.fileFor('Note.md');
+		other = app.fileFor('Other.md');
+	});
+
+	afterEach(() => {
+		void external.cleanup();
+		(stores.indexeddb as IndexedDbContextStore).close();
+		vi.useRealTimers();
+	});
+
+	it('previews what a single-slot target would lose without changing anything', async () => {
+		await stores.external.set(note, next(), { name: 'First' }, 5);
+		await stores.external.set(note, next(), {}, 5);
+		const newest = next();
+		await stores.external.set(note, newest, { name: 'Newest' }, 5);
+
+		const plan = await planMigration(cfg, { from: 'external', to: 'frontmatter', workspaces: [DEFAULT_WORKSPACE_ID], policy: 'merge' });
+
+		expect(plan.notes).toHaveLength(1);
+		expect(plan.notes[0]).toMatchObject({ path: 'Note.md', sourceCount: 3, targetCount: 0, resultCount: 1, lost: 2, replaced: 0, labelsLost: 0 });
+		expect(await stores.external.getAll(note)).toHaveLength(3);
+		expect(await stores.frontmatter.has(note)).toBe(false);
+	});
+
+	it('moves arrangements and rolls the move back', async () => {
+		const saved = next();
+		await stores.frontmatter.set(note, saved, { name: 'Writing' }, 1);
+
+		const result = await executeMigration(cfg, { from: 'frontmatter', to: 'indexeddb', workspaces: [DEFAULT_WORKSPACE_ID], policy: 'merge' });
+
+		expect(result).toMatchObject({ migrated: 1, skipped: 0, errors: 0 });
+		expect(await stores.frontmatter.has(note)).toBe(false);
+		expect(await stores.indexeddb.getAll(note)).toMatchObject([{ arrangement: saved, name: 'Writing' }]);
+
+		const manifests = await listRollbackManifests(cfg);
+		expect(manifests.map(m => m.path)).toEqual([result.manifestPath]);
+		expect(manifests[0].manifest).toMatchObject({ from: 'frontmatter', to: 'indexeddb' });
+
+		const undone = await rollbackMigration(cfg, result.manifestPath);
+
+		expect(undone).toMatchObject({ restored: 1, missing: 0, errors: 0 });
+		expect(await stores.indexeddb.has(note)).toBe(false);
+		expect(await stores.frontmatter.getAll(note)).toMatchObject([{ arrangement: saved, name: 'Writing' }]);
+		expect(await listRollbackManifests(cfg)).toEqual([]);
+	});
+
+	it('keeps arrangements saved in the target since the migration when rolling back', async () => {
+		const before = next();
+		await stores.indexeddb.set(note, before, { name: 'Before' }, 5);
+		const moved = next();
+		await stores.external.set(note, moved, {}, 5);
+
+		const result = await executeMigration(cfg, { from: 'external', to: 'indexeddb', workspaces: [DEFAULT_WORKSPACE_ID], policy: 'overwrite' });
+		const since = next();
+		await stores.indexeddb.set(note, since, { name: 'Since' }, 5);
+
+		expect(await rollbackMigration(cfg, result.manifestPath)).toMatchObject({ restored: 1, errors: 0 });
+		expect((await stores.indexeddb.getAll(note)).map(e => e.arrangement)).toEqual([since, before]);
+		expect((await stores.external.getAll(note)).map(e => e.arrangement)).toEqual([moved]);
+	});
+
+	it('applies the conflict policy per note', async () => {
+		const inTarget = next();
+		await stores.indexeddb.set(note, inTarget, {}, 5);
+		await stores.indexeddb.set(other, inTarget, {}, 5);
+		const moved = next();
+		await stores.external.set(note, moved, {}, 5);
+		await stores.external.set(other, moved, {}, 5);
+
+		const options = { from: 'external', to: 'indexeddb', workspaces: [DEFAULT_WORKSPACE_ID], policy: 'skip', overrides: { 'Other.md': 'overwrite' } } as const;
+		const plan = await planMigration(cfg, options);
+		expect(plan.notes.find(n => n.path === 'Note.md')).toMatchObject({ policy: 'skip', resultCount: 1, lost: 0, replaced: 0 });
+		expect(plan.notes.find(n => n.path === 'Other.md')).toMatchObject({ policy: 'overwrite', resultCount: 1, replaced: 1 });
+
+		const result = await executeMigration(cfg, options);
+
+		expect(result).toMatchObject({ migrated: 1, skipped: 1, errors: 0 });
+		expect((await stores.indexeddb.getAll(note)).map(e => e.arrangement)).toEqual([inTarget]);
+		expect(await stores.external.has(note)).toBe(true);
+		expect((await stores.indexeddb.getAll(other)).map(e => e.arrangement)).toEqual([moved]);
+		expect(await stores.external.has(other)).toBe(false);
+
+		await rollbackMigration(cfg, result.manifestPath);
+		expect((await stores.indexeddb.getAll(other)).map(e => e.arrangement)).toEqual([inTarget]);
+		expect((await stores.external.getAll(other)).map(e => e.arrangement)).toEqual([moved]);
+	});
+
+	it('migrates only the selected workspaces', async () => {
+		await stores.external.ensureWorkspace('Work', 'work');
+		await stores.external.ensureWorkspace('Home', 'home');
+		stores.external.setActiveWorkspace('work');
+		const work = next();
+		await stores.external.set(note, work, {}, 5);
+		stores.external.setActiveWorkspace('home');
+		await stores.external.set(note, next(), {}, 5);
+
+		const result = await executeMigration(cfg, { from: 'external', to: 'indexeddb', workspaces: ['work'], policy: 'merge' });
+
+		expect(result.migrated).toBe(1);
+		expect(await stores.indexeddb.workspacesWith(note)).toEqual(['work']);
+		expect(stores.indexeddb.listWorkspaces()).toContainEqual({ id: 'work', displayName: 'Work', shared: false });
+		expect((await stores.indexeddb.getAll(note, 'work')).map(e => e.arrangement)).toEqual([work]);
+		expect(await stores.external.workspacesWith(note)).toEqual(['home']);
+	});
+
+	it('collapses workspaces into a store without them', async () => {
+		await stores.external.ensureWorkspace('Work', 'work');
+		await stores.external.set(note, next(), {}, 5);
+		stores.external.setActiveWorkspace('work');
+		const newest = next();
+		await stores.external.set(note, newest, {}, 5);
+
+		const plan = await planMigration(cfg, { from: 'external', to: 'frontmatter', workspaces: [DEFAULT_WORKSPACE_ID, 'work'], policy: 'merge' });
+
+		expect(plan.notes[0].groups).toMatchObject([{ from: [DEFAULT_WORKSPACE_ID, 'work'], to: DEFAULT_WORKSPACE_ID }]);
+		expect(plan.notes[0]).toMatchObject({ sourceCount: 2, resultCount: 1, lost: 1 });
+
+		await executeMigration(cfg, { from: 'external', to: 'frontmatter', workspaces: [DEFAULT_WORKSPACE_ID, 'work'], policy: 'merge' });
+		expect(await stores.frontmatter.getLatest(note)).toEqual(newest);
+		expect(await stores.external.workspacesWith(note)).toEqual([]);
+	});
+});
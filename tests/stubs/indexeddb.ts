@@ -0,0 +1,102 @@
+// Minimal in-memory IndexedDB for tests. Covers only what
+// IndexedDbContextStore uses: open with an upgrade, object stores with a key
+// path, put/delete/getAll, and transaction completion. Requests succeed in a
+// microtask; transactions complete on the next macrotask, after them.
+
+type KeyPath = string | string[];
+
+class FakeRequest<T> {
+	result!: T;
+	error: unknown = null;
+	onsuccess: (() => void) | null = null;
+	onerror: (() => void) | null = null;
+	onupgradeneeded: (() => void) | null = null;
+}
+
+class FakeObjectStore {
+	records = new Map<string, unknown>();
+	constructor(readonly keyPath: KeyPath) {}
+
+	keyOf(value: Record<string, unknown>): string {
+		const paths = Array.isArray(this.keyPath) ? this.keyPath : [this.keyPath];
+		return JSON.stringify(paths.map(p => value[p]));
+	}
+}
+
+function succeed<T>(result: T): FakeRequest<T> {
+	const request = new FakeRequest<T>();
+	request.result = result;
+	queueMicrotask(() => request.onsuccess?.());
+	return request;
+}
+
+class FakeTransaction {
+	error: unknown = null;
+	oncomplete: (() => void) | null = null;
+	onerror: (() => void) | null = null;
+	onabort: (() => void) | null = null;
+
+	constructor(private db: FakeDatabase) {
+		setTimeout(() => this.oncomplete?.(), 0);
+	}
+
+	objectStore(name: string) {
+		const store = this.db.stores.get(name);
+		if (!store) throw new Error(`No object store ${name}`);
+		return {
+			put: (value: Record<string, unknown>) => {
+				store.records.set(store.keyOf(value), structuredClone(value));
+				return succeed(undefined);
+			},
+			delete: (key: unknown) => {
+				store.records.delete(JSON.stringify(Array.isArray(key) ? key : [key]));
+				return succeed(undefined);
+			},
+			getAll: () => succeed([...store.records.values()].map(v => structuredClone(v))),
+		};
+	}
+}
+
+class FakeDatabase {
+	stores = new Map<string, FakeObjectStore>();
+	constructor(public version: number) {}
+
+	get objectStoreNames() {
+		return { contains: (name: string) => this.stores.has(name) };
+	}
+
+	createObjectStore(name: string, options: { keyPath: KeyPath }): void {
+		this.stores.set(name, new FakeObjectStore(options.keyPath));
+	}
+
+	transaction(): FakeTransaction {
+		return new FakeTransaction(this);
+	}
+
+	close(): void {
+		// Nothing to release
+	}
+}
+
+export class FakeIndexedDb {
+	databases = new Map<string, FakeDatabase>();
+
+	open(name: string, version: number): FakeRequest<FakeDatabase> {
+		const request = new FakeRequest<FakeDatabase>();
+		queueMicrotask(() => {
+			let db = this.databases.get(name);
+			const upgrade = !db || db.version < version;
+			if (!db) {
+				db = new FakeDatabase(version);
+				this.databases.set(name, db);
+			}
+			request.result = db;
+			if (upgrade) {
+				db.version = version;
+				request.onupgradeneeded?.();
+			}
+			request.onsuccess?.();
+		});
+		return request;
+	}
+}
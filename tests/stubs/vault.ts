@@ -0,0 +1,93 @@
+// In-memory vault for tests that run stores against a mock App: files by
+// path, the adapter over the same map, and frontmatter parsed from
+// `key: "value"` lines. Paths under plugin/ are the plugin folder and are
+// not listed as vault files. Like Obsidian's adapter, rename refuses to
+// overwrite an existing file.
+
+import { vi } from 'vitest';
+import type { PluginManifest, TFile } from 'obsidian';
+import { UidResolver } from '../../src/storage/context-store';
+import { WindowArrangementV2 } from '../../src/types';
+
+/** Manifest of a plugin installed in plugin/. */
+export const manifest = { dir: 'plugin' } as PluginManifest;
+
+export function makeMockApp(files: Record<string, string> = {}) {
+	const folders = new Set<string>();
+	const frontmatter = (content: string) => {
+		const match = content.match(/^---\n([\s\S]*?)\n---/);
+		if (!match) return undefined;
+		const fm: Record<string, string> = {};
+		for (const line of match[1].split('\n')) {
+			const [, key, value] = line.match(/^([\w-]+): "?(.*?)"?$/) ?? [];
+			if (key) fm[key] = value;
+		}
+		return fm;
+	};
+	const fileFor = (path: string) => {
+		const name = path.split('/').pop()!;
+		const dot = name.lastIndexOf('.');
+		return { path, name, basename: name.slice(0, dot), extension: name.slice(dot + 1) } as TFile;
+	};
+	const vaultFiles = () => Object.keys(files).filter(p => !p.startsWith('plugin/')).map(fileFor);
+	return {
+		vault: {
+			getName: () => 'Test vault',
+			getFiles: vi.fn(vaultFiles),
+			createFolder: vi.fn(async () => {}),
+			read: vi.fn(async (file: TFile) => files[file.path]),
+			modify: vi.fn(async (file: TFile, data: string) => { files[file.path] = data; }),
+			adapter: {
+				exists: vi.fn(async (path: string) => path in files || folders.has(path) || Object.keys(files).some(f => f.startsWith(`${path}/`))),
+				read: vi.fn(async (path: string) => files[path]),
+				write: vi.fn(async (path: string, data: string) => { files[path] = data; }),
+				remove: vi.fn(async (path: string) => { delete files[path]; }),
+				rename: vi.fn(async (from: string, to: string) => {
+					if (to in files) throw new Error('Destination file already exists!');
+					files[to] = files[from];
+					delete files[from];
+				}),
+				mkdir: vi.fn(async (path: string) => { folders.add(path); }),
+				list: vi.fn(async (path: string) => {
+					const direct = (p: string) => p.startsWith(`${path}/`) && !p.slice(path.length + 1).includes('/');
+					return {
+						files: Object.keys(files).filter(direct),
+						folders: [...new Set([
+							...Object.keys(files).filter(f => f.startsWith(`${path}/`) && f.slice(path.length + 1).includes('/'))
+								.map(f => f.slice(0, f.indexOf('/', path.length + 1))),
+							...[...folders].filter(direct),
+						])],
+					};
+				}),
+			},
+		},
+		metadataCache: {
+			getFileCache: vi.fn((file: TFile) => ({ frontmatter: frontmatter(files[file.path] ?? '') })),
+		},
+		fileFor,
+	};
+}
+
+// UIDs kept on the side, so the UID-keyed stores don't depend on how a
+// file type stores its UID.
+export function makeUids(): UidResolver {
+	const uids = new Map<string, string>();
+	return {
+		get: async (file) => uids.get(file.path),
+		ensure: async (file) => {
+			if (!uids.has(file.path)) uids.set(file.path, `uid-${uids.size + 1}`);
+			return uids.get(file.path)!;
+		},
+	};
+}
+
+// A one-tab arrangement, in the shape the frontmatter codec reads back
+export function arrangement(ts: number): WindowArrangementV2 {
+	return {
+		v: 2,
+		ts,
+		focusedWindow: -1,
+		main: { root: { type: 'tabs', tabs: [{ path: `note-${ts}.md`, active: true, name: `note-${ts}` }] } },
+		popouts: [],
+	};
+}
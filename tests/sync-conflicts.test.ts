@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { conflictCopyUid } from '../src/storage/sync-conflicts';
+
+describe('conflictCopyUid', () => {
+	it('recognizes conflict copies from common sync tools', () => {
+		expect(conflictCopyUid('a1b2-c3 (conflict 2026-10-01).json')).toBe('a1b2-c3');
+		expect(conflictCopyUid('a1b2-c3 (Conflict 2026-10-01 123456).json')).toBe('a1b2-c3');
+		expect(conflictCopyUid('a1b2-c3.sync-conflict-20261001-123456-ABCDEF7.json')).toBe('a1b2-c3');
+		expect(conflictCopyUid("a1b2-c3 (Jane's conflicted copy 2026-10-01).json")).toBe('a1b2-c3');
+	});
+
+	it('ignores ordinary context files', () => {
+		expect(conflictCopyUid('a1b2-c3.json')).toBeNull();
+		expect(conflictCopyUid('_workspaces.json')).toBeNull();
+		expect(conflictCopyUid('a1b2-c3.json.tmp')).toBeNull();
+	});
+});
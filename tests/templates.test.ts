@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+	createTemplateSlots,
+	fillTemplate,
+	LayoutTemplate,
+	renumberSlots,
+	TemplateContext,
+	templateTabs,
+	toTemplateArrangement,
+} from '../src/services/templates';
+import { WindowArrangementV2 } from '../src/types';
+
+// Editor left, two stacked references right, outline popout
+function captured(): WindowArrangementV2 {
+	return {
+		v: 2,
+		ts: 1,
+		main: {
+			root: {
+				type: 'split',
+				direction: 'vertical',
+				children: [
+					{ type: 'tabs', tabs: [{ path: 'project.md', name: 'project', uid: 'u1', active: true, scroll: 120 }] },
+					{
+						type: 'split',
+						direction: 'horizontal',
+						children: [
+							{ type: 'tabs', tabs: [{ path: 'spec.md', name: 'spec', active: true }] },
+							{ type: 'tabs', tabs: [{ path: 'daily/2024-01-01.md', name: '2024-01-01', active: true, pinned: true }] },
+						],
+					},
+				],
+			},
+		},
+		popouts: [
+			{ root: { type: 'tabs', tabs: [{ path: '', active: true, viewType: 'outline', viewState: { file: 'project.md' } }] } },
+		],
+		focusedWindow: -1,
+		wallpaper: '/tmp/wall.png',
+	};
+}
+
+const capturedCtx: TemplateContext = {
+	activePath: 'project.md',
+	linkedPaths: ['spec.md'],
+	backlinkPaths: ['daily/2024-01-01.md'],
+};
+
+function template(): LayoutTemplate {
+	const arr = captured();
+	return {
+		id: 't1',
+		name: 'Research',
+		savedAt: 1,
+		arrangement: toTemplateArrangement(arr),
+		slots: createTemplateSlots(arr, capturedCtx),
+	};
+}
+
+describe('createTemplateSlots', () => {
+	it('infers the active note, links, backlinks and linked views', () => {
+		expect(createTemplateSlots(captured(), capturedCtx)).toEqual([
+			{ kind: 'active' },
+			{ kind: 'linked', index: 0 },
+			{ kind: 'backlink', index: 0 },
+			{ kind: 'view', followsActive: true },
+		]);
+	});
+
+	it('falls back to fixed files when there is no active note', () => {
+		const slots = createTemplateSlots(captured(), { activePath: '', linkedPaths: [], backlinkPaths: [] });
+		expect(slots[0]).toEqual({ kind: 'file', path: 'project.md' });
+		expect(slots[3]).toEqual({ kind: 'view', followsActive: false });
+	});
+});
+
+describe('renumberSlots', () => {
+	it('numbers linked and backlink slots per kind in tab order', () => {
+		expect(renumberSlots([
+			{ kind: 'linked', index: 4 },
+			{ kind: 'backlink', index: 2 },
+			{ kind: 'linked', index: 0 },
+		])).toEqual([
+			{ kind: 'linked', index: 0 },
+			{ kind: 'backlink', index: 0 },
+			{ kind: 'linked', index: 1 },
+		]);
+	});
+});
+
+describe('toTemplateArrangement', () => {
+	it('strips file state but keeps layout state and views', () => {
+		const arr = toTemplateArrangement(captured());
+		const tabs = templateTabs(arr);
+		expect(tabs[0]).toEqual({ path: '', active: true });
+		expect(tabs[2]).toEqual({ path: '', active: true, pinned: true });
+		expect(tabs[3].viewType).toBe('outline');
+		expect(arr.wallpaper).toBeUndefined();
+	});
+});
+
+describe('fillTemplate', () => {
+	it('fills slots for another note and re-links views to it', () => {
+		const filled = fillTemplate(template(), {
+			activePath: 'other.md',
+			linkedPaths: ['ref/a.md', 'ref/b.md'],
+			backlinkPaths: ['index.md'],
+		});
+		const tabs = templateTabs(filled);
+		expect(tabs.map(t => t.path)).toEqual(['other.md', 'ref/a.md', 'index.md', '']);
+		expect(tabs[1].name).toBe('a');
+		expect(tabs[2].pinned).toBe(true);
+		expect(tabs[3].viewState).toEqual({ file: 'other.md' });
+	});
+
+	it('turns slots without a matching file into empty tabs', () => {
+		const tabs = templateTabs(fillTemplate(template(), { activePath: 'lonely.md', linkedPaths: [], backlinkPaths: [] }));
+		expect(tabs[1]).toEqual({ path: '', active: true, viewType: 'empty' });
+		expect(tabs[2]).toEqual({ path: '', active: true, viewType: 'empty', pinned: true });
+	});
+
+	it('keeps the split structure of the template', () => {
+		const filled = fillTemplate(template(), capturedCtx);
+		const root = filled.main.root;
+		if (root.type !== 'split') throw new Error('expected split');
+		expect(root.children).toHaveLength(2);
+		expect(filled.popouts).toHaveLength(1);
+	});
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { App } from 'obsidian';
+import { UndoSnapshotStore } from '../src/storage/undo-store';
+import { WindowArrangementV2 } from '../src/types';
+import { makeMockApp, manifest } from './stubs/vault';
+
+const FILE = 'plugin/undo-snapshots.json';
+
+function snapshot(ts: number) {
+	const arrangement: WindowArrangementV2 = {
+		v: 2,
+		ts,
+		main: { root: { type: 'tabs', tabs: [{ path: `note-${ts}.md`, active: true }] } },
+		popouts: [],
+		focusedWindow: -1,
+	};
+	return { arrangement, takenAt: ts };
+}
+
+describe('UndoSnapshotStore', () => {
+	it('pops the newest snapshot first and drops the oldest when full', async () => {
+		const store = new UndoSnapshotStore({ app: makeMockApp() as unknown as App, manifest, capacity: 2 });
+		await store.push(snapshot(1));
+		await store.push(snapshot(2));
+		await store.push(snapshot(3));
+
+		expect(store.size).toBe(2);
+		expect((await store.pop())?.takenAt).toBe(3);
+		expect((await store.pop())?.takenAt).toBe(2);
+		expect(await store.pop()).toBeNull();
+	});
+
+	it('peeks at the newest snapshot without removing it', async () => {
+		const files: Record<string, string> = {};
+		const store = new UndoSnapshotStore({ app: makeMockApp(files) as unknown as App, manifest, capacity: 5 });
+		expect(store.peek()).toBeNull();
+		await store.push(snapshot(1));
+		const persisted = files[FILE];
+
+		expect(store.peek()?.takenAt).toBe(1);
+		expect(store.size).toBe(1);
+		expect(files[FILE]).toBe(persisted);
+	});
+
+	it('persists snapshots so they survive a reload', async () => {
+		const files: Record<string, string> = {};
+		const first = new UndoSnapshotStore({ app: makeMockApp(files) as unknown as App, manifest, capacity: 5 });
+		await first.push(snapshot(1));
+		await first.push(snapshot(2));
+
+		const second = new UndoSnapshotStore({ app: makeMockApp(files) as unknown as App, manifest, capacity: 5 });
+		await second.load();
+		expect(second.size).toBe(2);
+		expect((await second.pop())?.arrangement.ts).toBe(2);
+	});
+
+	it('ignores a malformed file', async () => {
+		const store = new UndoSnapshotStore({ app: makeMockApp({ [FILE]: '{"v":1,' }) as unknown as App, manifest, capacity: 5 });
+		await store.load();
+		expect(store.size).toBe(0);
+	});
+
+	it('keeps nothing when capacity is 0 and trims when capacity shrinks', async () => {
+		const disabled = new UndoSnapshotStore({ app: makeMockApp() as unknown as App, manifest, capacity: 0 });
+		await disabled.push(snapshot(1));
+		expect(disabled.size).toBe(0);
+
+		const store = new UndoSnapshotStore({ app: makeMockApp() as unknown as App, manifest, capacity: 3 });
+		await store.push(snapshot(1));
+		await store.push(snapshot(2));
+		await store.push(snapshot(3));
+		await store.setCapacity(1);
+		expect(store.size).toBe(1);
+		expect((await store.pop())?.takenAt).toBe(3);
+	});
+});